@@ -0,0 +1,88 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { AuditReport, Finding } from "../core/types.js";
+import { parseFigmaUrl } from "../figma/url.js";
+
+export interface BaselineResult {
+  findings: Finding[];
+  fixedFindings: Finding[];
+}
+
+export async function loadBaselineReport(
+  baselinePath: string,
+): Promise<{ source: string; report: AuditReport }> {
+  const source = resolve(baselinePath);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(source, "utf8"));
+  } catch (error) {
+    throw new Error(`Unable to read baseline report ${source}: ${(error as Error).message}`);
+  }
+
+  const candidate = parsed as Partial<AuditReport> | null;
+  if (
+    !candidate ||
+    typeof candidate !== "object" ||
+    !Array.isArray(candidate.findings) ||
+    candidate.findings.some((finding) => typeof finding?.id !== "string")
+  ) {
+    throw new Error(
+      `Baseline report ${source} is not an aa-auditor JSON report (findings[].id missing).`,
+    );
+  }
+
+  return { source, report: candidate as AuditReport };
+}
+
+export function applyBaseline(
+  findings: Finding[],
+  baseline: AuditReport,
+  auditedUrls: string[],
+): BaselineResult {
+  const baselineIds = new Set(baseline.findings.flatMap(occurrenceIds));
+  const currentIds = new Set(findings.flatMap(occurrenceIds));
+  const audited = new Set(auditedUrls.map(targetKey));
+
+  const tagged = findings.map((finding) => ({
+    ...finding,
+    baselineStatus: occurrenceIds(finding).some((id) => baselineIds.has(id))
+      ? ("existing" as const)
+      : ("new" as const),
+  }));
+
+  // Only targets that were audited in this run can have fixed findings; a target that was
+  // skipped or failed to fetch says nothing about whether its old findings are resolved.
+  const fixedFindings = baseline.findings
+    .filter(
+      (finding) =>
+        !occurrenceIds(finding).some((id) => currentIds.has(id)) &&
+        audited.has(targetKey(finding.targetRef.figmaUrl)),
+    )
+    .map((finding) => ({
+      ...finding,
+      baselineStatus: "fixed" as const,
+    }));
+
+  return {
+    findings: tagged,
+    fixedFindings,
+  };
+}
+
+// Targets are matched on file key and node, so share links, `/file/` vs `/design/` paths and
+// extra query parameters still refer to the same audited target.
+function targetKey(figmaUrl: string): string {
+  try {
+    const parsed = parseFigmaUrl(figmaUrl);
+    return `${parsed.fileKey ?? ""}|${parsed.nodeId}`;
+  } catch {
+    return figmaUrl;
+  }
+}
+
+// Grouped findings match the baseline through any of their occurrences, so grouping
+// (or ungrouping) repeated instances does not turn existing findings into new ones.
+function occurrenceIds(finding: Finding): string[] {
+  return [finding.id, ...(finding.occurrences ?? []).map((occurrence) => occurrence.id)];
+}
@@ -2,16 +2,34 @@
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { resolve } from "node:path";
 import { randomUUID } from "node:crypto";
+import { loadBaselineReport } from "./baseline/compare.js";
 import { loadConfig } from "./config/load.js";
 import { createDefaultConfigYaml } from "./config/schema.js";
 import { TerminalProgressRenderer } from "./cli/progress.js";
 import { runAudit } from "./core/auditRunner.js";
 import { RULE_CATALOG } from "./core/ruleCatalog.js";
-import type { ReportFormat, Severity } from "./core/types.js";
+import type {
+  AuditTargetInput,
+  FigmaClient,
+  ReportFileFormat,
+  ReportFormat,
+  Severity,
+} from "./core/types.js";
 import {
   createFigmaClientFromEnv,
+  resolveMcpCacheDirFromEnv,
   runFigmaMcpHealthCheck,
 } from "./figma/mcpClient.js";
+import { resolveLibraryComponentTargets } from "./figma/library-components.js";
+import { resolvePageFrameTargets } from "./figma/page-frames.js";
+import { McpResponseCache } from "./figma/response-cache.js";
+import {
+  listSnapshotTargets,
+  RecordingFigmaClient,
+  SnapshotFigmaClient,
+} from "./figma/snapshot.js";
+import { parseFigmaFileUrl } from "./figma/url.js";
+import { loadVariableModesFile } from "./figma/variable-modes.js";
 
 const APP_VERSION = resolveAppVersion();
 
@@ -49,6 +67,11 @@ async function main(): Promise<void> {
       return;
     }
 
+    if (command === "cache" && process.argv[3] === "clear") {
+      await runCacheClearCommand(process.argv.slice(4));
+      return;
+    }
+
     if (command === "config" && process.argv[3] === "init") {
       runConfigInitCommand(process.argv.slice(4));
       return;
@@ -67,21 +90,33 @@ async function runAuditCommand(args: string[]): Promise<void> {
 
   const { config, source } = loadConfig(parsed.configPath);
 
-  const reportFormat =
-    parsed.format ?? inferReportFormatFromConfig(config.report.formats);
+  const reportFormat = parsed.format ?? config.report.formats;
 
   const failOn = parsed.failOn ?? config.failOn;
 
-  const figmaClient = createFigmaClientFromEnv();
+  const baseline = parsed.baselinePath
+    ? await loadBaselineReport(parsed.baselinePath)
+    : undefined;
+
+  const variableModes = config.variableModes.definitionsFile
+    ? await loadVariableModesFile(config.variableModes.definitionsFile)
+    : undefined;
+
+  const figmaClient = createAuditFigmaClient(parsed);
+  const targets = await resolveAuditTargets(parsed, figmaClient);
   const progress = new TerminalProgressRenderer(Boolean(process.stdout.isTTY));
 
   const result = await runAudit(
     {
-      targets: parsed.urls.map((figmaUrl) => ({ figmaUrl })),
+      targets,
       outDir: resolve(parsed.outDir),
       config,
       reportFormat,
       failOn,
+      baseline,
+      newFindingsOnly: parsed.newFindingsOnly,
+      concurrency: parsed.concurrency,
+      variableModes,
     },
     {
       figmaClient,
@@ -94,17 +129,60 @@ async function runAuditCommand(args: string[]): Promise<void> {
   });
 
   console.log(`Config source: ${source}`);
+  if (parsed.fromSnapshotDir) {
+    console.log(`Snapshot source: ${resolve(parsed.fromSnapshotDir)}`);
+  }
+  if (parsed.pageUrls.length > 0) {
+    console.log(`Page frames audited: ${targets.length}`);
+  }
+  if (result.report.componentScorecard) {
+    const components = result.report.componentScorecard.components;
+    console.log(
+      `Components audited: ${components.reduce(
+        (total, component) => total + component.variants.length,
+        0,
+      )} variants across ${components.length} components.`,
+    );
+  }
+  if (parsed.recordDir) {
+    console.log(`Recorded snapshots: ${resolve(parsed.recordDir)}`);
+  }
+  if (result.report.baseline) {
+    console.log(`Baseline report: ${result.report.baseline.source}`);
+  }
   if (result.jsonPath) {
     console.log(`JSON report: ${result.jsonPath}`);
   }
   if (result.htmlPath) {
     console.log(`HTML report: ${result.htmlPath}`);
   }
+  if (result.sarifPath) {
+    console.log(`SARIF report: ${result.sarifPath}`);
+  }
+  if (result.junitPath) {
+    console.log(`JUnit report: ${result.junitPath}`);
+  }
 
   console.log(
-    `Summary: ${result.report.summary.totalFindings} findings, ${result.report.summary.manualReviewFindings} manual-review items, ${result.report.summary.warnings.length} warnings.`,
+    `Summary: ${result.report.summary.totalFindings} findings, ${result.report.summary.manualReviewFindings} manual-review items, ${result.report.summary.exemptFindings} exempt (${result.report.summary.inactiveExemptFindings} inactive components), ${result.report.summary.warnings.length} warnings.`,
   );
 
+  if (result.report.summary.failuresByMode) {
+    const modes = Object.entries(result.report.summary.failuresByMode);
+    console.log(
+      `Failures by mode: ${modes.map(([mode, count]) => `${mode} ${count}`).join(", ")}.`,
+    );
+  }
+
+  if (result.report.summary.baseline) {
+    const delta = result.report.summary.baseline;
+    console.log(
+      `Baseline delta: ${delta.new} new, ${delta.existing} existing, ${delta.fixed} fixed${
+        parsed.newFindingsOnly ? " (gating on new findings only)" : ""
+      }.`,
+    );
+  }
+
   if (result.report.summary.warnings.length > 0) {
     console.warn("Warnings:");
     for (const warning of result.report.summary.warnings) {
@@ -119,6 +197,65 @@ async function runAuditCommand(args: string[]): Promise<void> {
   }
 }
 
+function createAuditFigmaClient(parsed: ReturnType<typeof parseAuditArgs>): FigmaClient {
+  if (parsed.fromSnapshotDir) {
+    return new SnapshotFigmaClient(resolve(parsed.fromSnapshotDir));
+  }
+
+  const client = createFigmaClientFromEnv({ cache: !parsed.noCache });
+  if (parsed.recordDir) {
+    return new RecordingFigmaClient(client, resolve(parsed.recordDir));
+  }
+
+  return client;
+}
+
+async function resolveAuditTargets(
+  parsed: ReturnType<typeof parseAuditArgs>,
+  figmaClient: FigmaClient,
+): Promise<AuditTargetInput[]> {
+  if (parsed.urls.length > 0 || parsed.pageUrls.length > 0 || parsed.componentUrls.length > 0) {
+    const targets: AuditTargetInput[] = parsed.urls.map((figmaUrl) => ({ figmaUrl }));
+    for (const pageUrl of parsed.pageUrls) {
+      targets.push(
+        ...(await resolvePageFrameTargets(figmaClient, pageUrl, {
+          include: parsed.include,
+          exclude: parsed.exclude,
+        })),
+      );
+    }
+    for (const libraryUrl of parsed.componentUrls) {
+      targets.push(
+        ...(await resolveLibraryComponentTargets(figmaClient, libraryUrl, {
+          include: parsed.include,
+          exclude: parsed.exclude,
+        })),
+      );
+    }
+
+    const seen = new Set<string>();
+    return targets.filter((target) => {
+      if (seen.has(target.figmaUrl)) {
+        return false;
+      }
+      seen.add(target.figmaUrl);
+      return true;
+    });
+  }
+
+  if (!parsed.fromSnapshotDir) {
+    throw new Error("At least one --url argument is required.");
+  }
+
+  const snapshotDir = resolve(parsed.fromSnapshotDir);
+  const targets = await listSnapshotTargets(snapshotDir);
+  if (targets.length === 0) {
+    throw new Error(`No recorded snapshots found in ${snapshotDir}.`);
+  }
+
+  return targets;
+}
+
 async function runHealthCommand(args: string[]): Promise<void> {
   const parsed = parseHealthArgs(args);
   const result = await runFigmaMcpHealthCheck(parsed.url);
@@ -143,11 +280,25 @@ async function runHealthCommand(args: string[]): Promise<void> {
 function runRulesListCommand(): void {
   for (const rule of RULE_CATALOG) {
     console.log(`${rule.id} [${rule.defaultSeverity}]`);
-    console.log(`  WCAG ${rule.wcagCriterion}: ${rule.title}`);
+    console.log(
+      rule.category === "best-practice"
+        ? `  Best practice: ${rule.title}`
+        : `  WCAG ${rule.wcagCriterion} (${rule.level}): ${rule.title}`,
+    );
     console.log(`  ${rule.description}`);
   }
 }
 
+async function runCacheClearCommand(args: string[]): Promise<void> {
+  if (args.length > 0) {
+    throw new Error(`Unknown cache clear option: ${args[0]}`);
+  }
+
+  const cache = new McpResponseCache(resolveMcpCacheDirFromEnv(), 0);
+  const removed = await cache.clear();
+  console.log(`Removed ${removed} cached MCP responses from ${cache.dir}`);
+}
+
 function runConfigInitCommand(args: string[]): void {
   let targetPath = ".aa-auditor.yml";
   let force = false;
@@ -181,22 +332,72 @@ function runConfigInitCommand(args: string[]): void {
 
 function parseAuditArgs(args: string[]): {
   urls: string[];
+  pageUrls: string[];
+  componentUrls: string[];
+  include: string[];
+  exclude: string[];
   outDir: string;
   configPath?: string;
-  format?: ReportFormat;
+  format?: ReportFormat | ReportFileFormat[];
   failOn?: Severity[];
+  recordDir?: string;
+  fromSnapshotDir?: string;
+  baselinePath?: string;
+  newFindingsOnly: boolean;
+  noCache: boolean;
+  concurrency?: number;
 } {
   const urls: string[] = [];
+  const pageUrls: string[] = [];
+  const componentUrls: string[] = [];
+  const include: string[] = [];
+  const exclude: string[] = [];
   let outDir: string | undefined;
   let configPath: string | undefined;
-  let format: ReportFormat | undefined;
+  let format: ReportFormat | ReportFileFormat[] | undefined;
   let failOn: Severity[] | undefined;
+  let recordDir: string | undefined;
+  let fromSnapshotDir: string | undefined;
+  let baselinePath: string | undefined;
+  let newFindingsOnly = false;
+  let noCache = false;
+  let concurrency: number | undefined;
 
   for (let i = 0; i < args.length; i += 1) {
     const token = args[i];
 
     if (token === "--url") {
-      urls.push(requireValue(args[i + 1], "--url"));
+      const url = requireValue(args[i + 1], "--url");
+      // A file URL without node-id audits every top-level frame on its first page.
+      if (isFileUrlWithoutNode(url)) {
+        pageUrls.push(url);
+      } else {
+        urls.push(url);
+      }
+      i += 1;
+      continue;
+    }
+
+    if (token === "--page") {
+      pageUrls.push(requireValue(args[i + 1], "--page"));
+      i += 1;
+      continue;
+    }
+
+    if (token === "--components") {
+      componentUrls.push(requireValue(args[i + 1], "--components"));
+      i += 1;
+      continue;
+    }
+
+    if (token === "--include") {
+      include.push(requireValue(args[i + 1], "--include"));
+      i += 1;
+      continue;
+    }
+
+    if (token === "--exclude") {
+      exclude.push(requireValue(args[i + 1], "--exclude"));
       i += 1;
       continue;
     }
@@ -214,11 +415,7 @@ function parseAuditArgs(args: string[]): {
     }
 
     if (token === "--format") {
-      const value = requireValue(args[i + 1], "--format");
-      if (value !== "json" && value !== "html" && value !== "both") {
-        throw new Error("--format must be one of: json, html, both.");
-      }
-      format = value;
+      format = parseReportFormat(requireValue(args[i + 1], "--format"));
       i += 1;
       continue;
     }
@@ -230,11 +427,78 @@ function parseAuditArgs(args: string[]): {
       continue;
     }
 
+    if (token === "--record") {
+      recordDir = requireValue(args[i + 1], "--record");
+      i += 1;
+      continue;
+    }
+
+    if (token === "--from-snapshot") {
+      fromSnapshotDir = requireValue(args[i + 1], "--from-snapshot");
+      i += 1;
+      continue;
+    }
+
+    if (token === "--baseline") {
+      baselinePath = requireValue(args[i + 1], "--baseline");
+      i += 1;
+      continue;
+    }
+
+    if (token === "--new-findings-only") {
+      newFindingsOnly = true;
+      continue;
+    }
+
+    if (token === "--no-cache") {
+      noCache = true;
+      continue;
+    }
+
+    if (token === "--concurrency") {
+      concurrency = parseConcurrency(requireValue(args[i + 1], "--concurrency"));
+      i += 1;
+      continue;
+    }
+
     throw new Error(`Unknown audit option: ${token}`);
   }
 
-  if (urls.length === 0) {
-    throw new Error("At least one --url argument is required.");
+  if (recordDir && fromSnapshotDir) {
+    throw new Error("--record and --from-snapshot cannot be combined.");
+  }
+
+  if (pageUrls.length > 0 && fromSnapshotDir) {
+    throw new Error("--page cannot be combined with --from-snapshot; pass recorded frame URLs with --url.");
+  }
+
+  if (componentUrls.length > 0 && fromSnapshotDir) {
+    throw new Error(
+      "--components cannot be combined with --from-snapshot; pass recorded variant URLs with --url.",
+    );
+  }
+
+  if (
+    (include.length > 0 || exclude.length > 0) &&
+    pageUrls.length === 0 &&
+    componentUrls.length === 0
+  ) {
+    throw new Error(
+      "--include/--exclude require --page, --components, or a file URL without node-id.",
+    );
+  }
+
+  if (newFindingsOnly && !baselinePath) {
+    throw new Error("--new-findings-only requires --baseline.");
+  }
+
+  if (
+    urls.length === 0 &&
+    pageUrls.length === 0 &&
+    componentUrls.length === 0 &&
+    !fromSnapshotDir
+  ) {
+    throw new Error("At least one --url, --page, or --components argument is required.");
   }
 
   if (!outDir) {
@@ -243,13 +507,39 @@ function parseAuditArgs(args: string[]): {
 
   return {
     urls,
+    pageUrls,
+    componentUrls,
+    include,
+    exclude,
     outDir,
     configPath,
     format,
     failOn,
+    recordDir,
+    fromSnapshotDir,
+    baselinePath,
+    newFindingsOnly,
+    noCache,
+    concurrency,
   };
 }
 
+function parseConcurrency(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--concurrency must be a positive integer, got: ${value}`);
+  }
+  return parsed;
+}
+
+function isFileUrlWithoutNode(url: string): boolean {
+  try {
+    return parseFigmaFileUrl(url).nodeId === undefined;
+  } catch {
+    return false;
+  }
+}
+
 function parseSeverityCsv(value: string): Severity[] {
   const entries = value
     .split(",")
@@ -293,17 +583,28 @@ function parseHealthArgs(args: string[]): {
   return { url };
 }
 
-function inferReportFormatFromConfig(
-  formats: Array<"json" | "html">,
-): ReportFormat {
-  const set = new Set(formats);
-  if (set.has("json") && set.has("html")) {
-    return "both";
+function parseReportFormat(value: string): ReportFormat | ReportFileFormat[] {
+  if (value === "both") {
+    return value;
   }
-  if (set.has("json")) {
-    return "json";
+
+  const valid: ReportFileFormat[] = ["json", "html", "sarif", "junit"];
+  const entries = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    throw new Error("--format must contain at least one format.");
   }
-  return "html";
+
+  for (const entry of entries) {
+    if (!valid.includes(entry as ReportFileFormat)) {
+      throw new Error(`--format must be one of: ${valid.join(", ")}, both (comma-separated).`);
+    }
+  }
+
+  return Array.from(new Set(entries as ReportFileFormat[]));
 }
 
 function requireValue(value: string | undefined, flagName: string): string {
@@ -382,9 +683,13 @@ function printUsage(): void {
   console.log(`aa-auditor
 
 Commands:
-  aa-auditor audit --url <figma_url> [--url ...] --out <dir> [--config <path>] [--format json|html|both] [--fail-on blocker,critical]
+  aa-auditor audit --url <figma_url> [--url ...] --out <dir> [--config <path>] [--format json|html|sarif|junit|both] [--fail-on blocker,critical] [--baseline <report.json> [--new-findings-only]] [--record <dir>] [--no-cache] [--concurrency <n>]
+  aa-auditor audit --page <figma_page_url> [--page ...] [--include <glob> ...] [--exclude <glob> ...] --out <dir> [--config <path>] [--format json|html|sarif|junit|both] [--fail-on blocker,critical] [--record <dir>] [--no-cache] [--concurrency <n>]
+  aa-auditor audit --components <figma_library_url> [--components ...] [--include <glob> ...] [--exclude <glob> ...] --out <dir> [--config <path>] [--format json|html|sarif|junit|both] [--fail-on blocker,critical] [--record <dir>] [--no-cache] [--concurrency <n>]
+  aa-auditor audit --from-snapshot <dir> [--url <figma_url> ...] --out <dir> [--config <path>] [--format json|html|sarif|junit|both] [--fail-on blocker,critical] [--baseline <report.json> [--new-findings-only]]
   aa-auditor health [--url <figma_url>]
   aa-auditor rules list
+  aa-auditor cache clear
   aa-auditor config init [--path <path>] [--force]
 
 Other:
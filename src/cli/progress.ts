@@ -25,7 +25,8 @@ export class TerminalProgressRenderer {
 
   private spinnerFrame = 0;
 
-  private activeStage: ActiveStage | undefined;
+  // Keyed by target index: with --concurrency several targets run stages at once.
+  private readonly activeStages = new Map<number, ActiveStage>();
 
   constructor(private readonly isTty: boolean) {}
 
@@ -35,22 +36,23 @@ export class TerminalProgressRenderer {
       this.writeLine(
         `=> [${event.targetIndex}/${event.totalTargets}] target ${event.figmaUrl}`,
       );
+      this.startSpinner();
       return;
     }
 
     if (event.type === "stage-start") {
-      this.activeStage = {
+      this.activeStages.set(event.targetIndex, {
         stage: event.stage,
         targetIndex: event.targetIndex,
         totalTargets: event.totalTargets,
         startedAt: Date.now(),
-      };
+      });
       this.startSpinner();
       return;
     }
 
     if (event.type === "stage-end") {
-      const startedAt = this.activeStage?.startedAt ?? Date.now();
+      const startedAt = this.activeStages.get(event.targetIndex)?.startedAt ?? Date.now();
       const elapsed = formatElapsed(Date.now() - startedAt);
       this.stopSpinner();
       const status = event.success === false ? "failed" : "done";
@@ -60,42 +62,51 @@ export class TerminalProgressRenderer {
           event.stage,
         )} ${status} in ${elapsed}${detail}`,
       );
-      this.activeStage = undefined;
+      this.activeStages.delete(event.targetIndex);
+      this.startSpinner();
       return;
     }
 
     if (event.type === "target-end") {
+      this.stopSpinner();
       const status = event.success === false ? "failed" : "completed";
       const detail = event.message ? ` (${event.message})` : "";
       this.writeLine(
         `=> [${event.targetIndex}/${event.totalTargets}] target ${status}${detail}`,
       );
+      this.startSpinner();
       return;
     }
   }
 
   close(): void {
+    this.activeStages.clear();
     this.stopSpinner();
   }
 
   private startSpinner(): void {
-    if (!this.isTty || !this.activeStage) {
+    this.stopSpinner();
+    if (!this.isTty || this.activeStages.size === 0) {
       return;
     }
 
-    this.stopSpinner();
     this.spinnerTimer = setInterval(() => {
-      if (!this.activeStage) {
+      if (this.activeStages.size === 0) {
         return;
       }
       const frame = SPINNER_FRAMES[this.spinnerFrame % SPINNER_FRAMES.length];
       this.spinnerFrame += 1;
-      const elapsed = formatElapsed(Date.now() - this.activeStage.startedAt);
-      process.stdout.write(
-        `\r=> [${this.activeStage.targetIndex}/${this.activeStage.totalTargets}] ${labelForStage(
-          this.activeStage.stage,
-        )} ${frame} ${elapsed}`,
-      );
+      const now = Date.now();
+      const status = Array.from(this.activeStages.values())
+        .sort((a, b) => a.targetIndex - b.targetIndex)
+        .map(
+          (active) =>
+            `[${active.targetIndex}/${active.totalTargets}] ${labelForStage(active.stage)} ${formatElapsed(
+              now - active.startedAt,
+            )}`,
+        )
+        .join(" | ");
+      process.stdout.write(`\r\x1b[2K=> ${frame} ${status}`);
     }, 125);
   }
 
@@ -104,7 +115,7 @@ export class TerminalProgressRenderer {
       clearInterval(this.spinnerTimer);
       this.spinnerTimer = undefined;
       if (this.isTty) {
-        process.stdout.write("\r");
+        process.stdout.write("\r\x1b[2K");
       }
     }
   }
@@ -1,14 +1,30 @@
 import { RULE_CATALOG } from "../core/ruleCatalog.js";
-import type { AppConfig, RuleConfig, Severity, Suppression } from "../core/types.js";
+import type {
+  AppConfig,
+  ConformanceLevel,
+  DisabledStateConfig,
+  ReadabilityConfig,
+  ReportFileFormat,
+  RuleConfig,
+  Severity,
+  Suppression,
+  VariableModesConfig,
+} from "../core/types.js";
+import { DEFAULT_DISABLED_NAME_PATTERNS } from "../normalize/model.js";
 import { isValidHexColor } from "../rules/recommend-color.js";
+import { DEFAULT_READABILITY_CONFIG } from "../rules/rule-readability.js";
 
 const VALID_SEVERITIES: Severity[] = ["blocker", "critical", "major", "minor"];
 
+const VALID_LEVELS: ConformanceLevel[] = ["AA", "AAA"];
+
+const VALID_REPORT_FORMATS: ReportFileFormat[] = ["json", "html", "sarif", "junit"];
+
 const DEFAULT_RULES: Record<string, RuleConfig> = Object.fromEntries(
   RULE_CATALOG.map((rule) => [
     rule.id,
     {
-      enabled: true,
+      enabled: rule.defaultEnabled ?? true,
       severity: rule.defaultSeverity,
     },
   ]),
@@ -25,6 +41,9 @@ export const DEFAULT_CONFIG: AppConfig = {
   rules: DEFAULT_RULES,
   suppressions: [],
   designSystemColors: {},
+  readability: { ...DEFAULT_READABILITY_CONFIG },
+  disabledStates: { namePatterns: [...DEFAULT_DISABLED_NAME_PATTERNS] },
+  variableModes: { enabled: true, modes: [] },
 };
 
 export function createDefaultConfigYaml(): string {
@@ -42,10 +61,21 @@ export function createDefaultConfigYaml(): string {
     "rules:",
     ...RULE_CATALOG.flatMap((rule) => [
       `  ${rule.id}:`,
-      "    enabled: true",
+      `    enabled: ${rule.defaultEnabled ?? true}`,
       `    severity: ${rule.defaultSeverity}`,
     ]),
     "designSystemColors: {}",
+    "readability:",
+    `  minFontSize: ${DEFAULT_READABILITY_CONFIG.minFontSize}`,
+    `  smallTextSize: ${DEFAULT_READABILITY_CONFIG.smallTextSize}`,
+    `  minSmallTextWeight: ${DEFAULT_READABILITY_CONFIG.minSmallTextWeight}`,
+    `  maxAllCapsLength: ${DEFAULT_READABILITY_CONFIG.maxAllCapsLength}`,
+    "disabledStates:",
+    "  namePatterns:",
+    ...DEFAULT_DISABLED_NAME_PATTERNS.map((pattern) => `    - ${JSON.stringify(pattern)}`),
+    "variableModes:",
+    "  enabled: true",
+    "  modes: []",
     "suppressions: []",
     "",
   ].join("\n");
@@ -62,8 +92,8 @@ export function validateAndNormalizeConfig(input: unknown): AppConfig {
   }
 
   const level = input.level ?? DEFAULT_CONFIG.level;
-  if (level !== "AA") {
-    throw new Error("level must be exactly \"AA\" for this MVP.");
+  if (!VALID_LEVELS.includes(level as ConformanceLevel)) {
+    throw new Error(`level must be one of: ${VALID_LEVELS.join(", ")}.`);
   }
 
   const failOn = normalizeSeverityList(input.failOn, "failOn", DEFAULT_CONFIG.failOn);
@@ -81,10 +111,13 @@ export function validateAndNormalizeConfig(input: unknown): AppConfig {
   const rules = normalizeRules(input.rules);
   const suppressions = normalizeSuppressions(input.suppressions);
   const designSystemColors = normalizeDesignSystemColors(input.designSystemColors);
+  const readability = normalizeReadability(input.readability);
+  const disabledStates = normalizeDisabledStates(input.disabledStates);
+  const variableModes = normalizeVariableModes(input.variableModes);
 
   return {
     wcagVersion,
-    level,
+    level: level as ConformanceLevel,
     failOn,
     report: {
       includeScreenshots,
@@ -93,9 +126,98 @@ export function validateAndNormalizeConfig(input: unknown): AppConfig {
     rules,
     suppressions,
     designSystemColors,
+    readability,
+    disabledStates,
+    variableModes,
+  };
+}
+
+function normalizeVariableModes(value: unknown): VariableModesConfig {
+  if (value === undefined) {
+    return { enabled: true, modes: [] };
+  }
+
+  if (!isObject(value)) {
+    throw new Error("variableModes must be an object.");
+  }
+
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    throw new Error("variableModes.enabled must be a boolean.");
+  }
+
+  if (value.modes !== undefined && !Array.isArray(value.modes)) {
+    throw new Error("variableModes.modes must be an array of mode names.");
+  }
+
+  return {
+    enabled: value.enabled ?? true,
+    modes: ((value.modes as unknown[] | undefined) ?? []).map((entry, index) =>
+      toStringField(entry, `variableModes.modes[${index}]`),
+    ),
+    definitionsFile:
+      value.definitionsFile === undefined
+        ? undefined
+        : toStringField(value.definitionsFile, "variableModes.definitionsFile"),
   };
 }
 
+function normalizeDisabledStates(value: unknown): DisabledStateConfig {
+  if (value === undefined) {
+    return { namePatterns: [...DEFAULT_DISABLED_NAME_PATTERNS] };
+  }
+
+  if (!isObject(value)) {
+    throw new Error("disabledStates must be an object.");
+  }
+
+  if (value.namePatterns === undefined) {
+    return { namePatterns: [...DEFAULT_DISABLED_NAME_PATTERNS] };
+  }
+  if (!Array.isArray(value.namePatterns)) {
+    throw new Error("disabledStates.namePatterns must be an array of regular expressions.");
+  }
+
+  const namePatterns = value.namePatterns.map((entry, index) => {
+    const pattern = toStringField(entry, `disabledStates.namePatterns[${index}]`);
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      throw new Error(
+        `disabledStates.namePatterns[${index}] is not a valid regular expression: ${
+          (error as Error).message
+        }`,
+      );
+    }
+    return pattern;
+  });
+
+  return { namePatterns };
+}
+
+function normalizeReadability(value: unknown): ReadabilityConfig {
+  if (value === undefined) {
+    return { ...DEFAULT_READABILITY_CONFIG };
+  }
+
+  if (!isObject(value)) {
+    throw new Error("readability must be an object.");
+  }
+
+  const out: ReadabilityConfig = { ...DEFAULT_READABILITY_CONFIG };
+  for (const key of Object.keys(DEFAULT_READABILITY_CONFIG) as Array<keyof ReadabilityConfig>) {
+    const raw = value[key];
+    if (raw === undefined) {
+      continue;
+    }
+    if (typeof raw !== "number" || !Number.isFinite(raw) || raw <= 0) {
+      throw new Error(`readability.${key} must be a positive number.`);
+    }
+    out[key] = raw;
+  }
+
+  return out;
+}
+
 function normalizeDesignSystemColors(value: unknown): Record<string, string> {
   if (value === undefined) {
     return {};
@@ -211,8 +333,8 @@ function normalizeSeverityList(
 
 function normalizeReportFormats(
   value: unknown,
-  fallback: Array<"json" | "html">,
-): Array<"json" | "html"> {
+  fallback: ReportFileFormat[],
+): ReportFileFormat[] {
   if (value === undefined) {
     return [...fallback];
   }
@@ -222,10 +344,12 @@ function normalizeReportFormats(
   }
 
   const formats = value.map((entry, idx) => {
-    if (entry !== "json" && entry !== "html") {
-      throw new Error(`report.formats[${idx}] must be \"json\" or \"html\".`);
+    if (!VALID_REPORT_FORMATS.includes(entry as ReportFileFormat)) {
+      throw new Error(
+        `report.formats[${idx}] must be one of: ${VALID_REPORT_FORMATS.join(", ")}.`,
+      );
     }
-    return entry;
+    return entry as ReportFileFormat;
   });
 
   return Array.from(new Set(formats));
@@ -1,28 +1,46 @@
-import { mkdir } from "node:fs/promises";
+import { mkdir, writeFile } from "node:fs/promises";
 import { join } from "node:path";
+import { applyBaseline } from "../baseline/compare.js";
 import { parseFigmaUrl } from "../figma/url.js";
+import { groupFindingsByRootCause } from "../grouping/rootCause.js";
 import { buildManualChecklist } from "../manual/checklist.js";
 import { normalizeTarget } from "../normalize/model.js";
+import { applyVariableMode, hasModeBindings } from "../normalize/modes.js";
 import { writeHtmlReport } from "../report/html.js";
 import { writeJsonReport } from "../report/json.js";
+import { writeJunitReport } from "../report/junit.js";
+import { writeSarifReport } from "../report/sarif.js";
+import { enhancedContrastRule } from "../rules/rule-contrast-enhanced.js";
+import { textContrastRule } from "../rules/rule-contrast-text.js";
 import { executeRules, RULES } from "../rules/index.js";
 import { shouldFailBuild, severitySortValue } from "../severity/policy.js";
 import { applySuppressions } from "../suppressions/apply.js";
+import { buildComponentScorecard } from "./scorecard.js";
+import { annotateScreenshot } from "./screenshot-annotator.js";
 import {
   createScreenshotBackgroundSampler,
   createScreenshotForegroundSampler,
+  createScreenshotGlyphSampler,
+  screenshotSamplingWarning,
 } from "./screenshot-sampler.js";
 import type {
+  AppConfig,
   AuditReport,
   AuditProgressEvent,
   AuditProgressStage,
   AuditRunDeps,
   AuditRunOptions,
+  AuditTargetInput,
   Finding,
   ManualCheck,
+  ReportFileFormat,
+  ReportFormat,
+  RuleDefinition,
+  RuleEvaluationContext,
   Severity,
   TargetResult,
   NormalizedTarget,
+  VariableModeSet,
 } from "./types.js";
 import { persistScreenshot } from "../figma/mcpClient.js";
 
@@ -31,6 +49,8 @@ export interface AuditRunResult {
   shouldFail: boolean;
   jsonPath?: string;
   htmlPath?: string;
+  sarifPath?: string;
+  junitPath?: string;
 }
 
 export async function runAudit(
@@ -42,152 +62,15 @@ export async function runAudit(
   emitProgress(deps, { type: "run-start", totalTargets });
   await mkdir(options.outDir, { recursive: true });
 
-  const targetResults: TargetResult[] = [];
-  const globalWarnings: string[] = [];
-
-  for (let index = 0; index < options.targets.length; index += 1) {
-    const target = options.targets[index];
-    const targetIndex = index + 1;
-    emitProgress(deps, {
-      type: "target-start",
-      totalTargets,
-      targetIndex,
-      figmaUrl: target.figmaUrl,
-    });
-
-    let currentStage: AuditProgressStage | undefined;
-    const startStage = (stage: AuditProgressStage): void => {
-      currentStage = stage;
-      emitProgress(deps, {
-        type: "stage-start",
-        totalTargets,
-        targetIndex,
-        figmaUrl: target.figmaUrl,
-        stage,
-      });
-    };
-    const endStage = (success = true, message?: string): void => {
-      if (!currentStage) {
-        return;
-      }
-      emitProgress(deps, {
-        type: "stage-end",
-        totalTargets,
-        targetIndex,
-        figmaUrl: target.figmaUrl,
-        stage: currentStage,
-        success,
-        message,
-      });
-      currentStage = undefined;
-    };
-
-    try {
-      startStage("fetch");
-      const payload = await deps.figmaClient.fetchTarget(target.figmaUrl);
-      endStage();
-
-      startStage("normalize");
-      const normalized = normalizeTarget(payload);
-      endStage();
-      const designSystemColors = {
-        ...(payload.designSystemColors ?? {}),
-        ...options.config.designSystemColors,
-      };
-      const sampleBackgroundColor = createScreenshotBackgroundSampler(
-        normalized,
-        payload.screenshot,
-      );
-      const sampleForegroundColor = createScreenshotForegroundSampler(
-        normalized,
-        payload.screenshot,
-      );
-
-      let screenshotPath: string | undefined;
-      if (options.config.report.includeScreenshots) {
-        startStage("screenshot");
-        screenshotPath = await persistScreenshot(
-          payload,
-          join(options.outDir, "assets"),
-        );
-        endStage();
-      }
-
-      const enabledRules = RULES.filter((rule) => {
-        const config = options.config.rules[rule.id];
-        return config ? config.enabled : true;
-      });
-
-      startStage("rules");
-      const rawFindings = executeRules(
-        {
-          target: normalized,
-          reportStartIso: startedAt,
-          designSystemColors,
-          sampleBackgroundColor,
-          sampleForegroundColor,
-        },
-        enabledRules,
-      );
-      endStage();
-
-      const severityAdjusted = rawFindings.map((finding) => {
-        const cfg = options.config.rules[finding.ruleId];
-        if (!cfg) {
-          return finding;
-        }
-
-        return {
-          ...finding,
-          severity: cfg.severity,
-        };
-      });
-
-      startStage("suppressions");
-      const suppressionResult = applySuppressions(
-        severityAdjusted,
-        options.config.suppressions,
-        deps.now(),
-      );
-      endStage();
-
-      startStage("manual-checklist");
-      const manualChecks = buildManualChecklist(normalized);
-      endStage();
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  const outcomes = await mapWithConcurrency(options.targets, concurrency, (target, index) =>
+    auditTarget(options, deps, startedAt, target, index + 1),
+  );
 
-      startStage("target-finalize");
-      targetResults.push({
-        figmaUrl: target.figmaUrl,
-        nodeId: normalized.nodeId,
-        frameName: normalized.frameName,
-        screenshotPath,
-        findings: sortFindings(suppressionResult.findings),
-        manualChecks,
-        warnings: [...normalized.warnings, ...suppressionResult.warnings],
-      });
-      endStage();
-      emitProgress(deps, {
-        type: "target-end",
-        totalTargets,
-        targetIndex,
-        figmaUrl: target.figmaUrl,
-        success: true,
-      });
-    } catch (error) {
-      endStage(false, (error as Error).message);
-      targetResults.push(
-        buildFetchFailureTargetResult(target.figmaUrl, (error as Error).message),
-      );
-      emitProgress(deps, {
-        type: "target-end",
-        totalTargets,
-        targetIndex,
-        figmaUrl: target.figmaUrl,
-        success: false,
-        message: (error as Error).message,
-      });
-    }
-  }
+  // Results are kept in input order so parallel runs produce the same report as sequential ones.
+  const targetResults = outcomes.map((outcome) => outcome.result);
+  const fixedFindings = outcomes.flatMap((outcome) => outcome.fixedFindings);
+  const globalWarnings: string[] = [];
 
   const findings = targetResults.flatMap((target) => target.findings);
   const manualChecks = targetResults.flatMap((target) => target.manualChecks);
@@ -207,7 +90,12 @@ export async function runAudit(
       manualReviewFindings: findings.filter(
         (finding) => finding.status === "needs-manual-review",
       ).length,
+      exemptFindings: findings.filter((finding) => finding.status === "exempt").length,
+      inactiveExemptFindings: findings.filter(
+        (finding) => finding.exemptReason === "inactive-component",
+      ).length,
       bySeverity,
+      failuresByMode: countFailuresByMode(targetResults),
       failedTargets: targetResults.filter((target) =>
         target.findings.some(
           (finding) => finding.status === "failed" && !finding.suppressed,
@@ -219,14 +107,37 @@ export async function runAudit(
           target.warnings.map((warning) => `${target.frameName}: ${warning}`),
         ),
       ],
+      baseline: options.baseline
+        ? {
+            new: findings.filter((finding) => finding.baselineStatus === "new").length,
+            existing: findings.filter((finding) => finding.baselineStatus === "existing")
+              .length,
+            fixed: fixedFindings.length,
+          }
+        : undefined,
     },
     targets: sortTargets(targetResults),
     findings: sortFindings(findings),
     manualChecks: sortManualChecks(manualChecks),
+    componentScorecard: buildComponentScorecard(
+      outcomes,
+      selectEnabledRules(options.config).map((rule) => rule.id),
+    ),
+    baseline: options.baseline
+      ? {
+          source: options.baseline.source,
+          runId: options.baseline.report.runId,
+          fixedFindings: sortFindings(fixedFindings),
+        }
+      : undefined,
   };
+  const gateOptions = { newFindingsOnly: options.newFindingsOnly };
 
+  const reportFormats = expandReportFormats(options.reportFormat);
   let jsonPath: string | undefined;
   let htmlPath: string | undefined;
+  let sarifPath: string | undefined;
+  let junitPath: string | undefined;
   emitProgress(deps, {
     type: "stage-start",
     totalTargets,
@@ -235,13 +146,26 @@ export async function runAudit(
     stage: "report",
   });
 
-  if (options.reportFormat === "json" || options.reportFormat === "both") {
+  if (reportFormats.has("json")) {
     jsonPath = await writeJsonReport(options.outDir, report);
   }
 
-  if (options.reportFormat === "html" || options.reportFormat === "both") {
+  if (reportFormats.has("html")) {
     htmlPath = await writeHtmlReport(options.outDir, report);
   }
+
+  if (reportFormats.has("sarif")) {
+    sarifPath = await writeSarifReport(options.outDir, report);
+  }
+
+  if (reportFormats.has("junit")) {
+    junitPath = await writeJunitReport(
+      options.outDir,
+      report,
+      options.failOn,
+      gateOptions,
+    );
+  }
   emitProgress(deps, {
     type: "stage-end",
     totalTargets,
@@ -254,12 +178,339 @@ export async function runAudit(
 
   return {
     report,
-    shouldFail: shouldFailBuild(report.findings, options.failOn),
+    shouldFail: shouldFailBuild(report.findings, options.failOn, gateOptions),
     jsonPath,
     htmlPath,
+    sarifPath,
+    junitPath,
   };
 }
 
+interface TargetOutcome {
+  result: TargetResult;
+  fixedFindings: Finding[];
+  error?: string;
+}
+
+async function auditTarget(
+  options: AuditRunOptions,
+  deps: AuditRunDeps,
+  startedAt: string,
+  target: AuditTargetInput,
+  targetIndex: number,
+): Promise<TargetOutcome> {
+  const totalTargets = options.targets.length;
+  let fixedFindings: Finding[] = [];
+  emitProgress(deps, {
+    type: "target-start",
+    totalTargets,
+    targetIndex,
+    figmaUrl: target.figmaUrl,
+  });
+
+  let currentStage: AuditProgressStage | undefined;
+  const startStage = (stage: AuditProgressStage): void => {
+    currentStage = stage;
+    emitProgress(deps, {
+      type: "stage-start",
+      totalTargets,
+      targetIndex,
+      figmaUrl: target.figmaUrl,
+      stage,
+    });
+  };
+  const endStage = (success = true, message?: string): void => {
+    if (!currentStage) {
+      return;
+    }
+    emitProgress(deps, {
+      type: "stage-end",
+      totalTargets,
+      targetIndex,
+      figmaUrl: target.figmaUrl,
+      stage: currentStage,
+      success,
+      message,
+    });
+    currentStage = undefined;
+  };
+
+  try {
+    startStage("fetch");
+    const payload = await deps.figmaClient.fetchTarget(target.figmaUrl);
+    endStage();
+
+    const modeSet = options.variableModes ?? payload.variableModes;
+
+    startStage("normalize");
+    const normalized = normalizeTarget(payload, {
+      disabledNamePatterns: options.config.disabledStates.namePatterns,
+      variableModes: modeSet,
+    });
+    endStage();
+    const designSystemColors = {
+      ...(payload.designSystemColors ?? {}),
+      ...options.config.designSystemColors,
+    };
+    const sampleBackgroundColor = createScreenshotBackgroundSampler(
+      normalized,
+      payload.screenshot,
+    );
+    const sampleForegroundColor = createScreenshotForegroundSampler(
+      normalized,
+      payload.screenshot,
+    );
+    const sampleGlyphColors = createScreenshotGlyphSampler(normalized, payload.screenshot);
+    const samplingWarning = screenshotSamplingWarning(payload.screenshot);
+
+    let screenshotPath: string | undefined;
+    if (options.config.report.includeScreenshots) {
+      startStage("screenshot");
+      screenshotPath = await persistScreenshot(
+        payload,
+        join(options.outDir, "assets"),
+      );
+      endStage();
+    }
+
+    const enabledRules = selectEnabledRules(options.config);
+
+    const modes =
+      options.config.variableModes.enabled && modeSet && hasModeBindings(normalized, modeSet)
+        ? selectModes(modeSet, options.config.variableModes.modes)
+        : [];
+
+    startStage("rules");
+    const ruleContext = {
+      target: normalized,
+      reportStartIso: startedAt,
+      level: options.config.level,
+      readability: options.config.readability,
+      designSystemColors,
+      sampleBackgroundColor,
+      sampleForegroundColor,
+      sampleGlyphColors,
+    };
+    const rawFindings =
+      modes.length > 0 && modeSet
+        ? executeRulesPerMode(ruleContext, enabledRules, modeSet, modes)
+        : executeRules(ruleContext, enabledRules);
+    endStage();
+
+    const severityAdjusted = rawFindings.map((finding) => {
+      const cfg = options.config.rules[finding.ruleId];
+      // Exempt findings are informational and keep their own (minor) severity.
+      if (!cfg || finding.status === "exempt") {
+        return finding;
+      }
+
+      return {
+        ...finding,
+        severity: cfg.severity,
+      };
+    });
+
+    startStage("suppressions");
+    const suppressionResult = applySuppressions(
+      severityAdjusted,
+      options.config.suppressions,
+      deps.now(),
+    );
+    endStage();
+
+    let targetFindings = groupFindingsByRootCause(suppressionResult.findings, normalized);
+    if (options.baseline) {
+      const baselineResult = applyBaseline(
+        targetFindings,
+        options.baseline.report,
+        [target.figmaUrl],
+      );
+      targetFindings = baselineResult.findings;
+      fixedFindings = baselineResult.fixedFindings;
+    }
+
+    startStage("manual-checklist");
+    const manualChecks = buildManualChecklist(normalized);
+    endStage();
+
+    startStage("target-finalize");
+    let findings = sortFindings(targetFindings);
+    let annotatedScreenshotPath: string | undefined;
+    const annotated =
+      screenshotPath && payload.screenshot?.bytes
+        ? annotateScreenshot(normalized, payload.screenshot, findings)
+        : undefined;
+    if (screenshotPath && annotated && annotated.markers.size > 0) {
+      annotatedScreenshotPath = screenshotPath.replace(/\.[^./\\]+$/, "") + "-annotated.png";
+      await writeFile(annotatedScreenshotPath, annotated.bytes);
+      findings = findings.map((finding) =>
+        annotated.markers.has(finding.id)
+          ? { ...finding, screenshotMarker: annotated.markers.get(finding.id) }
+          : finding,
+      );
+    }
+    const result: TargetResult = {
+      figmaUrl: target.figmaUrl,
+      nodeId: normalized.nodeId,
+      frameName: normalized.frameName,
+      component: target.component,
+      modes: modes.length > 0 ? modes : undefined,
+      screenshotPath,
+      annotatedScreenshotPath,
+      findings,
+      manualChecks,
+      warnings: [
+        ...normalized.warnings,
+        ...(samplingWarning ? [samplingWarning] : []),
+        ...suppressionResult.warnings,
+      ],
+    };
+    endStage();
+    emitProgress(deps, {
+      type: "target-end",
+      totalTargets,
+      targetIndex,
+      figmaUrl: target.figmaUrl,
+      success: true,
+    });
+    return { result, fixedFindings };
+  } catch (error) {
+    endStage(false, (error as Error).message);
+    emitProgress(deps, {
+      type: "target-end",
+      totalTargets,
+      targetIndex,
+      figmaUrl: target.figmaUrl,
+      success: false,
+      message: (error as Error).message,
+    });
+    return {
+      result: {
+        ...buildFetchFailureTargetResult(target.figmaUrl, (error as Error).message),
+        component: target.component,
+      },
+      fixedFindings: [],
+      error: (error as Error).message,
+    };
+  }
+}
+
+// The screenshot shows the file's default mode, so pixel samplers only apply to that run,
+// and only when it is among the selected modes.
+function executeRulesPerMode(
+  ctx: RuleEvaluationContext,
+  enabledRules: RuleDefinition[],
+  modeSet: VariableModeSet,
+  modes: string[],
+): Finding[] {
+  const findings = executeRules(
+    ctx,
+    enabledRules.filter((rule) => !rule.modeAware),
+  );
+  const modeAwareRules = enabledRules.filter((rule) => rule.modeAware);
+  const byId = new Map<string, Finding>();
+
+  for (const mode of modes) {
+    const isDefaultMode = mode === modeSet.defaultMode;
+    const modeFindings = executeRules(
+      {
+        ...ctx,
+        target: applyVariableMode(ctx.target, modeSet, mode),
+        sampleBackgroundColor: isDefaultMode ? ctx.sampleBackgroundColor : undefined,
+        sampleForegroundColor: isDefaultMode ? ctx.sampleForegroundColor : undefined,
+        sampleGlyphColors: isDefaultMode ? ctx.sampleGlyphColors : undefined,
+      },
+      modeAwareRules,
+    );
+    for (const finding of modeFindings) {
+      const existing = byId.get(finding.id);
+      if (existing) {
+        existing.modes?.push(mode);
+      } else {
+        byId.set(finding.id, { ...finding, modes: [mode] });
+      }
+    }
+  }
+
+  return [...findings, ...byId.values()];
+}
+
+function countFailuresByMode(targets: TargetResult[]): Record<string, number> | undefined {
+  const counts: Record<string, number> = {};
+  for (const target of targets) {
+    for (const mode of target.modes ?? []) {
+      counts[mode] ??= 0;
+    }
+    for (const finding of target.findings) {
+      if (finding.status !== "failed" || finding.suppressed) {
+        continue;
+      }
+      for (const mode of finding.modes ?? []) {
+        counts[mode] = (counts[mode] ?? 0) + 1;
+      }
+    }
+  }
+  return Object.keys(counts).length > 0 ? counts : undefined;
+}
+
+function selectModes(modeSet: VariableModeSet, requested: string[]): string[] {
+  if (requested.length === 0) {
+    return modeSet.modes;
+  }
+  const wanted = new Set(requested.map((mode) => mode.toLowerCase()));
+  return modeSet.modes.filter((mode) => wanted.has(mode.toLowerCase()));
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, () => runWorker()),
+  );
+  return results;
+}
+
+// At AAA, 1.4.6 replaces 1.4.3 on the same text nodes so one low-contrast label is not
+// reported (and gated) twice; any text failing 1.4.3 also fails 1.4.6.
+function selectEnabledRules(config: AppConfig): RuleDefinition[] {
+  const enabled = RULES.filter((rule) => {
+    if (rule.level === "AAA" && config.level !== "AAA") {
+      return false;
+    }
+    const ruleConfig = config.rules[rule.id];
+    return ruleConfig ? ruleConfig.enabled : true;
+  });
+  if (!enabled.includes(enhancedContrastRule)) {
+    return enabled;
+  }
+  return enabled.filter((rule) => rule !== textContrastRule);
+}
+
+function expandReportFormats(
+  format: ReportFormat | ReportFileFormat[],
+): Set<ReportFileFormat> {
+  if (Array.isArray(format)) {
+    return new Set(format);
+  }
+  if (format === "both") {
+    return new Set(["json", "html"]);
+  }
+  return new Set([format]);
+}
+
 function emitProgress(deps: AuditRunDeps, event: AuditProgressEvent): void {
   deps.onProgress?.(event);
 }
@@ -0,0 +1,131 @@
+import type { NormalizedColor } from "./types.js";
+
+type Rgb = [number, number, number];
+
+// Figma's default for groups and frames; composites like NORMAL once flattened.
+const NORMAL_BLEND_MODES = new Set(["NORMAL", "PASS_THROUGH"]);
+
+const SEPARABLE_BLENDS: Record<string, (backdrop: number, source: number) => number> = {
+  MULTIPLY: (cb, cs) => cb * cs,
+  SCREEN: (cb, cs) => cb + cs - cb * cs,
+  OVERLAY: (cb, cs) => hardLight(cs, cb),
+  DARKEN: (cb, cs) => Math.min(cb, cs),
+  LIGHTEN: (cb, cs) => Math.max(cb, cs),
+  COLOR_DODGE: (cb, cs) => (cb === 0 ? 0 : cs >= 1 ? 1 : Math.min(1, cb / (1 - cs))),
+  COLOR_BURN: (cb, cs) => (cb >= 1 ? 1 : cs <= 0 ? 0 : 1 - Math.min(1, (1 - cb) / cs)),
+  LINEAR_DODGE: (cb, cs) => Math.min(1, cb + cs),
+  LINEAR_BURN: (cb, cs) => Math.max(0, cb + cs - 1),
+  HARD_LIGHT: (cb, cs) => hardLight(cb, cs),
+  SOFT_LIGHT: (cb, cs) => softLight(cb, cs),
+  DIFFERENCE: (cb, cs) => Math.abs(cb - cs),
+  EXCLUSION: (cb, cs) => cb + cs - 2 * cb * cs,
+};
+
+const NON_SEPARABLE_BLENDS: Record<string, (backdrop: Rgb, source: Rgb) => Rgb> = {
+  HUE: (cb, cs) => setLum(setSat(cs, sat(cb)), lum(cb)),
+  SATURATION: (cb, cs) => setLum(setSat(cb, sat(cs)), lum(cb)),
+  COLOR: (cb, cs) => setLum(cs, lum(cb)),
+  LUMINOSITY: (cb, cs) => setLum(cb, lum(cs)),
+};
+
+export function normalizeBlendMode(value: string | undefined): string | undefined {
+  const mode = value?.toUpperCase();
+  if (!mode || NORMAL_BLEND_MODES.has(mode)) {
+    return undefined;
+  }
+  return mode in SEPARABLE_BLENDS || mode in NON_SEPARABLE_BLENDS ? mode : undefined;
+}
+
+export function withOpacity(color: NormalizedColor, opacity: number | undefined): NormalizedColor {
+  return opacity === undefined ? color : { ...color, a: color.a * opacity };
+}
+
+// W3C compositing: blend against the backdrop where it exists, then source-over.
+export function compositeOver(
+  source: NormalizedColor,
+  backdrop: NormalizedColor,
+  blendMode?: string,
+): NormalizedColor {
+  const as = clampUnit(source.a);
+  const ab = clampUnit(backdrop.a);
+  if (as <= 0) {
+    return backdrop;
+  }
+
+  const cs: Rgb = [source.r / 255, source.g / 255, source.b / 255];
+  const cb: Rgb = [backdrop.r / 255, backdrop.g / 255, backdrop.b / 255];
+  const blended = blend(cb, cs, blendMode);
+  const ao = as + ab * (1 - as);
+  const channel = (index: number) => {
+    const mixed = (1 - ab) * cs[index] + ab * blended[index];
+    return Math.round(((as * mixed + ab * (1 - as) * cb[index]) / ao) * 255);
+  };
+
+  return { r: channel(0), g: channel(1), b: channel(2), a: Math.round(ao * 1e6) / 1e6 };
+}
+
+function blend(cb: Rgb, cs: Rgb, blendMode: string | undefined): Rgb {
+  const mode = normalizeBlendMode(blendMode);
+  if (!mode) {
+    return cs;
+  }
+  const separable = SEPARABLE_BLENDS[mode];
+  if (separable) {
+    return [separable(cb[0], cs[0]), separable(cb[1], cs[1]), separable(cb[2], cs[2])];
+  }
+  return NON_SEPARABLE_BLENDS[mode](cb, cs);
+}
+
+function hardLight(cb: number, cs: number): number {
+  return cs <= 0.5 ? cb * 2 * cs : SEPARABLE_BLENDS.SCREEN(cb, 2 * cs - 1);
+}
+
+function softLight(cb: number, cs: number): number {
+  if (cs <= 0.5) {
+    return cb - (1 - 2 * cs) * cb * (1 - cb);
+  }
+  const d = cb <= 0.25 ? ((16 * cb - 12) * cb + 4) * cb : Math.sqrt(cb);
+  return cb + (2 * cs - 1) * (d - cb);
+}
+
+function lum([r, g, b]: Rgb): number {
+  return 0.3 * r + 0.59 * g + 0.11 * b;
+}
+
+function sat(color: Rgb): number {
+  return Math.max(...color) - Math.min(...color);
+}
+
+function setLum(color: Rgb, target: number): Rgb {
+  const delta = target - lum(color);
+  return clipColor([color[0] + delta, color[1] + delta, color[2] + delta]);
+}
+
+function clipColor(color: Rgb): Rgb {
+  const l = lum(color);
+  const min = Math.min(...color);
+  const max = Math.max(...color);
+  return color.map((channel) => {
+    let out = channel;
+    if (min < 0) {
+      out = l + ((out - l) * l) / (l - min);
+    }
+    if (max > 1) {
+      out = l + ((out - l) * (1 - l)) / (max - l);
+    }
+    return out;
+  }) as Rgb;
+}
+
+function setSat(color: Rgb, target: number): Rgb {
+  const max = Math.max(...color);
+  const min = Math.min(...color);
+  if (max === min) {
+    return [0, 0, 0];
+  }
+  return color.map((channel) => ((channel - min) * target) / (max - min)) as Rgb;
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
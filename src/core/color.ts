@@ -55,6 +55,13 @@ export function colorToString(color: NormalizedColor): string {
   return `rgba(${color.r}, ${color.g}, ${color.b}, ${Number(color.a.toFixed(2))})`;
 }
 
+export function colorToHex(color: NormalizedColor): string {
+  const channels = [color.r, color.g, color.b].map((channel) =>
+    Math.round(channel).toString(16).padStart(2, "0"),
+  );
+  return `#${channels.join("").toUpperCase()}`;
+}
+
 export function flattenAlpha(
   foreground: NormalizedColor,
   background: NormalizedColor,
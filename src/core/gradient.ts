@@ -0,0 +1,185 @@
+import type {
+  NormalizedBounds,
+  NormalizedColor,
+  NormalizedGradient,
+  NormalizedGradientStop,
+} from "./types.js";
+
+export interface GradientSample {
+  position: number;
+  color: NormalizedColor;
+  label: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Colors a gradient can show under the subject: the stops inside the covered range plus
+// the interpolated colors at both range edges.
+export function sampleGradientUnderBounds(
+  gradient: NormalizedGradient,
+  gradientBounds: NormalizedBounds | undefined,
+  subjectBounds: NormalizedBounds | undefined,
+): GradientSample[] {
+  const [start, end] = gradientRange(gradient, gradientBounds, subjectBounds);
+  const samples: GradientSample[] = [sampleAt(gradient.stops, start)];
+
+  gradient.stops.forEach((stop, index) => {
+    if (stop.position > start && stop.position < end) {
+      samples.push({
+        position: stop.position,
+        color: stop.color,
+        label: stopLabel(index, gradient.stops.length, stop.position),
+      });
+    }
+  });
+
+  if (end > start) {
+    samples.push(sampleAt(gradient.stops, end));
+  }
+  return samples;
+}
+
+function gradientRange(
+  gradient: NormalizedGradient,
+  gradientBounds: NormalizedBounds | undefined,
+  subjectBounds: NormalizedBounds | undefined,
+): [number, number] {
+  const handles = gradient.handles;
+  if (
+    !handles ||
+    handles.length < 2 ||
+    !gradientBounds ||
+    !subjectBounds ||
+    gradientBounds.width <= 0 ||
+    gradientBounds.height <= 0
+  ) {
+    return [0, 1];
+  }
+
+  // Subject corners in the gradient layer's unit square, where the handles live.
+  const corners = [
+    [subjectBounds.x, subjectBounds.y],
+    [subjectBounds.x + subjectBounds.width, subjectBounds.y],
+    [subjectBounds.x + subjectBounds.width, subjectBounds.y + subjectBounds.height],
+    [subjectBounds.x, subjectBounds.y + subjectBounds.height],
+  ].map(([x, y]) => ({
+    x: (x - gradientBounds.x) / gradientBounds.width,
+    y: (y - gradientBounds.y) / gradientBounds.height,
+  }));
+
+  if (gradient.kind === "linear") {
+    const axis = { x: handles[1].x - handles[0].x, y: handles[1].y - handles[0].y };
+    const lengthSquared = axis.x ** 2 + axis.y ** 2;
+    if (lengthSquared < 1e-9) {
+      return [0, 1];
+    }
+    const positions = corners.map(
+      (corner) =>
+        ((corner.x - handles[0].x) * axis.x + (corner.y - handles[0].y) * axis.y) /
+        lengthSquared,
+    );
+    return [clampUnit(Math.min(...positions)), clampUnit(Math.max(...positions))];
+  }
+
+  if (gradient.kind === "radial" && handles.length >= 3) {
+    const ellipse = corners.map((corner) => toEllipseSpace(corner, handles));
+    if (ellipse.some((point) => point === undefined)) {
+      return [0, 1];
+    }
+    const points = ellipse as Point[];
+    const far = Math.max(...points.map((point) => Math.hypot(point.x, point.y)));
+    const near = containsOrigin(points)
+      ? 0
+      : Math.min(
+          ...points.map((point, index) =>
+            distanceToSegment(point, points[(index + 1) % points.length]),
+          ),
+        );
+    return [clampUnit(near), clampUnit(far)];
+  }
+
+  // Angular and diamond gradients are evaluated across every stop.
+  return [0, 1];
+}
+
+function toEllipseSpace(point: Point, handles: Point[]): Point | undefined {
+  const u = { x: handles[1].x - handles[0].x, y: handles[1].y - handles[0].y };
+  const v = { x: handles[2].x - handles[0].x, y: handles[2].y - handles[0].y };
+  const det = u.x * v.y - u.y * v.x;
+  if (Math.abs(det) < 1e-9) {
+    return undefined;
+  }
+  const dx = point.x - handles[0].x;
+  const dy = point.y - handles[0].y;
+  return {
+    x: (dx * v.y - dy * v.x) / det,
+    y: (u.x * dy - u.y * dx) / det,
+  };
+}
+
+function containsOrigin(polygon: Point[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < polygon.length; i += 1) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = a.x * b.y - a.y * b.x;
+    if (Math.abs(cross) < 1e-12) {
+      continue;
+    }
+    if (sign === 0) {
+      sign = Math.sign(cross);
+    } else if (Math.sign(cross) !== sign) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function distanceToSegment(a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx ** 2 + dy ** 2;
+  const t = lengthSquared === 0 ? 0 : clampUnit(-(a.x * dx + a.y * dy) / lengthSquared);
+  return Math.hypot(a.x + t * dx, a.y + t * dy);
+}
+
+function sampleAt(stops: NormalizedGradientStop[], position: number): GradientSample {
+  const nextIndex = stops.findIndex((stop) => stop.position >= position);
+  if (nextIndex === -1 || nextIndex === 0 || stops[nextIndex].position === position) {
+    const index = nextIndex === -1 ? stops.length - 1 : nextIndex;
+    return {
+      position,
+      color: stops[index].color,
+      label: stopLabel(index, stops.length, stops[index].position),
+    };
+  }
+
+  const before = stops[nextIndex - 1];
+  const after = stops[nextIndex];
+  const t = (position - before.position) / (after.position - before.position);
+  return {
+    position,
+    color: {
+      r: Math.round(before.color.r + (after.color.r - before.color.r) * t),
+      g: Math.round(before.color.g + (after.color.g - before.color.g) * t),
+      b: Math.round(before.color.b + (after.color.b - before.color.b) * t),
+      a: before.color.a + (after.color.a - before.color.a) * t,
+    },
+    label: `${formatPercent(position)} between stops ${nextIndex} and ${nextIndex + 1}`,
+  };
+}
+
+function stopLabel(index: number, count: number, position: number): string {
+  return `stop ${index + 1}/${count} at ${formatPercent(position)}`;
+}
+
+function formatPercent(position: number): string {
+  return `${Number((position * 100).toFixed(1))}%`;
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -1,17 +1,31 @@
-import type { RuleDefinition } from "./types.js";
+import type { RuleCategory, RuleDefinition } from "./types.js";
 
 export const RULE_CATALOG: ReadonlyArray<Omit<RuleDefinition, "evaluate">> = [
   {
     id: "WCAG-1.4.3-text-contrast-minimum",
     wcagCriterion: "1.4.3",
+    category: "wcag",
+    level: "AA",
     title: "Text contrast minimum",
     description:
       "Text and images of text must meet contrast ratio thresholds of 4.5:1 (normal text) or 3:1 (large text).",
     defaultSeverity: "critical",
   },
+  {
+    id: "WCAG-1.4.6-contrast-enhanced",
+    wcagCriterion: "1.4.6",
+    category: "wcag",
+    level: "AAA",
+    title: "Text contrast enhanced",
+    description:
+      "At level AAA, text must meet contrast ratio thresholds of 7:1 (normal text) or 4.5:1 (large text).",
+    defaultSeverity: "critical",
+  },
   {
     id: "WCAG-1.4.11-nontext-contrast",
     wcagCriterion: "1.4.11",
+    category: "wcag",
+    level: "AA",
     title: "Non-text contrast",
     description:
       "Visual information needed to identify UI components and states should have contrast ratio at least 3:1.",
@@ -20,13 +34,70 @@ export const RULE_CATALOG: ReadonlyArray<Omit<RuleDefinition, "evaluate">> = [
   {
     id: "WCAG-2.5.8-target-size-minimum",
     wcagCriterion: "2.5.8",
+    category: "wcag",
+    level: "AA",
     title: "Target size minimum",
     description:
       "Pointer targets should be at least 24 by 24 CSS pixels unless an exception applies.",
     defaultSeverity: "blocker",
   },
+  {
+    id: "WCAG-2.4.13-focus-appearance",
+    wcagCriterion: "2.4.13",
+    category: "wcag",
+    level: "AAA",
+    title: "Focus appearance",
+    description:
+      "Interactive component sets need a focus variant whose indicator is at least 2px thick and reaches 3:1 contrast against adjacent colors.",
+    defaultSeverity: "major",
+  },
+  {
+    id: "WCAG-1.4.12-text-spacing",
+    wcagCriterion: "1.4.12",
+    category: "wcag",
+    level: "AA",
+    title: "Text spacing",
+    description:
+      "Body text line height should be at least 1.5x the font size, and fixed-height text containers must not clip content when users apply WCAG 1.4.12 spacing overrides.",
+    defaultSeverity: "major",
+  },
+  {
+    id: "WCAG-1.4.1-use-of-color",
+    wcagCriterion: "1.4.1",
+    category: "wcag",
+    level: "AA",
+    title: "Use of color",
+    description:
+      "Inline text runs that differ from surrounding text only by color need 3:1 contrast against it plus a non-color cue, and sibling status indicators must not differ by fill alone.",
+    defaultSeverity: "major",
+  },
+  {
+    id: "BP-readability",
+    wcagCriterion: "best-practice",
+    category: "best-practice",
+    level: "AA",
+    title: "Readable text",
+    description:
+      "Best practice (not a WCAG criterion): text should meet the configured minimum font size, avoid thin weights at small sizes, and keep all-caps runs short.",
+    defaultSeverity: "minor",
+  },
+  {
+    id: "BP-hardcoded-color",
+    wcagCriterion: "best-practice",
+    category: "best-practice",
+    level: "AA",
+    title: "Token-bound colors",
+    description:
+      "Best practice (not a WCAG criterion): text and interactive layers should take their fill colors from design-system tokens instead of raw hex values. Off by default.",
+    defaultSeverity: "minor",
+    defaultEnabled: false,
+  },
 ] as const;
 
+export function ruleCategory(ruleId: string): RuleCategory {
+  return RULE_CATALOG.find((rule) => rule.id === ruleId)?.category ?? "wcag";
+}
+
 export const MANUAL_CHECK_CATALOG = [
   {
     id: "MANUAL-WCAG-1.3.1",
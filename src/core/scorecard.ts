@@ -0,0 +1,61 @@
+import type {
+  AuditReport,
+  ComponentScorecard,
+  ScorecardOutcome,
+  TargetResult,
+} from "./types.js";
+
+export interface ScorecardTarget {
+  result: TargetResult;
+  error?: string;
+}
+
+// One row per audited variant, one column per rule that ran. Suppressed findings count as
+// accepted, and exempt findings pass, matching the fail gate.
+export function buildComponentScorecard(
+  targets: ScorecardTarget[],
+  ruleIds: string[],
+): AuditReport["componentScorecard"] {
+  const components = new Map<string, ComponentScorecard>();
+
+  for (const { result, error } of targets) {
+    if (!result.component) {
+      continue;
+    }
+
+    const entry = components.get(result.component.componentId) ?? {
+      componentId: result.component.componentId,
+      componentName: result.component.componentName,
+      variants: [],
+    };
+    components.set(entry.componentId, entry);
+
+    entry.variants.push({
+      nodeId: result.nodeId,
+      variantName: result.component.variantName,
+      figmaUrl: result.figmaUrl,
+      results: Object.fromEntries(
+        ruleIds.map((ruleId) => [ruleId, error ? "error" : outcomeForRule(result, ruleId)]),
+      ),
+    });
+  }
+
+  if (components.size === 0) {
+    return undefined;
+  }
+
+  return { ruleIds, components: [...components.values()] };
+}
+
+function outcomeForRule(result: TargetResult, ruleId: string): ScorecardOutcome {
+  const findings = result.findings.filter(
+    (finding) => finding.ruleId === ruleId && !finding.suppressed,
+  );
+  if (findings.some((finding) => finding.status === "failed")) {
+    return "fail";
+  }
+  if (findings.some((finding) => finding.status === "needs-manual-review")) {
+    return "review";
+  }
+  return "pass";
+}
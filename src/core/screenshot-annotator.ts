@@ -0,0 +1,220 @@
+import { deflateSync } from "node:zlib";
+import { createScreenshotLocator } from "./screenshot-sampler.js";
+import type {
+  FigmaTargetPayload,
+  Finding,
+  NormalizedBounds,
+  NormalizedTarget,
+} from "./types.js";
+
+type Rgb = [number, number, number];
+
+interface Marker {
+  number: number;
+  color: Rgb;
+  boxes: NormalizedBounds[];
+}
+
+// Same hues as the HTML severity badges, so a box and its table row read as one color.
+const MARKER_COLORS: Record<Finding["severity"] | "manual", Rgb> = {
+  blocker: [153, 27, 27],
+  critical: [154, 52, 18],
+  major: [133, 77, 14],
+  minor: [12, 74, 110],
+  manual: [91, 33, 182],
+};
+
+// 3x5 bitmap digits, one string per row.
+const DIGITS: string[][] = [
+  ["111", "101", "101", "101", "111"],
+  ["010", "110", "010", "010", "111"],
+  ["111", "001", "111", "100", "111"],
+  ["111", "001", "111", "001", "111"],
+  ["101", "101", "111", "001", "001"],
+  ["111", "100", "111", "001", "111"],
+  ["111", "100", "111", "101", "111"],
+  ["111", "001", "001", "001", "001"],
+  ["111", "101", "111", "101", "111"],
+  ["111", "101", "111", "001", "111"],
+];
+
+// Figma screenshots are usually 540px wide; larger exports get proportionally thicker marks.
+const BASE_IMAGE_WIDTH = 540;
+
+export interface AnnotatedScreenshot {
+  bytes: Uint8Array;
+  // Box number per finding ID.
+  markers: Map<string, number>;
+}
+
+// Draws a numbered box, colored by severity, around the layers of every open finding. Findings
+// are numbered in the order given; exempt, suppressed and off-screen findings get no box.
+export function annotateScreenshot(
+  target: NormalizedTarget,
+  screenshot: FigmaTargetPayload["screenshot"] | undefined,
+  findings: Finding[],
+): AnnotatedScreenshot | undefined {
+  const locator = createScreenshotLocator(target, screenshot);
+  if (!locator) {
+    return undefined;
+  }
+
+  const markers: Marker[] = [];
+  const numbers = new Map<string, number>();
+  for (const finding of findings) {
+    if (finding.status === "exempt" || finding.suppressed) {
+      continue;
+    }
+    const nodeIds = finding.occurrences?.map((occurrence) => occurrence.nodeId) ?? [
+      finding.targetRef.nodeId,
+    ];
+    const boxes = nodeIds
+      .map((nodeId) => locator.boundsOf(nodeId))
+      .filter((bounds): bounds is NormalizedBounds => Boolean(bounds));
+    if (boxes.length === 0) {
+      continue;
+    }
+
+    const number = markers.length + 1;
+    numbers.set(finding.id, number);
+    markers.push({
+      number,
+      color:
+        finding.status === "needs-manual-review"
+          ? MARKER_COLORS.manual
+          : MARKER_COLORS[finding.severity],
+      boxes,
+    });
+  }
+
+  const { width, height } = locator.image;
+  const rgba = new Uint8Array(locator.image.rgba);
+  const unit = Math.max(1, Math.round(width / BASE_IMAGE_WIDTH));
+  const canvas = { width, height, rgba };
+
+  // Reverse order keeps the first (most severe) marker on top where boxes overlap.
+  for (const marker of [...markers].reverse()) {
+    for (const box of marker.boxes) {
+      strokeRect(canvas, box, 2 * unit, marker.color);
+      drawLabel(canvas, box, String(marker.number), 2 * unit, marker.color);
+    }
+  }
+
+  return { bytes: encodePng(width, height, rgba), markers: numbers };
+}
+
+interface Canvas {
+  width: number;
+  height: number;
+  rgba: Uint8Array;
+}
+
+function fillRect(
+  canvas: Canvas,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  color: Rgb,
+): void {
+  const left = Math.max(0, Math.floor(x0));
+  const top = Math.max(0, Math.floor(y0));
+  const right = Math.min(canvas.width, Math.ceil(x1));
+  const bottom = Math.min(canvas.height, Math.ceil(y1));
+  for (let y = top; y < bottom; y += 1) {
+    for (let x = left; x < right; x += 1) {
+      const idx = (y * canvas.width + x) * 4;
+      canvas.rgba[idx] = color[0];
+      canvas.rgba[idx + 1] = color[1];
+      canvas.rgba[idx + 2] = color[2];
+      canvas.rgba[idx + 3] = 255;
+    }
+  }
+}
+
+function strokeRect(canvas: Canvas, box: NormalizedBounds, thickness: number, color: Rgb): void {
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+  fillRect(canvas, box.x, box.y, right, box.y + thickness, color);
+  fillRect(canvas, box.x, bottom - thickness, right, bottom, color);
+  fillRect(canvas, box.x, box.y, box.x + thickness, bottom, color);
+  fillRect(canvas, right - thickness, box.y, right, bottom, color);
+}
+
+// A filled tag with white digits, above the box's top-left corner when there is room.
+function drawLabel(
+  canvas: Canvas,
+  box: NormalizedBounds,
+  text: string,
+  scale: number,
+  color: Rgb,
+): void {
+  const pad = scale;
+  const labelWidth = text.length * 4 * scale - scale + 2 * pad;
+  const labelHeight = 5 * scale + 2 * pad;
+  const x = Math.min(Math.max(0, Math.floor(box.x)), Math.max(0, canvas.width - labelWidth));
+  const y =
+    box.y - labelHeight >= 0 ? Math.floor(box.y - labelHeight) : Math.max(0, Math.floor(box.y));
+
+  fillRect(canvas, x, y, x + labelWidth, y + labelHeight, color);
+  [...text].forEach((char, index) => {
+    const rows = DIGITS[Number(char)];
+    const originX = x + pad + index * 4 * scale;
+    rows.forEach((row, rowIndex) => {
+      [...row].forEach((bit, colIndex) => {
+        if (bit === "1") {
+          const px = originX + colIndex * scale;
+          const py = y + pad + rowIndex * scale;
+          fillRect(canvas, px, py, px + scale, py + scale, [255, 255, 255]);
+        }
+      });
+    });
+  });
+}
+
+function encodePng(width: number, height: number, rgba: Uint8Array): Uint8Array {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  const stride = width * 4;
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y += 1) {
+    // Filter type 0 (none) on every row.
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from("89504e470d0a1a0a", "hex"),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -1,21 +1,19 @@
-import { inflateSync } from "node:zlib";
 import type {
+  BackgroundSampleRegion,
   FigmaTargetPayload,
+  ForegroundSampleRegion,
+  GlyphSample,
   NormalizedBounds,
   NormalizedColor,
   NormalizedNode,
   NormalizedTarget,
 } from "./types.js";
+import { decodeImage } from "../image/decode.js";
+import type { DecodedImage } from "../image/decode.js";
 import { nodeMap } from "../normalize/query.js";
 
-interface DecodedPng {
-  width: number;
-  height: number;
-  rgba: Uint8Array;
-}
-
 interface SamplingContext {
-  image: DecodedPng;
+  image: DecodedImage;
   accumulated: Map<string, NormalizedBounds>;
   rootBounds: NormalizedBounds;
   scaleX: number;
@@ -24,197 +22,131 @@ interface SamplingContext {
 
 const SAMPLE_PAD_PX = 2;
 const VON_NEUMANN_RADIUS = 3;
+// Fewer glyph pixels than this is noise or an icon that did not render.
+const MIN_GLYPH_PIXELS = 4;
 
 export function createScreenshotBackgroundSampler(
   target: NormalizedTarget,
   screenshot: FigmaTargetPayload["screenshot"] | undefined,
-): ((node: NormalizedNode, foreground?: NormalizedColor) => NormalizedColor | undefined) | undefined {
+):
+  | ((
+      node: NormalizedNode,
+      foreground?: NormalizedColor,
+      region?: BackgroundSampleRegion,
+    ) => NormalizedColor | undefined)
+  | undefined {
   const context = createSamplingContext(target, screenshot);
   if (!context) {
     return undefined;
   }
 
-  return (node: NormalizedNode, foreground?: NormalizedColor): NormalizedColor | undefined => {
-    const absolute = context.accumulated.get(node.id);
-    if (!absolute) {
+  return (
+    node: NormalizedNode,
+    foreground?: NormalizedColor,
+    region: BackgroundSampleRegion = "von-neumann",
+  ): NormalizedColor | undefined => {
+    const scaled = boundsOnImage(context, node.id);
+    if (!scaled) {
       return undefined;
     }
-    const local: NormalizedBounds = {
-      x: absolute.x - context.rootBounds.x,
-      y: absolute.y - context.rootBounds.y,
-      width: absolute.width,
-      height: absolute.height,
-    };
-
-    return sampleBackgroundAroundRect(
-      context.image,
-      scaleBounds(local, context.scaleX, context.scaleY),
-      foreground,
-    );
+    return region === "ring"
+      ? sampleBackgroundRing(context.image, scaled)
+      : sampleBackgroundAroundRect(context.image, scaled, foreground);
   };
 }
 
 export function createScreenshotForegroundSampler(
   target: NormalizedTarget,
   screenshot: FigmaTargetPayload["screenshot"] | undefined,
-): ((node: NormalizedNode, background?: NormalizedColor) => NormalizedColor | undefined) | undefined {
+):
+  | ((
+      node: NormalizedNode,
+      background?: NormalizedColor,
+      region?: ForegroundSampleRegion,
+    ) => NormalizedColor | undefined)
+  | undefined {
   const context = createSamplingContext(target, screenshot);
   if (!context) {
     return undefined;
   }
 
-  return (node: NormalizedNode, background?: NormalizedColor): NormalizedColor | undefined => {
-    const absolute = context.accumulated.get(node.id);
-    if (!absolute) {
+  return (
+    node: NormalizedNode,
+    background?: NormalizedColor,
+    region: ForegroundSampleRegion = "text-region",
+  ): NormalizedColor | undefined => {
+    const scaled = boundsOnImage(context, node.id);
+    if (!scaled) {
       return undefined;
     }
-    const local: NormalizedBounds = {
-      x: absolute.x - context.rootBounds.x,
-      y: absolute.y - context.rootBounds.y,
-      width: absolute.width,
-      height: absolute.height,
-    };
-
-    return sampleForegroundInsideRect(
-      context.image,
-      scaleBounds(local, context.scaleX, context.scaleY),
-      background,
-    );
+    if (region === "stroke-band") {
+      const bandWidth = Math.max(1, Math.round((node.strokeWeight ?? 1) * context.scaleX));
+      return sampleStrokeBand(context.image, scaled, bandWidth, background);
+    }
+    return sampleForegroundInsideRect(context.image, scaled, background);
   };
 }
 
-function decodePng(bytes: Uint8Array): DecodedPng | undefined {
-  const SIGNATURE = "89504e470d0a1a0a";
-  if (bytes.length < 8 || Buffer.from(bytes.slice(0, 8)).toString("hex") !== SIGNATURE) {
+export function createScreenshotGlyphSampler(
+  target: NormalizedTarget,
+  screenshot: FigmaTargetPayload["screenshot"] | undefined,
+): ((node: NormalizedNode) => GlyphSample | undefined) | undefined {
+  const context = createSamplingContext(target, screenshot);
+  if (!context) {
     return undefined;
   }
 
-  let offset = 8;
-  let width = 0;
-  let height = 0;
-  let bitDepth = 0;
-  let colorType = 0;
-  const idatChunks: Buffer[] = [];
-
-  while (offset + 8 <= bytes.length) {
-    const length = readUInt32(bytes, offset);
-    const type = Buffer.from(bytes.slice(offset + 4, offset + 8)).toString("ascii");
-    const dataStart = offset + 8;
-    const dataEnd = dataStart + length;
-    const crcEnd = dataEnd + 4;
-    if (crcEnd > bytes.length) {
-      return undefined;
-    }
-
-    const data = bytes.slice(dataStart, dataEnd);
-    if (type === "IHDR") {
-      width = readUInt32(data, 0);
-      height = readUInt32(data, 4);
-      bitDepth = data[8];
-      colorType = data[9];
-    } else if (type === "IDAT") {
-      idatChunks.push(Buffer.from(data));
-    } else if (type === "IEND") {
-      break;
-    }
-
-    offset = crcEnd;
-  }
+  return (node: NormalizedNode): GlyphSample | undefined => {
+    const scaled = boundsOnImage(context, node.id);
+    return scaled ? sampleGlyphInsideRect(context.image, scaled) : undefined;
+  };
+}
 
-  if (
-    width <= 0 ||
-    height <= 0 ||
-    bitDepth !== 8 ||
-    (colorType !== 6 && colorType !== 2) ||
-    idatChunks.length === 0
-  ) {
+// The decoded screenshot and where each node sits on it, in image pixels.
+export function createScreenshotLocator(
+  target: NormalizedTarget,
+  screenshot: FigmaTargetPayload["screenshot"] | undefined,
+): { image: DecodedImage; boundsOf: (nodeId: string) => NormalizedBounds | undefined } | undefined {
+  const context = createSamplingContext(target, screenshot);
+  if (!context) {
     return undefined;
   }
+  return { image: context.image, boundsOf: (nodeId) => boundsOnImage(context, nodeId) };
+}
 
-  const compressed = Buffer.concat(idatChunks);
-  const raw = inflateSync(compressed);
-  const bpp = colorType === 6 ? 4 : 3;
-  const stride = width * bpp;
-  const expected = height * (stride + 1);
-  if (raw.length < expected) {
+// Set when the screenshot is present but its pixels cannot be read, so every sampler is off.
+export function screenshotSamplingWarning(
+  screenshot: FigmaTargetPayload["screenshot"] | undefined,
+): string | undefined {
+  const decoded = decodeScreenshot(screenshot);
+  if (!(decoded instanceof Error)) {
     return undefined;
   }
-
-  const reconstructed = new Uint8Array(height * stride);
-  let srcOffset = 0;
-  for (let y = 0; y < height; y += 1) {
-    const filterType = raw[srcOffset];
-    srcOffset += 1;
-    const rowStart = y * stride;
-    for (let x = 0; x < stride; x += 1) {
-      const rawByte = raw[srcOffset + x];
-      const left = x >= bpp ? reconstructed[rowStart + x - bpp] : 0;
-      const up = y > 0 ? reconstructed[rowStart - stride + x] : 0;
-      const upLeft = y > 0 && x >= bpp ? reconstructed[rowStart - stride + x - bpp] : 0;
-      reconstructed[rowStart + x] = applyFilter(filterType, rawByte, left, up, upLeft);
-    }
-    srcOffset += stride;
-  }
-
-  const rgba = new Uint8Array(width * height * 4);
-  if (colorType === 6) {
-    rgba.set(reconstructed);
-  } else {
-    for (let i = 0, j = 0; i < reconstructed.length; i += 3, j += 4) {
-      rgba[j] = reconstructed[i];
-      rgba[j + 1] = reconstructed[i + 1];
-      rgba[j + 2] = reconstructed[i + 2];
-      rgba[j + 3] = 255;
-    }
-  }
-
-  return { width, height, rgba };
+  return (
+    `Screenshot sampling disabled: ${decoded.message} ` +
+    "Pixel-based contrast checks fall back to manual review."
+  );
 }
 
-function applyFilter(
-  filterType: number,
-  rawByte: number,
-  left: number,
-  up: number,
-  upLeft: number,
-): number {
-  switch (filterType) {
-    case 0:
-      return rawByte;
-    case 1:
-      return (rawByte + left) & 0xff;
-    case 2:
-      return (rawByte + up) & 0xff;
-    case 3:
-      return (rawByte + Math.floor((left + up) / 2)) & 0xff;
-    case 4:
-      return (rawByte + paethPredictor(left, up, upLeft)) & 0xff;
-    default:
-      return rawByte;
-  }
-}
+// The samplers and the annotator all read the same screenshot; decode it once per payload.
+const decodedScreenshots = new WeakMap<Uint8Array, DecodedImage | Error>();
 
-function paethPredictor(a: number, b: number, c: number): number {
-  const p = a + b - c;
-  const pa = Math.abs(p - a);
-  const pb = Math.abs(p - b);
-  const pc = Math.abs(p - c);
-  if (pa <= pb && pa <= pc) {
-    return a;
+function decodeScreenshot(
+  screenshot: FigmaTargetPayload["screenshot"] | undefined,
+): DecodedImage | Error | undefined {
+  if (!screenshot?.bytes) {
+    return undefined;
   }
-  if (pb <= pc) {
-    return b;
+  let decoded = decodedScreenshots.get(screenshot.bytes);
+  if (!decoded) {
+    try {
+      decoded = decodeImage(screenshot.bytes);
+    } catch (err) {
+      decoded = err as Error;
+    }
+    decodedScreenshots.set(screenshot.bytes, decoded);
   }
-  return c;
-}
-
-function readUInt32(bytes: Uint8Array, offset: number): number {
-  return (
-    (bytes[offset] << 24) |
-    (bytes[offset + 1] << 16) |
-    (bytes[offset + 2] << 8) |
-    bytes[offset + 3]
-  ) >>> 0;
+  return decoded;
 }
 
 function accumulatedBoundsById(
@@ -257,7 +189,7 @@ function accumulatedBoundsById(
 }
 
 function sampleBackgroundAroundRect(
-  image: DecodedPng,
+  image: DecodedImage,
   bounds: NormalizedBounds,
   foreground?: NormalizedColor,
 ): NormalizedColor | undefined {
@@ -315,7 +247,7 @@ function sampleBackgroundAroundRect(
 }
 
 function sampleForegroundInsideRect(
-  image: DecodedPng,
+  image: DecodedImage,
   bounds: NormalizedBounds,
   background?: NormalizedColor,
 ): NormalizedColor | undefined {
@@ -374,7 +306,146 @@ function sampleForegroundInsideRect(
   return best.color;
 }
 
-function samplePixel(image: DecodedPng, x: number, y: number): NormalizedColor | undefined {
+// Every pixel on a one-pixel outline SAMPLE_PAD_PX outside the bounds, so a component that
+// straddles two surfaces is judged against whichever covers most of its outline. Nothing is
+// excluded: outside the bounds a color close to the component's own is still the real
+// surrounding, and dropping it would hide a nearly invisible border.
+function sampleBackgroundRing(
+  image: DecodedImage,
+  bounds: NormalizedBounds,
+): NormalizedColor | undefined {
+  const left = Math.floor(bounds.x) - SAMPLE_PAD_PX;
+  const top = Math.floor(bounds.y) - SAMPLE_PAD_PX;
+  const right = Math.ceil(bounds.x + bounds.width) - 1 + SAMPLE_PAD_PX;
+  const bottom = Math.ceil(bounds.y + bounds.height) - 1 + SAMPLE_PAD_PX;
+
+  const points: Array<[number, number]> = [];
+  for (let x = left; x <= right; x += 1) {
+    points.push([x, top], [x, bottom]);
+  }
+  for (let y = top + 1; y < bottom; y += 1) {
+    points.push([left, y], [right, y]);
+  }
+
+  return dominantColor(image, points, undefined, 0);
+}
+
+// The strip of `bandWidth` pixels along the inside of the bounds, where a border renders.
+// When the band is dominated by the same color as the interior, the border blends into the
+// background (and was excluded) or is absent, so the fill is not reported as the border.
+function sampleStrokeBand(
+  image: DecodedImage,
+  bounds: NormalizedBounds,
+  bandWidth: number,
+  background?: NormalizedColor,
+): NormalizedColor | undefined {
+  const left = Math.floor(bounds.x);
+  const top = Math.floor(bounds.y);
+  const right = Math.ceil(bounds.x + bounds.width) - 1;
+  const bottom = Math.ceil(bounds.y + bounds.height) - 1;
+  if (right < left || bottom < top) {
+    return undefined;
+  }
+
+  const points: Array<[number, number]> = [];
+  const interior: Array<[number, number]> = [];
+  for (let y = top; y <= bottom; y += 1) {
+    for (let x = left; x <= right; x += 1) {
+      const depth = Math.min(x - left, right - x, y - top, bottom - y);
+      (depth < bandWidth ? points : interior).push([x, y]);
+    }
+  }
+
+  const band = dominantColor(image, points, background, 16);
+  const fill = dominantColor(image, interior, undefined, 0);
+  return band && fill && rgbDistance(band, fill) < 16 ? undefined : band;
+}
+
+// Most common color bucket among the points, ignoring pixels within `minDistance` of `exclude`.
+function dominantColor(
+  image: DecodedImage,
+  points: Array<[number, number]>,
+  exclude: NormalizedColor | undefined,
+  minDistance: number,
+): NormalizedColor | undefined {
+  const buckets = new Map<string, { count: number; color: NormalizedColor }>();
+  for (const [x, y] of points) {
+    const color = samplePixel(image, x, y);
+    if (!color || color.a < 0.1) {
+      continue;
+    }
+    if (exclude && rgbDistance(color, exclude) < minDistance) {
+      continue;
+    }
+
+    const key = `${Math.round(color.r / 8)}-${Math.round(color.g / 8)}-${Math.round(
+      color.b / 8,
+    )}`;
+    const current = buckets.get(key);
+    if (!current) {
+      buckets.set(key, { count: 1, color });
+      continue;
+    }
+    current.count += 1;
+  }
+
+  return [...buckets.values()].sort((a, b) => b.count - a.count)[0]?.color;
+}
+
+// The surroundings come from the Von Neumann ring outside the bounds. Inside, pixels close to
+// that color are background; the largest remaining color bucket is the glyph, so anti-aliased
+// edge pixels (many small buckets) do not win.
+function sampleGlyphInsideRect(
+  image: DecodedImage,
+  bounds: NormalizedBounds,
+): GlyphSample | undefined {
+  const background = sampleBackgroundAroundRect(image, bounds);
+  if (!background) {
+    return undefined;
+  }
+
+  const left = clamp(Math.floor(bounds.x), 0, image.width - 1);
+  const top = clamp(Math.floor(bounds.y), 0, image.height - 1);
+  const right = clamp(Math.ceil(bounds.x + bounds.width) - 1, 0, image.width - 1);
+  const bottom = clamp(Math.ceil(bounds.y + bounds.height) - 1, 0, image.height - 1);
+  if (right < left || bottom < top) {
+    return undefined;
+  }
+
+  const buckets = new Map<string, { count: number; color: NormalizedColor }>();
+  let totalPixels = 0;
+  for (let y = top; y <= bottom; y += 1) {
+    for (let x = left; x <= right; x += 1) {
+      const color = samplePixel(image, x, y);
+      if (!color || color.a < 0.1) {
+        continue;
+      }
+      totalPixels += 1;
+      if (rgbDistance(color, background) < 16) {
+        continue;
+      }
+
+      const key = `${Math.round(color.r / 8)}-${Math.round(color.g / 8)}-${Math.round(
+        color.b / 8,
+      )}`;
+      const current = buckets.get(key);
+      if (!current) {
+        buckets.set(key, { count: 1, color });
+        continue;
+      }
+      current.count += 1;
+    }
+  }
+
+  const glyph = [...buckets.values()].sort((a, b) => b.count - a.count)[0];
+  if (!glyph || glyph.count < MIN_GLYPH_PIXELS) {
+    return undefined;
+  }
+
+  return { foreground: glyph.color, background, glyphPixels: glyph.count, totalPixels };
+}
+
+function samplePixel(image: DecodedImage, x: number, y: number): NormalizedColor | undefined {
   if (x < 0 || y < 0 || x >= image.width || y >= image.height) {
     return undefined;
   }
@@ -422,12 +493,8 @@ function createSamplingContext(
   target: NormalizedTarget,
   screenshot: FigmaTargetPayload["screenshot"] | undefined,
 ): SamplingContext | undefined {
-  if (!screenshot?.bytes || screenshot.ext !== "png") {
-    return undefined;
-  }
-
-  const decoded = decodePng(screenshot.bytes);
-  if (!decoded) {
+  const decoded = decodeScreenshot(screenshot);
+  if (!decoded || decoded instanceof Error) {
     return undefined;
   }
 
@@ -447,6 +514,23 @@ function createSamplingContext(
   };
 }
 
+function boundsOnImage(
+  context: SamplingContext,
+  nodeId: string,
+): NormalizedBounds | undefined {
+  const absolute = context.accumulated.get(nodeId);
+  if (!absolute) {
+    return undefined;
+  }
+  const local: NormalizedBounds = {
+    x: absolute.x - context.rootBounds.x,
+    y: absolute.y - context.rootBounds.y,
+    width: absolute.width,
+    height: absolute.height,
+  };
+  return scaleBounds(local, context.scaleX, context.scaleY);
+}
+
 function scaleBounds(
   bounds: NormalizedBounds,
   scaleX: number,
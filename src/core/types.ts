@@ -1,8 +1,16 @@
 export type Severity = "blocker" | "critical" | "major" | "minor";
 
-export type FindingStatus = "failed" | "needs-manual-review";
+export type FindingStatus = "failed" | "needs-manual-review" | "exempt";
 
-export type ReportFormat = "json" | "html" | "both";
+export type ExemptReason = "target-spacing" | "inactive-component";
+
+export type ConformanceLevel = "AA" | "AAA";
+
+export type BaselineStatus = "new" | "existing" | "fixed";
+
+export type ReportFileFormat = "json" | "html" | "sarif" | "junit";
+
+export type ReportFormat = ReportFileFormat | "both";
 
 export interface Suppression {
   ruleId: string;
@@ -16,6 +24,12 @@ export interface ActiveSuppression extends Suppression {
   matchedAt: string;
 }
 
+export interface FindingOccurrence {
+  id: string;
+  nodeId: string;
+  layerPath?: string;
+}
+
 export interface Finding {
   id: string;
   ruleId: string;
@@ -25,6 +39,17 @@ export interface Finding {
   message: string;
   recommendation?: string;
   evidence?: string;
+  exemptReason?: ExemptReason;
+  // Main component of the instance the finding sits in, and a key shared by findings that
+  // the same fix at that component resolves.
+  componentId?: string;
+  rootCauseKey?: string;
+  // Every finding folded into this one, itself included; only set for two or more.
+  occurrences?: FindingOccurrence[];
+  // Variable modes the finding occurs in, when contrast rules ran once per mode.
+  modes?: string[];
+  // Number of the finding's box on the target's annotated screenshot.
+  screenshotMarker?: number;
   targetRef: {
     figmaUrl: string;
     nodeId: string;
@@ -32,6 +57,7 @@ export interface Finding {
     layerPath?: string;
   };
   suppressed?: ActiveSuppression;
+  baselineStatus?: BaselineStatus;
 }
 
 export interface ManualCheck {
@@ -46,11 +72,23 @@ export interface ManualCheck {
   };
 }
 
+export interface ComponentTargetRef {
+  // The component set, or the component itself when it has no variants.
+  componentId: string;
+  componentName: string;
+  variantName: string;
+}
+
 export interface TargetResult {
   figmaUrl: string;
   nodeId: string;
   frameName: string;
+  component?: ComponentTargetRef;
+  // Variable modes the contrast rules ran in, default mode first.
+  modes?: string[];
   screenshotPath?: string;
+  // Copy of the screenshot with a numbered box around every finding's layers.
+  annotatedScreenshotPath?: string;
   findings: Finding[];
   manualChecks: ManualCheck[];
   warnings: string[];
@@ -61,9 +99,33 @@ export interface AuditSummary {
   totalFindings: number;
   suppressedFindings: number;
   manualReviewFindings: number;
+  exemptFindings: number;
+  inactiveExemptFindings: number;
   bySeverity: Record<Severity, number>;
+  // Unsuppressed failed findings per variable mode; only present for mode-matrix runs.
+  failuresByMode?: Record<string, number>;
   failedTargets: number;
   warnings: string[];
+  baseline?: {
+    new: number;
+    existing: number;
+    fixed: number;
+  };
+}
+
+export type ScorecardOutcome = "pass" | "fail" | "review" | "error";
+
+export interface ComponentScorecardVariant {
+  nodeId: string;
+  variantName: string;
+  figmaUrl: string;
+  results: Record<string, ScorecardOutcome>;
+}
+
+export interface ComponentScorecard {
+  componentId: string;
+  componentName: string;
+  variants: ComponentScorecardVariant[];
 }
 
 export interface AuditReport {
@@ -71,11 +133,20 @@ export interface AuditReport {
   startedAt: string;
   finishedAt: string;
   wcagVersion: "2.2";
-  level: "AA";
+  level: ConformanceLevel;
   summary: AuditSummary;
   targets: TargetResult[];
   findings: Finding[];
   manualChecks: ManualCheck[];
+  componentScorecard?: {
+    ruleIds: string[];
+    components: ComponentScorecard[];
+  };
+  baseline?: {
+    source: string;
+    runId: string;
+    fixedFindings: Finding[];
+  };
 }
 
 export interface NormalizedColor {
@@ -92,6 +163,60 @@ export interface NormalizedBounds {
   height: number;
 }
 
+export interface NormalizedEffect {
+  type: string;
+  color?: NormalizedColor;
+  radius: number;
+  spread: number;
+}
+
+export type GradientKind = "linear" | "radial" | "angular" | "diamond";
+
+export interface NormalizedGradientStop {
+  position: number;
+  color: NormalizedColor;
+}
+
+export interface NormalizedGradient {
+  kind: GradientKind;
+  stops: NormalizedGradientStop[];
+  // Start, end, and width handles in the node's unit square (0..1), when known.
+  handles?: Array<{ x: number; y: number }>;
+}
+
+export type NormalizedFillPaint =
+  | { type: "solid"; color: NormalizedColor; binding?: NormalizedPaintBinding }
+  | { type: "gradient"; gradient: NormalizedGradient }
+  | { type: "image" };
+
+// A paint bound to a design token: a Figma variable (`variableId`) or a CSS variable from
+// generated code (`name` only).
+export interface NormalizedPaintBinding {
+  variableId?: string;
+  name?: string;
+  opacity?: number;
+}
+
+export interface VariableModeSet {
+  // Mode names across multi-mode collections, default modes first.
+  modes: string[];
+  // The mode the file renders in by default, which is the one its screenshot shows.
+  defaultMode: string;
+  // Color variables by ID, resolved per mode name (aliases followed).
+  variables: Record<string, { name: string; values: Record<string, NormalizedColor> }>;
+}
+
+export interface NormalizedTextSegment {
+  start: number;
+  end: number;
+  text: string;
+  fills: NormalizedColor[];
+  fontWeight?: number;
+  italic?: boolean;
+  textDecoration?: string;
+  hyperlink?: boolean;
+}
+
 export interface NormalizedNode {
   id: string;
   name: string;
@@ -99,11 +224,39 @@ export interface NormalizedNode {
   parentId?: string;
   bounds?: NormalizedBounds;
   fills: NormalizedColor[];
+  // Visible fill paints bottom-to-top; only set when a gradient or image paint is present.
+  fillPaints?: NormalizedFillPaint[];
   strokes: NormalizedColor[];
+  // Variable bindings aligned with `fills` / `strokes`; only set when some paint is bound.
+  fillBindings?: Array<NormalizedPaintBinding | undefined>;
+  strokeBindings?: Array<NormalizedPaintBinding | undefined>;
   text?: string;
   fontSize?: number;
   fontWeight?: number;
   lineHeightPx?: number;
+  textCase?: string;
+  textDecoration?: string;
+  italic?: boolean;
+  textSegments?: NormalizedTextSegment[];
+  letterSpacingPx?: number;
+  paragraphSpacingPx?: number;
+  textAutoResize?: string;
+  layoutSizingVertical?: string;
+  clipsContent?: boolean;
+  // Layer opacity below 1 and non-normal blend modes; both apply to the layer and its children.
+  opacity?: number;
+  blendMode?: string;
+  strokeWeight?: number;
+  effects?: NormalizedEffect[];
+  variantProperties?: Record<string, string>;
+  // Main component of an INSTANCE layer.
+  componentId?: string;
+  componentName?: string;
+  // Main components from a team library live in another file; its key when the payload has it.
+  componentRemote?: boolean;
+  componentFileKey?: string;
+  // Why the layer counts as a disabled (inactive) component, e.g. "State=Disabled".
+  disabledReason?: string;
   isInteractive: boolean;
 }
 
@@ -120,26 +273,73 @@ export interface NormalizedTarget {
 export interface RuleEvaluationContext {
   target: NormalizedTarget;
   reportStartIso: string;
+  level?: ConformanceLevel;
+  readability?: ReadabilityConfig;
   designSystemColors?: Record<string, string>;
   sampleBackgroundColor?: (
     node: NormalizedNode,
     foreground?: NormalizedColor,
+    region?: BackgroundSampleRegion,
   ) => NormalizedColor | undefined;
   sampleForegroundColor?: (
     node: NormalizedNode,
     background?: NormalizedColor,
+    region?: ForegroundSampleRegion,
   ) => NormalizedColor | undefined;
+  sampleGlyphColors?: (node: NormalizedNode) => GlyphSample | undefined;
 }
 
+// Where screenshot samplers read pixels: "von-neumann" probes the middle of each side and
+// "text-region" the whole node (for text); "ring" walks the full outline just outside the node
+// and "stroke-band" the strip along its inner edge (for component boundaries).
+export type BackgroundSampleRegion = "von-neumann" | "ring";
+
+export type ForegroundSampleRegion = "text-region" | "stroke-band";
+
+// Dominant glyph color inside an icon's bounds and the color around it, read from pixels.
+export interface GlyphSample {
+  foreground: NormalizedColor;
+  background: NormalizedColor;
+  glyphPixels: number;
+  totalPixels: number;
+}
+
+export type RuleCategory = "wcag" | "best-practice";
+
 export interface RuleDefinition {
   id: string;
   wcagCriterion: string;
+  category: RuleCategory;
+  level: ConformanceLevel;
   title: string;
   description: string;
   defaultSeverity: Severity;
+  // Re-run once per variable mode when the target has multi-mode color variables.
+  modeAware?: boolean;
+  // Optional rules ship disabled and must be turned on in config.
+  defaultEnabled?: boolean;
   evaluate: (ctx: RuleEvaluationContext) => Finding[];
 }
 
+export interface ReadabilityConfig {
+  minFontSize: number;
+  smallTextSize: number;
+  minSmallTextWeight: number;
+  maxAllCapsLength: number;
+}
+
+export interface DisabledStateConfig {
+  namePatterns: string[];
+}
+
+export interface VariableModesConfig {
+  enabled: boolean;
+  // Mode names to audit; empty audits every mode.
+  modes: string[];
+  // Local variables JSON (REST `variables/local` response or plugin export) with per-mode values.
+  definitionsFile?: string;
+}
+
 export interface RuleConfig {
   enabled: boolean;
   severity: Severity;
@@ -147,19 +347,23 @@ export interface RuleConfig {
 
 export interface AppConfig {
   wcagVersion: "2.2";
-  level: "AA";
+  level: ConformanceLevel;
   failOn: Severity[];
   report: {
     includeScreenshots: boolean;
-    formats: Array<"json" | "html">;
+    formats: ReportFileFormat[];
   };
   rules: Record<string, RuleConfig>;
   suppressions: Suppression[];
   designSystemColors: Record<string, string>;
+  readability: ReadabilityConfig;
+  disabledStates: DisabledStateConfig;
+  variableModes: VariableModesConfig;
 }
 
 export interface AuditTargetInput {
   figmaUrl: string;
+  component?: ComponentTargetRef;
 }
 
 export interface FigmaTargetPayload {
@@ -173,6 +377,7 @@ export interface FigmaTargetPayload {
   }>;
   metadata?: unknown;
   designSystemColors?: Record<string, string>;
+  variableModes?: VariableModeSet;
   screenshot?: {
     bytes?: Uint8Array;
     ext?: "png" | "jpg" | "jpeg" | "webp";
@@ -186,6 +391,10 @@ export interface FigmaTargetPayload {
       fills: NormalizedColor[];
       textFills: NormalizedColor[];
       strokes: NormalizedColor[];
+      // CSS variable names aligned with the colors above; undefined for raw hex classes.
+      fillTokens?: Array<string | undefined>;
+      textFillTokens?: Array<string | undefined>;
+      strokeTokens?: Array<string | undefined>;
     }
   >;
   fallbackBackgroundColor?: NormalizedColor;
@@ -193,14 +402,23 @@ export interface FigmaTargetPayload {
 
 export interface FigmaClient {
   fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload>;
+  fetchMetadata?(figmaUrl: string): Promise<unknown>;
 }
 
 export interface AuditRunOptions {
   targets: AuditTargetInput[];
   outDir: string;
   config: AppConfig;
-  reportFormat: ReportFormat;
+  reportFormat: ReportFormat | ReportFileFormat[];
   failOn: Severity[];
+  baseline?: {
+    source: string;
+    report: AuditReport;
+  };
+  newFindingsOnly?: boolean;
+  concurrency?: number;
+  // Mode definitions loaded from `variableModes.definitionsFile`; override payload definitions.
+  variableModes?: VariableModeSet;
 }
 
 export type AuditProgressStage =
@@ -4,8 +4,23 @@ export interface NodeStyleHint {
   fills: NormalizedColor[];
   textFills: NormalizedColor[];
   strokes: NormalizedColor[];
+  fillTokens?: Array<string | undefined>;
+  textFillTokens?: Array<string | undefined>;
+  strokeTokens?: Array<string | undefined>;
 }
 
+interface HintColor {
+  color: NormalizedColor;
+  // CSS variable name without the leading `--`; undefined for raw hex classes.
+  token?: string;
+}
+
+const TOKEN_FIELDS = {
+  fills: "fillTokens",
+  textFills: "textFillTokens",
+  strokes: "strokeTokens",
+} as const;
+
 export function extractNodeStyleHintsFromCode(
   payload: string,
   designSystemColors?: Record<string, string>,
@@ -22,20 +37,22 @@ export function extractNodeStyleHintsFromCode(
       continue;
     }
 
-    for (const color of extractColors(className, "text", designSystemColors)) {
-      upsertColor(hints, nodeId, "textFills", color);
+    for (const hint of extractColors(className, "text", designSystemColors)) {
+      upsertColor(hints, nodeId, "textFills", hint);
     }
 
-    for (const color of extractColors(className, "bg", designSystemColors)) {
-      upsertColor(hints, nodeId, "fills", color);
+    for (const hint of extractColors(className, "bg", designSystemColors)) {
+      upsertColor(hints, nodeId, "fills", hint);
     }
 
-    for (const color of extractColors(className, "border", designSystemColors)) {
-      upsertColor(hints, nodeId, "strokes", color);
+    for (const hint of extractColors(className, "border", designSystemColors)) {
+      upsertColor(hints, nodeId, "strokes", hint);
     }
   }
 
-  return Object.fromEntries([...hints.entries()]);
+  return Object.fromEntries(
+    [...hints.entries()].map(([nodeId, hint]) => [nodeId, withoutEmptyTokens(hint)]),
+  );
 }
 
 export function extractDocumentBackgroundHintFromCode(
@@ -53,9 +70,9 @@ export function extractDocumentBackgroundHintFromCode(
     }
 
     const backgroundColors = extractColors(className, "bg", designSystemColors);
-    const solidBackground = backgroundColors.find((color) => color.a >= 0.999);
+    const solidBackground = backgroundColors.find((hint) => hint.color.a >= 0.999);
     if (solidBackground) {
-      return solidBackground;
+      return solidBackground.color;
     }
   }
 
@@ -80,8 +97,8 @@ function extractColors(
   className: string,
   kind: "text" | "bg" | "border",
   designSystemColors?: Record<string, string>,
-): NormalizedColor[] {
-  const out: NormalizedColor[] = [];
+): HintColor[] {
+  const out: HintColor[] = [];
   const seen = new Set<string>();
 
   const varRegex = new RegExp(`${kind}-\\[color:var\\(([^\\)]*)\\)\\]`, "g");
@@ -98,7 +115,7 @@ function collectVarMatches(
   regex: RegExp,
   designSystemColors: Record<string, string> | undefined,
   seen: Set<string>,
-  out: NormalizedColor[],
+  out: HintColor[],
 ): void {
   const normalizedColors = normalizeDesignSystemColors(designSystemColors);
   let match: RegExpExecArray | null;
@@ -132,7 +149,7 @@ function collectVarMatches(
     }
 
     seen.add(hex);
-    out.push(parsed);
+    out.push({ color: parsed, token: cleanCssVarName(varName) });
   }
 }
 
@@ -140,7 +157,7 @@ function collectHexMatches(
   input: string,
   regex: RegExp,
   seen: Set<string>,
-  out: NormalizedColor[],
+  out: HintColor[],
 ): void {
   let match: RegExpExecArray | null;
 
@@ -154,7 +171,7 @@ function collectHexMatches(
       continue;
     }
     seen.add(hex);
-    out.push(parsed);
+    out.push({ color: parsed });
   }
 }
 
@@ -162,13 +179,31 @@ function upsertColor(
   map: Map<string, NodeStyleHint>,
   nodeId: string,
   field: "fills" | "textFills" | "strokes",
-  color: NormalizedColor,
+  hint: HintColor,
 ): void {
-  const existing = map.get(nodeId) ?? { fills: [], textFills: [], strokes: [] };
-  existing[field].push(color);
+  const existing = map.get(nodeId) ?? {
+    fills: [],
+    textFills: [],
+    strokes: [],
+    fillTokens: [],
+    textFillTokens: [],
+    strokeTokens: [],
+  };
+  existing[field].push(hint.color);
+  existing[TOKEN_FIELDS[field]]?.push(hint.token);
   map.set(nodeId, existing);
 }
 
+function withoutEmptyTokens(hint: NodeStyleHint): NodeStyleHint {
+  const out: NodeStyleHint = { fills: hint.fills, textFills: hint.textFills, strokes: hint.strokes };
+  for (const field of Object.values(TOKEN_FIELDS)) {
+    if (hint[field]?.some(Boolean)) {
+      out[field] = hint[field];
+    }
+  }
+  return out;
+}
+
 function normalizeDesignSystemColors(
   colors: Record<string, string> | undefined,
 ): Map<string, string> {
@@ -188,9 +223,11 @@ function resolveCssVarColor(
   varName: string,
   normalizedColors: Map<string, string>,
 ): string | undefined {
-  const cleaned = varName.replace(/^--/, "").replaceAll("\\/", "/");
-  const normalized = normalizeTokenKey(cleaned);
-  return normalizedColors.get(normalized);
+  return normalizedColors.get(normalizeTokenKey(cleanCssVarName(varName)));
+}
+
+function cleanCssVarName(varName: string): string {
+  return varName.replace(/^--/, "").replaceAll("\\/", "/");
 }
 
 function normalizeTokenKey(input: string): string {
@@ -0,0 +1,120 @@
+import type { AuditTargetInput, ComponentTargetRef, FigmaClient } from "../core/types.js";
+import { globToRegExp, type PageFrameFilters } from "./page-frames.js";
+import { parseMetadataXmlNodes, type MetadataNodeSummary } from "./sublayer-expansion.js";
+import { buildFigmaNodeUrl, parseFigmaFileUrl } from "./url.js";
+
+const COMPONENT_TYPES = new Set(["COMPONENT", "SYMBOL"]);
+// Libraries organise components in pages, sections, frames, and groups; instances and
+// components are leaves for enumeration purposes.
+const CONTAINER_TYPES = new Set(["DOCUMENT", "CANVAS", "PAGE", "SECTION", "FRAME", "GROUP"]);
+const DOCUMENT_NODE_ID = "0:0";
+
+export interface LibraryVariantSummary extends ComponentTargetRef {
+  id: string;
+}
+
+export async function resolveLibraryComponentTargets(
+  client: FigmaClient,
+  libraryUrl: string,
+  filters: PageFrameFilters = {},
+): Promise<AuditTargetInput[]> {
+  if (!client.fetchMetadata) {
+    throw new Error(
+      "The active Figma client cannot enumerate library components (metadata unavailable).",
+    );
+  }
+
+  const parsed = parseFigmaFileUrl(libraryUrl);
+  // Without a node-id the whole document is enumerated, not just its first page.
+  const metadataUrl = parsed.nodeId
+    ? parsed.figmaUrl
+    : buildFigmaNodeUrl(parsed.figmaUrl, DOCUMENT_NODE_ID);
+  const metadata = await client.fetchMetadata(metadataUrl);
+  if (typeof metadata !== "string") {
+    throw new Error(`get_metadata did not return XML for library ${libraryUrl}.`);
+  }
+
+  const variants = selectLibraryVariants(metadata, filters);
+  if (variants.length === 0) {
+    throw new Error(`No components matched in library ${libraryUrl}.`);
+  }
+
+  return variants.map(({ id, ...component }) => ({
+    figmaUrl: buildFigmaNodeUrl(parsed.figmaUrl, id),
+    component,
+  }));
+}
+
+// Every variant of every component set, plus standalone components, in document order.
+// Filters match the component (set) name, not the variant name.
+export function selectLibraryVariants(
+  metadataXml: string,
+  filters: PageFrameFilters = {},
+): LibraryVariantSummary[] {
+  const nodes = parseMetadataXmlNodes(metadataXml);
+  const knownIds = new Set(nodes.map((node) => node.id));
+  const childrenByParent = new Map<string, MetadataNodeSummary[]>();
+  for (const node of nodes) {
+    if (node.parentId) {
+      const siblings = childrenByParent.get(node.parentId) ?? [];
+      siblings.push(node);
+      childrenByParent.set(node.parentId, siblings);
+    }
+  }
+
+  const variants: LibraryVariantSummary[] = [];
+  const visit = (node: MetadataNodeSummary): void => {
+    if (node.hidden || node.zeroOpacity) {
+      return;
+    }
+    if (node.type === "COMPONENT_SET") {
+      for (const child of childrenByParent.get(node.id) ?? []) {
+        if (COMPONENT_TYPES.has(child.type) && !child.hidden && !child.zeroOpacity) {
+          variants.push({
+            id: child.id,
+            componentId: node.id,
+            componentName: node.name,
+            variantName: child.name,
+          });
+        }
+      }
+      return;
+    }
+    if (COMPONENT_TYPES.has(node.type)) {
+      variants.push({
+        id: node.id,
+        componentId: node.id,
+        componentName: node.name,
+        variantName: "Default",
+      });
+      return;
+    }
+    if (CONTAINER_TYPES.has(node.type)) {
+      for (const child of childrenByParent.get(node.id) ?? []) {
+        visit(child);
+      }
+    }
+  };
+
+  for (const root of nodes.filter((node) => !node.parentId || !knownIds.has(node.parentId))) {
+    visit(root);
+  }
+
+  const include = (filters.include ?? []).map(globToRegExp);
+  const exclude = (filters.exclude ?? []).map(globToRegExp);
+  const seen = new Set<string>();
+
+  return variants
+    .filter(
+      (variant) =>
+        include.length === 0 || include.some((pattern) => pattern.test(variant.componentName)),
+    )
+    .filter((variant) => !exclude.some((pattern) => pattern.test(variant.componentName)))
+    .filter((variant) => {
+      if (seen.has(variant.id)) {
+        return false;
+      }
+      seen.add(variant.id);
+      return true;
+    });
+}
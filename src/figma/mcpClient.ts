@@ -1,8 +1,20 @@
 import { mkdir, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { join, resolve } from "node:path";
 import type { FigmaClient, FigmaTargetPayload } from "../core/types.js";
-import { parseFigmaUrl } from "./url.js";
+import { parseFigmaFileUrl, parseFigmaUrl } from "./url.js";
+import {
+  DEFAULT_MCP_CACHE_DIR,
+  DEFAULT_MCP_CACHE_TTL_MS,
+  McpResponseCache,
+} from "./response-cache.js";
+import {
+  DEFAULT_RATE_LIMIT_BASE_DELAY_MS,
+  DEFAULT_RATE_LIMIT_RETRIES,
+  parseRateLimitRetries,
+  RateLimitBackoff,
+} from "./rate-limit.js";
 import { extractDesignSystemColorsFromVariableDefs } from "./variable-colors.js";
+import { extractVariableModes } from "./variable-modes.js";
 import {
   selectAncestorCandidatesFromMetadata,
   selectSublayerCandidatesFromMetadata,
@@ -30,6 +42,13 @@ interface ToolCallResult {
   [key: string]: unknown;
 }
 
+interface FileVersionLookup {
+  version?: string;
+  error?: string;
+}
+
+export const DEFAULT_PAGE_NODE_ID = "0:1";
+
 export type HealthStatus = "ok" | "warn" | "fail";
 
 export interface FigmaMcpHealthCheck {
@@ -51,14 +70,22 @@ export interface FigmaMcpClientOptions {
   region: string;
   timeoutMs: number;
   sublayerExpansionLimit: number;
+  cache?: McpResponseCache;
+  restApiUrl?: string;
+  rateLimitRetries?: number;
+  rateLimitBaseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
 }
 
-export function createFigmaClientFromEnv(): FigmaClient {
+export function createFigmaClientFromEnv(
+  clientOptions: { cache?: boolean } = {},
+): FigmaClient {
   const endpoint = process.env.FIGMA_MCP_URL ?? "https://mcp.figma.com/mcp";
   const token = process.env.FIGMA_OAUTH_TOKEN;
   const region = process.env.FIGMA_REGION ?? "us-east-1";
   const timeoutMs = Number(process.env.FIGMA_MCP_TIMEOUT_MS ?? "60000");
   const sublayerExpansionLimit = Number(process.env.FIGMA_SUBLAYER_EXPANSION_LIMIT ?? "16");
+  const rateLimitRetries = parseRateLimitRetries(process.env.FIGMA_MCP_RATE_LIMIT_RETRIES);
 
   if (!token) {
     throw new Error(
@@ -75,13 +102,30 @@ export function createFigmaClientFromEnv(): FigmaClient {
     region,
     timeoutMs,
     sublayerExpansionLimit,
+    cache: clientOptions.cache === false ? undefined : createMcpResponseCacheFromEnv(),
+    restApiUrl: process.env.FIGMA_API_URL ?? "https://api.figma.com",
+    rateLimitRetries,
   });
 }
 
+export function createMcpResponseCacheFromEnv(): McpResponseCache | undefined {
+  const ttlMs = Number(process.env.FIGMA_MCP_CACHE_TTL_MS ?? DEFAULT_MCP_CACHE_TTL_MS);
+  if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+    return undefined;
+  }
+
+  return new McpResponseCache(resolveMcpCacheDirFromEnv(), ttlMs);
+}
+
+export function resolveMcpCacheDirFromEnv(): string {
+  return resolve(process.env.FIGMA_MCP_CACHE_DIR ?? DEFAULT_MCP_CACHE_DIR);
+}
+
 export async function runFigmaMcpHealthCheck(
   figmaUrl?: string,
 ): Promise<FigmaMcpHealthResult> {
-  const client = createFigmaClientFromEnv();
+  // Health checks must reach the live server, so they never read from the response cache.
+  const client = createFigmaClientFromEnv({ cache: false });
 
   if (!(client instanceof RemoteFigmaMcpClient)) {
     throw new Error("Health check requires the built-in RemoteFigmaMcpClient.");
@@ -91,13 +135,24 @@ export async function runFigmaMcpHealthCheck(
 }
 
 export class RemoteFigmaMcpClient implements FigmaClient {
-  private initialized = false;
+  private initialization: Promise<void> | undefined;
 
   private sessionId: string | undefined;
 
   private nextId = 1;
 
-  constructor(private readonly options: FigmaMcpClientOptions) {}
+  // In-flight or settled version lookups, so concurrent targets share one REST call.
+  private readonly fileVersions = new Map<string, Promise<FileVersionLookup>>();
+
+  private readonly rateLimitBackoff: RateLimitBackoff;
+
+  constructor(private readonly options: FigmaMcpClientOptions) {
+    this.rateLimitBackoff = new RateLimitBackoff({
+      maxRetries: options.rateLimitRetries ?? DEFAULT_RATE_LIMIT_RETRIES,
+      baseDelayMs: options.rateLimitBaseDelayMs ?? DEFAULT_RATE_LIMIT_BASE_DELAY_MS,
+      sleep: options.sleep,
+    });
+  }
 
   async healthCheck(figmaUrl?: string): Promise<FigmaMcpHealthResult> {
     const checks: FigmaMcpHealthCheck[] = [];
@@ -202,6 +257,7 @@ export class RemoteFigmaMcpClient implements FigmaClient {
     await this.initialize();
 
     const warnings: string[] = [];
+    await this.resolveFileVersion(parsed, warnings);
     let metadata: unknown;
     let designContextRootNodeId = parsed.nodeId;
     let contextSource: "design-context" | "metadata-fallback" = "design-context";
@@ -297,6 +353,7 @@ export class RemoteFigmaMcpClient implements FigmaClient {
     );
 
     const designSystemColors = extractDesignSystemColorsFromVariableDefs(variableDefs);
+    const variableModes = extractVariableModes(variableDefs);
     if (codeStyleSource) {
       nodeStyleHints = extractNodeStyleHintsFromCode(
         codeStyleSource,
@@ -324,6 +381,7 @@ export class RemoteFigmaMcpClient implements FigmaClient {
         expandedDesignContexts.length > 0 ? expandedDesignContexts : undefined,
       metadata,
       designSystemColors,
+      variableModes,
       screenshot,
       warnings,
       contextSource,
@@ -332,11 +390,31 @@ export class RemoteFigmaMcpClient implements FigmaClient {
     };
   }
 
-  private async initialize(): Promise<void> {
-    if (this.initialized) {
-      return;
-    }
+  async fetchMetadata(figmaUrl: string): Promise<unknown> {
+    const file = parseFigmaFileUrl(figmaUrl);
+    const parsed = {
+      figmaUrl: file.figmaUrl,
+      fileKey: file.fileKey,
+      // A file URL without node-id refers to the first page.
+      nodeId: file.nodeId ?? DEFAULT_PAGE_NODE_ID,
+    };
+    await this.initialize();
 
+    const warnings: string[] = [];
+    await this.resolveFileVersion(parsed, warnings);
+    return this.callToolWithFallback("get_metadata", parsed);
+  }
+
+  private initialize(): Promise<void> {
+    // Concurrent targets share one MCP session, so the handshake runs once.
+    this.initialization ??= this.performInitialize().catch((error) => {
+      this.initialization = undefined;
+      throw error;
+    });
+    return this.initialization;
+  }
+
+  private async performInitialize(): Promise<void> {
     await this.rpcRequest("initialize", {
       protocolVersion: "2025-06-18",
       capabilities: {
@@ -353,29 +431,60 @@ export class RemoteFigmaMcpClient implements FigmaClient {
 
     // Some MCP servers expect this notification after initialize.
     await this.rpcRequest("notifications/initialized", {}, true);
-
-    this.initialized = true;
   }
 
   private async callToolWithFallback(
     toolName: string,
     parsed: ReturnType<typeof parseFigmaUrl>,
   ): Promise<unknown> {
+    // Without a known file version an entry could outlive edits to the file, so skip the cache.
+    const fileVersion =
+      this.options.cache && parsed.fileKey
+        ? (await this.fileVersions.get(parsed.fileKey))?.version
+        : undefined;
+    const cacheKey = fileVersion
+      ? {
+          toolName,
+          args: { fileKey: parsed.fileKey, nodeId: parsed.nodeId },
+          fileVersion,
+        }
+      : undefined;
+
+    if (cacheKey) {
+      const cached = await this.options.cache!.get(cacheKey);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
     const candidates = buildArgumentCandidates(toolName, parsed);
     const errors: string[] = [];
 
     for (const args of candidates) {
       try {
-        const response = (await this.rpcRequest("tools/call", {
-          name: toolName,
-          arguments: args,
-        })) as ToolCallResult;
+        const response = await this.rateLimitBackoff.run(async () => {
+          const toolResult = (await this.rpcRequest("tools/call", {
+            name: toolName,
+            arguments: args,
+          })) as ToolCallResult;
+
+          if (toolResult.isError) {
+            throw new Error(extractToolErrorMessage(toolResult));
+          }
+          return toolResult;
+        });
 
-        if (response.isError) {
-          throw new Error(extractToolErrorMessage(response));
+        const result = extractToolResult(response);
+        if (cacheKey) {
+          // Screenshot URLs expire, so the bytes are cached instead of the link.
+          const cacheable =
+            toolName === "get_screenshot" ? await materializeScreenshotPayload(result) : result;
+          if (cacheable !== undefined) {
+            await this.options.cache!.set(cacheKey, cacheable);
+          }
+          return cacheable ?? result;
         }
-
-        return extractToolResult(response);
+        return result;
       } catch (error) {
         errors.push(`args=${JSON.stringify(args)} -> ${(error as Error).message}`);
       }
@@ -386,6 +495,61 @@ export class RemoteFigmaMcpClient implements FigmaClient {
     );
   }
 
+  private async resolveFileVersion(
+    parsed: ReturnType<typeof parseFigmaUrl>,
+    warnings: string[],
+  ): Promise<void> {
+    if (!this.options.cache || !parsed.fileKey) {
+      return;
+    }
+
+    let lookup = this.fileVersions.get(parsed.fileKey);
+    if (!lookup) {
+      lookup = this.lookupFileVersion(parsed.fileKey);
+      this.fileVersions.set(parsed.fileKey, lookup);
+    }
+
+    const { error } = await lookup;
+    if (error) {
+      warnings.push(
+        `Could not resolve file version for ${parsed.fileKey} (${error}); MCP responses for this file are not cached.`,
+      );
+    }
+  }
+
+  private async lookupFileVersion(fileKey: string): Promise<FileVersionLookup> {
+    try {
+      const response = await fetch(
+        `${this.options.restApiUrl ?? "https://api.figma.com"}/v1/files/${encodeURIComponent(
+          fileKey,
+        )}/meta`,
+        {
+          headers: { Authorization: `Bearer ${this.options.token}` },
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const body = (await response.json()) as Record<string, unknown>;
+      const file =
+        body.file && typeof body.file === "object"
+          ? (body.file as Record<string, unknown>)
+          : body;
+      const version = [file.version, file.last_touched_at, file.lastModified].find(
+        (value): value is string => typeof value === "string" && value.trim() !== "",
+      );
+      if (!version) {
+        throw new Error("response has no version or last-modified field");
+      }
+
+      return { version };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
   private async resolveDesignContextWithFallback(
     parsed: ReturnType<typeof parseFigmaUrl>,
     warnings: string[],
@@ -951,6 +1115,35 @@ function isLikelyMetadataXml(value: string): boolean {
   return /<[a-zA-Z0-9_-]+[^>]*\bid="/.test(trimmed);
 }
 
+async function materializeScreenshotPayload(payload: unknown): Promise<unknown | undefined> {
+  if (!payload || typeof payload !== "object") {
+    return payload;
+  }
+
+  const record = payload as Record<string, unknown>;
+  const url = [record.sourceUrl, record.url, record.imageUrl].find(
+    (value): value is string => typeof value === "string",
+  );
+  if (!url) {
+    return payload;
+  }
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return undefined;
+    }
+    const bytes = Buffer.from(await response.arrayBuffer());
+    return {
+      base64: bytes.toString("base64"),
+      mimeType: response.headers.get("content-type") ?? undefined,
+      cachedFromUrl: url,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
 async function parseScreenshotPayload(
   payload: unknown,
   warnings: string[],
@@ -1000,9 +1193,12 @@ async function parseScreenshotPayload(
   }
 
   const mime = typeof record.mimeType === "string" ? record.mimeType : undefined;
+  const cachedFromUrl =
+    typeof record.cachedFromUrl === "string" ? record.cachedFromUrl : undefined;
   return {
     bytes: Uint8Array.from(Buffer.from(base64, "base64")),
-    ext: guessExtension(mime),
+    ext: guessExtension(mime, cachedFromUrl),
+    sourceUrl: cachedFromUrl,
   };
 }
 
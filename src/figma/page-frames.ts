@@ -0,0 +1,111 @@
+import type { AuditTargetInput, FigmaClient } from "../core/types.js";
+import { parseMetadataXmlNodes, type MetadataNodeSummary } from "./sublayer-expansion.js";
+import { buildFigmaNodeUrl, parseFigmaFileUrl } from "./url.js";
+
+const FRAME_TYPES = new Set(["FRAME", "COMPONENT", "COMPONENT_SET", "SYMBOL"]);
+const CONTAINER_TYPES = new Set(["DOCUMENT", "CANVAS", "PAGE", "SECTION"]);
+
+export interface PageFrameFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface PageFrameSummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export async function resolvePageFrameTargets(
+  client: FigmaClient,
+  pageUrl: string,
+  filters: PageFrameFilters = {},
+): Promise<AuditTargetInput[]> {
+  if (!client.fetchMetadata) {
+    throw new Error("The active Figma client cannot enumerate page frames (metadata unavailable).");
+  }
+
+  const parsed = parseFigmaFileUrl(pageUrl);
+  const metadata = await client.fetchMetadata(parsed.figmaUrl);
+  if (typeof metadata !== "string") {
+    throw new Error(`get_metadata did not return XML for page ${pageUrl}.`);
+  }
+
+  const frames = selectPageFrames(metadata, filters);
+  if (frames.length === 0) {
+    throw new Error(`No top-level frames matched on page ${pageUrl}.`);
+  }
+
+  return frames.map((frame) => ({
+    figmaUrl: buildFigmaNodeUrl(parsed.figmaUrl, frame.id),
+  }));
+}
+
+export function selectPageFrames(
+  metadataXml: string,
+  filters: PageFrameFilters = {},
+): PageFrameSummary[] {
+  const nodes = parseMetadataXmlNodes(metadataXml);
+  const knownIds = new Set(nodes.map((node) => node.id));
+  const childrenByParent = new Map<string, MetadataNodeSummary[]>();
+  for (const node of nodes) {
+    if (node.parentId) {
+      const siblings = childrenByParent.get(node.parentId) ?? [];
+      siblings.push(node);
+      childrenByParent.set(node.parentId, siblings);
+    }
+  }
+
+  const frames: MetadataNodeSummary[] = [];
+  const visit = (node: MetadataNodeSummary): void => {
+    if (node.hidden || node.zeroOpacity) {
+      return;
+    }
+    if (FRAME_TYPES.has(node.type)) {
+      frames.push(node);
+      return;
+    }
+    // Pages and sections only group frames; descend until the first frame level.
+    if (CONTAINER_TYPES.has(node.type)) {
+      for (const child of childrenByParent.get(node.id) ?? []) {
+        visit(child);
+      }
+    }
+  };
+
+  for (const root of nodes.filter((node) => !node.parentId || !knownIds.has(node.parentId))) {
+    visit(root);
+  }
+
+  const include = (filters.include ?? []).map(globToRegExp);
+  const exclude = (filters.exclude ?? []).map(globToRegExp);
+  const seen = new Set<string>();
+
+  return frames
+    .filter((frame) => include.length === 0 || include.some((pattern) => pattern.test(frame.name)))
+    .filter((frame) => !exclude.some((pattern) => pattern.test(frame.name)))
+    .filter((frame) => {
+      if (seen.has(frame.id)) {
+        return false;
+      }
+      seen.add(frame.id);
+      return true;
+    })
+    .map((frame) => ({ id: frame.id, name: frame.name, type: frame.type }));
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
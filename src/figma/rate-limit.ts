@@ -0,0 +1,81 @@
+export const DEFAULT_RATE_LIMIT_RETRIES = 4;
+
+export const DEFAULT_RATE_LIMIT_BASE_DELAY_MS = 2000;
+
+const MAX_RATE_LIMIT_DELAY_MS = 60000;
+
+export interface RateLimitBackoffOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+// FIGMA_MCP_RATE_LIMIT_RETRIES: unset means the default; anything but a non-negative integer
+// is a configuration error, since a NaN limit would retry a sustained 429 forever.
+export function parseRateLimitRetries(raw: string | undefined): number {
+  if (raw === undefined) {
+    return DEFAULT_RATE_LIMIT_RETRIES;
+  }
+  const retries = Number(raw);
+  if (raw.trim() === "" || !Number.isInteger(retries) || retries < 0) {
+    throw new Error(
+      `FIGMA_MCP_RATE_LIMIT_RETRIES must be a non-negative integer (got "${raw}").`,
+    );
+  }
+  return retries;
+}
+
+export function isRateLimitError(message: string): boolean {
+  return /\bHTTP 429\b|rate[ -]?limit|too many requests/i.test(message);
+}
+
+// Shared by every in-flight request of a client so that parallel targets pause together
+// instead of each worker hammering the endpoint with its own retries.
+export class RateLimitBackoff {
+  private resumeAt = 0;
+
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  private readonly now: () => number;
+
+  private readonly maxRetries: number;
+
+  constructor(private readonly options: RateLimitBackoffOptions) {
+    this.maxRetries =
+      Number.isInteger(options.maxRetries) && options.maxRetries >= 0
+        ? options.maxRetries
+        : DEFAULT_RATE_LIMIT_RETRIES;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt += 1) {
+      const waitMs = this.resumeAt - this.now();
+      if (waitMs > 0) {
+        await this.sleep(waitMs);
+      }
+
+      try {
+        return await operation();
+      } catch (error) {
+        const message = (error as Error).message;
+        if (!isRateLimitError(message)) {
+          throw error;
+        }
+        if (attempt >= this.maxRetries) {
+          throw new Error(
+            `${message} (gave up after ${this.maxRetries} rate-limit retries)`,
+          );
+        }
+
+        const delayMs = Math.min(
+          MAX_RATE_LIMIT_DELAY_MS,
+          this.options.baseDelayMs * 2 ** attempt,
+        );
+        this.resumeAt = Math.max(this.resumeAt, this.now() + delayMs);
+      }
+    }
+  }
+}
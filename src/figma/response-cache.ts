@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const CACHE_FORMAT_VERSION = 1;
+
+export const DEFAULT_MCP_CACHE_DIR = ".aa-auditor-cache/mcp";
+
+export const DEFAULT_MCP_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface McpCacheKey {
+  toolName: string;
+  args: Record<string, unknown>;
+  fileVersion: string;
+}
+
+interface McpCacheEntry {
+  formatVersion: number;
+  storedAt: number;
+  toolName: string;
+  fileVersion: string;
+  args: Record<string, unknown>;
+  value: unknown;
+}
+
+export class McpResponseCache {
+  constructor(
+    readonly dir: string,
+    private readonly ttlMs: number,
+    private readonly now: () => number = () => Date.now(),
+  ) {}
+
+  async get(key: McpCacheKey): Promise<unknown | undefined> {
+    let entry: McpCacheEntry;
+    try {
+      entry = JSON.parse(await readFile(this.entryPath(key), "utf8")) as McpCacheEntry;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.formatVersion !== CACHE_FORMAT_VERSION) {
+      return undefined;
+    }
+    if (this.now() - entry.storedAt > this.ttlMs) {
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: McpCacheKey, value: unknown): Promise<void> {
+    const entry: McpCacheEntry = {
+      formatVersion: CACHE_FORMAT_VERSION,
+      storedAt: this.now(),
+      toolName: key.toolName,
+      fileVersion: key.fileVersion,
+      args: key.args,
+      value,
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.entryPath(key), JSON.stringify(entry), "utf8");
+  }
+
+  async clear(): Promise<number> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return 0;
+    }
+
+    const entries = names.filter((name) => name.endsWith(".json"));
+    await Promise.all(entries.map((name) => rm(join(this.dir, name), { force: true })));
+    return entries.length;
+  }
+
+  private entryPath(key: McpCacheKey): string {
+    const hash = createHash("sha256")
+      .update(JSON.stringify([key.toolName, sortKeys(key.args), key.fileVersion]))
+      .digest("hex");
+    return join(this.dir, `${hash}.json`);
+  }
+}
+
+function sortKeys(args: Record<string, unknown>): Array<[string, unknown]> {
+  return Object.entries(args)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+}
@@ -0,0 +1,177 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type {
+  AuditTargetInput,
+  FigmaClient,
+  FigmaTargetPayload,
+} from "../core/types.js";
+import { parseFigmaUrl } from "./url.js";
+
+const SNAPSHOT_FORMAT_VERSION = 1;
+const PAYLOAD_FILE = "payload.json";
+
+interface SnapshotFile {
+  formatVersion: number;
+  payload: Omit<FigmaTargetPayload, "screenshot">;
+  screenshot?: {
+    file?: string;
+    ext?: NonNullable<FigmaTargetPayload["screenshot"]>["ext"];
+    sourceUrl?: string;
+  };
+}
+
+export class SnapshotFigmaClient implements FigmaClient {
+  constructor(private readonly snapshotDir: string) {}
+
+  async fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload> {
+    const parsed = parseFigmaUrl(figmaUrl);
+    const entryDir = join(this.snapshotDir, snapshotEntryName(parsed.fileKey, parsed.nodeId));
+    if (!existsSync(join(entryDir, PAYLOAD_FILE))) {
+      throw new Error(
+        `No recorded snapshot for node ${parsed.nodeId} in ${this.snapshotDir}.`,
+      );
+    }
+
+    return readSnapshotEntry(entryDir);
+  }
+}
+
+export class RecordingFigmaClient implements FigmaClient {
+  constructor(
+    private readonly inner: FigmaClient,
+    private readonly recordDir: string,
+  ) {}
+
+  async fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload> {
+    const payload = await this.inner.fetchTarget(figmaUrl);
+    await writeTargetSnapshot(this.recordDir, payload);
+    return payload;
+  }
+
+  async fetchMetadata(figmaUrl: string): Promise<unknown> {
+    if (!this.inner.fetchMetadata) {
+      throw new Error("Wrapped Figma client cannot fetch metadata.");
+    }
+    return this.inner.fetchMetadata(figmaUrl);
+  }
+}
+
+export async function writeTargetSnapshot(
+  snapshotDir: string,
+  payload: FigmaTargetPayload,
+): Promise<string> {
+  const fileKey = tryParseFileKey(payload.figmaUrl);
+  const entryDir = join(snapshotDir, snapshotEntryName(fileKey, payload.nodeId));
+  await mkdir(entryDir, { recursive: true });
+
+  const { screenshot, ...rest } = payload;
+  const file: SnapshotFile = {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    payload: {
+      ...rest,
+      warnings: [...rest.warnings],
+    },
+  };
+
+  if (screenshot) {
+    const ext = screenshot.ext ?? "png";
+    let screenshotFile: string | undefined;
+    if (screenshot.bytes) {
+      screenshotFile = `screenshot.${ext}`;
+      await writeFile(join(entryDir, screenshotFile), screenshot.bytes);
+    }
+
+    file.screenshot = {
+      file: screenshotFile,
+      ext: screenshot.ext,
+      sourceUrl: screenshot.sourceUrl,
+    };
+  }
+
+  await writeFile(join(entryDir, PAYLOAD_FILE), JSON.stringify(file, null, 2), "utf8");
+  return entryDir;
+}
+
+export async function listSnapshotTargets(
+  snapshotDir: string,
+): Promise<AuditTargetInput[]> {
+  if (!existsSync(snapshotDir)) {
+    throw new Error(`Snapshot directory does not exist: ${snapshotDir}`);
+  }
+
+  const entries = await readdir(snapshotDir, { withFileTypes: true });
+  const targets: AuditTargetInput[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const payloadPath = join(snapshotDir, entry.name, PAYLOAD_FILE);
+    if (!existsSync(payloadPath)) {
+      continue;
+    }
+    const file = parseSnapshotFile(await readFile(payloadPath, "utf8"), payloadPath);
+    targets.push({ figmaUrl: file.payload.figmaUrl });
+  }
+
+  return targets.sort((a, b) => a.figmaUrl.localeCompare(b.figmaUrl));
+}
+
+async function readSnapshotEntry(entryDir: string): Promise<FigmaTargetPayload> {
+  const payloadPath = join(entryDir, PAYLOAD_FILE);
+  const file = parseSnapshotFile(await readFile(payloadPath, "utf8"), payloadPath);
+
+  let screenshot: FigmaTargetPayload["screenshot"];
+  if (file.screenshot) {
+    screenshot = {
+      ext: file.screenshot.ext,
+      sourceUrl: file.screenshot.sourceUrl,
+    };
+    if (file.screenshot.file) {
+      screenshot.bytes = new Uint8Array(
+        await readFile(join(entryDir, file.screenshot.file)),
+      );
+    }
+  }
+
+  return {
+    ...file.payload,
+    warnings: [...(file.payload.warnings ?? [])],
+    screenshot,
+  };
+}
+
+function parseSnapshotFile(raw: string, source: string): SnapshotFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`Snapshot file is not valid JSON: ${source}`);
+  }
+
+  const file = parsed as Partial<SnapshotFile>;
+  if (file.formatVersion !== SNAPSHOT_FORMAT_VERSION || !file.payload) {
+    throw new Error(
+      `Unsupported snapshot format in ${source} (expected formatVersion ${SNAPSHOT_FORMAT_VERSION}).`,
+    );
+  }
+
+  return file as SnapshotFile;
+}
+
+function snapshotEntryName(fileKey: string | undefined, nodeId: string): string {
+  return sanitize(fileKey ? `${fileKey}-${nodeId}` : nodeId);
+}
+
+function tryParseFileKey(figmaUrl: string): string | undefined {
+  try {
+    return parseFigmaUrl(figmaUrl).fileKey;
+  } catch {
+    return undefined;
+  }
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9-_]+/g, "_");
+}
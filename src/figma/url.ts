@@ -4,7 +4,62 @@ export interface ParsedFigmaUrl {
   fileKey?: string;
 }
 
+export interface ParsedFigmaFileUrl {
+  figmaUrl: string;
+  fileKey: string;
+  nodeId?: string;
+}
+
 export function parseFigmaUrl(input: string): ParsedFigmaUrl {
+  const parsed = parseFigmaHostUrl(input);
+
+  const rawNodeId = parsed.searchParams.get("node-id");
+  if (!rawNodeId) {
+    throw new Error(
+      `Figma URL is missing required node-id query parameter: ${input}`,
+    );
+  }
+
+  return {
+    figmaUrl: parsed.toString(),
+    nodeId: decodeNodeId(rawNodeId),
+    fileKey: readFileKey(parsed),
+  };
+}
+
+export function parseFigmaFileUrl(input: string): ParsedFigmaFileUrl {
+  const parsed = parseFigmaHostUrl(input);
+
+  const fileKey = readFileKey(parsed);
+  if (!fileKey) {
+    throw new Error(`Figma URL does not reference a file (/file/ or /design/): ${input}`);
+  }
+
+  const rawNodeId = parsed.searchParams.get("node-id");
+  return {
+    figmaUrl: parsed.toString(),
+    fileKey,
+    nodeId: rawNodeId ? decodeNodeId(rawNodeId) : undefined,
+  };
+}
+
+// With `fileKey`, the link points at that file instead of the one `fileUrl` names.
+export function buildFigmaNodeUrl(fileUrl: string, nodeId: string, fileKey?: string): string {
+  const parsed = parseFigmaHostUrl(fileUrl);
+  if (fileKey) {
+    const pathParts = parsed.pathname.split("/");
+    const fileIndex = pathParts.findIndex((part) => part === "file" || part === "design");
+    if (fileIndex < 0) {
+      throw new Error(`Figma URL does not reference a file (/file/ or /design/): ${fileUrl}`);
+    }
+    // The trailing file name belongs to the consuming file, so the link keeps only the key.
+    parsed.pathname = [...pathParts.slice(0, fileIndex + 1), fileKey].join("/");
+  }
+  parsed.searchParams.set("node-id", nodeId.replace(/:/g, "-"));
+  return parsed.toString();
+}
+
+function parseFigmaHostUrl(input: string): URL {
   let parsed: URL;
   try {
     parsed = new URL(input);
@@ -16,24 +71,17 @@ export function parseFigmaUrl(input: string): ParsedFigmaUrl {
     throw new Error(`Unsupported host in Figma URL: ${parsed.hostname}`);
   }
 
-  const rawNodeId = parsed.searchParams.get("node-id");
-  if (!rawNodeId) {
-    throw new Error(
-      `Figma URL is missing required node-id query parameter: ${input}`,
-    );
-  }
+  return parsed;
+}
 
-  const nodeId = decodeURIComponent(rawNodeId).replace(/-/g, ":");
+function decodeNodeId(rawNodeId: string): string {
+  return decodeURIComponent(rawNodeId).replace(/-/g, ":");
+}
 
+function readFileKey(parsed: URL): string | undefined {
   const pathParts = parsed.pathname.split("/").filter(Boolean);
   const fileIndex = pathParts.findIndex(
     (part) => part === "file" || part === "design",
   );
-  const fileKey = fileIndex >= 0 ? pathParts[fileIndex + 1] : undefined;
-
-  return {
-    figmaUrl: parsed.toString(),
-    nodeId,
-    fileKey,
-  };
+  return fileIndex >= 0 ? pathParts[fileIndex + 1] : undefined;
 }
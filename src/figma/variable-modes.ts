@@ -0,0 +1,192 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { NormalizedColor, VariableModeSet } from "../core/types.js";
+
+interface RawVariable {
+  id: string;
+  name: string;
+  collectionId?: string;
+  valuesByMode: Record<string, unknown>;
+}
+
+interface RawCollection {
+  id: string;
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId?: string;
+}
+
+const MAX_ALIAS_DEPTH = 16;
+
+// Reads per-mode color values from variable definitions shaped like the REST
+// `GET /v1/files/:key/variables/local` response or a plugin export of
+// `getLocalVariables()` + `getLocalVariableCollections()`. Flat token maps carry no modes.
+export function extractVariableModes(payload: unknown): VariableModeSet | undefined {
+  const root = asObject(payload);
+  if (!root) {
+    return undefined;
+  }
+  const source = asObject(root.meta) ?? root;
+
+  const variables = new Map(
+    entriesOf(source.variables)
+      .map(readVariable)
+      .filter((variable): variable is RawVariable => Boolean(variable))
+      .map((variable) => [variable.id, variable]),
+  );
+  const collections = new Map(
+    entriesOf(source.variableCollections ?? source.collections)
+      .map(readCollection)
+      .filter((collection): collection is RawCollection => Boolean(collection))
+      .map((collection) => [collection.id, collection]),
+  );
+
+  const modes: string[] = [];
+  for (const collection of collections.values()) {
+    if (collection.modes.length < 2) {
+      continue;
+    }
+    const isDefault = (mode: { modeId: string }) =>
+      Number(mode.modeId === collection.defaultModeId);
+    const ordered = [...collection.modes].sort((a, b) => isDefault(b) - isDefault(a));
+    for (const mode of ordered) {
+      if (!modes.includes(mode.name)) {
+        modes.push(mode.name);
+      }
+    }
+  }
+
+  if (modes.length < 2) {
+    return undefined;
+  }
+
+  const resolved: VariableModeSet["variables"] = {};
+  for (const variable of variables.values()) {
+    const values: Record<string, NormalizedColor> = {};
+    for (const mode of modes) {
+      const color = resolveColor(variable, mode, variables, collections, 0);
+      if (color) {
+        values[mode] = color;
+      }
+    }
+    if (Object.keys(values).length > 0) {
+      resolved[variable.id] = { name: variable.name, values };
+    }
+  }
+
+  // The first multi-mode collection's default leads `modes`.
+  return { modes, defaultMode: modes[0], variables: resolved };
+}
+
+export async function loadVariableModesFile(path: string): Promise<VariableModeSet> {
+  const source = resolve(path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(source, "utf8"));
+  } catch (error) {
+    throw new Error(`Unable to read variable definitions ${source}: ${(error as Error).message}`);
+  }
+
+  const modes = extractVariableModes(parsed);
+  if (!modes) {
+    throw new Error(
+      `Variable definitions ${source} contain no collection with two or more modes.`,
+    );
+  }
+  return modes;
+}
+
+// A collection without the requested mode name renders in its default mode.
+function resolveColor(
+  variable: RawVariable,
+  mode: string,
+  variables: Map<string, RawVariable>,
+  collections: Map<string, RawCollection>,
+  depth: number,
+): NormalizedColor | undefined {
+  if (depth > MAX_ALIAS_DEPTH) {
+    return undefined;
+  }
+
+  const collection = variable.collectionId ? collections.get(variable.collectionId) : undefined;
+  const modeId =
+    collection?.modes.find((candidate) => candidate.name === mode)?.modeId ??
+    collection?.defaultModeId ??
+    Object.keys(variable.valuesByMode)[0];
+  const value = modeId ? asObject(variable.valuesByMode[modeId]) : undefined;
+  if (!value) {
+    return undefined;
+  }
+
+  if (value.type === "VARIABLE_ALIAS" && typeof value.id === "string") {
+    const target = variables.get(value.id);
+    return target ? resolveColor(target, mode, variables, collections, depth + 1) : undefined;
+  }
+
+  const r = readNumber(value.r);
+  const g = readNumber(value.g);
+  const b = readNumber(value.b);
+  if (r === undefined || g === undefined || b === undefined) {
+    return undefined;
+  }
+  return {
+    r: Math.round(r * 255),
+    g: Math.round(g * 255),
+    b: Math.round(b * 255),
+    a: readNumber(value.a) ?? 1,
+  };
+}
+
+function readVariable(value: unknown): RawVariable | undefined {
+  const obj = asObject(value);
+  const valuesByMode = asObject(obj?.valuesByMode);
+  if (!obj || typeof obj.id !== "string" || !valuesByMode) {
+    return undefined;
+  }
+  if (obj.resolvedType !== undefined && obj.resolvedType !== "COLOR") {
+    return undefined;
+  }
+  return {
+    id: obj.id,
+    name: typeof obj.name === "string" ? obj.name : obj.id,
+    collectionId:
+      typeof obj.variableCollectionId === "string" ? obj.variableCollectionId : undefined,
+    valuesByMode,
+  };
+}
+
+function readCollection(value: unknown): RawCollection | undefined {
+  const obj = asObject(value);
+  if (!obj || typeof obj.id !== "string" || !Array.isArray(obj.modes)) {
+    return undefined;
+  }
+  const modes = obj.modes
+    .map(asObject)
+    .filter(
+      (mode): mode is Record<string, unknown> =>
+        typeof mode?.modeId === "string" && typeof mode.name === "string",
+    )
+    .map((mode) => ({ modeId: mode.modeId as string, name: mode.name as string }));
+  return {
+    id: obj.id,
+    modes,
+    defaultModeId: typeof obj.defaultModeId === "string" ? obj.defaultModeId : modes[0]?.modeId,
+  };
+}
+
+function entriesOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  const obj = asObject(value);
+  return obj ? Object.values(obj) : [];
+}
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
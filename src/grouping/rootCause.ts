@@ -0,0 +1,85 @@
+import type { Finding, NormalizedNode, NormalizedTarget } from "../core/types.js";
+import { buildFigmaNodeUrl } from "../figma/url.js";
+import { nodeMap } from "../normalize/query.js";
+
+// Folds findings that share a root cause (same rule, main component, and measured values)
+// into one primary finding that lists every occurrence. Findings are only folded with others
+// of the same status and suppression, so gating and suppression counts stay truthful.
+export function groupFindingsByRootCause(
+  findings: Finding[],
+  target: NormalizedTarget,
+): Finding[] {
+  const groups = new Map<string, Finding[]>();
+  const out: Finding[] = [];
+
+  for (const finding of findings) {
+    if (!finding.rootCauseKey) {
+      out.push(finding);
+      continue;
+    }
+    const key = [
+      finding.rootCauseKey,
+      finding.status,
+      finding.modes?.join(",") ?? "",
+      finding.suppressed ? `${finding.suppressed.ruleId}/${finding.suppressed.targetId}` : "",
+    ].join("|");
+    const group = groups.get(key) ?? [];
+    group.push(finding);
+    groups.set(key, group);
+  }
+
+  const byId = nodeMap(target);
+  for (const group of groups.values()) {
+    if (group.length === 1) {
+      out.push(group[0]);
+      continue;
+    }
+
+    const members = [...group].sort((a, b) =>
+      [a.targetRef.nodeId, a.id].join("|").localeCompare([b.targetRef.nodeId, b.id].join("|")),
+    );
+    const primary = members[0];
+    const componentId = primary.componentId as string;
+    const component = byId.get(componentId);
+    const instance = target.nodes.find((node) => node.componentId === componentId);
+    const componentName =
+      component?.name ?? instance?.componentName ?? instance?.name ?? componentId;
+    const sourceFix =
+      primary.status === "exempt"
+        ? undefined
+        : `Fix at source component ${componentName}: ${sourceComponentLink(
+            target.figmaUrl,
+            componentId,
+            instance,
+          )}`;
+
+    out.push({
+      ...primary,
+      message: `${primary.message} Repeated in ${members.length} instances of ${componentName}.`,
+      recommendation: [sourceFix, primary.recommendation].filter(Boolean).join(" ") || undefined,
+      occurrences: members.map((finding) => ({
+        id: finding.id,
+        nodeId: finding.targetRef.nodeId,
+        layerPath: finding.targetRef.layerPath,
+      })),
+    });
+  }
+
+  return out;
+}
+
+// Library components live in their own file; without its key there is nothing to link to.
+function sourceComponentLink(
+  figmaUrl: string,
+  componentId: string,
+  instance: NormalizedNode | undefined,
+): string {
+  if (instance?.componentRemote && !instance.componentFileKey) {
+    return `node ${componentId} in its library file`;
+  }
+  try {
+    return buildFigmaNodeUrl(figmaUrl, componentId, instance?.componentFileKey);
+  } catch {
+    return `node ${componentId}`;
+  }
+}
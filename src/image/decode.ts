@@ -0,0 +1,51 @@
+import { decodeJpeg } from "./jpeg.js";
+import { decodePng } from "./png.js";
+import { decodeWebp } from "./webp.js";
+
+// 8-bit RGBA pixels, row by row, whatever the source format.
+export interface DecodedImage {
+  width: number;
+  height: number;
+  rgba: Uint8Array;
+}
+
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+// Formats are told apart by their signatures; file extensions and MIME types are not trusted.
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 0)) {
+    return "png";
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff], 0)) {
+    return "jpeg";
+  }
+  // "RIFF" ... "WEBP"
+  if (
+    startsWith(bytes, [0x52, 0x49, 0x46, 0x46], 0) &&
+    startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "webp";
+  }
+  return undefined;
+}
+
+// Throws with a readable reason when the bytes are not an image this module can decode.
+export function decodeImage(bytes: Uint8Array): DecodedImage {
+  switch (sniffImageFormat(bytes)) {
+    case "png":
+      return decodePng(bytes);
+    case "jpeg":
+      return decodeJpeg(bytes);
+    case "webp":
+      return decodeWebp(bytes);
+    default:
+      throw new Error("Unrecognized image format (expected PNG, JPEG or WebP).");
+  }
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset: number): boolean {
+  return (
+    bytes.length >= offset + signature.length &&
+    signature.every((byte, index) => bytes[offset + index] === byte)
+  );
+}
@@ -0,0 +1,574 @@
+import type { DecodedImage } from "./decode.js";
+import { assertImageSize } from "./limits.js";
+
+// Baseline and extended sequential (Huffman-coded, 8-bit) JPEG, the kind screenshot services
+// return. Progressive, arithmetic-coded, lossless and CMYK files are rejected with a reason.
+
+interface HuffmanTable {
+  // Canonical decoding tables per code length (ITU T.81, F.2.2.3).
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Blocks per line including the padding that completes the last MCU.
+  blocksPerLineForMcu: number;
+  coefficients: Int16Array;
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+// Zigzag position -> natural (row-major) position within an 8x8 block.
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27,
+  20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58,
+  59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// IDCT_BASIS[x * 8 + u] = C(u) / 2 * cos((2x + 1) * u * PI / 16)
+const IDCT_BASIS = Float64Array.from({ length: 64 }, (_, index) => {
+  const x = Math.floor(index / 8);
+  const u = index % 8;
+  const scale = u === 0 ? Math.SQRT1_2 : 1;
+  return (scale / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+});
+
+export function decodeJpeg(bytes: Uint8Array): DecodedImage {
+  const quantTables: Array<Int32Array | undefined> = [];
+  const dcTables: Array<HuffmanTable | undefined> = [];
+  const acTables: Array<HuffmanTable | undefined> = [];
+  let frame: Frame | undefined;
+  let restartInterval = 0;
+  let adobeTransform: number | undefined;
+
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    offset += 2;
+    // Fill bytes and markers without a payload.
+    if (marker === 0xff) {
+      offset -= 1;
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+    if (marker === 0x01 || marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      continue;
+    }
+
+    if (offset + 2 > bytes.length) {
+      throw new Error("JPEG segment is truncated.");
+    }
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    const segment = bytes.subarray(offset + 2, offset + length);
+    if (segment.length !== length - 2) {
+      throw new Error("JPEG segment is truncated.");
+    }
+
+    switch (marker) {
+      case 0xdb:
+        readQuantTables(segment, quantTables);
+        break;
+      case 0xc4:
+        readHuffmanTables(segment, dcTables, acTables);
+        break;
+      case 0xdd:
+        restartInterval = (segment[0] << 8) | segment[1];
+        break;
+      case 0xee:
+        // APP14 "Adobe": transform 0 means the three components are RGB, not YCbCr.
+        if (segment.length >= 12 && String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") {
+          adobeTransform = segment[11];
+        }
+        break;
+      case 0xc0:
+      case 0xc1:
+        frame = readFrame(segment);
+        break;
+      case 0xc2:
+      case 0xc6:
+      case 0xca:
+      case 0xce:
+        throw new Error("Progressive JPEG is not supported.");
+      case 0xc3:
+      case 0xc5:
+      case 0xc7:
+      case 0xc9:
+      case 0xcb:
+      case 0xcd:
+      case 0xcf:
+        throw new Error("Only baseline and extended sequential JPEG are supported.");
+      case 0xda:
+        if (!frame) {
+          throw new Error("JPEG scan appears before the frame header.");
+        }
+        offset = decodeScan(
+          bytes,
+          offset + length,
+          segment,
+          frame,
+          dcTables,
+          acTables,
+          restartInterval,
+        );
+        continue;
+      default:
+        break;
+    }
+    offset += length;
+  }
+
+  if (!frame) {
+    throw new Error("JPEG has no frame header.");
+  }
+  return toRgba(frame, quantTables, adobeTransform);
+}
+
+function readQuantTables(segment: Uint8Array, quantTables: Array<Int32Array | undefined>): void {
+  let offset = 0;
+  while (offset < segment.length) {
+    const precision = segment[offset] >> 4;
+    const id = segment[offset] & 0x0f;
+    offset += 1;
+    const table = new Int32Array(64);
+    for (let k = 0; k < 64; k += 1) {
+      if (precision === 0) {
+        table[ZIGZAG[k]] = segment[offset];
+        offset += 1;
+      } else {
+        table[ZIGZAG[k]] = (segment[offset] << 8) | segment[offset + 1];
+        offset += 2;
+      }
+    }
+    quantTables[id] = table;
+  }
+}
+
+function readHuffmanTables(
+  segment: Uint8Array,
+  dcTables: Array<HuffmanTable | undefined>,
+  acTables: Array<HuffmanTable | undefined>,
+): void {
+  let offset = 0;
+  while (offset + 17 <= segment.length) {
+    const tableClass = segment[offset] >> 4;
+    const id = segment[offset] & 0x0f;
+    const counts = segment.subarray(offset + 1, offset + 17);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const values = segment.slice(offset + 17, offset + 17 + total);
+    offset += 17 + total;
+
+    const maxCode = new Int32Array(18).fill(-1);
+    const valueOffset = new Int32Array(17);
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length <= 16; length += 1) {
+      const count = counts[length - 1];
+      // Offset that turns a code of this length into an index into `values`.
+      valueOffset[length] = index - code;
+      code += count;
+      index += count;
+      if (count > 0) {
+        maxCode[length] = code - 1;
+      }
+      code <<= 1;
+    }
+    // Sentinel so decoding always terminates.
+    maxCode[17] = 0x7fffffff;
+
+    const table = { maxCode, valueOffset, values };
+    if (tableClass === 0) {
+      dcTables[id] = table;
+    } else {
+      acTables[id] = table;
+    }
+  }
+}
+
+function readFrame(segment: Uint8Array): Frame {
+  const precision = segment[0];
+  const height = (segment[1] << 8) | segment[2];
+  const width = (segment[3] << 8) | segment[4];
+  const count = segment[5];
+  if (precision !== 8) {
+    throw new Error(`Only 8-bit JPEG is supported (sample precision ${precision}).`);
+  }
+  if (count === 4) {
+    throw new Error("CMYK JPEG is not supported.");
+  }
+  if (count !== 1 && count !== 3) {
+    throw new Error(`JPEG with ${count} components is not supported.`);
+  }
+  if (width === 0 || height === 0) {
+    throw new Error("JPEG without explicit dimensions is not supported.");
+  }
+  assertImageSize("JPEG", width, height);
+
+  const specs = Array.from({ length: count }, (_, index) => {
+    const base = 6 + index * 3;
+    return {
+      id: segment[base],
+      h: segment[base + 1] >> 4 || 1,
+      v: segment[base + 1] & 0x0f || 1,
+      quantTable: segment[base + 2],
+    };
+  });
+  const maxH = Math.max(...specs.map((spec) => spec.h));
+  const maxV = Math.max(...specs.map((spec) => spec.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+  const components = specs.map((spec): FrameComponent => {
+    const blocksPerLineForMcu = mcusPerLine * spec.h;
+    const blocksPerColumnForMcu = mcusPerColumn * spec.v;
+    return {
+      ...spec,
+      blocksPerLine: Math.ceil(Math.ceil((width * spec.h) / maxH) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil((height * spec.v) / maxV) / 8),
+      blocksPerLineForMcu,
+      coefficients: new Int16Array(blocksPerLineForMcu * blocksPerColumnForMcu * 64),
+      pred: 0,
+    };
+  });
+
+  return { width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+}
+
+// Reads entropy-coded bits, undoing 0xFF00 byte stuffing and stopping at the next marker.
+class ScanReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    public position: number,
+  ) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      let byte = 0;
+      if (this.position < this.bytes.length) {
+        byte = this.bytes[this.position];
+        if (byte === 0xff) {
+          const next = this.bytes[this.position + 1];
+          if (next === 0x00) {
+            this.position += 2;
+          } else {
+            // A marker ends the data; missing bits read as zero.
+            byte = 0;
+          }
+        } else {
+          this.position += 1;
+        }
+      }
+      this.bitBuffer = byte;
+      this.bitCount = 8;
+    }
+    this.bitCount -= 1;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i += 1) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      length += 1;
+    }
+    if (length > 16) {
+      throw new Error("JPEG Huffman data is corrupt.");
+    }
+    return table.values[table.valueOffset[length] + code];
+  }
+
+  // Skips to just past the next restart marker.
+  restart(): void {
+    this.bitCount = 0;
+    while (this.position + 1 < this.bytes.length) {
+      const marker = this.bytes[this.position + 1];
+      if (this.bytes[this.position] === 0xff && marker >= 0xd0 && marker <= 0xd7) {
+        this.position += 2;
+        return;
+      }
+      this.position += 1;
+    }
+  }
+}
+
+function decodeScan(
+  bytes: Uint8Array,
+  dataStart: number,
+  header: Uint8Array,
+  frame: Frame,
+  dcTables: Array<HuffmanTable | undefined>,
+  acTables: Array<HuffmanTable | undefined>,
+  restartInterval: number,
+): number {
+  const count = header[0];
+  const components = Array.from({ length: count }, (_, index) => {
+    const id = header[1 + index * 2];
+    const tables = header[2 + index * 2];
+    const component = frame.components.find((entry) => entry.id === id);
+    if (!component) {
+      throw new Error(`JPEG scan references unknown component ${id}.`);
+    }
+    component.dcTable = dcTables[tables >> 4];
+    component.acTable = acTables[tables & 0x0f];
+    if (!component.dcTable || !component.acTable) {
+      throw new Error("JPEG scan references a missing Huffman table.");
+    }
+    return component;
+  });
+
+  const reader = new ScanReader(bytes, dataStart);
+  for (const component of components) {
+    component.pred = 0;
+  }
+
+  // A single-component scan codes the component's own blocks one at a time, without padding.
+  const single = components.length === 1 ? components[0] : undefined;
+  const totalUnits = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  for (let unit = 0; unit < totalUnits; unit += 1) {
+    if (restartInterval > 0 && unit > 0 && unit % restartInterval === 0) {
+      reader.restart();
+      for (const component of components) {
+        component.pred = 0;
+      }
+    }
+
+    if (single) {
+      const row = Math.floor(unit / single.blocksPerLine);
+      const col = unit % single.blocksPerLine;
+      decodeBlock(reader, single, (row * single.blocksPerLineForMcu + col) * 64);
+      continue;
+    }
+
+    const mcuRow = Math.floor(unit / frame.mcusPerLine);
+    const mcuCol = unit % frame.mcusPerLine;
+    for (const component of components) {
+      for (let v = 0; v < component.v; v += 1) {
+        for (let h = 0; h < component.h; h += 1) {
+          const row = mcuRow * component.v + v;
+          const col = mcuCol * component.h + h;
+          decodeBlock(reader, component, (row * component.blocksPerLineForMcu + col) * 64);
+        }
+      }
+    }
+  }
+
+  // Resume marker parsing at the marker that ends the scan.
+  let offset = reader.position;
+  while (offset + 1 < bytes.length) {
+    const marker = bytes[offset + 1];
+    if (bytes[offset] === 0xff && marker !== 0x00 && !(marker >= 0xd0 && marker <= 0xd7)) {
+      break;
+    }
+    offset += 1;
+  }
+  return offset;
+}
+
+function decodeBlock(reader: ScanReader, component: FrameComponent, offset: number): void {
+  const coefficients = component.coefficients;
+  const size = reader.decode(component.dcTable!);
+  component.pred += size === 0 ? 0 : extend(reader.readBits(size), size);
+  coefficients[offset] = component.pred;
+
+  let k = 1;
+  while (k < 64) {
+    const symbol = reader.decode(component.acTable!);
+    const run = symbol >> 4;
+    const bits = symbol & 0x0f;
+    if (bits === 0) {
+      if (run < 15) {
+        // End of block.
+        break;
+      }
+      k += 16;
+      continue;
+    }
+    k += run;
+    if (k > 63) {
+      break;
+    }
+    coefficients[offset + ZIGZAG[k]] = extend(reader.readBits(bits), bits);
+    k += 1;
+  }
+}
+
+function extend(value: number, bits: number): number {
+  return value < 1 << (bits - 1) ? value - (1 << bits) + 1 : value;
+}
+
+function toRgba(
+  frame: Frame,
+  quantTables: Array<Int32Array | undefined>,
+  adobeTransform: number | undefined,
+): DecodedImage {
+  const planes = frame.components.map((component) => {
+    const quant = quantTables[component.quantTable];
+    if (!quant) {
+      throw new Error(`JPEG references missing quantization table ${component.quantTable}.`);
+    }
+    return componentPlane(component, quant);
+  });
+
+  const { width, height } = frame;
+  const rgba = new Uint8Array(width * height * 4);
+  const ids = frame.components.map((component) => component.id);
+  // R, G and B component IDs mark an untransformed RGB file when there is no Adobe marker.
+  const isRgb =
+    adobeTransform === 0 ||
+    (adobeTransform === undefined && ids[0] === 0x52 && ids[1] === 0x47 && ids[2] === 0x42);
+
+  const samplers = planes.map((plane, index) => sampler(frame, frame.components[index], plane));
+  const samples = new Array<number>(planes.length);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      samplers.forEach((sample, index) => {
+        samples[index] = sample(x, y);
+      });
+
+      const out = (y * width + x) * 4;
+      if (planes.length === 1) {
+        rgba[out] = rgba[out + 1] = rgba[out + 2] = samples[0];
+      } else if (isRgb) {
+        rgba[out] = samples[0];
+        rgba[out + 1] = samples[1];
+        rgba[out + 2] = samples[2];
+      } else {
+        const [luma, cb, cr] = samples;
+        rgba[out] = clampByte(luma + 1.402 * (cr - 128));
+        rgba[out + 1] = clampByte(luma - 0.344136 * (cb - 128) - 0.714136 * (cr - 128));
+        rgba[out + 2] = clampByte(luma + 1.772 * (cb - 128));
+      }
+      rgba[out + 3] = 255;
+    }
+  }
+
+  return { width, height, rgba };
+}
+
+// Maps full-size pixel coordinates to a component sample. Chroma subsampled by two uses the
+// triangle ("fancy") upsampling of libjpeg, so colors match what browsers and image tools
+// show; other factors repeat samples.
+function sampler(
+  frame: Frame,
+  component: FrameComponent,
+  plane: { width: number; data: Uint8Array },
+): (x: number, y: number) => number {
+  const scaleX = frame.maxH / component.h;
+  const scaleY = frame.maxV / component.v;
+  const lastCol = Math.ceil((frame.width * component.h) / frame.maxH) - 1;
+  const lastRow = Math.ceil((frame.height * component.v) / frame.maxV) - 1;
+  const at = (col: number, row: number) => plane.data[row * plane.width + col];
+  // The neighbouring sample on the side of the output pixel, clamped to the image edge.
+  const neighbour = (index: number, near: number, last: number) =>
+    Math.min(Math.max(index & 1 ? near + 1 : near - 1, 0), last);
+
+  if (scaleX === 2 && scaleY === 2) {
+    return (x, y) => {
+      const col = x >> 1;
+      const row = y >> 1;
+      const farRow = neighbour(y, row, lastRow);
+      const nearSum = 3 * at(col, row) + at(col, farRow);
+      const farCol = neighbour(x, col, lastCol);
+      const farSum = 3 * at(farCol, row) + at(farCol, farRow);
+      return (3 * nearSum + farSum + (x & 1 ? 7 : 8)) >> 4;
+    };
+  }
+  if (scaleX === 2 && scaleY === 1) {
+    return (x, y) => {
+      const col = x >> 1;
+      return (3 * at(col, y) + at(neighbour(x, col, lastCol), y) + (x & 1 ? 2 : 1)) >> 2;
+    };
+  }
+  if (scaleX === 1 && scaleY === 2) {
+    return (x, y) => {
+      const row = y >> 1;
+      return (3 * at(x, row) + at(x, neighbour(y, row, lastRow)) + (y & 1 ? 2 : 1)) >> 2;
+    };
+  }
+  return (x, y) => at(Math.floor(x / scaleX), Math.floor(y / scaleY));
+}
+
+// Dequantizes and inverse-transforms every block of a component into a sample plane.
+function componentPlane(
+  component: FrameComponent,
+  quant: Int32Array,
+): { width: number; data: Uint8Array } {
+  const blocksPerLine = component.blocksPerLineForMcu;
+  const blocksPerColumn = component.coefficients.length / 64 / blocksPerLine;
+  const width = blocksPerLine * 8;
+  const data = new Uint8Array(width * blocksPerColumn * 8);
+  const temp = new Float64Array(64);
+
+  for (let blockRow = 0; blockRow < blocksPerColumn; blockRow += 1) {
+    for (let blockCol = 0; blockCol < blocksPerLine; blockCol += 1) {
+      const offset = (blockRow * blocksPerLine + blockCol) * 64;
+
+      // Rows: temp[y * 8 + x] = sum over u of F(y, u) * basis(x, u).
+      for (let row = 0; row < 8; row += 1) {
+        for (let x = 0; x < 8; x += 1) {
+          let sum = 0;
+          for (let u = 0; u < 8; u += 1) {
+            const index = row * 8 + u;
+            sum += component.coefficients[offset + index] * quant[index] * IDCT_BASIS[x * 8 + u];
+          }
+          temp[row * 8 + x] = sum;
+        }
+      }
+
+      // Columns, then level shift back to 0..255.
+      for (let x = 0; x < 8; x += 1) {
+        for (let y = 0; y < 8; y += 1) {
+          let sum = 0;
+          for (let v = 0; v < 8; v += 1) {
+            sum += temp[v * 8 + x] * IDCT_BASIS[y * 8 + v];
+          }
+          data[(blockRow * 8 + y) * width + blockCol * 8 + x] = clampByte(sum + 128);
+        }
+      }
+    }
+  }
+
+  return { width, data };
+}
+
+function clampByte(value: number): number {
+  return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value);
+}
@@ -0,0 +1,11 @@
+// Screenshots are a few megapixels. A header claiming far more is corrupt or hostile, and
+// honoring it would allocate gigabytes before any pixel data is read.
+export const MAX_IMAGE_PIXELS = 64_000_000;
+
+export function assertImageSize(format: string, width: number, height: number): void {
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new Error(
+      `${format} is ${width}x${height} pixels, above the ${MAX_IMAGE_PIXELS / 1_000_000} MP decoding limit.`,
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { inflateSync } from "node:zlib";
+import type { DecodedImage } from "./decode.js";
+import { assertImageSize } from "./limits.js";
+
+export function decodePng(bytes: Uint8Array): DecodedImage {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const idatChunks: Buffer[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUInt32(bytes, offset);
+    const type = Buffer.from(bytes.slice(offset + 4, offset + 8)).toString("ascii");
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    const crcEnd = dataEnd + 4;
+    if (crcEnd > bytes.length) {
+      throw new Error(`PNG chunk ${type} is truncated.`);
+    }
+
+    const data = bytes.slice(dataStart, dataEnd);
+    if (type === "IHDR") {
+      width = readUInt32(data, 0);
+      height = readUInt32(data, 4);
+      bitDepth = data[8];
+      colorType = data[9];
+    } else if (type === "IDAT") {
+      idatChunks.push(Buffer.from(data));
+    } else if (type === "IEND") {
+      break;
+    }
+
+    offset = crcEnd;
+  }
+
+  if (width <= 0 || height <= 0 || idatChunks.length === 0) {
+    throw new Error("PNG has no image header or image data.");
+  }
+  assertImageSize("PNG", width, height);
+  if (bitDepth !== 8 || (colorType !== 6 && colorType !== 2)) {
+    throw new Error(
+      `Only 8-bit RGB and RGBA PNGs are supported ` +
+        `(bit depth ${bitDepth}, color type ${colorType}).`,
+    );
+  }
+
+  const compressed = Buffer.concat(idatChunks);
+  const raw = inflateSync(compressed);
+  const bpp = colorType === 6 ? 4 : 3;
+  const stride = width * bpp;
+  const expected = height * (stride + 1);
+  if (raw.length < expected) {
+    throw new Error("PNG image data is truncated.");
+  }
+
+  const reconstructed = new Uint8Array(height * stride);
+  let srcOffset = 0;
+  for (let y = 0; y < height; y += 1) {
+    const filterType = raw[srcOffset];
+    srcOffset += 1;
+    const rowStart = y * stride;
+    for (let x = 0; x < stride; x += 1) {
+      const rawByte = raw[srcOffset + x];
+      const left = x >= bpp ? reconstructed[rowStart + x - bpp] : 0;
+      const up = y > 0 ? reconstructed[rowStart - stride + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? reconstructed[rowStart - stride + x - bpp] : 0;
+      reconstructed[rowStart + x] = applyFilter(filterType, rawByte, left, up, upLeft);
+    }
+    srcOffset += stride;
+  }
+
+  const rgba = new Uint8Array(width * height * 4);
+  if (colorType === 6) {
+    rgba.set(reconstructed);
+  } else {
+    for (let i = 0, j = 0; i < reconstructed.length; i += 3, j += 4) {
+      rgba[j] = reconstructed[i];
+      rgba[j + 1] = reconstructed[i + 1];
+      rgba[j + 2] = reconstructed[i + 2];
+      rgba[j + 3] = 255;
+    }
+  }
+
+  return { width, height, rgba };
+}
+
+function applyFilter(
+  filterType: number,
+  rawByte: number,
+  left: number,
+  up: number,
+  upLeft: number,
+): number {
+  switch (filterType) {
+    case 0:
+      return rawByte;
+    case 1:
+      return (rawByte + left) & 0xff;
+    case 2:
+      return (rawByte + up) & 0xff;
+    case 3:
+      return (rawByte + Math.floor((left + up) / 2)) & 0xff;
+    case 4:
+      return (rawByte + paethPredictor(left, up, upLeft)) & 0xff;
+    default:
+      return rawByte;
+  }
+}
+
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  if (pb <= pc) {
+    return b;
+  }
+  return c;
+}
+
+function readUInt32(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]
+  ) >>> 0;
+}
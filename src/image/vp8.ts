@@ -0,0 +1,1196 @@
+import type { DecodedImage } from "./decode.js";
+import { assertImageSize } from "./limits.js";
+import {
+  AC_TABLE,
+  B_MODE_PROBA,
+  COEFF_PROBA,
+  COEFF_UPDATE_PROBA,
+  DC_TABLE,
+} from "./vp8-tables.js";
+
+// Intra prediction modes. The 16x16 luma and chroma modes share the first four values; the
+// "no top"/"no left" DC variants are picked for macroblocks on the image border.
+const DC_PRED = 0;
+const TM_PRED = 1;
+const V_PRED = 2;
+const H_PRED = 3;
+const DC_PRED_NO_TOP = 4;
+const DC_PRED_NO_LEFT = 5;
+const DC_PRED_NO_TOP_LEFT = 6;
+
+// Sub-block modes after DC, TM, VE and HE.
+const B_RD_PRED = 4;
+const B_VR_PRED = 5;
+const B_LD_PRED = 6;
+const B_VL_PRED = 7;
+const B_HD_PRED = 8;
+
+const Y_MODES_INTRA4 = [0, 1, -1, 2, -2, 3, 4, 6, -3, 5, -4, -5, -6, 7, -7, 8, -8, -9];
+
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0];
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+const CAT_PROBA = [
+  [173, 148, 140],
+  [176, 155, 140, 135],
+  [180, 157, 141, 134, 130],
+  [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129],
+];
+
+// Coefficient types, as indexes into the token probabilities.
+const TYPE_I16_AC = 0;
+const TYPE_Y2 = 1;
+const TYPE_CHROMA = 2;
+const TYPE_I4 = 3;
+
+const NUM_SEGMENTS = 4;
+
+// Macroblocks are predicted in a small scratch block whose rows are BPS bytes apart, with
+// room for the row above and the column to the left (and four top-right pixels for luma).
+const BPS = 32;
+const ORIGIN = BPS + 8;
+
+const K_C1 = 20091 + 65536;
+const K_C2 = 35468;
+
+interface QuantMatrix {
+  y1: [number, number];
+  y2: [number, number];
+  uv: [number, number];
+}
+
+interface FilterStrength {
+  limit: number;
+  innerLimit: number;
+  hevThreshold: number;
+}
+
+interface FrameHeader {
+  segmentProba: number[];
+  updateSegmentMap: boolean;
+  quant: QuantMatrix[];
+  filterType: "none" | "simple" | "normal";
+  // Indexed by segment, then by whether the macroblock uses 4x4 prediction.
+  filterStrengths: FilterStrength[][];
+  coeffProba: number[][][][];
+  skipProba: number | undefined;
+  partitions: BoolDecoder[];
+}
+
+interface MacroblockFilter {
+  strength: FilterStrength;
+  inner: boolean;
+}
+
+interface Planes {
+  y: Uint8Array;
+  u: Uint8Array;
+  v: Uint8Array;
+  yStride: number;
+  uvStride: number;
+}
+
+// The boolean entropy decoder of RFC 6386, section 7.
+class BoolDecoder {
+  private value: number;
+  private range = 255;
+  private bitCount = 0;
+  private offset: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    start: number,
+    private readonly end: number,
+  ) {
+    this.offset = start;
+    this.value = (this.nextByte() << 8) | this.nextByte();
+  }
+
+  getBit(probability: number): number {
+    const split = 1 + (((this.range - 1) * probability) >> 8);
+    const bigSplit = split << 8;
+    let bit: number;
+    if (this.value >= bigSplit) {
+      bit = 1;
+      this.range -= split;
+      this.value -= bigSplit;
+    } else {
+      bit = 0;
+      this.range = split;
+    }
+    while (this.range < 128) {
+      this.value <<= 1;
+      this.range <<= 1;
+      this.bitCount += 1;
+      if (this.bitCount === 8) {
+        this.bitCount = 0;
+        this.value |= this.nextByte();
+      }
+    }
+    return bit;
+  }
+
+  getValue(bits: number): number {
+    let value = 0;
+    for (let i = bits - 1; i >= 0; i -= 1) {
+      value |= this.getBit(128) << i;
+    }
+    return value;
+  }
+
+  getSignedValue(bits: number): number {
+    const value = this.getValue(bits);
+    return this.getBit(128) ? -value : value;
+  }
+
+  getSigned(value: number): number {
+    return this.getBit(128) ? -value : value;
+  }
+
+  // Reads past the end of the partition as zeros, like libvpx and libwebp.
+  private nextByte(): number {
+    return this.offset < this.end ? this.bytes[this.offset++] : 0;
+  }
+}
+
+// Lossy WebP ("VP8 " chunk): a single VP8 key frame, converted to RGBA with the fancy chroma
+// upsampling libwebp uses by default.
+export function decodeVp8(bytes: Uint8Array): DecodedImage {
+  if (bytes.length < 10) {
+    throw new Error("WebP lossy data is truncated.");
+  }
+  const tag = bytes[0] | (bytes[1] << 8) | (bytes[2] << 16);
+  if (tag & 1) {
+    throw new Error("WebP lossy data does not start with a key frame.");
+  }
+  if (bytes[3] !== 0x9d || bytes[4] !== 0x01 || bytes[5] !== 0x2a) {
+    throw new Error("WebP lossy data has an invalid start code.");
+  }
+  const width = (bytes[6] | (bytes[7] << 8)) & 0x3fff;
+  const height = (bytes[8] | (bytes[9] << 8)) & 0x3fff;
+  if (width === 0 || height === 0) {
+    throw new Error("WebP lossy image has no pixels.");
+  }
+  assertImageSize("WebP lossy image", width, height);
+  const firstPartitionEnd = 10 + (tag >> 5);
+  if (firstPartitionEnd > bytes.length) {
+    throw new Error("WebP lossy data is truncated.");
+  }
+
+  const reader = new BoolDecoder(bytes, 10, firstPartitionEnd);
+  const header = readFrameHeader(reader, bytes, firstPartitionEnd);
+  const mbWidth = (width + 15) >> 4;
+  const mbHeight = (height + 15) >> 4;
+  const planes: Planes = {
+    y: new Uint8Array(mbWidth * 16 * mbHeight * 16),
+    u: new Uint8Array(mbWidth * 8 * mbHeight * 8),
+    v: new Uint8Array(mbWidth * 8 * mbHeight * 8),
+    yStride: mbWidth * 16,
+    uvStride: mbWidth * 8,
+  };
+
+  const filters = decodeMacroblocks(reader, header, planes, mbWidth, mbHeight);
+  if (header.filterType !== "none") {
+    applyLoopFilter(planes, filters, mbWidth, mbHeight, header.filterType === "simple");
+  }
+  return { width, height, rgba: toRgba(planes, width, height) };
+}
+
+function readFrameHeader(
+  reader: BoolDecoder,
+  bytes: Uint8Array,
+  firstPartitionEnd: number,
+): FrameHeader {
+  // Color space and clamping type; both are fixed for still images.
+  reader.getValue(2);
+
+  const useSegment = reader.getBit(128) === 1;
+  let updateSegmentMap = false;
+  let absoluteDelta = true;
+  const segmentQuantizer = new Array<number>(NUM_SEGMENTS).fill(0);
+  const segmentFilterStrength = new Array<number>(NUM_SEGMENTS).fill(0);
+  const segmentProba = [255, 255, 255];
+  if (useSegment) {
+    updateSegmentMap = reader.getBit(128) === 1;
+    if (reader.getBit(128)) {
+      absoluteDelta = reader.getBit(128) === 1;
+      for (let s = 0; s < NUM_SEGMENTS; s += 1) {
+        segmentQuantizer[s] = reader.getBit(128) ? reader.getSignedValue(7) : 0;
+      }
+      for (let s = 0; s < NUM_SEGMENTS; s += 1) {
+        segmentFilterStrength[s] = reader.getBit(128) ? reader.getSignedValue(6) : 0;
+      }
+    }
+    if (updateSegmentMap) {
+      for (let i = 0; i < segmentProba.length; i += 1) {
+        segmentProba[i] = reader.getBit(128) ? reader.getValue(8) : 255;
+      }
+    }
+  }
+
+  const simpleFilter = reader.getBit(128) === 1;
+  const filterLevel = reader.getValue(6);
+  const sharpness = reader.getValue(3);
+  const refDeltas = [0, 0, 0, 0];
+  const modeDeltas = [0, 0, 0, 0];
+  const useDeltas = reader.getBit(128) === 1;
+  if (useDeltas && reader.getBit(128)) {
+    for (let i = 0; i < refDeltas.length; i += 1) {
+      if (reader.getBit(128)) {
+        refDeltas[i] = reader.getSignedValue(6);
+      }
+    }
+    for (let i = 0; i < modeDeltas.length; i += 1) {
+      if (reader.getBit(128)) {
+        modeDeltas[i] = reader.getSignedValue(6);
+      }
+    }
+  }
+
+  const partitions = readPartitions(bytes, firstPartitionEnd, 1 << reader.getValue(2));
+
+  const baseQ = reader.getValue(7);
+  const dqY1Dc = reader.getBit(128) ? reader.getSignedValue(4) : 0;
+  const dqY2Dc = reader.getBit(128) ? reader.getSignedValue(4) : 0;
+  const dqY2Ac = reader.getBit(128) ? reader.getSignedValue(4) : 0;
+  const dqUvDc = reader.getBit(128) ? reader.getSignedValue(4) : 0;
+  const dqUvAc = reader.getBit(128) ? reader.getSignedValue(4) : 0;
+  const quant: QuantMatrix[] = [];
+  for (let s = 0; s < NUM_SEGMENTS; s += 1) {
+    let q = baseQ;
+    if (useSegment) {
+      q = segmentQuantizer[s] + (absoluteDelta ? 0 : baseQ);
+    }
+    quant.push({
+      y1: [DC_TABLE[clip(q + dqY1Dc, 127)], AC_TABLE[clip(q, 127)]],
+      y2: [
+        DC_TABLE[clip(q + dqY2Dc, 127)] * 2,
+        Math.max(8, (AC_TABLE[clip(q + dqY2Ac, 127)] * 101581) >> 16),
+      ],
+      uv: [DC_TABLE[clip(q + dqUvDc, 117)], AC_TABLE[clip(q + dqUvAc, 127)]],
+    });
+  }
+
+  // The "refresh entropy probabilities" flag only matters for following frames.
+  reader.getBit(128);
+
+  const coeffProba = COEFF_PROBA.map((bands, t) =>
+    bands.map((contexts, b) =>
+      contexts.map((probas, c) =>
+        probas.map((proba, p) =>
+          reader.getBit(COEFF_UPDATE_PROBA[t][b][c][p]) ? reader.getValue(8) : proba,
+        ),
+      ),
+    ),
+  );
+  const skipProba = reader.getBit(128) ? reader.getValue(8) : undefined;
+
+  const filterStrengths: FilterStrength[][] = [];
+  for (let s = 0; s < NUM_SEGMENTS; s += 1) {
+    let baseLevel = filterLevel;
+    if (useSegment) {
+      baseLevel = segmentFilterStrength[s] + (absoluteDelta ? 0 : filterLevel);
+    }
+    filterStrengths.push(
+      [false, true].map((intra4x4) => {
+        let level = baseLevel;
+        if (useDeltas) {
+          level += refDeltas[0] + (intra4x4 ? modeDeltas[0] : 0);
+        }
+        return filterStrength(clip(level, 63), sharpness);
+      }),
+    );
+  }
+
+  return {
+    segmentProba,
+    updateSegmentMap,
+    quant,
+    filterType: filterLevel === 0 ? "none" : simpleFilter ? "simple" : "normal",
+    filterStrengths,
+    coeffProba,
+    skipProba,
+    partitions,
+  };
+}
+
+function readPartitions(bytes: Uint8Array, start: number, count: number): BoolDecoder[] {
+  const sizesEnd = start + 3 * (count - 1);
+  if (sizesEnd > bytes.length) {
+    throw new Error("WebP lossy partition table is truncated.");
+  }
+  const partitions: BoolDecoder[] = [];
+  let partStart = sizesEnd;
+  for (let p = 0; p < count - 1; p += 1) {
+    const sizeOffset = start + p * 3;
+    const size =
+      bytes[sizeOffset] | (bytes[sizeOffset + 1] << 8) | (bytes[sizeOffset + 2] << 16);
+    const partEnd = Math.min(partStart + size, bytes.length);
+    partitions.push(new BoolDecoder(bytes, partStart, partEnd));
+    partStart = partEnd;
+  }
+  partitions.push(new BoolDecoder(bytes, partStart, bytes.length));
+  return partitions;
+}
+
+function filterStrength(level: number, sharpness: number): FilterStrength {
+  if (level === 0) {
+    return { limit: 0, innerLimit: 0, hevThreshold: 0 };
+  }
+  let innerLimit = level;
+  if (sharpness > 0) {
+    innerLimit >>= sharpness > 4 ? 2 : 1;
+    innerLimit = Math.min(innerLimit, 9 - sharpness);
+  }
+  innerLimit = Math.max(innerLimit, 1);
+  return {
+    limit: 2 * level + innerLimit,
+    innerLimit,
+    hevThreshold: level >= 40 ? 2 : level >= 15 ? 1 : 0,
+  };
+}
+
+function decodeMacroblocks(
+  reader: BoolDecoder,
+  header: FrameHeader,
+  planes: Planes,
+  mbWidth: number,
+  mbHeight: number,
+): MacroblockFilter[] {
+  const filters: MacroblockFilter[] = [];
+  const coeffs = new Int16Array(384);
+  const modes = new Uint8Array(16);
+  // Sub-block modes and non-zero flags of the macroblock row above and the macroblock to the left.
+  const intraTop = new Uint8Array(mbWidth * 4);
+  const intraLeft = new Uint8Array(4);
+  const nzTop = new Uint8Array(mbWidth);
+  const nzDcTop = new Uint8Array(mbWidth);
+  const work = {
+    y: new Uint8Array(BPS * 17),
+    u: new Uint8Array(BPS * 9),
+    v: new Uint8Array(BPS * 9),
+  };
+
+  for (let mbY = 0; mbY < mbHeight; mbY += 1) {
+    const tokens = header.partitions[mbY & (header.partitions.length - 1)];
+    intraLeft.fill(DC_PRED);
+    const left = { nz: 0, nzDc: 0 };
+
+    for (let mbX = 0; mbX < mbWidth; mbX += 1) {
+      let segment = 0;
+      if (header.updateSegmentMap) {
+        const proba = header.segmentProba;
+        segment = reader.getBit(proba[0])
+          ? 2 + reader.getBit(proba[2])
+          : reader.getBit(proba[1]);
+      }
+      let skip = header.skipProba !== undefined ? reader.getBit(header.skipProba) === 1 : false;
+
+      const intra4x4 = !reader.getBit(145);
+      if (intra4x4) {
+        for (let y = 0; y < 4; y += 1) {
+          let mode = intraLeft[y];
+          for (let x = 0; x < 4; x += 1) {
+            const proba = B_MODE_PROBA[intraTop[mbX * 4 + x]][mode];
+            let i = Y_MODES_INTRA4[reader.getBit(proba[0])];
+            while (i > 0) {
+              i = Y_MODES_INTRA4[2 * i + reader.getBit(proba[i])];
+            }
+            mode = -i;
+            intraTop[mbX * 4 + x] = mode;
+            modes[y * 4 + x] = mode;
+          }
+          intraLeft[y] = mode;
+        }
+      } else {
+        const mode = reader.getBit(156)
+          ? reader.getBit(128)
+            ? TM_PRED
+            : H_PRED
+          : reader.getBit(163)
+            ? V_PRED
+            : DC_PRED;
+        modes[0] = mode;
+        intraTop.fill(mode, mbX * 4, mbX * 4 + 4);
+        intraLeft.fill(mode);
+      }
+      const uvMode = !reader.getBit(142)
+        ? DC_PRED
+        : !reader.getBit(114)
+          ? V_PRED
+          : reader.getBit(183)
+            ? TM_PRED
+            : H_PRED;
+
+      coeffs.fill(0);
+      if (!skip) {
+        const top = { nz: nzTop[mbX], nzDc: nzDcTop[mbX] };
+        skip = !readResiduals(tokens, header, header.quant[segment], intra4x4, top, left, coeffs);
+        nzTop[mbX] = top.nz;
+        nzDcTop[mbX] = top.nzDc;
+      } else {
+        nzTop[mbX] = 0;
+        left.nz = 0;
+        if (!intra4x4) {
+          nzDcTop[mbX] = 0;
+          left.nzDc = 0;
+        }
+      }
+
+      filters.push({
+        strength: header.filterStrengths[segment][intra4x4 ? 1 : 0],
+        inner: intra4x4 || !skip,
+      });
+      reconstruct(work, planes, mbX, mbY, mbWidth, intra4x4, modes, uvMode, coeffs);
+    }
+  }
+  return filters;
+}
+
+// Reads the coefficients of one macroblock into `coeffs` (16 luma, 4 U and 4 V blocks of 16,
+// already dequantized and in raster order). Returns whether any coefficient is non-zero.
+function readResiduals(
+  tokens: BoolDecoder,
+  header: FrameHeader,
+  quant: QuantMatrix,
+  intra4x4: boolean,
+  top: { nz: number; nzDc: number },
+  left: { nz: number; nzDc: number },
+  coeffs: Int16Array,
+): boolean {
+  let nonZero = false;
+  let first: number;
+  let acProba: number[][][];
+
+  if (!intra4x4) {
+    const dc = new Int16Array(16);
+    const ctx = top.nzDc + left.nzDc;
+    const nz = readCoeffs(tokens, header.coeffProba[TYPE_Y2], ctx, quant.y2, 0, dc, 0);
+    top.nzDc = left.nzDc = nz > 0 ? 1 : 0;
+    if (nz > 1) {
+      inverseWalshHadamard(dc, coeffs);
+    } else {
+      const dc0 = (dc[0] + 3) >> 3;
+      for (let i = 0; i < 256; i += 16) {
+        coeffs[i] = dc0;
+      }
+    }
+    first = 1;
+    acProba = header.coeffProba[TYPE_I16_AC];
+  } else {
+    first = 0;
+    acProba = header.coeffProba[TYPE_I4];
+  }
+
+  let tnz = top.nz & 0x0f;
+  let lnz = left.nz & 0x0f;
+  for (let y = 0; y < 4; y += 1) {
+    let l = lnz & 1;
+    for (let x = 0; x < 4; x += 1) {
+      const ctx = l + (tnz & 1);
+      const offset = (y * 4 + x) * 16;
+      const nz = readCoeffs(tokens, acProba, ctx, quant.y1, first, coeffs, offset);
+      l = nz > first ? 1 : 0;
+      tnz = (tnz >> 1) | (l << 7);
+      nonZero ||= nz > 1 || coeffs[offset] !== 0;
+    }
+    tnz >>= 4;
+    lnz = (lnz >> 1) | (l << 7);
+  }
+  let outTop = tnz;
+  let outLeft = lnz >> 4;
+
+  const chromaProba = header.coeffProba[TYPE_CHROMA];
+  for (let ch = 0; ch < 4; ch += 2) {
+    tnz = top.nz >> (4 + ch);
+    lnz = left.nz >> (4 + ch);
+    for (let y = 0; y < 2; y += 1) {
+      let l = lnz & 1;
+      for (let x = 0; x < 2; x += 1) {
+        const ctx = l + (tnz & 1);
+        const offset = 256 + (ch * 2 + y * 2 + x) * 16;
+        const nz = readCoeffs(tokens, chromaProba, ctx, quant.uv, 0, coeffs, offset);
+        l = nz > 0 ? 1 : 0;
+        tnz = (tnz >> 1) | (l << 3);
+        nonZero ||= nz > 0;
+      }
+      tnz >>= 2;
+      lnz = (lnz >> 1) | (l << 5);
+    }
+    outTop |= (tnz << 4) << ch;
+    outLeft |= (lnz & 0xf0) << ch;
+  }
+  top.nz = outTop;
+  left.nz = outLeft;
+  return nonZero;
+}
+
+// Returns the index after the last non-zero coefficient (or `first` when there are none).
+function readCoeffs(
+  tokens: BoolDecoder,
+  proba: number[][][],
+  ctx: number,
+  dq: [number, number],
+  first: number,
+  out: Int16Array,
+  offset: number,
+): number {
+  let p = proba[BANDS[first]][ctx];
+  for (let n = first; n < 16; n += 1) {
+    if (!tokens.getBit(p[0])) {
+      return n;
+    }
+    while (!tokens.getBit(p[1])) {
+      n += 1;
+      if (n === 16) {
+        return 16;
+      }
+      p = proba[BANDS[n]][0];
+    }
+    const next = proba[BANDS[n + 1]];
+    let value: number;
+    if (!tokens.getBit(p[2])) {
+      value = 1;
+      p = next[1];
+    } else {
+      value = readLargeValue(tokens, p);
+      p = next[2];
+    }
+    out[offset + ZIGZAG[n]] = tokens.getSigned(value) * dq[n > 0 ? 1 : 0];
+  }
+  return 16;
+}
+
+function readLargeValue(tokens: BoolDecoder, p: number[]): number {
+  if (!tokens.getBit(p[3])) {
+    return tokens.getBit(p[4]) ? 3 + tokens.getBit(p[5]) : 2;
+  }
+  if (!tokens.getBit(p[6])) {
+    if (!tokens.getBit(p[7])) {
+      return 5 + tokens.getBit(159);
+    }
+    const value = 7 + 2 * tokens.getBit(165);
+    return value + tokens.getBit(145);
+  }
+  const bit1 = tokens.getBit(p[8]);
+  const bit0 = tokens.getBit(p[9 + bit1]);
+  const cat = 2 * bit1 + bit0;
+  let value = 0;
+  for (const proba of CAT_PROBA[cat]) {
+    value = 2 * value + tokens.getBit(proba);
+  }
+  return value + 3 + (8 << cat);
+}
+
+// Spreads the second-order luma DC block over the DC coefficients of the 16 luma blocks.
+function inverseWalshHadamard(input: Int16Array, out: Int16Array): void {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i += 1) {
+    const a0 = input[i] + input[12 + i];
+    const a1 = input[4 + i] + input[8 + i];
+    const a2 = input[4 + i] - input[8 + i];
+    const a3 = input[i] - input[12 + i];
+    tmp[i] = a0 + a1;
+    tmp[8 + i] = a0 - a1;
+    tmp[4 + i] = a3 + a2;
+    tmp[12 + i] = a3 - a2;
+  }
+  for (let i = 0; i < 4; i += 1) {
+    const dc = tmp[i * 4] + 3;
+    const a0 = dc + tmp[3 + i * 4];
+    const a1 = tmp[1 + i * 4] + tmp[2 + i * 4];
+    const a2 = tmp[1 + i * 4] - tmp[2 + i * 4];
+    const a3 = dc - tmp[3 + i * 4];
+    out[i * 64] = (a0 + a1) >> 3;
+    out[i * 64 + 16] = (a3 + a2) >> 3;
+    out[i * 64 + 32] = (a0 - a1) >> 3;
+    out[i * 64 + 48] = (a3 - a2) >> 3;
+  }
+}
+
+function reconstruct(
+  work: { y: Uint8Array; u: Uint8Array; v: Uint8Array },
+  planes: Planes,
+  mbX: number,
+  mbY: number,
+  mbWidth: number,
+  intra4x4: boolean,
+  modes: Uint8Array,
+  uvMode: number,
+  coeffs: Int16Array,
+): void {
+  loadBorders(work.y, planes.y, planes.yStride, mbX, mbY, 16);
+  loadBorders(work.u, planes.u, planes.uvStride, mbX, mbY, 8);
+  loadBorders(work.v, planes.v, planes.uvStride, mbX, mbY, 8);
+
+  if (intra4x4) {
+    // The sub-blocks on the right edge predict from the four pixels above and to the right of
+    // the macroblock, repeated next to every fourth row.
+    const topRight = ORIGIN - BPS + 16;
+    if (mbY > 0) {
+      const above = (mbY * 16 - 1) * planes.yStride + mbX * 16;
+      for (let i = 0; i < 4; i += 1) {
+        work.y[topRight + i] =
+          mbX < mbWidth - 1 ? planes.y[above + 16 + i] : planes.y[above + 15];
+      }
+    }
+    for (let row = 1; row < 4; row += 1) {
+      work.y.copyWithin(topRight + row * 4 * BPS, topRight, topRight + 4);
+    }
+    for (let n = 0; n < 16; n += 1) {
+      const dst = ORIGIN + (n & 3) * 4 + (n >> 2) * 4 * BPS;
+      predictLuma4(work.y, dst, modes[n]);
+      inverseTransform(coeffs, n * 16, work.y, dst);
+    }
+  } else {
+    predictBlock(work.y, ORIGIN, 16, borderMode(modes[0], mbX, mbY));
+    for (let n = 0; n < 16; n += 1) {
+      inverseTransform(coeffs, n * 16, work.y, ORIGIN + (n & 3) * 4 + (n >> 2) * 4 * BPS);
+    }
+  }
+
+  const chromaMode = borderMode(uvMode, mbX, mbY);
+  predictBlock(work.u, ORIGIN, 8, chromaMode);
+  predictBlock(work.v, ORIGIN, 8, chromaMode);
+  for (let n = 0; n < 4; n += 1) {
+    const dst = ORIGIN + (n & 1) * 4 + (n >> 1) * 4 * BPS;
+    inverseTransform(coeffs, 256 + n * 16, work.u, dst);
+    inverseTransform(coeffs, 320 + n * 16, work.v, dst);
+  }
+
+  storeBlock(work.y, planes.y, planes.yStride, mbX, mbY, 16);
+  storeBlock(work.u, planes.u, planes.uvStride, mbX, mbY, 8);
+  storeBlock(work.v, planes.v, planes.uvStride, mbX, mbY, 8);
+}
+
+// Fills the row above and the column left of the scratch block from the (still unfiltered)
+// neighbouring macroblocks: 127 above the image, 129 left of it.
+function loadBorders(
+  work: Uint8Array,
+  plane: Uint8Array,
+  stride: number,
+  mbX: number,
+  mbY: number,
+  size: number,
+): void {
+  const x0 = mbX * size;
+  const y0 = mbY * size;
+  const topRow = ORIGIN - BPS;
+  if (mbY === 0) {
+    work.fill(127, topRow - 1, topRow + size + 4);
+  } else {
+    work.set(plane.subarray((y0 - 1) * stride + x0, (y0 - 1) * stride + x0 + size), topRow);
+    work[topRow - 1] = mbX === 0 ? 129 : plane[(y0 - 1) * stride + x0 - 1];
+  }
+  for (let y = 0; y < size; y += 1) {
+    work[ORIGIN + y * BPS - 1] = mbX === 0 ? 129 : plane[(y0 + y) * stride + x0 - 1];
+  }
+}
+
+function storeBlock(
+  work: Uint8Array,
+  plane: Uint8Array,
+  stride: number,
+  mbX: number,
+  mbY: number,
+  size: number,
+): void {
+  for (let y = 0; y < size; y += 1) {
+    const row = ORIGIN + y * BPS;
+    plane.set(work.subarray(row, row + size), (mbY * size + y) * stride + mbX * size);
+  }
+}
+
+function borderMode(mode: number, mbX: number, mbY: number): number {
+  if (mode !== DC_PRED) {
+    return mode;
+  }
+  if (mbX === 0) {
+    return mbY === 0 ? DC_PRED_NO_TOP_LEFT : DC_PRED_NO_LEFT;
+  }
+  return mbY === 0 ? DC_PRED_NO_TOP : DC_PRED;
+}
+
+// 16x16 luma and 8x8 chroma prediction.
+function predictBlock(buf: Uint8Array, dst: number, size: number, mode: number): void {
+  const shift = size === 16 ? 4 : 3;
+  let sum = 0;
+  switch (mode) {
+    case DC_PRED:
+      for (let i = 0; i < size; i += 1) {
+        sum += buf[dst - BPS + i] + buf[dst + i * BPS - 1];
+      }
+      fillBlock(buf, dst, size, (sum + size) >> (shift + 1));
+      return;
+    case DC_PRED_NO_TOP:
+      for (let i = 0; i < size; i += 1) {
+        sum += buf[dst + i * BPS - 1];
+      }
+      fillBlock(buf, dst, size, (sum + (size >> 1)) >> shift);
+      return;
+    case DC_PRED_NO_LEFT:
+      for (let i = 0; i < size; i += 1) {
+        sum += buf[dst - BPS + i];
+      }
+      fillBlock(buf, dst, size, (sum + (size >> 1)) >> shift);
+      return;
+    case DC_PRED_NO_TOP_LEFT:
+      fillBlock(buf, dst, size, 0x80);
+      return;
+    case TM_PRED:
+      trueMotion(buf, dst, size);
+      return;
+    case V_PRED:
+      for (let y = 0; y < size; y += 1) {
+        buf.copyWithin(dst + y * BPS, dst - BPS, dst - BPS + size);
+      }
+      return;
+    case H_PRED:
+      for (let y = 0; y < size; y += 1) {
+        buf.fill(buf[dst + y * BPS - 1], dst + y * BPS, dst + y * BPS + size);
+      }
+      return;
+    default:
+      throw new Error(`Invalid WebP lossy prediction mode ${mode}.`);
+  }
+}
+
+function fillBlock(buf: Uint8Array, dst: number, size: number, value: number): void {
+  for (let y = 0; y < size; y += 1) {
+    buf.fill(value, dst + y * BPS, dst + y * BPS + size);
+  }
+}
+
+function trueMotion(buf: Uint8Array, dst: number, size: number): void {
+  const topLeft = buf[dst - BPS - 1];
+  for (let y = 0; y < size; y += 1) {
+    const left = buf[dst + y * BPS - 1];
+    for (let x = 0; x < size; x += 1) {
+      buf[dst + y * BPS + x] = clip(buf[dst - BPS + x] + left - topLeft, 255);
+    }
+  }
+}
+
+function predictLuma4(buf: Uint8Array, dst: number, mode: number): void {
+  const top = dst - BPS;
+  const at = (x: number, y: number) => dst + x + y * BPS;
+  const x = buf[top - 1];
+  const [a, b, c, d, e, f, g, h] = buf.subarray(top, top + 8);
+  const i = buf[dst - 1];
+  const j = buf[dst + BPS - 1];
+  const k = buf[dst + 2 * BPS - 1];
+  const l = buf[dst + 3 * BPS - 1];
+  const put = (value: number, ...cells: [number, number][]) => {
+    for (const [cx, cy] of cells) {
+      buf[at(cx, cy)] = value;
+    }
+  };
+
+  switch (mode) {
+    case DC_PRED: {
+      const dc = (a + b + c + d + i + j + k + l + 4) >> 3;
+      fillBlock(buf, dst, 4, dc);
+      return;
+    }
+    case TM_PRED:
+      trueMotion(buf, dst, 4);
+      return;
+    case V_PRED: {
+      const values = [avg3(x, a, b), avg3(a, b, c), avg3(b, c, d), avg3(c, d, e)];
+      for (let row = 0; row < 4; row += 1) {
+        buf.set(values, at(0, row));
+      }
+      return;
+    }
+    case H_PRED: {
+      const values = [avg3(x, i, j), avg3(i, j, k), avg3(j, k, l), avg3(k, l, l)];
+      for (let row = 0; row < 4; row += 1) {
+        buf.fill(values[row], at(0, row), at(4, row));
+      }
+      return;
+    }
+    case B_RD_PRED:
+      put(avg3(j, k, l), [0, 3]);
+      put(avg3(i, j, k), [0, 2], [1, 3]);
+      put(avg3(x, i, j), [0, 1], [1, 2], [2, 3]);
+      put(avg3(a, x, i), [0, 0], [1, 1], [2, 2], [3, 3]);
+      put(avg3(b, a, x), [1, 0], [2, 1], [3, 2]);
+      put(avg3(c, b, a), [2, 0], [3, 1]);
+      put(avg3(d, c, b), [3, 0]);
+      return;
+    case B_VR_PRED:
+      put(avg2(x, a), [0, 0], [1, 2]);
+      put(avg2(a, b), [1, 0], [2, 2]);
+      put(avg2(b, c), [2, 0], [3, 2]);
+      put(avg2(c, d), [3, 0]);
+      put(avg3(k, j, i), [0, 3]);
+      put(avg3(j, i, x), [0, 2]);
+      put(avg3(i, x, a), [0, 1], [1, 3]);
+      put(avg3(x, a, b), [1, 1], [2, 3]);
+      put(avg3(a, b, c), [2, 1], [3, 3]);
+      put(avg3(b, c, d), [3, 1]);
+      return;
+    case B_LD_PRED:
+      put(avg3(a, b, c), [0, 0]);
+      put(avg3(b, c, d), [1, 0], [0, 1]);
+      put(avg3(c, d, e), [2, 0], [1, 1], [0, 2]);
+      put(avg3(d, e, f), [3, 0], [2, 1], [1, 2], [0, 3]);
+      put(avg3(e, f, g), [3, 1], [2, 2], [1, 3]);
+      put(avg3(f, g, h), [3, 2], [2, 3]);
+      put(avg3(g, h, h), [3, 3]);
+      return;
+    case B_VL_PRED:
+      put(avg2(a, b), [0, 0]);
+      put(avg2(b, c), [1, 0], [0, 2]);
+      put(avg2(c, d), [2, 0], [1, 2]);
+      put(avg2(d, e), [3, 0], [2, 2]);
+      put(avg3(a, b, c), [0, 1]);
+      put(avg3(b, c, d), [1, 1], [0, 3]);
+      put(avg3(c, d, e), [2, 1], [1, 3]);
+      put(avg3(d, e, f), [3, 1], [2, 3]);
+      put(avg3(e, f, g), [3, 2]);
+      put(avg3(f, g, h), [3, 3]);
+      return;
+    case B_HD_PRED:
+      put(avg2(i, x), [0, 0], [2, 1]);
+      put(avg2(j, i), [0, 1], [2, 2]);
+      put(avg2(k, j), [0, 2], [2, 3]);
+      put(avg2(l, k), [0, 3]);
+      put(avg3(a, b, c), [3, 0]);
+      put(avg3(x, a, b), [2, 0]);
+      put(avg3(i, x, a), [1, 0], [3, 1]);
+      put(avg3(j, i, x), [1, 1], [3, 2]);
+      put(avg3(k, j, i), [1, 2], [3, 3]);
+      put(avg3(l, k, j), [1, 3]);
+      return;
+    default:
+      // B_HU_PRED
+      put(avg2(i, j), [0, 0]);
+      put(avg2(j, k), [2, 0], [0, 1]);
+      put(avg2(k, l), [2, 1], [0, 2]);
+      put(avg3(i, j, k), [1, 0]);
+      put(avg3(j, k, l), [3, 0], [1, 1]);
+      put(avg3(k, l, l), [3, 1], [1, 2]);
+      put(l, [3, 2], [2, 2], [0, 3], [1, 3], [2, 3], [3, 3]);
+  }
+}
+
+function avg2(a: number, b: number): number {
+  return (a + b + 1) >> 1;
+}
+
+function avg3(a: number, b: number, c: number): number {
+  return (a + 2 * b + c + 2) >> 2;
+}
+
+// Adds the inverse DCT of one 4x4 coefficient block to the prediction at `dst`.
+function inverseTransform(coeffs: Int16Array, src: number, buf: Uint8Array, dst: number): void {
+  let empty = true;
+  for (let i = 0; i < 16; i += 1) {
+    if (coeffs[src + i] !== 0) {
+      empty = false;
+      break;
+    }
+  }
+  if (empty) {
+    return;
+  }
+
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i += 1) {
+    const a = coeffs[src + i] + coeffs[src + 8 + i];
+    const b = coeffs[src + i] - coeffs[src + 8 + i];
+    const c = mul(coeffs[src + 4 + i], K_C2) - mul(coeffs[src + 12 + i], K_C1);
+    const d = mul(coeffs[src + 4 + i], K_C1) + mul(coeffs[src + 12 + i], K_C2);
+    tmp[i * 4] = a + d;
+    tmp[i * 4 + 1] = b + c;
+    tmp[i * 4 + 2] = b - c;
+    tmp[i * 4 + 3] = a - d;
+  }
+  for (let i = 0; i < 4; i += 1) {
+    const dc = tmp[i] + 4;
+    const a = dc + tmp[8 + i];
+    const b = dc - tmp[8 + i];
+    const c = mul(tmp[4 + i], K_C2) - mul(tmp[12 + i], K_C1);
+    const d = mul(tmp[4 + i], K_C1) + mul(tmp[12 + i], K_C2);
+    const row = dst + i * BPS;
+    buf[row] = clip(buf[row] + ((a + d) >> 3), 255);
+    buf[row + 1] = clip(buf[row + 1] + ((b + c) >> 3), 255);
+    buf[row + 2] = clip(buf[row + 2] + ((b - c) >> 3), 255);
+    buf[row + 3] = clip(buf[row + 3] + ((a - d) >> 3), 255);
+  }
+}
+
+function mul(a: number, b: number): number {
+  return Math.floor((a * b) / 65536);
+}
+
+function applyLoopFilter(
+  planes: Planes,
+  filters: MacroblockFilter[],
+  mbWidth: number,
+  mbHeight: number,
+  simple: boolean,
+): void {
+  const { y: luma, u, v, yStride, uvStride } = planes;
+  for (let mbY = 0; mbY < mbHeight; mbY += 1) {
+    for (let mbX = 0; mbX < mbWidth; mbX += 1) {
+      const { strength, inner } = filters[mbY * mbWidth + mbX];
+      const { limit } = strength;
+      if (limit === 0) {
+        continue;
+      }
+      const yOffset = mbY * 16 * yStride + mbX * 16;
+      const uvOffset = mbY * 8 * uvStride + mbX * 8;
+
+      if (simple) {
+        if (mbX > 0) {
+          simpleFilter(luma, yOffset, 1, yStride, limit + 4);
+        }
+        if (inner) {
+          for (let k = 4; k < 16; k += 4) {
+            simpleFilter(luma, yOffset + k, 1, yStride, limit);
+          }
+        }
+        if (mbY > 0) {
+          simpleFilter(luma, yOffset, yStride, 1, limit + 4);
+        }
+        if (inner) {
+          for (let k = 4; k < 16; k += 4) {
+            simpleFilter(luma, yOffset + k * yStride, yStride, 1, limit);
+          }
+        }
+        continue;
+      }
+
+      if (mbX > 0) {
+        normalFilter(luma, yOffset, 1, yStride, 16, strength, true);
+        normalFilter(u, uvOffset, 1, uvStride, 8, strength, true);
+        normalFilter(v, uvOffset, 1, uvStride, 8, strength, true);
+      }
+      if (inner) {
+        for (let k = 4; k < 16; k += 4) {
+          normalFilter(luma, yOffset + k, 1, yStride, 16, strength, false);
+        }
+        normalFilter(u, uvOffset + 4, 1, uvStride, 8, strength, false);
+        normalFilter(v, uvOffset + 4, 1, uvStride, 8, strength, false);
+      }
+      if (mbY > 0) {
+        normalFilter(luma, yOffset, yStride, 1, 16, strength, true);
+        normalFilter(u, uvOffset, uvStride, 1, 8, strength, true);
+        normalFilter(v, uvOffset, uvStride, 1, 8, strength, true);
+      }
+      if (inner) {
+        for (let k = 4; k < 16; k += 4) {
+          normalFilter(luma, yOffset + k * yStride, yStride, 1, 16, strength, false);
+        }
+        normalFilter(u, uvOffset + 4 * uvStride, uvStride, 1, 8, strength, false);
+        normalFilter(v, uvOffset + 4 * uvStride, uvStride, 1, 8, strength, false);
+      }
+    }
+  }
+}
+
+// Filters the 16 pixels of one edge. `step` crosses the edge and `along` moves along it.
+function simpleFilter(
+  plane: Uint8Array,
+  offset: number,
+  step: number,
+  along: number,
+  threshold: number,
+): void {
+  for (let i = 0; i < 16; i += 1) {
+    const p = offset + i * along;
+    if (edgeDifference(plane, p, step) <= threshold) {
+      filterCommon(plane, p, step);
+    }
+  }
+}
+
+// Filters one edge of a macroblock (`macroblockEdge`) or of its 4x4 sub-blocks.
+function normalFilter(
+  plane: Uint8Array,
+  offset: number,
+  step: number,
+  along: number,
+  size: number,
+  strength: FilterStrength,
+  macroblockEdge: boolean,
+): void {
+  const threshold = macroblockEdge ? strength.limit + 4 : strength.limit;
+  for (let i = 0; i < size; i += 1) {
+    const p = offset + i * along;
+    if (!needsNormalFilter(plane, p, step, threshold, strength.innerLimit)) {
+      continue;
+    }
+    if (highEdgeVariance(plane, p, step, strength.hevThreshold)) {
+      filterCommon(plane, p, step);
+    } else if (macroblockEdge) {
+      filterMacroblockEdge(plane, p, step);
+    } else {
+      filterSubblockEdge(plane, p, step);
+    }
+  }
+}
+
+function edgeDifference(plane: Uint8Array, p: number, step: number): number {
+  return (
+    2 * Math.abs(plane[p - step] - plane[p]) +
+    (Math.abs(plane[p - 2 * step] - plane[p + step]) >> 1)
+  );
+}
+
+function needsNormalFilter(
+  plane: Uint8Array,
+  p: number,
+  step: number,
+  threshold: number,
+  innerThreshold: number,
+): boolean {
+  if (edgeDifference(plane, p, step) > threshold) {
+    return false;
+  }
+  for (let i = -4; i < 3; i += 1) {
+    if (i !== -1 && Math.abs(plane[p + i * step] - plane[p + (i + 1) * step]) > innerThreshold) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function highEdgeVariance(plane: Uint8Array, p: number, step: number, threshold: number): boolean {
+  return (
+    Math.abs(plane[p - 2 * step] - plane[p - step]) > threshold ||
+    Math.abs(plane[p + step] - plane[p]) > threshold
+  );
+}
+
+// Adjusts only the two pixels next to the edge.
+function filterCommon(plane: Uint8Array, p: number, step: number): void {
+  const p1 = plane[p - 2 * step];
+  const p0 = plane[p - step];
+  const q0 = plane[p];
+  const q1 = plane[p + step];
+  const a = 3 * (q0 - p0) + signedClamp(p1 - q1, 128);
+  const a1 = signedClamp((a + 4) >> 3, 16);
+  const a2 = signedClamp((a + 3) >> 3, 16);
+  plane[p - step] = clip(p0 + a2, 255);
+  plane[p] = clip(q0 - a1, 255);
+}
+
+function filterSubblockEdge(plane: Uint8Array, p: number, step: number): void {
+  const p1 = plane[p - 2 * step];
+  const p0 = plane[p - step];
+  const q0 = plane[p];
+  const q1 = plane[p + step];
+  const a = 3 * (q0 - p0);
+  const a1 = signedClamp((a + 4) >> 3, 16);
+  const a2 = signedClamp((a + 3) >> 3, 16);
+  const a3 = (a1 + 1) >> 1;
+  plane[p - 2 * step] = clip(p1 + a3, 255);
+  plane[p - step] = clip(p0 + a2, 255);
+  plane[p] = clip(q0 - a1, 255);
+  plane[p + step] = clip(q1 - a3, 255);
+}
+
+function filterMacroblockEdge(plane: Uint8Array, p: number, step: number): void {
+  const p2 = plane[p - 3 * step];
+  const p1 = plane[p - 2 * step];
+  const p0 = plane[p - step];
+  const q0 = plane[p];
+  const q1 = plane[p + step];
+  const q2 = plane[p + 2 * step];
+  const a = signedClamp(3 * (q0 - p0) + signedClamp(p1 - q1, 128), 128);
+  const a1 = (27 * a + 63) >> 7;
+  const a2 = (18 * a + 63) >> 7;
+  const a3 = (9 * a + 63) >> 7;
+  plane[p - 3 * step] = clip(p2 + a3, 255);
+  plane[p - 2 * step] = clip(p1 + a2, 255);
+  plane[p - step] = clip(p0 + a1, 255);
+  plane[p] = clip(q0 - a1, 255);
+  plane[p + step] = clip(q1 - a2, 255);
+  plane[p + 2 * step] = clip(q2 - a3, 255);
+}
+
+// Clamps to [-limit, limit - 1].
+function signedClamp(value: number, limit: number): number {
+  return value < -limit ? -limit : value > limit - 1 ? limit - 1 : value;
+}
+
+function clip(value: number, max: number): number {
+  return value < 0 ? 0 : value > max ? max : value;
+}
+
+function toRgba(planes: Planes, width: number, height: number): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4);
+  const uvHeight = (height + 1) >> 1;
+  for (let y = 0; y < height; y += 1) {
+    // Each output row blends its nearest chroma row (3/4) with the next nearest one (1/4).
+    let near: number;
+    let far: number;
+    if (y === 0) {
+      near = far = 0;
+    } else if (y & 1) {
+      near = (y - 1) >> 1;
+      far = Math.min(near + 1, uvHeight - 1);
+    } else {
+      near = y >> 1;
+      far = near - 1;
+    }
+    upsampleRow(planes, y, near, far, width, rgba.subarray(y * width * 4, (y + 1) * width * 4));
+  }
+  return rgba;
+}
+
+function upsampleRow(
+  planes: Planes,
+  y: number,
+  near: number,
+  far: number,
+  width: number,
+  out: Uint8Array,
+): void {
+  const luma = planes.y.subarray(y * planes.yStride);
+  const nearOffset = near * planes.uvStride;
+  const farOffset = far * planes.uvStride;
+  const sample = (plane: Uint8Array, x: number): [number, number] => [
+    plane[nearOffset + x],
+    plane[farOffset + x],
+  ];
+  const put = (x: number, u: number, v: number) => writePixel(out, x, luma[x], u, v);
+
+  let [tlU, lU] = sample(planes.u, 0);
+  let [tlV, lV] = sample(planes.v, 0);
+  put(0, (3 * tlU + lU + 2) >> 2, (3 * tlV + lV + 2) >> 2);
+  const lastPair = (width - 1) >> 1;
+  for (let x = 1; x <= lastPair; x += 1) {
+    const [tU, u] = sample(planes.u, x);
+    const [tV, v] = sample(planes.v, x);
+    const avgU = tlU + tU + lU + u + 8;
+    const avgV = tlV + tV + lV + v + 8;
+    const diag12U = (avgU + 2 * (tU + lU)) >> 3;
+    const diag03U = (avgU + 2 * (tlU + u)) >> 3;
+    const diag12V = (avgV + 2 * (tV + lV)) >> 3;
+    const diag03V = (avgV + 2 * (tlV + v)) >> 3;
+    put(2 * x - 1, (diag12U + tlU) >> 1, (diag12V + tlV) >> 1);
+    put(2 * x, (diag03U + tU) >> 1, (diag03V + tV) >> 1);
+    tlU = tU;
+    lU = u;
+    tlV = tV;
+    lV = v;
+  }
+  if (!(width & 1)) {
+    put(width - 1, (3 * tlU + lU + 2) >> 2, (3 * tlV + lV + 2) >> 2);
+  }
+}
+
+function writePixel(out: Uint8Array, x: number, y: number, u: number, v: number): void {
+  const luma = (y * 19077) >> 8;
+  out[x * 4] = clip8(luma + ((v * 26149) >> 8) - 14234);
+  out[x * 4 + 1] = clip8(luma - ((u * 6419) >> 8) - ((v * 13320) >> 8) + 8708);
+  out[x * 4 + 2] = clip8(luma + ((u * 33050) >> 8) - 17685);
+  out[x * 4 + 3] = 255;
+}
+
+function clip8(value: number): number {
+  return (value & ~16383) === 0 ? value >> 6 : value < 0 ? 0 : 255;
+}
@@ -0,0 +1,574 @@
+import type { DecodedImage } from "./decode.js";
+import { assertImageSize } from "./limits.js";
+
+// WebP lossless ("VP8L") bitstream decoder. Pixels are ARGB in 32-bit words throughout, as in
+// the format specification.
+
+const SIGNATURE = 0x2f;
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_CACHE_BITS = 11;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// The first 120 distance codes are 2D offsets near the current pixel, packed as
+// (yOffset << 4) | (8 - xOffset).
+const DISTANCE_MAP = [
+  0x18, 0x07, 0x17, 0x19, 0x28, 0x06, 0x27, 0x29, 0x16, 0x1a, 0x26, 0x2a, 0x38, 0x05, 0x37, 0x39,
+  0x15, 0x1b, 0x36, 0x3a, 0x25, 0x2b, 0x48, 0x04, 0x47, 0x49, 0x14, 0x1c, 0x35, 0x3b, 0x46, 0x4a,
+  0x24, 0x2c, 0x58, 0x45, 0x4b, 0x34, 0x3c, 0x03, 0x57, 0x59, 0x13, 0x1d, 0x56, 0x5a, 0x23, 0x2d,
+  0x44, 0x4c, 0x55, 0x5b, 0x33, 0x3d, 0x68, 0x02, 0x67, 0x69, 0x12, 0x1e, 0x66, 0x6a, 0x22, 0x2e,
+  0x54, 0x5c, 0x43, 0x4d, 0x65, 0x6b, 0x32, 0x3e, 0x78, 0x01, 0x77, 0x79, 0x53, 0x5d, 0x11, 0x1f,
+  0x64, 0x6c, 0x42, 0x4e, 0x76, 0x7a, 0x21, 0x2f, 0x75, 0x7b, 0x31, 0x3f, 0x63, 0x6d, 0x52, 0x5e,
+  0x00, 0x74, 0x7c, 0x41, 0x4f, 0x10, 0x20, 0x62, 0x6e, 0x30, 0x73, 0x7d, 0x51, 0x5f, 0x40, 0x72,
+  0x7e, 0x61, 0x6f, 0x50, 0x71, 0x7f, 0x60, 0x70,
+];
+
+// Indexed by the 2-bit transform type in the bitstream.
+const TRANSFORM_TYPES = ["predictor", "cross-color", "subtract-green", "color-indexing"] as const;
+
+interface Transform {
+  type: (typeof TRANSFORM_TYPES)[number];
+  // Image width when the transform was read; color indexing packs pixels below this width.
+  width: number;
+  height: number;
+  bits: number;
+  data?: Uint32Array;
+}
+
+interface PrefixCode {
+  // Symbol of a code with a single symbol, which takes no bits.
+  single?: number;
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+// Green (plus lengths and cache), red, blue, alpha and distance codes.
+type PrefixCodeGroup = [PrefixCode, PrefixCode, PrefixCode, PrefixCode, PrefixCode];
+
+class BitReader {
+  private position: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    byteOffset = 0,
+  ) {
+    this.position = byteOffset * 8;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i += 1) {
+      const byte = this.position >> 3;
+      if (byte >= this.bytes.length) {
+        throw new Error("WebP lossless data is truncated.");
+      }
+      value |= ((this.bytes[byte] >> (this.position & 7)) & 1) << i;
+      this.position += 1;
+    }
+    return value >>> 0;
+  }
+}
+
+export function decodeVp8l(bytes: Uint8Array): DecodedImage {
+  if (bytes[0] !== SIGNATURE) {
+    throw new Error("WebP lossless data has an invalid signature.");
+  }
+  const reader = new BitReader(bytes, 1);
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+  reader.readBits(1); // alpha hint
+  if (reader.readBits(3) !== 0) {
+    throw new Error("Unsupported WebP lossless version.");
+  }
+  assertImageSize("WebP lossless image", width, height);
+
+  const argb = decodeImageStream(reader, width, height, true);
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < argb.length; i += 1) {
+    const pixel = argb[i];
+    rgba[i * 4] = (pixel >>> 16) & 0xff;
+    rgba[i * 4 + 1] = (pixel >>> 8) & 0xff;
+    rgba[i * 4 + 2] = pixel & 0xff;
+    rgba[i * 4 + 3] = pixel >>> 24;
+  }
+  return { width, height, rgba };
+}
+
+// Header-less stream, as used by compressed WebP alpha planes.
+export function decodeVp8lPixels(bytes: Uint8Array, width: number, height: number): Uint32Array {
+  return decodeImageStream(new BitReader(bytes), width, height, true);
+}
+
+function decodeImageStream(
+  reader: BitReader,
+  width: number,
+  height: number,
+  isMainImage: boolean,
+): Uint32Array {
+  const transforms: Transform[] = [];
+  let codedWidth = width;
+  if (isMainImage) {
+    while (reader.readBits(1)) {
+      const transform = readTransform(reader, codedWidth, height, transforms);
+      transforms.push(transform);
+      if (transform.type === "color-indexing") {
+        codedWidth = subSampleSize(codedWidth, transform.bits);
+      }
+    }
+  }
+
+  let cacheBits = 0;
+  if (reader.readBits(1)) {
+    cacheBits = reader.readBits(4);
+    if (cacheBits < 1 || cacheBits > MAX_CACHE_BITS) {
+      throw new Error("WebP lossless color cache size is invalid.");
+    }
+  }
+
+  // Only the main image may vary its prefix codes by region ("meta prefix codes").
+  let metaBits = 0;
+  let metaImage: Uint32Array | undefined;
+  let groupCount = 1;
+  if (isMainImage && reader.readBits(1)) {
+    metaBits = reader.readBits(3) + 2;
+    metaImage = decodeImageStream(
+      reader,
+      subSampleSize(codedWidth, metaBits),
+      subSampleSize(height, metaBits),
+      false,
+    );
+    for (let i = 0; i < metaImage.length; i += 1) {
+      metaImage[i] = (metaImage[i] >>> 8) & 0xffff;
+      groupCount = Math.max(groupCount, metaImage[i] + 1);
+    }
+  }
+
+  const groups = Array.from({ length: groupCount }, () => readPrefixCodeGroup(reader, cacheBits));
+  let pixels = decodeEntropyCodedImage(reader, codedWidth, height, groups, cacheBits, {
+    bits: metaBits,
+    image: metaImage,
+  });
+
+  for (const transform of [...transforms].reverse()) {
+    pixels = inverseTransform(transform, pixels);
+  }
+  return pixels;
+}
+
+function readTransform(
+  reader: BitReader,
+  width: number,
+  height: number,
+  seen: Transform[],
+): Transform {
+  const type = TRANSFORM_TYPES[reader.readBits(2)];
+  if (seen.some((transform) => transform.type === type)) {
+    throw new Error("WebP lossless transform is repeated.");
+  }
+
+  switch (type) {
+    case "predictor":
+    case "cross-color": {
+      const bits = reader.readBits(3) + 2;
+      const data = decodeImageStream(
+        reader,
+        subSampleSize(width, bits),
+        subSampleSize(height, bits),
+        false,
+      );
+      return { type, width, height, bits, data };
+    }
+    case "color-indexing": {
+      const colorCount = reader.readBits(8) + 1;
+      const bits = colorCount > 16 ? 0 : colorCount > 4 ? 1 : colorCount > 2 ? 2 : 3;
+      const palette = decodeImageStream(reader, colorCount, 1, false);
+      // Palette entries are coded as per-channel deltas from the previous entry.
+      for (let i = 1; i < palette.length; i += 1) {
+        palette[i] = addPixels(palette[i], palette[i - 1]);
+      }
+      return { type, width, height, bits, data: palette };
+    }
+    default:
+      return { type, width, height, bits: 0 };
+  }
+}
+
+function readPrefixCodeGroup(reader: BitReader, cacheBits: number): PrefixCodeGroup {
+  const cacheSize = cacheBits > 0 ? 1 << cacheBits : 0;
+  return [
+    readPrefixCode(reader, NUM_LITERAL_CODES + NUM_LENGTH_CODES + cacheSize),
+    readPrefixCode(reader, NUM_LITERAL_CODES),
+    readPrefixCode(reader, NUM_LITERAL_CODES),
+    readPrefixCode(reader, NUM_LITERAL_CODES),
+    readPrefixCode(reader, NUM_DISTANCE_CODES),
+  ];
+}
+
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixCode {
+  const lengths = new Uint8Array(alphabetSize);
+
+  if (reader.readBits(1)) {
+    // Simple code: one or two symbols of length 1.
+    const symbolCount = reader.readBits(1) + 1;
+    const first = reader.readBits(reader.readBits(1) ? 8 : 1);
+    lengths[first] = 1;
+    if (symbolCount === 2) {
+      lengths[reader.readBits(8)] = 1;
+    }
+    return buildPrefixCode(lengths);
+  }
+
+  const codeLengthLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  const codeLengthCount = reader.readBits(4) + 4;
+  for (let i = 0; i < codeLengthCount; i += 1) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthCode = buildPrefixCode(codeLengthLengths);
+
+  let maxSymbol = alphabetSize;
+  if (reader.readBits(1)) {
+    const lengthBits = 2 + 2 * reader.readBits(3);
+    maxSymbol = 2 + reader.readBits(lengthBits);
+    if (maxSymbol > alphabetSize) {
+      throw new Error("WebP lossless prefix code is invalid.");
+    }
+  }
+
+  let symbol = 0;
+  let previousLength = 8;
+  while (symbol < alphabetSize && maxSymbol > 0) {
+    maxSymbol -= 1;
+    const code = readSymbol(reader, codeLengthCode);
+    if (code < 16) {
+      lengths[symbol] = code;
+      symbol += 1;
+      if (code !== 0) {
+        previousLength = code;
+      }
+      continue;
+    }
+    // 16 repeats the previous non-zero length, 17 and 18 repeat zeros.
+    const repeat =
+      code === 16
+        ? 3 + reader.readBits(2)
+        : code === 17
+          ? 3 + reader.readBits(3)
+          : 11 + reader.readBits(7);
+    if (symbol + repeat > alphabetSize) {
+      throw new Error("WebP lossless prefix code is invalid.");
+    }
+    lengths.fill(code === 16 ? previousLength : 0, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+
+  return buildPrefixCode(lengths);
+}
+
+// Canonical code from code lengths, decoded bit by bit.
+function buildPrefixCode(lengths: Uint8Array): PrefixCode {
+  const counts = new Uint16Array(16);
+  const used: number[] = [];
+  lengths.forEach((length, symbol) => {
+    if (length > 0) {
+      counts[length] += 1;
+      used.push(symbol);
+    }
+  });
+  if (used.length === 0) {
+    throw new Error("WebP lossless prefix code has no symbols.");
+  }
+  if (used.length === 1) {
+    return { single: used[0], counts, symbols: new Uint16Array(used) };
+  }
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 15; length += 1) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(used.length);
+  for (const symbol of used) {
+    symbols[offsets[lengths[symbol]]] = symbol;
+    offsets[lengths[symbol]] += 1;
+  }
+  return { counts, symbols };
+}
+
+function readSymbol(reader: BitReader, code: PrefixCode): number {
+  if (code.single !== undefined) {
+    return code.single;
+  }
+  let value = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length < 16; length += 1) {
+    value |= reader.readBits(1);
+    const count = code.counts[length];
+    if (value - first < count) {
+      return code.symbols[index + value - first];
+    }
+    index += count;
+    first = (first + count) << 1;
+    value <<= 1;
+  }
+  throw new Error("WebP lossless prefix code is invalid.");
+}
+
+function decodeEntropyCodedImage(
+  reader: BitReader,
+  width: number,
+  height: number,
+  groups: PrefixCodeGroup[],
+  cacheBits: number,
+  meta: { bits: number; image?: Uint32Array },
+): Uint32Array {
+  const total = width * height;
+  const pixels = new Uint32Array(total);
+  const cache = cacheBits > 0 ? new Uint32Array(1 << cacheBits) : undefined;
+  const metaWidth = subSampleSize(width, meta.bits);
+  const remember = (argb: number) => {
+    if (cache) {
+      cache[Math.imul(0x1e35a7bd, argb) >>> (32 - cacheBits)] = argb;
+    }
+  };
+
+  let position = 0;
+  while (position < total) {
+    const x = position % width;
+    const y = Math.floor(position / width);
+    const group = meta.image
+      ? groups[meta.image[(y >> meta.bits) * metaWidth + (x >> meta.bits)]]
+      : groups[0];
+
+    const green = readSymbol(reader, group[0]);
+    if (green < NUM_LITERAL_CODES) {
+      const red = readSymbol(reader, group[1]);
+      const blue = readSymbol(reader, group[2]);
+      const alpha = readSymbol(reader, group[3]);
+      const argb = ((alpha << 24) | (red << 16) | (green << 8) | blue) >>> 0;
+      pixels[position] = argb;
+      remember(argb);
+      position += 1;
+    } else if (green < NUM_LITERAL_CODES + NUM_LENGTH_CODES) {
+      // Backward reference: copy `length` pixels from `distance` pixels back.
+      const length = prefixCodedValue(reader, green - NUM_LITERAL_CODES);
+      const distanceCode = prefixCodedValue(reader, readSymbol(reader, group[4]));
+      const distance = planeCodeToDistance(width, distanceCode);
+      if (distance > position || position + length > total) {
+        throw new Error("WebP lossless backward reference is out of range.");
+      }
+      for (let i = 0; i < length; i += 1) {
+        pixels[position] = pixels[position - distance];
+        remember(pixels[position]);
+        position += 1;
+      }
+    } else {
+      if (!cache) {
+        throw new Error("WebP lossless data uses a color cache it did not declare.");
+      }
+      const argb = cache[green - NUM_LITERAL_CODES - NUM_LENGTH_CODES];
+      pixels[position] = argb;
+      remember(argb);
+      position += 1;
+    }
+  }
+
+  return pixels;
+}
+
+function prefixCodedValue(reader: BitReader, symbol: number): number {
+  if (symbol < 4) {
+    return symbol + 1;
+  }
+  const extraBits = (symbol - 2) >> 1;
+  const offset = (2 + (symbol & 1)) << extraBits;
+  return offset + reader.readBits(extraBits) + 1;
+}
+
+function planeCodeToDistance(width: number, code: number): number {
+  if (code > DISTANCE_MAP.length) {
+    return code - DISTANCE_MAP.length;
+  }
+  const packed = DISTANCE_MAP[code - 1];
+  const distance = (packed >> 4) * width + (8 - (packed & 0x0f));
+  return Math.max(1, distance);
+}
+
+function inverseTransform(transform: Transform, pixels: Uint32Array): Uint32Array {
+  switch (transform.type) {
+    case "predictor":
+      return inversePredictor(transform, pixels);
+    case "cross-color":
+      return inverseCrossColor(transform, pixels);
+    case "subtract-green":
+      for (let i = 0; i < pixels.length; i += 1) {
+        const green = (pixels[i] >>> 8) & 0xff;
+        pixels[i] = addPixels(pixels[i], (green << 16) | green);
+      }
+      return pixels;
+    case "color-indexing":
+      return inverseColorIndexing(transform, pixels);
+  }
+}
+
+function inversePredictor(transform: Transform, pixels: Uint32Array): Uint32Array {
+  const { width, height, bits } = transform;
+  const modes = transform.data!;
+  const tilesPerRow = subSampleSize(width, bits);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const i = y * width + x;
+      let prediction: number;
+      if (y === 0) {
+        prediction = x === 0 ? 0xff000000 : pixels[i - 1];
+      } else if (x === 0) {
+        prediction = pixels[i - width];
+      } else {
+        const mode = (modes[(y >> bits) * tilesPerRow + (x >> bits)] >>> 8) & 0x0f;
+        // The top-right pixel of the last column is the first pixel of the current row.
+        prediction = predict(
+          mode,
+          pixels[i - 1],
+          pixels[i - width],
+          pixels[i - width - 1],
+          pixels[i - width + 1],
+        );
+      }
+      pixels[i] = addPixels(pixels[i], prediction);
+    }
+  }
+  return pixels;
+}
+
+function predict(mode: number, left: number, top: number, topLeft: number, topRight: number) {
+  switch (mode) {
+    case 1:
+      return left;
+    case 2:
+      return top;
+    case 3:
+      return topRight;
+    case 4:
+      return topLeft;
+    case 5:
+      return average2(average2(left, topRight), top);
+    case 6:
+      return average2(left, topLeft);
+    case 7:
+      return average2(left, top);
+    case 8:
+      return average2(topLeft, top);
+    case 9:
+      return average2(top, topRight);
+    case 10:
+      return average2(average2(left, topLeft), average2(top, topRight));
+    case 11:
+      return select(left, top, topLeft);
+    case 12:
+      return clampAddSubtractFull(left, top, topLeft);
+    case 13:
+      return clampAddSubtractHalf(average2(left, top), topLeft);
+    default:
+      return 0xff000000;
+  }
+}
+
+// Whichever of left and top is closer to the gradient estimate left + top - topLeft.
+function select(left: number, top: number, topLeft: number): number {
+  let leftDistance = 0;
+  let topDistance = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const l = (left >>> shift) & 0xff;
+    const t = (top >>> shift) & 0xff;
+    const tl = (topLeft >>> shift) & 0xff;
+    leftDistance += Math.abs(t - tl);
+    topDistance += Math.abs(l - tl);
+  }
+  return leftDistance < topDistance ? left : top;
+}
+
+function inverseCrossColor(transform: Transform, pixels: Uint32Array): Uint32Array {
+  const { width, height, bits } = transform;
+  const elements = transform.data!;
+  const tilesPerRow = subSampleSize(width, bits);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const i = y * width + x;
+      const element = elements[(y >> bits) * tilesPerRow + (x >> bits)];
+      const greenToRed = toInt8(element & 0xff);
+      const greenToBlue = toInt8((element >>> 8) & 0xff);
+      const redToBlue = toInt8((element >>> 16) & 0xff);
+
+      const argb = pixels[i];
+      const green = toInt8((argb >>> 8) & 0xff);
+      const red = (((argb >>> 16) & 0xff) + ((greenToRed * green) >> 5)) & 0xff;
+      let blue = ((argb & 0xff) + ((greenToBlue * green) >> 5)) & 0xff;
+      blue = (blue + ((redToBlue * toInt8(red)) >> 5)) & 0xff;
+      pixels[i] = ((argb & 0xff00ff00) | (red << 16) | blue) >>> 0;
+    }
+  }
+  return pixels;
+}
+
+function inverseColorIndexing(transform: Transform, packed: Uint32Array): Uint32Array {
+  const { width, height, bits } = transform;
+  const palette = transform.data!;
+  const packedWidth = subSampleSize(width, bits);
+  const bitsPerIndex = 8 >> bits;
+  const indexMask = (1 << bitsPerIndex) - 1;
+  const perByteMask = (1 << bits) - 1;
+  const pixels = new Uint32Array(width * height);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const source = packed[y * packedWidth + (x >> bits)];
+      const index = ((source >>> 8) >> ((x & perByteMask) * bitsPerIndex)) & indexMask;
+      // Indexes past the palette are transparent black.
+      pixels[y * width + x] = index < palette.length ? palette[index] : 0;
+    }
+  }
+  return pixels;
+}
+
+function addPixels(a: number, b: number): number {
+  const alphaGreen = ((a & 0xff00ff00) + (b & 0xff00ff00)) & 0xff00ff00;
+  const redBlue = ((a & 0x00ff00ff) + (b & 0x00ff00ff)) & 0x00ff00ff;
+  return (alphaGreen | redBlue) >>> 0;
+}
+
+// Per-channel (a + b) / 2, rounded down.
+function average2(a: number, b: number): number {
+  return ((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0;
+}
+
+function clampAddSubtractFull(a: number, b: number, c: number): number {
+  let out = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = ((a >>> shift) & 0xff) + ((b >>> shift) & 0xff) - ((c >>> shift) & 0xff);
+    out |= clampChannel(value) << shift;
+  }
+  return out >>> 0;
+}
+
+function clampAddSubtractHalf(a: number, b: number): number {
+  let out = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const channel = (a >>> shift) & 0xff;
+    out |= clampChannel(channel + Math.trunc((channel - ((b >>> shift) & 0xff)) / 2)) << shift;
+  }
+  return out >>> 0;
+}
+
+function clampChannel(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+function toInt8(value: number): number {
+  return (value << 24) >> 24;
+}
+
+function subSampleSize(size: number, bits: number): number {
+  return (size + (1 << bits) - 1) >> bits;
+}
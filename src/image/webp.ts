@@ -0,0 +1,108 @@
+import type { DecodedImage } from "./decode.js";
+import { decodeVp8 } from "./vp8.js";
+import { decodeVp8l, decodeVp8lPixels } from "./vp8l.js";
+
+const ANIMATION_FLAG = 0x02;
+
+// Still WebP images: simple lossy ("VP8 "), simple lossless ("VP8L") and extended ("VP8X")
+// files, including lossy images with a separate alpha plane ("ALPH").
+export function decodeWebp(bytes: Uint8Array): DecodedImage {
+  let alpha: Uint8Array | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourCc = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size =
+      (bytes[offset + 4] |
+        (bytes[offset + 5] << 8) |
+        (bytes[offset + 6] << 16) |
+        (bytes[offset + 7] << 24)) >>>
+      0;
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    if (data.length !== size) {
+      throw new Error(`WebP chunk ${fourCc.trim()} is truncated.`);
+    }
+
+    switch (fourCc) {
+      case "VP8X":
+        if (data[0] & ANIMATION_FLAG) {
+          throw new Error("Animated WebP is not supported.");
+        }
+        break;
+      case "ALPH":
+        alpha = data;
+        break;
+      case "VP8 ": {
+        const image = decodeVp8(data);
+        if (alpha) {
+          applyAlpha(image, decodeAlpha(alpha, image.width, image.height));
+        }
+        return image;
+      }
+      case "VP8L":
+        return decodeVp8l(data);
+      default:
+        break;
+    }
+
+    // Chunks are padded to an even size.
+    offset += 8 + size + (size & 1);
+  }
+
+  throw new Error("WebP has no image data.");
+}
+
+function decodeAlpha(chunk: Uint8Array, width: number, height: number): Uint8Array {
+  const compression = chunk[0] & 0x03;
+  const filter = (chunk[0] >> 2) & 0x03;
+  const payload = chunk.subarray(1);
+
+  let plane: Uint8Array;
+  if (compression === 0) {
+    if (payload.length < width * height) {
+      throw new Error("WebP alpha plane is truncated.");
+    }
+    plane = payload.slice(0, width * height);
+  } else if (compression === 1) {
+    // Lossless-compressed alpha lives in the green channel.
+    const argb = decodeVp8lPixels(payload, width, height);
+    plane = Uint8Array.from(argb, (pixel) => (pixel >>> 8) & 0xff);
+  } else {
+    throw new Error(`Unsupported WebP alpha compression ${compression}.`);
+  }
+
+  unfilterAlpha(plane, width, height, filter);
+  return plane;
+}
+
+// Undoes the horizontal (1), vertical (2) or gradient (3) prediction filter.
+function unfilterAlpha(plane: Uint8Array, width: number, height: number, filter: number): void {
+  if (filter === 0) {
+    return;
+  }
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const i = y * width + x;
+      let prediction: number;
+      if (y === 0) {
+        prediction = x === 0 ? 0 : plane[i - 1];
+      } else if (x === 0) {
+        prediction = plane[i - width];
+      } else if (filter === 1) {
+        prediction = plane[i - 1];
+      } else if (filter === 2) {
+        prediction = plane[i - width];
+      } else {
+        const gradient = plane[i - 1] + plane[i - width] - plane[i - width - 1];
+        prediction = gradient < 0 ? 0 : gradient > 255 ? 255 : gradient;
+      }
+      plane[i] = (plane[i] + prediction) & 0xff;
+    }
+  }
+}
+
+function applyAlpha(image: DecodedImage, alpha: Uint8Array): void {
+  for (let i = 0; i < alpha.length; i += 1) {
+    image.rgba[i * 4 + 3] = alpha[i];
+  }
+}
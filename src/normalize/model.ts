@@ -1,10 +1,19 @@
 import type {
   FigmaTargetPayload,
+  GradientKind,
   NormalizedBounds,
   NormalizedColor,
+  NormalizedEffect,
+  NormalizedFillPaint,
+  NormalizedGradient,
+  NormalizedGradientStop,
   NormalizedNode,
+  NormalizedPaintBinding,
   NormalizedTarget,
+  NormalizedTextSegment,
+  VariableModeSet,
 } from "../core/types.js";
+import { normalizeBlendMode } from "../core/blend.js";
 import { normalizeAlpha, to255 } from "../core/color.js";
 
 const INTERACTIVE_TYPES = new Set([
@@ -23,8 +32,27 @@ const INTERACTIVE_TYPES = new Set([
 const INTERACTIVE_NAME_PATTERN =
   /button|link|input|field|checkbox|radio|switch|tab|menu|dropdown|submit|cta/i;
 
-export function normalizeTarget(payload: FigmaTargetPayload): NormalizedTarget {
-  const nodes = collectNormalizedNodes(payload);
+// Layer names that mark a component as disabled. "inactive" is deliberately absent:
+// inactive tabs and toggles are unselected, not disabled, and still need contrast.
+export const DEFAULT_DISABLED_NAME_PATTERNS = ["disabled"];
+
+export interface NormalizeOptions {
+  disabledNamePatterns?: string[];
+  // Variable definitions used to name bound paints; defaults to `payload.variableModes`.
+  variableModes?: VariableModeSet;
+}
+
+export function normalizeTarget(
+  payload: FigmaTargetPayload,
+  options: NormalizeOptions = {},
+): NormalizedTarget {
+  const nodes = nameBoundVariables(
+    markDisabledByName(
+      collectNormalizedNodes(payload),
+      options.disabledNamePatterns ?? DEFAULT_DISABLED_NAME_PATTERNS,
+    ),
+    options.variableModes ?? payload.variableModes,
+  );
 
   if (nodes.length === 0) {
     payload.warnings.push(
@@ -71,12 +99,31 @@ function collectNormalizedNodes(payload: FigmaTargetPayload): NormalizedNode[] {
     walkMaybeNode(expansionSource, rawNodes, payload.nodeId);
   }
 
-  return applyNodeStyleHints(
-    mergeNodesById(rawNodes),
-    payload.nodeStyleHints,
+  return markRemoteComponents(
+    applyNodeStyleHints(mergeNodesById(rawNodes), payload.nodeStyleHints),
+    objectOrUndefined(objectOrUndefined(payload.designContext)?.components),
   );
 }
 
+// REST files list the main components their instances use, flagging library ones as `remote`.
+function markRemoteComponents(
+  nodes: NormalizedNode[],
+  components: Record<string, unknown> | undefined,
+): NormalizedNode[] {
+  if (!components) {
+    return nodes;
+  }
+  return nodes.map((node) => {
+    const component = node.componentId
+      ? objectOrUndefined(components[node.componentId])
+      : undefined;
+    if (!component || node.componentRemote !== undefined || component.remote !== true) {
+      return node;
+    }
+    return { ...node, componentRemote: true };
+  });
+}
+
 function parseXmlMetadataNodes(
   xml: string,
   fallbackParentId?: string,
@@ -132,6 +179,8 @@ function parseXmlMetadataNodes(
         fills: [],
         strokes: [],
         text: type === "TEXT" ? name : undefined,
+        opacity: readLayerOpacity(parseFiniteNumber(attrs.opacity)),
+        blendMode: normalizeBlendMode(attrs.blendMode),
         isInteractive: isInteractiveXmlNode(type, name),
       });
     }
@@ -148,6 +197,24 @@ function parseXmlMetadataNodes(
   return nodes;
 }
 
+// Only components carry state; a layout frame named "Disabled users list" is not inactive.
+const STATEFUL_NODE_TYPES = new Set(["COMPONENT", "COMPONENT_SET", "INSTANCE"]);
+
+function markDisabledByName(nodes: NormalizedNode[], patterns: string[]): NormalizedNode[] {
+  const matchers = patterns.map((pattern) => new RegExp(pattern, "i"));
+  if (matchers.length === 0) {
+    return nodes;
+  }
+
+  return nodes.map((node) => {
+    if (node.disabledReason || !STATEFUL_NODE_TYPES.has(node.type.toUpperCase())) {
+      return node;
+    }
+    const matcher = matchers.find((candidate) => candidate.test(node.name));
+    return matcher ? { ...node, disabledReason: `name matches /${matcher.source}/i` } : node;
+  });
+}
+
 function mergeNodesById(nodes: NormalizedNode[]): NormalizedNode[] {
   const merged = new Map<string, NormalizedNode>();
 
@@ -165,11 +232,33 @@ function mergeNodesById(nodes: NormalizedNode[]): NormalizedNode[] {
       parentId: existing.parentId ?? node.parentId,
       bounds: existing.bounds ?? node.bounds,
       fills: node.fills.length > 0 ? node.fills : existing.fills,
+      fillPaints: node.fillPaints ?? existing.fillPaints,
       strokes: node.strokes.length > 0 ? node.strokes : existing.strokes,
+      fillBindings: node.fills.length > 0 ? node.fillBindings : existing.fillBindings,
+      strokeBindings: node.strokes.length > 0 ? node.strokeBindings : existing.strokeBindings,
       text: node.text ?? existing.text,
       fontSize: existing.fontSize ?? node.fontSize,
       fontWeight: existing.fontWeight ?? node.fontWeight,
       lineHeightPx: existing.lineHeightPx ?? node.lineHeightPx,
+      textCase: existing.textCase ?? node.textCase,
+      textDecoration: existing.textDecoration ?? node.textDecoration,
+      italic: existing.italic ?? node.italic,
+      textSegments: existing.textSegments ?? node.textSegments,
+      letterSpacingPx: existing.letterSpacingPx ?? node.letterSpacingPx,
+      paragraphSpacingPx: existing.paragraphSpacingPx ?? node.paragraphSpacingPx,
+      textAutoResize: existing.textAutoResize ?? node.textAutoResize,
+      layoutSizingVertical: existing.layoutSizingVertical ?? node.layoutSizingVertical,
+      clipsContent: existing.clipsContent ?? node.clipsContent,
+      opacity: existing.opacity ?? node.opacity,
+      blendMode: existing.blendMode ?? node.blendMode,
+      strokeWeight: existing.strokeWeight ?? node.strokeWeight,
+      effects: node.effects?.length ? node.effects : existing.effects,
+      variantProperties: existing.variantProperties ?? node.variantProperties,
+      componentId: existing.componentId ?? node.componentId,
+      componentName: existing.componentName ?? node.componentName,
+      componentRemote: existing.componentRemote ?? node.componentRemote,
+      componentFileKey: existing.componentFileKey ?? node.componentFileKey,
+      disabledReason: existing.disabledReason ?? node.disabledReason,
       isInteractive: existing.isInteractive || node.isInteractive,
     });
   }
@@ -177,6 +266,36 @@ function mergeNodesById(nodes: NormalizedNode[]): NormalizedNode[] {
   return [...merged.values()];
 }
 
+// REST design context only carries variable IDs; names come from the variable definitions.
+function nameBoundVariables(
+  nodes: NormalizedNode[],
+  modeSet: VariableModeSet | undefined,
+): NormalizedNode[] {
+  if (!modeSet) {
+    return nodes;
+  }
+
+  const name = (binding: NormalizedPaintBinding | undefined) =>
+    binding?.variableId && !binding.name && modeSet.variables[binding.variableId]
+      ? { ...binding, name: modeSet.variables[binding.variableId].name }
+      : binding;
+
+  return nodes.map((node) =>
+    node.fillBindings || node.strokeBindings || node.fillPaints
+      ? {
+          ...node,
+          fillBindings: node.fillBindings?.map(name),
+          strokeBindings: node.strokeBindings?.map(name),
+          fillPaints: node.fillPaints?.map((paint) =>
+            paint.type === "solid" && paint.binding
+              ? { ...paint, binding: name(paint.binding) }
+              : paint,
+          ),
+        }
+      : node,
+  );
+}
+
 function applyNodeStyleHints(
   nodes: NormalizedNode[],
   hints: FigmaTargetPayload["nodeStyleHints"],
@@ -192,17 +311,29 @@ function applyNodeStyleHints(
     }
 
     const textLike = node.type.toUpperCase() === "TEXT" || typeof node.text === "string";
-    const hintedFillColors =
-      textLike && hint.textFills.length > 0 ? hint.textFills : hint.fills;
+    const useTextFills = textLike && hint.textFills.length > 0;
+    const hintedFillColors = useTextFills ? hint.textFills : hint.fills;
+    const hintedFillTokens = useTextFills ? hint.textFillTokens : hint.fillTokens;
 
     return {
       ...node,
       fills: node.fills.length > 0 ? node.fills : hintedFillColors,
+      fillBindings: node.fills.length > 0 ? node.fillBindings : tokenBindings(hintedFillTokens),
       strokes: node.strokes.length > 0 ? node.strokes : hint.strokes,
+      strokeBindings:
+        node.strokes.length > 0 ? node.strokeBindings : tokenBindings(hint.strokeTokens),
     };
   });
 }
 
+function tokenBindings(
+  tokens: Array<string | undefined> | undefined,
+): Array<NormalizedPaintBinding | undefined> | undefined {
+  return tokens?.some(Boolean)
+    ? tokens.map((name) => (name ? { name } : undefined))
+    : undefined;
+}
+
 function richerString(a?: string, b?: string): string | undefined {
   if (!a && !b) {
     return undefined;
@@ -315,11 +446,40 @@ function normalizeNode(
   const fontWeight =
     readNumber(obj.fontWeight) ?? readNumber(style?.fontWeight) ?? undefined;
   const lineHeightPx =
-    readNumber(obj.lineHeightPx) ?? readNumber(style?.lineHeightPx) ?? undefined;
+    readNumber(obj.lineHeightPx) ??
+    readNumber(style?.lineHeightPx) ??
+    readTextMetric(obj.lineHeight ?? style?.lineHeight, fontSize) ??
+    percentOf(
+      readNumber(obj.lineHeightPercentFontSize) ??
+        readNumber(style?.lineHeightPercentFontSize),
+      fontSize,
+    );
+  const textCase = readString(obj.textCase) ?? readString(style?.textCase);
+  const textDecoration =
+    readString(obj.textDecoration) ?? readString(style?.textDecoration);
+  const italic = readItalic(obj) ?? readItalic(style);
+  const letterSpacingPx = readTextMetric(obj.letterSpacing ?? style?.letterSpacing, fontSize);
+  const paragraphSpacingPx =
+    readNumber(obj.paragraphSpacing) ?? readNumber(style?.paragraphSpacing);
+  const textAutoResize = readString(obj.textAutoResize) ?? readString(style?.textAutoResize);
+  const layoutSizingVertical = readString(obj.layoutSizingVertical);
+  const clipsContent = typeof obj.clipsContent === "boolean" ? obj.clipsContent : undefined;
+  const opacity = readLayerOpacity(readNumber(obj.opacity) ?? readNumber(style?.opacity));
+  const blendMode = normalizeBlendMode(readString(obj.blendMode) ?? readString(style?.blendMode));
 
   const bounds = parseBounds(obj);
   const fills = parsePaintList(obj.fills);
+  const fillPaints = parseFillPaints(obj.fills);
   const strokes = parsePaintList(obj.strokes);
+  const fillBindings = parsePaintBindings(obj.fills);
+  const strokeBindings = parsePaintBindings(obj.strokes);
+  const textSegments = text
+    ? parseTextSegments(obj, text, { fills, fontWeight, italic, textDecoration })
+    : undefined;
+  const strokeWeight = readNumber(obj.strokeWeight);
+  const effects = parseEffectList(obj.effects);
+  const variantProperties = parseVariantProperties(obj, type, name);
+  const mainComponent = objectOrUndefined(obj.mainComponent);
 
   return {
     id,
@@ -328,15 +488,153 @@ function normalizeNode(
     parentId,
     bounds,
     fills,
+    fillPaints,
     strokes,
+    fillBindings,
+    strokeBindings,
     text,
     fontSize,
     fontWeight,
     lineHeightPx,
+    textCase,
+    textDecoration,
+    italic,
+    textSegments,
+    letterSpacingPx,
+    paragraphSpacingPx,
+    textAutoResize,
+    layoutSizingVertical,
+    clipsContent,
+    opacity,
+    blendMode,
+    strokeWeight,
+    effects: effects.length > 0 ? effects : undefined,
+    variantProperties,
+    // REST instances carry `componentId`; plugin exports nest it under `mainComponent`.
+    componentId: readString(obj.componentId) ?? readString(mainComponent?.id),
+    componentName: readString(mainComponent?.name),
+    componentRemote: typeof mainComponent?.remote === "boolean" ? mainComponent.remote : undefined,
+    componentFileKey: readString(mainComponent?.fileKey),
+    disabledReason: readDisabledState(obj, variantProperties),
     isInteractive: isInteractiveNode(obj, type, name),
   };
 }
 
+const DISABLED_KEY_PATTERN = /disabled/i;
+const STATE_KEY_PATTERN = /state|status/i;
+const TRUE_VALUE_PATTERN = /^(true|yes|on)$/i;
+
+// `State=Disabled` variants, `disabled=true` variants, and boolean `Disabled` properties.
+function readDisabledState(
+  obj: Record<string, unknown>,
+  variantProperties: Record<string, string> | undefined,
+): string | undefined {
+  for (const [key, value] of Object.entries(variantProperties ?? {})) {
+    if (STATE_KEY_PATTERN.test(key) && value.trim().toLowerCase() === "disabled") {
+      return `${key}=${value}`;
+    }
+    if (DISABLED_KEY_PATTERN.test(key) && TRUE_VALUE_PATTERN.test(value.trim())) {
+      return `${key}=${value}`;
+    }
+  }
+
+  const componentProperties = objectOrUndefined(obj.componentProperties);
+  for (const [rawKey, raw] of Object.entries(componentProperties ?? {})) {
+    const prop = objectOrUndefined(raw);
+    // Boolean property keys carry a "#12:3" suffix that identifies the definition.
+    const key = rawKey.replace(/#[^#]*$/, "");
+    if (prop?.type === "BOOLEAN" && prop.value === true && DISABLED_KEY_PATTERN.test(key)) {
+      return `${key}=true`;
+    }
+  }
+
+  return undefined;
+}
+
+function parseVariantProperties(
+  obj: Record<string, unknown>,
+  type: string,
+  name: string,
+): Record<string, string> | undefined {
+  const explicit = objectOrUndefined(obj.variantProperties);
+  if (explicit) {
+    const entries = Object.entries(explicit).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string",
+    );
+    if (entries.length > 0) {
+      return Object.fromEntries(entries);
+    }
+  }
+
+  // Instances expose the selected variant through componentProperties.
+  const componentProperties = objectOrUndefined(obj.componentProperties);
+  if (componentProperties) {
+    const entries: Array<[string, string]> = [];
+    for (const [key, raw] of Object.entries(componentProperties)) {
+      const prop = objectOrUndefined(raw);
+      if (prop?.type === "VARIANT" && typeof prop.value === "string") {
+        entries.push([key, prop.value]);
+      }
+    }
+    if (entries.length > 0) {
+      return Object.fromEntries(entries);
+    }
+  }
+
+  // Variant components inside a component set are named "State=Focus, Size=Md".
+  if (type.toUpperCase() === "COMPONENT" && name.includes("=")) {
+    return parseVariantName(name);
+  }
+
+  return undefined;
+}
+
+export function parseVariantName(name: string): Record<string, string> | undefined {
+  const entries: Array<[string, string]> = [];
+
+  for (const part of name.split(",")) {
+    const idx = part.indexOf("=");
+    if (idx <= 0) {
+      continue;
+    }
+    const key = part.slice(0, idx).trim();
+    const value = part.slice(idx + 1).trim();
+    if (key && value) {
+      entries.push([key, value]);
+    }
+  }
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function parseEffectList(value: unknown): NormalizedEffect[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const effects: NormalizedEffect[] = [];
+
+  for (const effect of value) {
+    const effectObj = objectOrUndefined(effect);
+    if (!effectObj || effectObj.visible === false) {
+      continue;
+    }
+    const type = readString(effectObj.type);
+    if (!type) {
+      continue;
+    }
+
+    effects.push({
+      type,
+      color: parseColor(objectOrUndefined(effectObj.color), undefined),
+      radius: readNumber(effectObj.radius) ?? 0,
+      spread: readNumber(effectObj.spread) ?? 0,
+    });
+  }
+
+  return effects;
+}
+
 function isInteractiveNode(
   obj: Record<string, unknown>,
   type: string,
@@ -371,6 +669,14 @@ function isNodeHidden(obj: Record<string, unknown>): boolean {
   return obj.visible === false || obj.hidden === true;
 }
 
+function readLayerOpacity(value: number | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const opacity = normalizeAlpha(value);
+  return opacity > 0 && opacity < 0.999 ? opacity : undefined;
+}
+
 function hasZeroOpacity(obj: Record<string, unknown>): boolean {
   const style = objectOrUndefined(obj.style);
   const opacity = readNumber(obj.opacity) ?? readNumber(style?.opacity);
@@ -432,6 +738,167 @@ function parsePaintList(value: unknown): NormalizedColor[] {
   return colors;
 }
 
+// Same paint filter as parsePaintList so bindings line up index-for-index with the colors.
+function parsePaintBindings(
+  value: unknown,
+): Array<NormalizedPaintBinding | undefined> | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const bindings: Array<NormalizedPaintBinding | undefined> = [];
+  for (const paint of value) {
+    const paintObj = objectOrUndefined(paint);
+    if (!paintObj || paintObj.visible === false) {
+      continue;
+    }
+    if (!parseColor(objectOrUndefined(paintObj.color), readNumber(paintObj.opacity))) {
+      continue;
+    }
+    bindings.push(readPaintBinding(paintObj));
+  }
+
+  return bindings.some(Boolean) ? bindings : undefined;
+}
+
+// Plugin exports may carry the variable name next to the alias ID.
+function readPaintBinding(paintObj: Record<string, unknown>): NormalizedPaintBinding | undefined {
+  const alias = objectOrUndefined(objectOrUndefined(paintObj.boundVariables)?.color);
+  const variableId = readString(alias?.id);
+  if (!variableId) {
+    return undefined;
+  }
+  const name = readString(alias?.name);
+  const opacity = readNumber(paintObj.opacity);
+  return name ? { variableId, name, opacity } : { variableId, opacity };
+}
+
+const GRADIENT_KINDS: Record<string, GradientKind> = {
+  GRADIENT_LINEAR: "linear",
+  GRADIENT_RADIAL: "radial",
+  GRADIENT_ANGULAR: "angular",
+  GRADIENT_DIAMOND: "diamond",
+};
+
+const IMAGE_PAINT_TYPES = new Set(["IMAGE", "VIDEO", "EMOJI"]);
+
+// Keeps paint order so backgrounds can be composited; solid-only lists stay on `fills`.
+function parseFillPaints(value: unknown): NormalizedFillPaint[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const paints: NormalizedFillPaint[] = [];
+  let hasNonSolid = false;
+
+  for (const paint of value) {
+    const paintObj = objectOrUndefined(paint);
+    if (!paintObj || paintObj.visible === false) {
+      continue;
+    }
+    const opacity = readNumber(paintObj.opacity);
+    if (opacity !== undefined && opacity <= 0) {
+      continue;
+    }
+
+    const type = readString(paintObj.type)?.toUpperCase() ?? "SOLID";
+    const kind = GRADIENT_KINDS[type];
+    if (kind) {
+      const gradient = parseGradient(paintObj, kind, opacity);
+      if (gradient) {
+        paints.push({ type: "gradient", gradient });
+        hasNonSolid = true;
+      }
+      continue;
+    }
+    if (IMAGE_PAINT_TYPES.has(type)) {
+      paints.push({ type: "image" });
+      hasNonSolid = true;
+      continue;
+    }
+
+    const color = parseColor(objectOrUndefined(paintObj.color), opacity);
+    if (color) {
+      const binding = readPaintBinding(paintObj);
+      paints.push(binding ? { type: "solid", color, binding } : { type: "solid", color });
+    }
+  }
+
+  return hasNonSolid ? paints : undefined;
+}
+
+function parseGradient(
+  paintObj: Record<string, unknown>,
+  kind: GradientKind,
+  opacity: number | undefined,
+): NormalizedGradient | undefined {
+  if (!Array.isArray(paintObj.gradientStops)) {
+    return undefined;
+  }
+
+  const stops: NormalizedGradientStop[] = [];
+  for (const rawStop of paintObj.gradientStops) {
+    const stop = objectOrUndefined(rawStop);
+    const color = parseColor(objectOrUndefined(stop?.color), undefined);
+    if (!stop || !color) {
+      continue;
+    }
+    stops.push({
+      position: Math.min(1, Math.max(0, readNumber(stop.position) ?? 0)),
+      color: { ...color, a: color.a * normalizeAlpha(opacity) },
+    });
+  }
+  if (stops.length === 0) {
+    return undefined;
+  }
+  stops.sort((a, b) => a.position - b.position);
+
+  return { kind, stops, handles: parseGradientHandles(paintObj, kind) };
+}
+
+function parseGradientHandles(
+  paintObj: Record<string, unknown>,
+  kind: GradientKind,
+): Array<{ x: number; y: number }> | undefined {
+  // REST exposes handle positions directly.
+  if (Array.isArray(paintObj.gradientHandlePositions)) {
+    const handles = paintObj.gradientHandlePositions
+      .map((raw) => objectOrUndefined(raw))
+      .map((point) => ({ x: readNumber(point?.x), y: readNumber(point?.y) }))
+      .filter((point): point is { x: number; y: number } =>
+        point.x !== undefined && point.y !== undefined,
+      );
+    return handles.length >= 2 ? handles : undefined;
+  }
+
+  // The plugin API exposes a 2x3 transform from node space into gradient space instead.
+  const transform = paintObj.gradientTransform;
+  if (!Array.isArray(transform) || transform.length < 2) {
+    return undefined;
+  }
+  const [row0, row1] = transform as unknown[];
+  if (!Array.isArray(row0) || !Array.isArray(row1)) {
+    return undefined;
+  }
+  const [a, b, c] = row0.map((entry) => readNumber(entry));
+  const [d, e, f] = row1.map((entry) => readNumber(entry));
+  if ([a, b, c, d, e, f].some((entry) => entry === undefined)) {
+    return undefined;
+  }
+  const det = a! * e! - b! * d!;
+  if (Math.abs(det) < 1e-9) {
+    return undefined;
+  }
+  const toNodeSpace = (u: number, v: number) => ({
+    x: (e! * (u - c!) - b! * (v - f!)) / det,
+    y: (a! * (v - f!) - d! * (u - c!)) / det,
+  });
+
+  return kind === "linear"
+    ? [toNodeSpace(0, 0.5), toNodeSpace(1, 0.5), toNodeSpace(0, 1)]
+    : [toNodeSpace(0.5, 0.5), toNodeSpace(1, 0.5), toNodeSpace(0.5, 1)];
+}
+
 function parseColor(
   colorObj: Record<string, unknown> | undefined,
   opacity: number | undefined,
@@ -457,6 +924,124 @@ function parseColor(
   };
 }
 
+type SegmentStyle = Pick<
+  NormalizedTextSegment,
+  "fills" | "fontWeight" | "italic" | "textDecoration" | "hyperlink"
+>;
+
+// Mixed-style text arrives either as plugin-style segments or as REST per-character overrides.
+function parseTextSegments(
+  obj: Record<string, unknown>,
+  text: string,
+  base: SegmentStyle,
+): NormalizedTextSegment[] | undefined {
+  const explicit = Array.isArray(obj.styledTextSegments)
+    ? obj.styledTextSegments
+    : Array.isArray(obj.textSegments)
+      ? obj.textSegments
+      : undefined;
+
+  if (explicit) {
+    const segments: NormalizedTextSegment[] = [];
+    for (const raw of explicit) {
+      const segment = objectOrUndefined(raw);
+      if (!segment) {
+        continue;
+      }
+      const start = readNumber(segment.start) ?? segments[segments.length - 1]?.end ?? 0;
+      const segmentText =
+        readString(segment.characters) ?? text.slice(start, readNumber(segment.end));
+      segments.push({
+        start,
+        end: readNumber(segment.end) ?? start + segmentText.length,
+        text: segmentText,
+        ...mergeSegmentStyle(base, segment),
+      });
+    }
+    return segments.length > 1 ? segments : undefined;
+  }
+
+  const overrides = Array.isArray(obj.characterStyleOverrides)
+    ? obj.characterStyleOverrides
+    : undefined;
+  const table = objectOrUndefined(obj.styleOverrideTable);
+  if (!overrides || overrides.length === 0 || !table) {
+    return undefined;
+  }
+
+  const segments: NormalizedTextSegment[] = [];
+  let start = 0;
+  const overrideAt = (index: number): string => String(overrides[index] ?? 0);
+  for (let index = 1; index <= text.length; index += 1) {
+    if (index < text.length && overrideAt(index) === overrideAt(start)) {
+      continue;
+    }
+    const override = objectOrUndefined(table[overrideAt(start)]);
+    segments.push({
+      start,
+      end: index,
+      text: text.slice(start, index),
+      ...(override ? mergeSegmentStyle(base, override) : base),
+    });
+    start = index;
+  }
+
+  return segments.length > 1 ? segments : undefined;
+}
+
+function mergeSegmentStyle(base: SegmentStyle, override: Record<string, unknown>): SegmentStyle {
+  const fills = parsePaintList(override.fills);
+  return {
+    fills: fills.length > 0 ? fills : base.fills,
+    fontWeight: readNumber(override.fontWeight) ?? base.fontWeight,
+    italic: readItalic(override) ?? base.italic,
+    textDecoration: readString(override.textDecoration) ?? base.textDecoration,
+    hyperlink: override.hyperlink ? true : base.hyperlink,
+  };
+}
+
+function readItalic(obj: Record<string, unknown> | undefined): boolean | undefined {
+  if (!obj) {
+    return undefined;
+  }
+  if (typeof obj.italic === "boolean") {
+    return obj.italic;
+  }
+  const fontStyle =
+    readString(objectOrUndefined(obj.fontName)?.style) ?? readString(obj.fontStyle);
+  return fontStyle ? /italic|oblique/i.test(fontStyle) : undefined;
+}
+
+// Plugin-style metrics arrive as { unit, value }; REST payloads use plain pixel numbers.
+function readTextMetric(value: unknown, fontSize: number | undefined): number | undefined {
+  const direct = readNumber(value);
+  if (direct !== undefined) {
+    return direct;
+  }
+
+  const metric = objectOrUndefined(value);
+  const amount = readNumber(metric?.value);
+  if (!metric || amount === undefined) {
+    return undefined;
+  }
+
+  const unit = readString(metric.unit)?.toUpperCase();
+  if (unit === "PIXELS") {
+    return amount;
+  }
+  if (unit === "PERCENT") {
+    return percentOf(amount, fontSize);
+  }
+  return undefined;
+}
+
+function percentOf(percent: number | undefined, base: number | undefined): number | undefined {
+  if (percent === undefined || base === undefined) {
+    return undefined;
+  }
+  return (percent / 100) * base;
+}
+
 function readString(value: unknown): string | undefined {
   return typeof value === "string" && value.trim() !== "" ? value : undefined;
 }
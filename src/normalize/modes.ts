@@ -0,0 +1,71 @@
+import { withOpacity } from "../core/blend.js";
+import type {
+  NormalizedColor,
+  NormalizedFillPaint,
+  NormalizedNode,
+  NormalizedPaintBinding,
+  NormalizedTarget,
+  VariableModeSet,
+} from "../core/types.js";
+
+// True when some fill or stroke in the target is bound to a variable that has mode values.
+export function hasModeBindings(target: NormalizedTarget, modeSet: VariableModeSet): boolean {
+  return target.nodes.some((node) =>
+    [...(node.fillBindings ?? []), ...(node.strokeBindings ?? [])].some(
+      (binding) => binding?.variableId && modeSet.variables[binding.variableId],
+    ),
+  );
+}
+
+// The target as it renders in `mode`: bound solid fills and strokes take the variable's
+// value for that mode. Unbound paints, gradients, and images are left as designed.
+export function applyVariableMode(
+  target: NormalizedTarget,
+  modeSet: VariableModeSet,
+  mode: string,
+): NormalizedTarget {
+  return {
+    ...target,
+    nodes: target.nodes.map((node): NormalizedNode => {
+      if (!node.fillBindings && !node.strokeBindings) {
+        return node;
+      }
+      return {
+        ...node,
+        fills: resolvePaints(node.fills, node.fillBindings, modeSet, mode),
+        fillPaints: node.fillPaints?.map((paint): NormalizedFillPaint => {
+          if (paint.type !== "solid") {
+            return paint;
+          }
+          const value = modeValue(paint.binding, modeSet, mode);
+          return value ? { ...paint, color: withOpacity(value, paint.binding?.opacity) } : paint;
+        }),
+        strokes: resolvePaints(node.strokes, node.strokeBindings, modeSet, mode),
+      };
+    }),
+  };
+}
+
+function resolvePaints(
+  colors: NormalizedColor[],
+  bindings: Array<NormalizedPaintBinding | undefined> | undefined,
+  modeSet: VariableModeSet,
+  mode: string,
+): NormalizedColor[] {
+  if (!bindings) {
+    return colors;
+  }
+  return colors.map((color, index) => {
+    const binding = bindings[index];
+    const value = modeValue(binding, modeSet, mode);
+    return value ? withOpacity(value, binding?.opacity) : color;
+  });
+}
+
+function modeValue(
+  binding: NormalizedPaintBinding | undefined,
+  modeSet: VariableModeSet,
+  mode: string,
+): NormalizedColor | undefined {
+  return binding?.variableId ? modeSet.variables[binding.variableId]?.values[mode] : undefined;
+}
@@ -1,14 +1,34 @@
 import type {
+  NormalizedBounds,
   NormalizedColor,
   NormalizedNode,
+  NormalizedPaintBinding,
   NormalizedTarget,
 } from "../core/types.js";
-import { flattenAlpha } from "../core/color.js";
+import { compositeOver, withOpacity } from "../core/blend.js";
+import { contrastRatio } from "../core/color.js";
+import { sampleGradientUnderBounds } from "../core/gradient.js";
+
+export interface BackgroundCandidate {
+  color: NormalizedColor;
+  // The subject's own color composited with its opacity, blend mode, and group opacity.
+  foreground?: NormalizedColor;
+  // Which gradient stop (or position between stops) produced this color.
+  gradientStop?: string;
+}
 
 export interface BackgroundResolution {
   color?: NormalizedColor;
+  foreground?: NormalizedColor;
+  // Set instead of `color` when a gradient shows through; evaluate the worst case.
+  candidates?: BackgroundCandidate[];
   sourceLayerPath?: string;
+  // Token names of the layers in `sourceLayerPath`, undefined where the color is hard-coded.
+  sourceTokens?: Array<string | undefined>;
+  // Layers whose opacity or blend mode changed the composited colors.
+  compositing?: string[];
   reason?: string;
+  needsSampling?: boolean;
 }
 
 interface BoundsContext {
@@ -16,6 +36,22 @@ interface BoundsContext {
   allowAccumulatedCoverage: boolean;
 }
 
+interface BackdropLayer {
+  // Undefined for image fills, which can only be resolved by sampling pixels.
+  candidates?: BackgroundCandidate[];
+  blendMode?: string;
+  path: string;
+  token?: string;
+}
+
+// Backdrop layers painted inside one ancestor, bottom-most first, below the child on the path.
+interface BackdropLevel {
+  group: NormalizedNode;
+  layers: BackdropLayer[];
+}
+
+const TRANSPARENT: NormalizedColor = { r: 0, g: 0, b: 0, a: 0 };
+
 export function firstFill(node: NormalizedNode): NormalizedColor | undefined {
   return node.fills[0];
 }
@@ -24,17 +60,40 @@ export function firstStroke(node: NormalizedNode): NormalizedColor | undefined {
   return node.strokes[0];
 }
 
+export function paintToken(binding: NormalizedPaintBinding | undefined): string | undefined {
+  return binding?.name ?? binding?.variableId;
+}
+
+export function firstFillToken(node: NormalizedNode): string | undefined {
+  return paintToken(node.fillBindings?.[0]);
+}
+
+export function firstStrokeToken(node: NormalizedNode): string | undefined {
+  return paintToken(node.strokeBindings?.[0]);
+}
+
+// Without any binding in the target we cannot tell tokens from hard-coded colors.
+export function hasTokenBindings(target: NormalizedTarget): boolean {
+  return target.nodes.some((node) =>
+    [
+      ...(node.fillBindings ?? []),
+      ...(node.strokeBindings ?? []),
+      ...(node.fillPaints ?? []).map((paint) =>
+        paint.type === "solid" ? paint.binding : undefined,
+      ),
+    ].some(Boolean),
+  );
+}
+
 export function resolveEffectiveBackground(
   target: NormalizedTarget,
   node: NormalizedNode,
+  foreground?: NormalizedColor,
 ): BackgroundResolution {
   const map = nodeMap(target);
   const boundsContext = buildBoundsContext(target, map);
   const childrenByParent = buildChildrenByParent(target);
-  const overlays: Array<{
-    color: NormalizedColor;
-    path: string;
-  }> = [];
+  const levels: BackdropLevel[] = [];
   let skippedByCoverage = 0;
   const visited = new Set<string>();
   let current: NormalizedNode | undefined = node;
@@ -46,41 +105,39 @@ export function resolveEffectiveBackground(
       break;
     }
 
-    const siblingOverlay = resolveSiblingOverlay(
-      target,
-      current,
-      node,
-      childrenByParent,
-      boundsContext,
-    );
-    if (siblingOverlay) {
-      overlays.push(siblingOverlay);
-    }
-
-    const backgroundFill = isTextualNode(parent) ? undefined : firstVisibleColor(parent.fills);
-    if (!backgroundFill) {
-      current = parent;
-      continue;
-    }
-
-    if (!boundsCover(parent, node, boundsContext)) {
+    const layers: BackdropLayer[] = [];
+    const parentLayers = isTextualNode(parent)
+      ? []
+      : backdropLayersForNode(target, parent, node, boundsContext);
+    if (parentLayers.length > 0 && !boundsCover(parent, node, boundsContext)) {
       skippedByCoverage += 1;
-      current = parent;
-      continue;
+    } else {
+      layers.push(...[...parentLayers].reverse());
     }
+    layers.push(
+      ...resolveSiblingOverlay(target, current, node, childrenByParent, boundsContext).reverse(),
+    );
+    levels.push({ group: parent, layers });
 
-    overlays.push({
-      color: backgroundFill,
-      path: layerPathForNode(target, parent),
-    });
+    // Nothing behind an image can be resolved from the design data.
+    if (layers.some((layer) => !layer.candidates)) {
+      break;
+    }
     current = parent;
   }
 
+  // Innermost first, matching the order layers were found in.
+  const overlays = levels.flatMap((level) => [...level.layers].reverse());
+  const compositing = describeCompositing(node, levels);
+
   if (overlays.length === 0) {
     if (target.fallbackBackgroundColor) {
+      const [fallback] = renderLevels(node, levels, foreground, target.fallbackBackgroundColor);
       return {
         color: target.fallbackBackgroundColor,
+        foreground: fallback.foreground,
         sourceLayerPath: "[design-context-fallback] document background",
+        compositing,
       };
     }
     if (skippedByCoverage > 0) {
@@ -95,37 +152,221 @@ export function resolveEffectiveBackground(
     };
   }
 
-  let baseIndex = -1;
-  for (let i = overlays.length - 1; i >= 0; i -= 1) {
-    if (overlays[i].color.a >= 0.999) {
-      baseIndex = i;
-      break;
+  const rendered = renderLevels(node, levels, foreground);
+  if (rendered.some((candidate) => candidate.color.a < 0.999)) {
+    const image = overlays.find((layer) => !layer.candidates);
+    if (image) {
+      return {
+        needsSampling: true,
+        sourceLayerPath: image.path,
+        reason: "Image fill behind this layer; background needs screenshot sampling.",
+      };
     }
-  }
-
-  if (baseIndex === -1) {
     return {
       reason:
         "Only translucent ancestor backgrounds found; effective backdrop remains dynamic.",
     };
   }
 
-  let resolved = overlays[baseIndex].color;
-  for (let i = baseIndex - 1; i >= 0; i -= 1) {
-    resolved = flattenAlpha(overlays[i].color, resolved);
+  let baseIndex = overlays.length - 1;
+  for (let i = overlays.length - 1; i >= 0; i -= 1) {
+    if (isOpaqueLayer(overlays[i])) {
+      baseIndex = i;
+      break;
+    }
   }
+  const sourceLayers = overlays.slice(0, baseIndex + 1).filter((entry) => entry.candidates);
+  const sourceLayerPath = sourceLayers.map((entry) => entry.path).join(" <= ");
+  const sourceTokens = sourceLayers.map((entry) => entry.token);
 
-  const sourceLayerPath = overlays
-    .slice(0, baseIndex + 1)
-    .map((entry) => entry.path)
-    .join(" <= ");
+  if (rendered.length === 1 && !rendered[0].gradientStop) {
+    return {
+      color: rendered[0].color,
+      foreground: rendered[0].foreground,
+      sourceLayerPath,
+      sourceTokens,
+      compositing,
+    };
+  }
 
   return {
-    color: resolved,
+    candidates: rendered,
     sourceLayerPath,
+    sourceTokens,
+    compositing,
   };
 }
 
+// Renders the pixel under the subject with and without the subject, group by group.
+// Group opacity and blend mode apply once to the flattened group, as Figma draws it.
+function renderLevels(
+  node: NormalizedNode,
+  levels: BackdropLevel[],
+  foreground: NormalizedColor | undefined,
+  base?: NormalizedColor,
+): BackgroundCandidate[] {
+  let rendered: BackgroundCandidate[] = [{ color: TRANSPARENT, foreground }];
+  let child = node;
+
+  for (const level of levels) {
+    let content: BackgroundCandidate[] = [{ color: TRANSPARENT }];
+    for (const layer of level.layers) {
+      content = layer.candidates
+        ? layer.candidates.flatMap((top) =>
+            content.map((below) => ({
+              color: compositeOver(top.color, below.color, layer.blendMode),
+              gradientStop: joinStops(top.gradientStop, below.gradientStop),
+            })),
+          )
+        : [{ color: TRANSPARENT }];
+    }
+    rendered = composeGroup(rendered, content, child);
+    child = level.group;
+  }
+
+  if (base) {
+    rendered = composeGroup(rendered, [{ color: base }], child);
+  }
+  return rendered;
+}
+
+function composeGroup(
+  groups: BackgroundCandidate[],
+  backdrops: BackgroundCandidate[],
+  group: NormalizedNode,
+): BackgroundCandidate[] {
+  return groups.flatMap((inner) =>
+    backdrops.map((backdrop) => ({
+      color: compositeOver(withOpacity(inner.color, group.opacity), backdrop.color, group.blendMode),
+      foreground: inner.foreground
+        ? compositeOver(
+            withOpacity(inner.foreground, group.opacity),
+            backdrop.color,
+            group.blendMode,
+          )
+        : undefined,
+      gradientStop: joinStops(inner.gradientStop, backdrop.gradientStop),
+    })),
+  );
+}
+
+function describeCompositing(
+  node: NormalizedNode,
+  levels: BackdropLevel[],
+): string[] | undefined {
+  const notes: string[] = [];
+  for (const group of [node, ...levels.map((level) => level.group)]) {
+    if (group.opacity !== undefined) {
+      notes.push(`${group.name} opacity ${Number(group.opacity.toFixed(2))}`);
+    }
+    if (group.blendMode) {
+      notes.push(`${group.name} ${group.blendMode}`);
+    }
+  }
+  for (const layer of levels.flatMap((level) => level.layers)) {
+    if (layer.blendMode) {
+      notes.push(`${layer.path.split(" > ").pop()} ${layer.blendMode}`);
+    }
+  }
+  return notes.length > 0 ? notes : undefined;
+}
+
+// Picks the background that gives the lowest contrast against the foreground.
+export function worstCaseBackground(
+  resolution: BackgroundResolution,
+  foreground: NormalizedColor | undefined,
+): BackgroundCandidate | undefined {
+  if (resolution.color) {
+    return { color: resolution.color, foreground: resolution.foreground };
+  }
+  const candidates = resolution.candidates ?? [];
+  if (candidates.length === 0 || !foreground) {
+    return candidates[0];
+  }
+  const ratio = (candidate: BackgroundCandidate) =>
+    contrastRatio(candidate.foreground ?? foreground, candidate.color);
+  return candidates.reduce((worst, candidate) =>
+    ratio(candidate) < ratio(worst) ? candidate : worst,
+  );
+}
+
+// Opacity of the node times every ancestor's, for colors that are composited elsewhere
+// (for example over a screenshot sample).
+export function inheritedOpacity(target: NormalizedTarget, node: NormalizedNode): number {
+  const map = nodeMap(target);
+  const seen = new Set<string>();
+  let opacity = 1;
+  let current: NormalizedNode | undefined = node;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    opacity *= current.opacity ?? 1;
+    current = current.parentId ? map.get(current.parentId) : undefined;
+  }
+  return opacity;
+}
+
+// The node itself or its nearest ancestor that is a disabled component, without walking
+// past the audited target root.
+export function findDisabledComponent(
+  target: NormalizedTarget,
+  node: NormalizedNode,
+): NormalizedNode | undefined {
+  const map = nodeMap(target);
+  const seen = new Set<string>();
+  let current: NormalizedNode | undefined = node;
+  while (current && !seen.has(current.id)) {
+    if (current.disabledReason) {
+      return current;
+    }
+    if (current.id === target.nodeId) {
+      return undefined;
+    }
+    seen.add(current.id);
+    current = current.parentId ? map.get(current.parentId) : undefined;
+  }
+  return undefined;
+}
+
+// The nearest interactive ancestor of the node, without walking past the audited target root.
+export function findInteractiveAncestor(
+  target: NormalizedTarget,
+  node: NormalizedNode,
+): NormalizedNode | undefined {
+  const map = nodeMap(target);
+  const seen = new Set<string>([node.id]);
+  let current: NormalizedNode | undefined =
+    node.id === target.nodeId || !node.parentId ? undefined : map.get(node.parentId);
+  while (current && !seen.has(current.id)) {
+    if (current.isInteractive) {
+      return current;
+    }
+    if (current.id === target.nodeId) {
+      return undefined;
+    }
+    seen.add(current.id);
+    current = current.parentId ? map.get(current.parentId) : undefined;
+  }
+  return undefined;
+}
+
+// The node itself or its nearest ancestor that is a component instance.
+export function findComponentInstance(
+  target: NormalizedTarget,
+  node: NormalizedNode,
+): NormalizedNode | undefined {
+  const map = nodeMap(target);
+  const seen = new Set<string>();
+  let current: NormalizedNode | undefined = node;
+  while (current && !seen.has(current.id)) {
+    if (current.componentId) {
+      return current;
+    }
+    seen.add(current.id);
+    current = current.parentId ? map.get(current.parentId) : undefined;
+  }
+  return undefined;
+}
+
 export function nodeMap(target: NormalizedTarget): Map<string, NormalizedNode> {
   return new Map(target.nodes.map((node) => [node.id, node]));
 }
@@ -148,6 +389,47 @@ export function layerPathForNode(
   return path.join(" > ");
 }
 
+export function resolveLayoutBounds(
+  target: NormalizedTarget,
+): Map<string, NormalizedBounds> {
+  const boundsContext = buildBoundsContext(target, nodeMap(target));
+  if (boundsContext.allowAccumulatedCoverage) {
+    return boundsContext.accumulatedBoundsById;
+  }
+
+  const out = new Map<string, NormalizedBounds>();
+  for (const node of target.nodes) {
+    if (node.bounds) {
+      out.set(node.id, node.bounds);
+    }
+  }
+  return out;
+}
+
+export function childNodes(
+  target: NormalizedTarget,
+  parentId: string,
+): NormalizedNode[] {
+  return target.nodes.filter((node) => node.parentId === parentId);
+}
+
+export function descendantNodes(
+  target: NormalizedTarget,
+  rootId: string,
+): NormalizedNode[] {
+  const byParent = buildChildrenByParent(target);
+  const out: NormalizedNode[] = [];
+  const queue = [...(byParent.get(rootId) ?? [])];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    out.push(current);
+    queue.push(...(byParent.get(current.id) ?? []));
+  }
+
+  return out;
+}
+
 export function likelyTextNodes(target: NormalizedTarget): NormalizedNode[] {
   return target.nodes.filter(
     (node) => node.type.toUpperCase() === "TEXT" || typeof node.text === "string",
@@ -171,12 +453,55 @@ export function likelyNonTextContrastNodes(
   });
 }
 
-export function likelyInteractiveNodes(target: NormalizedTarget): NormalizedNode[] {
-  return target.nodes.filter((node) => node.isInteractive);
+const VECTOR_TYPES = new Set([
+  "VECTOR",
+  "BOOLEAN_OPERATION",
+  "STAR",
+  "LINE",
+  "ELLIPSE",
+  "POLYGON",
+  "REGULAR_POLYGON",
+]);
+const ICON_NAME_PATTERN = /(^|[\s/_-])(icons?|glyph)([\s/_-]|$)/i;
+// "Icon button" is a control that contains an icon, not the icon itself.
+const ICON_CONTROL_PATTERN = /button|btn/i;
+
+export function isVectorNode(node: NormalizedNode): boolean {
+  return VECTOR_TYPES.has(node.type.toUpperCase());
+}
+
+// Icon containers (instances, components, frames or vectors named like icons) that draw
+// vector shapes. Icons nested in another icon belong to the outer one.
+export function likelyIconNodes(target: NormalizedTarget): NormalizedNode[] {
+  const map = nodeMap(target);
+  const looksLikeIcon = (node: NormalizedNode) =>
+    node.type.toUpperCase() !== "TEXT" &&
+    [node.name, node.componentName].some(
+      (name) => name && ICON_NAME_PATTERN.test(name) && !ICON_CONTROL_PATTERN.test(name),
+    );
+
+  return target.nodes.filter((node) => {
+    if (!looksLikeIcon(node)) {
+      return false;
+    }
+    if (!isVectorNode(node) && !descendantNodes(target, node.id).some(isVectorNode)) {
+      return false;
+    }
+    const seen = new Set<string>();
+    let parent = node.parentId ? map.get(node.parentId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      if (looksLikeIcon(parent)) {
+        return false;
+      }
+      seen.add(parent.id);
+      parent = parent.parentId ? map.get(parent.parentId) : undefined;
+    }
+    return true;
+  });
 }
 
-function firstVisibleColor(colors: NormalizedColor[]): NormalizedColor | undefined {
-  return colors.find((color) => color.a > 0.001);
+export function likelyInteractiveNodes(target: NormalizedTarget): NormalizedNode[] {
+  return target.nodes.filter((node) => node.isInteractive);
 }
 
 function buildChildrenByParent(
@@ -202,73 +527,48 @@ function resolveSiblingOverlay(
   subject: NormalizedNode,
   childrenByParent: Map<string, NormalizedNode[]>,
   boundsContext: BoundsContext,
-):
-  | {
-      color: NormalizedColor;
-      path: string;
-    }
-  | undefined {
+): BackdropLayer[] {
   if (!current.parentId) {
-    return undefined;
+    return [];
   }
 
   const siblings = childrenByParent.get(current.parentId);
   if (!siblings || siblings.length === 0) {
-    return undefined;
+    return [];
   }
 
   const currentIndex = siblings.findIndex((candidate) => candidate.id === current.id);
   if (currentIndex <= 0) {
-    return undefined;
+    return [];
   }
 
   // In Figma node arrays, earlier siblings are typically behind later siblings.
   for (let i = currentIndex - 1; i >= 0; i -= 1) {
     const candidate = siblings[i];
-    const resolved = resolveCoveringFillInSubtree(
+    const resolved = resolveCoveringFillInNode(
+      target,
       candidate,
       subject,
       childrenByParent,
       boundsContext,
     );
-    if (resolved) {
-      return {
-        color: resolved.color,
-        path: layerPathForNode(target, resolved.sourceNode),
-      };
+    if (resolved.length > 0) {
+      return resolved;
     }
   }
 
-  return undefined;
-}
-
-function resolveCoveringFillInSubtree(
-  root: NormalizedNode,
-  subject: NormalizedNode,
-  childrenByParent: Map<string, NormalizedNode[]>,
-  boundsContext: BoundsContext,
-):
-  | {
-      color: NormalizedColor;
-      sourceNode: NormalizedNode;
-    }
-  | undefined {
-  return resolveCoveringFillInNode(root, subject, childrenByParent, boundsContext);
+  return [];
 }
 
 function resolveCoveringFillInNode(
+  target: NormalizedTarget,
   current: NormalizedNode,
   subject: NormalizedNode,
   childrenByParent: Map<string, NormalizedNode[]>,
   boundsContext: BoundsContext,
-):
-  | {
-      color: NormalizedColor;
-      sourceNode: NormalizedNode;
-    }
-  | undefined {
+): BackdropLayer[] {
   if (!boundsCover(current, subject, boundsContext)) {
-    return undefined;
+    return [];
   }
 
   const children = childrenByParent.get(current.id);
@@ -277,26 +577,103 @@ function resolveCoveringFillInNode(
     for (let i = children.length - 1; i >= 0; i -= 1) {
       const child = children[i];
       const resolved = resolveCoveringFillInNode(
+        target,
         child,
         subject,
         childrenByParent,
         boundsContext,
       );
-      if (resolved) {
-        return resolved;
+      if (resolved.length > 0) {
+        return withLayerEffects(resolved, current);
       }
     }
   }
 
-  const fill = isTextualNode(current) ? undefined : firstVisibleColor(current.fills);
-  if (fill) {
-    return {
-      color: fill,
-      sourceNode: current,
-    };
+  return isTextualNode(current)
+    ? []
+    : withLayerEffects(backdropLayersForNode(target, current, subject, boundsContext), current);
+}
+
+// Underlay subtrees are not on the subject's ancestor path, so their opacity and blend
+// mode are folded into the found layers directly.
+function withLayerEffects(layers: BackdropLayer[], node: NormalizedNode): BackdropLayer[] {
+  if (node.opacity === undefined && !node.blendMode) {
+    return layers;
   }
+  return layers.map((layer) => ({
+    ...layer,
+    candidates: layer.candidates?.map((candidate) => ({
+      ...candidate,
+      color: withOpacity(candidate.color, node.opacity),
+    })),
+    blendMode: layer.blendMode ?? node.blendMode,
+  }));
+}
 
-  return undefined;
+// A node's own paints as backdrop layers, top-most first.
+function backdropLayersForNode(
+  target: NormalizedTarget,
+  node: NormalizedNode,
+  subject: NormalizedNode,
+  boundsContext: BoundsContext,
+): BackdropLayer[] {
+  if (!node.fillPaints) {
+    const index = node.fills.findIndex((color) => color.a > 0.001);
+    return index >= 0
+      ? [
+          {
+            candidates: [{ color: node.fills[index] }],
+            path: layerPathForNode(target, node),
+            token: paintToken(node.fillBindings?.[index]),
+          },
+        ]
+      : [];
+  }
+
+  const path = layerPathForNode(target, node);
+  const layers: BackdropLayer[] = [];
+  for (const paint of [...node.fillPaints].reverse()) {
+    if (paint.type === "image") {
+      layers.push({ path });
+    } else if (paint.type === "solid") {
+      if (paint.color.a > 0.001) {
+        layers.push({ candidates: [{ color: paint.color }], path, token: paintToken(paint.binding) });
+      }
+    } else {
+      const samples = sampleGradientUnderBounds(
+        paint.gradient,
+        coverageBounds(node, boundsContext),
+        coverageBounds(subject, boundsContext),
+      );
+      if (samples.some((sample) => sample.color.a > 0.001)) {
+        layers.push({
+          candidates: samples.map((sample) => ({
+            color: sample.color,
+            gradientStop: sample.label,
+          })),
+          path,
+        });
+      }
+    }
+  }
+  return layers;
+}
+
+function coverageBounds(
+  node: NormalizedNode,
+  boundsContext: BoundsContext,
+): NormalizedBounds | undefined {
+  return boundsContext.allowAccumulatedCoverage
+    ? boundsContext.accumulatedBoundsById.get(node.id) ?? node.bounds
+    : node.bounds;
+}
+
+function isOpaqueLayer(layer: BackdropLayer): boolean {
+  return Boolean(layer.candidates?.every((candidate) => candidate.color.a >= 0.999));
+}
+
+function joinStops(top?: string, below?: string): string | undefined {
+  return top && below ? `${top} over ${below}` : top ?? below;
 }
 
 function isTextualNode(node: NormalizedNode): boolean {
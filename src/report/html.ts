@@ -20,6 +20,23 @@ function renderHtml(outDir: string, report: AuditReport): string {
     .join("\n");
 
   const targetSections = report.targets.map((target) => renderTarget(outDir, target)).join("\n");
+  const baselineRows = report.summary.baseline
+    ? `
+      <tr><th>New since baseline</th><td>${report.summary.baseline.new}</td></tr>
+      <tr><th>Existing in baseline</th><td>${report.summary.baseline.existing}</td></tr>
+      <tr><th>Fixed since baseline</th><td>${report.summary.baseline.fixed}</td></tr>`
+    : "";
+  const modeRows = Object.entries(report.summary.failuresByMode ?? {})
+    .map(
+      ([mode, count]) =>
+        `
+      <tr><th>Failures in mode: ${escapeHtml(mode)}</th><td>${count}</td></tr>`,
+    )
+    .join("");
+  const baselineSection = report.baseline ? renderBaselineSection(report.baseline) : "";
+  const scorecardSection = report.componentScorecard
+    ? renderComponentScorecard(report.componentScorecard)
+    : "";
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -39,14 +56,23 @@ function renderHtml(outDir: string, report: AuditReport): string {
     .major { background: #fef9c3; color: #854d0e; }
     .minor { background: #e0f2fe; color: #0c4a6e; }
     .manual { background: #ede9fe; color: #5b21b6; }
+    .exempt { background: #f1f5f9; color: #334155; }
     .suppressed { background: #dcfce7; color: #166534; }
+    .baseline-new { background: #fce7f3; color: #9d174d; }
+    .baseline-existing { background: #f1f5f9; color: #475569; }
+    .baseline-fixed { background: #dcfce7; color: #166534; }
+    .score-pass { background: #dcfce7; color: #166534; }
+    .score-fail { background: #fee2e2; color: #991b1b; }
+    .score-review { background: #ede9fe; color: #5b21b6; }
+    .score-error { background: #f1f5f9; color: #475569; }
     img { max-width: 540px; border: 1px solid #e5e7eb; border-radius: 6px; }
     .muted { color: #6b7280; }
+    .marker { text-decoration: none; margin-right: 4px; }
     .section { margin-bottom: 28px; }
   </style>
 </head>
 <body>
-  <h1>AA WCAG 2.2 Report</h1>
+  <h1>${escapeHtml(report.level)} WCAG ${escapeHtml(report.wcagVersion)} Report</h1>
   <p class="muted">Run ID: ${escapeHtml(report.runId)} | Started: ${escapeHtml(report.startedAt)} | Finished: ${escapeHtml(report.finishedAt)}</p>
 
   <div class="section">
@@ -56,7 +82,9 @@ function renderHtml(outDir: string, report: AuditReport): string {
       <tr><th>Total findings</th><td>${report.summary.totalFindings}</td></tr>
       <tr><th>Suppressed findings</th><td>${report.summary.suppressedFindings}</td></tr>
       <tr><th>Manual-review findings</th><td>${report.summary.manualReviewFindings}</td></tr>
-      <tr><th>Failed targets</th><td>${report.summary.failedTargets}</td></tr>
+      <tr><th>Exempt findings</th><td>${report.summary.exemptFindings}</td></tr>
+      <tr><th>Exempt: inactive components</th><td>${report.summary.inactiveExemptFindings}</td></tr>
+      <tr><th>Failed targets</th><td>${report.summary.failedTargets}</td></tr>${modeRows}${baselineRows}
     </table>
     <h3>Findings by Severity</h3>
     <table>
@@ -65,18 +93,97 @@ function renderHtml(outDir: string, report: AuditReport): string {
     </table>
   </div>
 
+  ${scorecardSection}
+
+  ${baselineSection}
+
   ${targetSections}
 </body>
 </html>`;
 }
 
+function renderComponentScorecard(
+  scorecard: NonNullable<AuditReport["componentScorecard"]>,
+): string {
+  const ruleHeaders = scorecard.ruleIds
+    .map((ruleId) => `<th>${escapeHtml(ruleId)}</th>`)
+    .join("");
+
+  const components = scorecard.components
+    .map((component) => {
+      const passing = component.variants.filter((variant) =>
+        Object.values(variant.results).every((outcome) => outcome === "pass"),
+      ).length;
+      const rows = component.variants
+        .map(
+          (variant) =>
+            `<tr><td><a href="${escapeHtml(variant.figmaUrl)}" target="_blank">${escapeHtml(
+              variant.variantName,
+            )}</a></td>${scorecard.ruleIds
+              .map((ruleId) => {
+                const outcome = variant.results[ruleId] ?? "pass";
+                return `<td><span class="badge score-${outcome}">${outcome}</span></td>`;
+              })
+              .join("")}</tr>`,
+        )
+        .join("\n");
+
+      return `<h3>${escapeHtml(component.componentName)}</h3>
+    <p class="muted">${passing}/${component.variants.length} variants pass every rule.</p>
+    <table>
+      <thead><tr><th>Variant</th>${ruleHeaders}</tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+    })
+    .join("\n");
+
+  return `<div class="section">
+    <h2>Component Scorecard</h2>
+    ${components}
+  </div>`;
+}
+
+function renderBaselineSection(baseline: NonNullable<AuditReport["baseline"]>): string {
+  const fixedRows = baseline.fixedFindings.length
+    ? baseline.fixedFindings
+        .map(
+          (finding) =>
+            `<tr><td>${escapeHtml(finding.ruleId)}</td><td>${escapeHtml(
+              finding.targetRef.frameName,
+            )}</td><td>${escapeHtml(
+              finding.targetRef.layerPath ?? finding.targetRef.frameName,
+            )}</td><td>${escapeHtml(finding.message)}</td></tr>`,
+        )
+        .join("\n")
+    : '<tr><td colspan="4" class="muted">No fixed findings.</td></tr>';
+
+  return `<div class="section">
+    <h2>Fixed Since Baseline</h2>
+    <p class="muted">Baseline: ${escapeHtml(baseline.source)} | Run ID: ${escapeHtml(
+      baseline.runId ?? "-",
+    )}</p>
+    <table>
+      <thead><tr><th>Rule</th><th>Target</th><th>Layer Path</th><th>Message</th></tr></thead>
+      <tbody>${fixedRows}</tbody>
+    </table>
+  </div>`;
+}
+
 function renderTarget(outDir: string, target: TargetResult): string {
-  const screenshot = target.screenshotPath
-    ? renderScreenshot(outDir, target.screenshotPath)
-    : '<p class="muted">No screenshot available.</p>';
+  const screenshotAnchor = `screenshot-${target.nodeId.replace(/[^a-zA-Z0-9-_]+/g, "_")}`;
+  const screenshot = target.annotatedScreenshotPath
+    ? renderScreenshot(
+        outDir,
+        target.annotatedScreenshotPath,
+        "Figma screenshot with numbered finding boxes",
+        screenshotAnchor,
+      )
+    : target.screenshotPath
+      ? renderScreenshot(outDir, target.screenshotPath)
+      : '<p class="muted">No screenshot available.</p>';
 
   const findingRows = target.findings.length
-    ? target.findings.map(renderFindingRow).join("\n")
+    ? target.findings.map((finding) => renderFindingRow(finding, screenshotAnchor)).join("\n")
     : '<tr><td colspan="8" class="muted">No findings.</td></tr>';
 
   const manualRows = target.manualChecks.length
@@ -98,6 +205,8 @@ function renderTarget(outDir: string, target: TargetResult): string {
         .join("")}</ul>`
     : '<p class="muted">No target warnings.</p>';
 
+  const modeMatrix = target.modes ? renderModeMatrix(target.modes, target.findings) : "";
+
   return `<div class="section">
     <h2>${escapeHtml(target.frameName)}</h2>
     <p><strong>Node ID:</strong> ${escapeHtml(target.nodeId)}<br/><strong>URL:</strong> <a href="${escapeHtml(
@@ -109,6 +218,7 @@ function renderTarget(outDir: string, target: TargetResult): string {
       <thead><tr><th>Severity</th><th>Status</th><th>Rule</th><th>Criterion</th><th>Layer Path</th><th>Message</th><th>Recommendation</th><th>Evidence</th></tr></thead>
       <tbody>${findingRows}</tbody>
     </table>
+    ${modeMatrix}
     <h3>Manual Checklist</h3>
     <table>
       <thead><tr><th>Criterion</th><th>Layer Path</th><th>Prompt</th></tr></thead>
@@ -119,32 +229,101 @@ function renderTarget(outDir: string, target: TargetResult): string {
   </div>`;
 }
 
-function renderScreenshot(outDir: string, screenshotPath: string): string {
+// One row per rule and layer that fails in at least one mode.
+function renderModeMatrix(modes: string[], findings: Finding[]): string {
+  const rows = new Map<string, { ruleId: string; layerPath: string; failing: Set<string> }>();
+  for (const finding of findings) {
+    if (finding.status !== "failed" || !finding.modes) {
+      continue;
+    }
+    const layerPath = finding.targetRef.layerPath ?? finding.targetRef.frameName;
+    const key = `${finding.ruleId}|${layerPath}`;
+    const row = rows.get(key) ?? { ruleId: finding.ruleId, layerPath, failing: new Set() };
+    finding.modes.forEach((mode) => row.failing.add(mode));
+    rows.set(key, row);
+  }
+
+  const body = rows.size
+    ? [...rows.values()]
+        .map(
+          (row) =>
+            `<tr><td>${escapeHtml(row.ruleId)}</td><td>${escapeHtml(row.layerPath)}</td>${modes
+              .map((mode) => {
+                const outcome = row.failing.has(mode) ? "fail" : "pass";
+                return `<td><span class="badge score-${outcome}">${outcome}</span></td>`;
+              })
+              .join("")}</tr>`,
+        )
+        .join("\n")
+    : `<tr><td colspan="${modes.length + 2}" class="muted">No failures in any mode.</td></tr>`;
+
+  return `<h3>Variable Modes</h3>
+    <table>
+      <thead><tr><th>Rule</th><th>Layer Path</th>${modes
+        .map((mode) => `<th>${escapeHtml(mode)}</th>`)
+        .join("")}</tr></thead>
+      <tbody>${body}</tbody>
+    </table>`;
+}
+
+function renderScreenshot(
+  outDir: string,
+  screenshotPath: string,
+  alt = "Figma screenshot",
+  anchor?: string,
+): string {
+  const idAttr = anchor ? ` id="${escapeHtml(anchor)}"` : "";
   if (/^https?:\/\//i.test(screenshotPath)) {
-    return `<p><img src="${escapeHtml(screenshotPath)}" alt="Figma screenshot" /></p>`;
+    return `<p${idAttr}><img src="${escapeHtml(screenshotPath)}" alt="${escapeHtml(alt)}" /></p>`;
   }
 
   const rel = relative(outDir, screenshotPath).split("\\").join("/");
-  return `<p><img src="${escapeHtml(rel)}" alt="Figma screenshot" /></p>`;
+  return `<p${idAttr}><img src="${escapeHtml(rel)}" alt="${escapeHtml(alt)}" /></p>`;
 }
 
-function renderFindingRow(finding: Finding): string {
+function renderFindingRow(finding: Finding, screenshotAnchor: string): string {
   const severityClass = escapeHtml(finding.severity);
   const statusClass =
-    finding.status === "needs-manual-review" ? "manual" : severityClass;
+    finding.status === "needs-manual-review"
+      ? "manual"
+      : finding.status === "exempt"
+        ? "exempt"
+        : severityClass;
   const suppressed = finding.suppressed
     ? `<span class="badge suppressed">suppressed until ${escapeHtml(
         finding.suppressed.expiresOn,
       )}</span>`
     : "";
+  const baseline = finding.baselineStatus
+    ? ` <span class="badge baseline-${escapeHtml(finding.baselineStatus)}">${escapeHtml(
+        finding.baselineStatus,
+      )}</span>`
+    : "";
+  const occurrences = finding.occurrences
+    ? `<br/><span class="muted">${finding.occurrences.length} occurrences: ${finding.occurrences
+        .map((occurrence) => escapeHtml(occurrence.nodeId))
+        .join(", ")}</span>`
+    : "";
+  const modes = finding.modes
+    ? `<br/><span class="muted">Modes: ${finding.modes.map(escapeHtml).join(", ")}</span>`
+    : "";
+
+  // Links the row to its numbered box on the annotated screenshot.
+  const marker = finding.screenshotMarker
+    ? `<a class="badge marker ${statusClass}" href="#${escapeHtml(
+        screenshotAnchor,
+      )}" title="Box ${finding.screenshotMarker} on the annotated screenshot">${
+        finding.screenshotMarker
+      }</a> `
+    : "";
 
   return `<tr>
     <td><span class="badge ${severityClass}">${escapeHtml(finding.severity)}</span></td>
-    <td><span class="badge ${statusClass}">${escapeHtml(finding.status)}</span> ${suppressed}</td>
+    <td><span class="badge ${statusClass}">${escapeHtml(finding.status)}</span> ${suppressed}${baseline}</td>
     <td>${escapeHtml(finding.ruleId)}</td>
     <td>${escapeHtml(finding.wcagCriterion)}</td>
-    <td>${escapeHtml(finding.targetRef.layerPath ?? finding.targetRef.frameName)}</td>
-    <td>${escapeHtml(finding.message)}</td>
+    <td>${marker}${escapeHtml(finding.targetRef.layerPath ?? finding.targetRef.frameName)}${occurrences}</td>
+    <td>${escapeHtml(finding.message)}${modes}</td>
     <td>${escapeHtml(finding.recommendation ?? "-")}</td>
     <td>${escapeHtml(finding.evidence ?? "-")}</td>
   </tr>`;
@@ -0,0 +1,166 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ruleCategory } from "../core/ruleCatalog.js";
+import { isGatingFinding, type GateOptions } from "../severity/policy.js";
+import type { AuditReport, Finding, Severity, TargetResult } from "../core/types.js";
+
+export async function writeJunitReport(
+  outDir: string,
+  report: AuditReport,
+  failOn: Severity[],
+  gateOptions: GateOptions = {},
+): Promise<string> {
+  await mkdir(outDir, { recursive: true });
+
+  const outputPath = join(outDir, "audit-report.junit.xml");
+  await writeFile(outputPath, renderJunitXml(report, failOn, gateOptions), "utf8");
+  return outputPath;
+}
+
+export function renderJunitXml(
+  report: AuditReport,
+  failOn: Severity[],
+  gateOptions: GateOptions = {},
+): string {
+  const suites = report.targets.map((target) =>
+    renderTestSuite(report, target, failOn, gateOptions),
+  );
+  const totals = report.targets.reduce(
+    (acc, target) => {
+      const counts = countTestCases(target, failOn, gateOptions);
+      acc.tests += counts.tests;
+      acc.failures += counts.failures;
+      acc.skipped += counts.skipped;
+      return acc;
+    },
+    { tests: 0, failures: 0, skipped: 0 },
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="aa-auditor WCAG ${escapeXml(report.wcagVersion)} ${escapeXml(
+      report.level,
+    )}" tests="${totals.tests}" failures="${totals.failures}" skipped="${totals.skipped}" errors="0" timestamp="${escapeXml(
+      report.startedAt,
+    )}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+function renderTestSuite(
+  report: AuditReport,
+  target: TargetResult,
+  failOn: Severity[],
+  gateOptions: GateOptions,
+): string {
+  const counts = countTestCases(target, failOn, gateOptions);
+  const testCases = target.findings.length
+    ? target.findings.map((finding) => renderTestCase(finding, failOn, gateOptions))
+    : [`    <testcase classname="aa-auditor.audit" name="${escapeXml(target.frameName)}" />`];
+  const systemErr = target.warnings.length
+    ? [`    <system-err>${escapeXml(target.warnings.join("\n"))}</system-err>`]
+    : [];
+
+  return [
+    `  <testsuite name="${escapeXml(`${target.frameName} (${target.nodeId})`)}" tests="${
+      counts.tests
+    }" failures="${counts.failures}" skipped="${counts.skipped}" errors="0" timestamp="${escapeXml(
+      report.startedAt,
+    )}">`,
+    "    <properties>",
+    `      <property name="figmaUrl" value="${escapeXml(target.figmaUrl)}" />`,
+    `      <property name="nodeId" value="${escapeXml(target.nodeId)}" />`,
+    "    </properties>",
+    ...testCases,
+    ...systemErr,
+    "  </testsuite>",
+  ].join("\n");
+}
+
+function renderTestCase(
+  finding: Finding,
+  failOn: Severity[],
+  gateOptions: GateOptions,
+): string {
+  const name = `${finding.targetRef.nodeId} ${
+    finding.targetRef.layerPath ?? finding.targetRef.frameName
+  }`;
+  const open = `    <testcase classname="${escapeXml(finding.ruleId)}" name="${escapeXml(name)}">`;
+  const details = [
+    finding.message,
+    finding.evidence ? `Evidence: ${finding.evidence}` : undefined,
+    finding.recommendation ? `Recommendation: ${finding.recommendation}` : undefined,
+    `Severity: ${finding.severity}`,
+    ruleCategory(finding.ruleId) === "best-practice"
+      ? "Category: best-practice"
+      : `WCAG: ${finding.wcagCriterion}`,
+    finding.baselineStatus ? `Baseline: ${finding.baselineStatus}` : undefined,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  if (finding.suppressed) {
+    return [
+      open,
+      `      <skipped message="${escapeXml(
+        `Suppressed until ${finding.suppressed.expiresOn}: ${finding.suppressed.reason}`,
+      )}" />`,
+      `      <system-out>${escapeXml(details)}</system-out>`,
+      "    </testcase>",
+    ].join("\n");
+  }
+
+  if (finding.status === "needs-manual-review") {
+    return [
+      open,
+      `      <skipped message="${escapeXml(finding.evidence ?? finding.message)}" />`,
+      `      <system-out>${escapeXml(details)}</system-out>`,
+      "    </testcase>",
+    ].join("\n");
+  }
+
+  if (isGatingFinding(finding, failOn, gateOptions)) {
+    return [
+      open,
+      `      <failure message="${escapeXml(finding.message)}" type="${escapeXml(
+        finding.severity,
+      )}">${escapeXml(details)}</failure>`,
+      "    </testcase>",
+    ].join("\n");
+  }
+
+  // Failed findings outside the gate (below failOn, or existing in the baseline when only
+  // new findings gate) are reported but do not fail the suite.
+  return [
+    open,
+    `      <system-out>${escapeXml(details)}</system-out>`,
+    "    </testcase>",
+  ].join("\n");
+}
+
+function countTestCases(
+  target: TargetResult,
+  failOn: Severity[],
+  gateOptions: GateOptions,
+): { tests: number; failures: number; skipped: number } {
+  return {
+    tests: Math.max(1, target.findings.length),
+    failures: target.findings.filter((finding) =>
+      isGatingFinding(finding, failOn, gateOptions),
+    ).length,
+    skipped: target.findings.filter(
+      (finding) => Boolean(finding.suppressed) || finding.status === "needs-manual-review",
+    ).length,
+  };
+}
+
+function escapeXml(input: string): string {
+  return input
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
@@ -0,0 +1,224 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RULE_CATALOG, ruleCategory } from "../core/ruleCatalog.js";
+import type { AuditReport, Finding, Severity } from "../core/types.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+type SarifLevel = "error" | "warning" | "note" | "none";
+
+interface SarifLogicalLocation {
+  name: string;
+  fullyQualifiedName: string;
+  kind: "element";
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[]; severity: Severity };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex?: number;
+  kind: "fail" | "pass" | "review";
+  level: SarifLevel;
+  baselineState?: string;
+  message: { text: string };
+  locations: Array<{ logicalLocations: SarifLogicalLocation[] }>;
+  relatedLocations?: Array<{ id: number; logicalLocations: SarifLogicalLocation[] }>;
+  partialFingerprints: Record<string, string>;
+  suppressions?: Array<{
+    kind: "external";
+    status: "accepted";
+    justification: string;
+    properties: { expiresOn: string; owner?: string; matchedAt: string };
+  }>;
+  properties: Record<string, unknown> & { tags: string[] };
+}
+
+// The subset of SARIF 2.1.0 this tool writes.
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    automationDetails: { id: string };
+    invocations: Array<{
+      executionSuccessful: boolean;
+      startTimeUtc: string;
+      endTimeUtc: string;
+    }>;
+    properties: Record<string, unknown>;
+    results: SarifResult[];
+  }>;
+}
+
+export async function writeSarifReport(
+  outDir: string,
+  report: AuditReport,
+): Promise<string> {
+  await mkdir(outDir, { recursive: true });
+
+  const outputPath = join(outDir, "audit-report.sarif");
+  await writeFile(outputPath, JSON.stringify(buildSarifLog(report), null, 2), "utf8");
+  return outputPath;
+}
+
+export function buildSarifLog(report: AuditReport): SarifLog {
+  const ruleIndexById = new Map(RULE_CATALOG.map((rule, index) => [rule.id, index]));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "aa-auditor",
+            informationUri: "https://www.w3.org/TR/WCAG22/",
+            rules: RULE_CATALOG.map((rule) => ({
+              id: rule.id,
+              name: rule.title.replace(/[^a-zA-Z0-9]+/g, ""),
+              shortDescription: { text: rule.title },
+              fullDescription: { text: rule.description },
+              defaultConfiguration: { level: levelForSeverity(rule.defaultSeverity) },
+              properties: {
+                tags: [
+                  "accessibility",
+                  rule.category === "best-practice" ? "best-practice" : `WCAG-${rule.wcagCriterion}`,
+                ],
+                severity: rule.defaultSeverity,
+              },
+            })),
+          },
+        },
+        automationDetails: { id: report.runId },
+        invocations: [
+          {
+            executionSuccessful: true,
+            startTimeUtc: report.startedAt,
+            endTimeUtc: report.finishedAt,
+          },
+        ],
+        properties: {
+          wcagVersion: report.wcagVersion,
+          level: report.level,
+        },
+        results: report.findings.map((finding) =>
+          buildSarifResult(finding, ruleIndexById.get(finding.ruleId)),
+        ),
+      },
+    ],
+  };
+}
+
+function buildSarifResult(
+  finding: Finding,
+  ruleIndex: number | undefined,
+): SarifResult {
+  const layerPath = finding.targetRef.layerPath ?? finding.targetRef.frameName;
+  const layerName = layerPath.split(" > ").pop() ?? layerPath;
+  const failed = finding.status === "failed";
+
+  return {
+    ruleId: finding.ruleId,
+    ruleIndex,
+    kind: failed ? "fail" : finding.status === "exempt" ? "pass" : "review",
+    level: failed ? levelForSeverity(finding.severity) : "none",
+    baselineState: baselineStateFor(finding),
+    message: { text: finding.message },
+    locations: [
+      {
+        logicalLocations: [
+          {
+            name: layerName,
+            fullyQualifiedName: layerPath,
+            kind: "element",
+          },
+        ],
+      },
+    ],
+    relatedLocations: finding.occurrences
+      ?.filter((occurrence) => occurrence.id !== finding.id)
+      .map((occurrence, index) => ({
+        id: index + 1,
+        logicalLocations: [
+          {
+            name: occurrence.nodeId,
+            fullyQualifiedName: occurrence.layerPath ?? occurrence.nodeId,
+            kind: "element",
+          },
+        ],
+      })),
+    partialFingerprints: {
+      "aaAuditorFindingId/v1": finding.id,
+    },
+    suppressions: finding.suppressed
+      ? [
+          {
+            kind: "external",
+            status: "accepted",
+            justification: finding.suppressed.reason,
+            properties: {
+              expiresOn: finding.suppressed.expiresOn,
+              owner: finding.suppressed.owner,
+              matchedAt: finding.suppressed.matchedAt,
+            },
+          },
+        ]
+      : undefined,
+    properties: {
+      tags: [
+        ruleCategory(finding.ruleId) === "best-practice"
+          ? "best-practice"
+          : `WCAG-${finding.wcagCriterion}`,
+      ],
+      severity: finding.severity,
+      status: finding.status,
+      recommendation: finding.recommendation,
+      evidence: finding.evidence,
+      figmaUrl: finding.targetRef.figmaUrl,
+      nodeId: finding.targetRef.nodeId,
+      frameName: finding.targetRef.frameName,
+      componentId: finding.componentId,
+      occurrences: finding.occurrences?.length,
+      modes: finding.modes,
+    },
+  };
+}
+
+function baselineStateFor(finding: Finding): string | undefined {
+  switch (finding.baselineStatus) {
+    case "new":
+      return "new";
+    case "existing":
+      return "unchanged";
+    case "fixed":
+      return "absent";
+    default:
+      return undefined;
+  }
+}
+
+function levelForSeverity(severity: Severity): SarifLevel {
+  switch (severity) {
+    case "blocker":
+    case "critical":
+      return "error";
+    case "major":
+      return "warning";
+    case "minor":
+      return "note";
+  }
+}
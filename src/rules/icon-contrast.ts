@@ -0,0 +1,175 @@
+import { colorToString, contrastRatio } from "../core/color.js";
+import { stableId } from "../core/id.js";
+import type {
+  Finding,
+  NormalizedColor,
+  NormalizedNode,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import {
+  descendantNodes,
+  findInteractiveAncestor,
+  isVectorNode,
+  layerPathForNode,
+  likelyTextNodes,
+  resolveEffectiveBackground,
+  worstCaseBackground,
+} from "../normalize/query.js";
+import {
+  recommendDesignSystemColorsForContrast,
+  recommendTokensForManualColorReview,
+} from "./recommend-color.js";
+import { rootCauseFor } from "./root-cause.js";
+
+const DECORATIVE_NAME_PATTERN = /decorative|decoration|ornament/i;
+
+interface IconColors {
+  glyph: NormalizedColor;
+  background: NormalizedColor;
+  evidence: Array<string | undefined>;
+}
+
+// Icons are graphical objects for 1.4.11: the glyph must reach 3:1 against what surrounds the
+// icon. Pixels are preferred because vector fills miss masks, opacity and overlapping shapes.
+export function evaluateIconContrast(
+  ctx: RuleEvaluationContext,
+  ruleId: string,
+  icons: NormalizedNode[],
+): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const icon of icons) {
+    if (!isMeaningfulIcon(ctx, icon)) {
+      continue;
+    }
+
+    const layerPath = layerPathForNode(ctx.target, icon);
+    const colors = sampledIconColors(ctx, icon) ?? designIconColors(ctx, icon);
+
+    if (!colors) {
+      findings.push({
+        id: stableId([ruleId, ctx.target.nodeId, icon.id, "icon", "manual"]),
+        ruleId,
+        wcagCriterion: "1.4.11",
+        severity: "major",
+        status: "needs-manual-review",
+        message:
+          "Could not reliably determine icon glyph/background colors (no screenshot pixels or solid vector fill).",
+        recommendation: recommendTokensForManualColorReview(ctx.designSystemColors),
+        evidence: `Node ${icon.id} (${icon.name})`,
+        targetRef: {
+          figmaUrl: ctx.target.figmaUrl,
+          nodeId: icon.id,
+          frameName: ctx.target.frameName,
+          layerPath,
+        },
+      });
+      continue;
+    }
+
+    const ratio = contrastRatio(colors.glyph, colors.background);
+    if (ratio >= 3) {
+      continue;
+    }
+
+    findings.push({
+      id: stableId([ruleId, ctx.target.nodeId, icon.id, "icon", ratio.toFixed(3)]),
+      ruleId,
+      wcagCriterion: "1.4.11",
+      severity: "major",
+      status: "failed",
+      message: `Icon contrast ratio ${ratio.toFixed(2)}:1 is below required 3.0:1.`,
+      recommendation: recommendDesignSystemColorsForContrast(
+        ctx.designSystemColors,
+        colors.glyph,
+        colors.background,
+        3,
+      ),
+      evidence: [
+        `Node ${icon.id} (${icon.name})`,
+        `glyphColor=${colorToString(colors.glyph)}`,
+        `background=${colorToString(colors.background)}`,
+        ...colors.evidence,
+      ]
+        .filter(Boolean)
+        .join(" | "),
+      ...rootCauseFor(ctx, icon, [
+        ruleId,
+        "icon",
+        colorToString(colors.glyph),
+        colorToString(colors.background),
+      ]),
+      targetRef: {
+        figmaUrl: ctx.target.figmaUrl,
+        nodeId: icon.id,
+        frameName: ctx.target.frameName,
+        layerPath,
+      },
+    });
+  }
+
+  return findings;
+}
+
+// An icon inside a control that also has a visible text label only repeats the label. Icons
+// that merely sit near text, such as status icons beside helper text, still carry meaning.
+function isMeaningfulIcon(ctx: RuleEvaluationContext, icon: NormalizedNode): boolean {
+  if (DECORATIVE_NAME_PATTERN.test(icon.name)) {
+    return false;
+  }
+  const control = findInteractiveAncestor(ctx.target, icon);
+  if (!control) {
+    return true;
+  }
+  const textNodeIds = new Set(likelyTextNodes(ctx.target).map((node) => node.id));
+  return !descendantNodes(ctx.target, control.id).some(
+    (node) => textNodeIds.has(node.id) && Boolean(node.text?.trim()),
+  );
+}
+
+function sampledIconColors(
+  ctx: RuleEvaluationContext,
+  icon: NormalizedNode,
+): IconColors | undefined {
+  const sample = ctx.sampleGlyphColors?.(icon);
+  if (!sample) {
+    return undefined;
+  }
+  return {
+    glyph: sample.foreground,
+    background: sample.background,
+    evidence: [
+      "foregroundSource=[screenshot-glyph]",
+      "backgroundSource=[screenshot-surroundings]",
+      `glyphPixels=${sample.glyphPixels}/${sample.totalPixels}`,
+    ],
+  };
+}
+
+// Without pixels, the first solid paint on the icon's vector layers stands in for the glyph.
+function designIconColors(
+  ctx: RuleEvaluationContext,
+  icon: NormalizedNode,
+): IconColors | undefined {
+  const vectors = [icon, ...descendantNodes(ctx.target, icon.id)].filter(isVectorNode);
+  for (const vector of vectors) {
+    const glyph = [...vector.fills, ...vector.strokes].find((color) => color.a > 0.001);
+    if (!glyph) {
+      continue;
+    }
+    const resolution = resolveEffectiveBackground(ctx.target, icon, glyph);
+    const background = worstCaseBackground(resolution, glyph);
+    if (!background) {
+      return undefined;
+    }
+    return {
+      glyph: background.foreground ?? glyph,
+      background: background.color,
+      evidence: [
+        `foregroundSource=${layerPathForNode(ctx.target, vector)}`,
+        resolution.sourceLayerPath ? `backgroundSource=${resolution.sourceLayerPath}` : undefined,
+      ],
+    };
+  }
+  return undefined;
+}
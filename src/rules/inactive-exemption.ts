@@ -0,0 +1,36 @@
+import { stableId } from "../core/id.js";
+import type { Finding, RuleEvaluationContext } from "../core/types.js";
+import { findDisabledComponent, nodeMap } from "../normalize/query.js";
+
+// WCAG 1.4.3, 1.4.11, and 2.5.8 do not apply to inactive (disabled) components, so their
+// failures and manual-review items become informational exemptions.
+export function exemptInactiveFindings(
+  ctx: RuleEvaluationContext,
+  findings: Finding[],
+): Finding[] {
+  const byId = nodeMap(ctx.target);
+
+  return findings.map((finding) => {
+    const node = byId.get(finding.targetRef.nodeId);
+    const inactive = node ? findDisabledComponent(ctx.target, node) : undefined;
+    if (!inactive || finding.status === "exempt") {
+      return finding;
+    }
+
+    return {
+      ...finding,
+      id: stableId([finding.id, "inactive-component"]),
+      severity: "minor",
+      status: "exempt",
+      exemptReason: "inactive-component",
+      message: `Exempt: inactive component. ${finding.message}`,
+      recommendation: undefined,
+      evidence: [
+        finding.evidence,
+        `inactiveComponent=${inactive.id} (${inactive.name}) via ${inactive.disabledReason}`,
+      ]
+        .filter(Boolean)
+        .join(" | "),
+    };
+  });
+}
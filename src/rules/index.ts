@@ -1,12 +1,24 @@
 import type { Finding, RuleDefinition, RuleEvaluationContext } from "../core/types.js";
+import { focusIndicatorRule } from "./rule-focus-indicator.js";
+import { hardcodedColorRule } from "./rule-hardcoded-color.js";
 import { nonTextContrastRule } from "./rule-nontext-contrast.js";
 import { targetSizeRule } from "./rule-target-size.js";
 import { textContrastRule } from "./rule-contrast-text.js";
+import { enhancedContrastRule } from "./rule-contrast-enhanced.js";
+import { textSpacingRule } from "./rule-text-spacing.js";
+import { readabilityRule } from "./rule-readability.js";
+import { useOfColorRule } from "./rule-use-of-color.js";
 
 export const RULES: RuleDefinition[] = [
   textContrastRule,
+  enhancedContrastRule,
   nonTextContrastRule,
   targetSizeRule,
+  focusIndicatorRule,
+  textSpacingRule,
+  useOfColorRule,
+  readabilityRule,
+  hardcodedColorRule,
 ];
 
 export function executeRules(
@@ -122,6 +122,23 @@ export function recommendTokensForManualColorReview(
   return `Contrast data unavailable. Start review using design-system variable tokens: ${preview}.`;
 }
 
+export function recommendNearestColorToken(
+  designSystemColors: Record<string, string> | undefined,
+  color: NormalizedColor,
+): string | undefined {
+  if (!designSystemColors) {
+    return undefined;
+  }
+
+  const nearest = parseTokenColors(designSystemColors).sort(
+    (a, b) =>
+      rgbDistance(a.color, color) - rgbDistance(b.color, color) || a.token.localeCompare(b.token),
+  )[0];
+  return nearest
+    ? `Bind the color to the closest design-system token: ${nearest.token} (${nearest.hex}).`
+    : undefined;
+}
+
 function rgbDistance(a: NormalizedColor, b: NormalizedColor): number {
   const dr = a.r - b.r;
   const dg = a.g - b.g;
@@ -0,0 +1,43 @@
+import { stableId } from "../core/id.js";
+import type { Finding, NormalizedNode, RuleEvaluationContext } from "../core/types.js";
+import { findComponentInstance, nodeMap } from "../normalize/query.js";
+
+// Findings on the same layer inside instances of the same main component with the same
+// measured values (colors, size) have one root cause; the runner folds them into one finding.
+export function rootCauseFor(
+  ctx: RuleEvaluationContext,
+  node: NormalizedNode,
+  signature: string[],
+): Pick<Finding, "componentId" | "rootCauseKey"> {
+  const instance = findComponentInstance(ctx.target, node);
+  if (!instance?.componentId) {
+    return {};
+  }
+
+  return {
+    componentId: instance.componentId,
+    rootCauseKey: stableId([
+      instance.componentId,
+      pathWithinInstance(ctx, instance, node),
+      ...signature,
+    ]),
+  };
+}
+
+// Layer names from just below the instance down to the node; empty for the instance itself.
+function pathWithinInstance(
+  ctx: RuleEvaluationContext,
+  instance: NormalizedNode,
+  node: NormalizedNode,
+): string {
+  const byId = nodeMap(ctx.target);
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current: NormalizedNode | undefined = node;
+  while (current && current.id !== instance.id && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.join(" > ");
+}
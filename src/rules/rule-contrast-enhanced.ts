@@ -0,0 +1,23 @@
+import type { RuleDefinition } from "../core/types.js";
+import { AAA_TEXT_CONTRAST, evaluateTextContrast } from "./rule-contrast-text.js";
+
+const RULE_ID = "WCAG-1.4.6-contrast-enhanced";
+
+export const enhancedContrastRule: RuleDefinition = {
+  id: RULE_ID,
+  wcagCriterion: "1.4.6",
+  category: "wcag",
+  level: "AAA",
+  title: "Text contrast enhanced",
+  description:
+    "Text should meet enhanced contrast ratio of 7:1, or 4.5:1 for large/bold text.",
+  defaultSeverity: "critical",
+  modeAware: true,
+  evaluate: (ctx) =>
+    evaluateTextContrast(ctx, {
+      ruleId: RULE_ID,
+      wcagCriterion: "1.4.6",
+      severity: "critical",
+      thresholds: AAA_TEXT_CONTRAST,
+    }),
+};
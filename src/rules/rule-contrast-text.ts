@@ -1,59 +1,112 @@
+import { withOpacity } from "../core/blend.js";
 import { colorToString, contrastRatio, isLargeText } from "../core/color.js";
 import { stableId } from "../core/id.js";
-import type { Finding, RuleDefinition, RuleEvaluationContext } from "../core/types.js";
+import type {
+  Finding,
+  RuleDefinition,
+  RuleEvaluationContext,
+  Severity,
+} from "../core/types.js";
 import {
   firstFill,
+  firstFillToken,
+  inheritedOpacity,
   layerPathForNode,
   likelyTextNodes,
   resolveEffectiveBackground,
+  worstCaseBackground,
 } from "../normalize/query.js";
+import { exemptInactiveFindings } from "./inactive-exemption.js";
 import {
   recommendDesignSystemColorsForContrast,
   recommendTokensForManualColorReview,
 } from "./recommend-color.js";
+import { rootCauseFor } from "./root-cause.js";
+import { tokenEvidence } from "./token-evidence.js";
 
 const RULE_ID = "WCAG-1.4.3-text-contrast-minimum";
 
+export interface TextContrastThresholds {
+  normal: number;
+  large: number;
+}
+
+export const AA_TEXT_CONTRAST: TextContrastThresholds = { normal: 4.5, large: 3 };
+
+export const AAA_TEXT_CONTRAST: TextContrastThresholds = { normal: 7, large: 4.5 };
+
+export interface TextContrastSpec {
+  ruleId: string;
+  wcagCriterion: string;
+  severity: Severity;
+  thresholds: TextContrastThresholds;
+}
+
 export const textContrastRule: RuleDefinition = {
   id: RULE_ID,
   wcagCriterion: "1.4.3",
+  category: "wcag",
+  level: "AA",
   title: "Text contrast minimum",
   description:
     "Text should meet minimum contrast ratio of 4.5:1, or 3:1 for large/bold text.",
   defaultSeverity: "critical",
-  evaluate: (ctx) => evaluateTextContrast(ctx),
+  modeAware: true,
+  evaluate: (ctx) =>
+    evaluateTextContrast(ctx, {
+      ruleId: RULE_ID,
+      wcagCriterion: "1.4.3",
+      severity: "critical",
+      thresholds: AA_TEXT_CONTRAST,
+    }),
 };
 
-function evaluateTextContrast(ctx: RuleEvaluationContext): Finding[] {
+export function evaluateTextContrast(
+  ctx: RuleEvaluationContext,
+  spec: TextContrastSpec,
+): Finding[] {
   const findings: Finding[] = [];
+  // At AAA, fix suggestions aim for the enhanced thresholds so one token swap satisfies
+  // both 1.4.3 and 1.4.6.
+  const recommendationThresholds =
+    ctx.level === "AAA" ? AAA_TEXT_CONTRAST : spec.thresholds;
 
   for (const node of likelyTextNodes(ctx.target)) {
     const directFg = firstFill(node);
-    const bgResolution = resolveEffectiveBackground(ctx.target, node);
+    const bgResolution = resolveEffectiveBackground(ctx.target, node, directFg);
     const usesDocumentFallbackBackground = Boolean(
       bgResolution.sourceLayerPath?.startsWith("[design-context-fallback]"),
     );
+    const resolvedBg = worstCaseBackground(bgResolution, directFg);
     const sampledBg =
       ctx.sampleBackgroundColor &&
-      (!bgResolution.color || usesDocumentFallbackBackground)
+      (!resolvedBg || usesDocumentFallbackBackground)
         ? ctx.sampleBackgroundColor(node, directFg)
         : undefined;
-    const bg = sampledBg ?? bgResolution.color;
     const sampledFg =
-      !directFg && bg && ctx.sampleForegroundColor
-        ? ctx.sampleForegroundColor(node, bg)
+      !directFg && (sampledBg ?? resolvedBg) && ctx.sampleForegroundColor
+        ? ctx.sampleForegroundColor(node, sampledBg ?? resolvedBg!.color)
         : undefined;
     const fg = directFg ?? sampledFg;
+    // Gradient backdrops are judged at the stop that contrasts least with the text.
+    const worstBg = sampledBg ? undefined : worstCaseBackground(bgResolution, fg);
+    const bg = sampledBg ?? worstBg?.color;
+    // Layer opacity, blend modes, and group opacity change what the text actually renders as.
+    const effectiveFg =
+      worstBg?.foreground ??
+      (sampledBg && directFg
+        ? withOpacity(directFg, inheritedOpacity(ctx.target, node))
+        : fg);
     const layerPath = layerPathForNode(ctx.target, node);
 
-    if (!fg || !bg) {
+    if (!fg || !effectiveFg || !bg) {
       const missingPart = !fg
         ? "text foreground color"
         : bgResolution.reason ?? "effective background color";
       findings.push({
-        id: stableId([RULE_ID, ctx.target.nodeId, node.id, "manual"]),
-        ruleId: RULE_ID,
-        wcagCriterion: "1.4.3",
+        id: stableId([spec.ruleId, ctx.target.nodeId, node.id, "manual"]),
+        ruleId: spec.ruleId,
+        wcagCriterion: spec.wcagCriterion,
         severity: "major",
         status: "needs-manual-review",
         message: `Could not reliably determine text/background colors for contrast calculation (${missingPart}).`,
@@ -82,8 +135,9 @@ function evaluateTextContrast(ctx: RuleEvaluationContext): Finding[] {
       continue;
     }
 
-    const ratio = contrastRatio(fg, bg);
-    const threshold = isLargeText(node.fontSize, node.fontWeight) ? 3 : 4.5;
+    const ratio = contrastRatio(effectiveFg, bg);
+    const largeText = isLargeText(node.fontSize, node.fontWeight);
+    const threshold = largeText ? spec.thresholds.large : spec.thresholds.normal;
 
     if (ratio >= threshold) {
       continue;
@@ -91,15 +145,15 @@ function evaluateTextContrast(ctx: RuleEvaluationContext): Finding[] {
 
     findings.push({
       id: stableId([
-        RULE_ID,
+        spec.ruleId,
         ctx.target.nodeId,
         node.id,
         ratio.toFixed(3),
         threshold.toFixed(1),
       ]),
-      ruleId: RULE_ID,
-      wcagCriterion: "1.4.3",
-      severity: "critical",
+      ruleId: spec.ruleId,
+      wcagCriterion: spec.wcagCriterion,
+      severity: spec.severity,
       status: "failed",
       message: `Text contrast ratio ${ratio.toFixed(2)}:1 is below required ${threshold.toFixed(
         1,
@@ -108,12 +162,20 @@ function evaluateTextContrast(ctx: RuleEvaluationContext): Finding[] {
         ctx.designSystemColors,
         fg,
         bg,
-        threshold,
+        largeText ? recommendationThresholds.large : recommendationThresholds.normal,
       ),
       evidence: [
         `Node ${node.id} (${node.name})`,
         `textColor=${colorToString(fg)}`,
+        bgResolution.compositing ? `compositedTextColor=${colorToString(effectiveFg)}` : undefined,
         `backgroundColor=${colorToString(bg)}`,
+        ...tokenEvidence(
+          ctx.target,
+          directFg ? { key: "textToken", token: firstFillToken(node) } : undefined,
+          sampledBg ? undefined : bgResolution.sourceTokens,
+        ),
+        bgResolution.compositing ? `compositing=${bgResolution.compositing.join(", ")}` : undefined,
+        worstBg?.gradientStop ? `worstGradientStop=${worstBg.gradientStop}` : undefined,
         sampledFg ? "foregroundSource=[screenshot-text-region]" : undefined,
         sampledBg
           ? "backgroundSource=[screenshot-von-neumann]"
@@ -123,6 +185,12 @@ function evaluateTextContrast(ctx: RuleEvaluationContext): Finding[] {
       ]
         .filter(Boolean)
         .join(" | "),
+      ...rootCauseFor(ctx, node, [
+        spec.ruleId,
+        colorToString(effectiveFg),
+        colorToString(bg),
+        threshold.toFixed(1),
+      ]),
       targetRef: {
         figmaUrl: ctx.target.figmaUrl,
         nodeId: node.id,
@@ -132,5 +200,5 @@ function evaluateTextContrast(ctx: RuleEvaluationContext): Finding[] {
     });
   }
 
-  return findings;
+  return exemptInactiveFindings(ctx, findings);
 }
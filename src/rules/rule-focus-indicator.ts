@@ -0,0 +1,371 @@
+import { colorToString, contrastRatio } from "../core/color.js";
+import { stableId } from "../core/id.js";
+import type {
+  Finding,
+  NormalizedColor,
+  NormalizedNode,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import {
+  childNodes,
+  descendantNodes,
+  firstFill,
+  firstStroke,
+  layerPathForNode,
+  resolveEffectiveBackground,
+} from "../normalize/query.js";
+
+// WCAG 2.4.13 Focus Appearance: the measurable 2px / 3:1 indicator check. 2.4.7 itself has no
+// size or contrast threshold and stays a manual checklist item.
+const RULE_ID = "WCAG-2.4.13-focus-appearance";
+const CRITERION = "2.4.13";
+
+const STATE_PROPERTY_PATTERN = /^(state|states|interaction|status)$/i;
+// "Focus", "Focused", "Focus-visible"; not "Unfocused" or "Focusable".
+const FOCUS_VALUE_PATTERN = /^focus(ed|[-_ ]?visible)?$/i;
+const DEFAULT_VALUE_PATTERN = /^(default|rest|enabled|normal|idle|base)$/i;
+const INDICATOR_LAYER_PATTERN = /focus|ring|outline/i;
+const MIN_INDICATOR_THICKNESS = 2;
+const MIN_INDICATOR_CONTRAST = 3;
+
+interface IndicatorCandidate {
+  source: string;
+  color: NormalizedColor;
+  thickness: number;
+}
+
+interface IndicatorMeasurement {
+  candidate: IndicatorCandidate;
+  contrasts: Array<{ label: string; ratio: number }>;
+  minContrast: number;
+}
+
+export const focusIndicatorRule: RuleDefinition = {
+  id: RULE_ID,
+  wcagCriterion: CRITERION,
+  category: "wcag",
+  level: "AAA",
+  title: "Focus appearance",
+  description:
+    "Interactive component sets should have a focus variant whose indicator is at least 2px thick with 3:1 contrast against adjacent colors.",
+  defaultSeverity: "major",
+  evaluate: (ctx) => evaluateFocusIndicators(ctx),
+};
+
+function evaluateFocusIndicators(ctx: RuleEvaluationContext): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const componentSet of ctx.target.nodes) {
+    if (componentSet.type.toUpperCase() !== "COMPONENT_SET") {
+      continue;
+    }
+
+    const variants = childNodes(ctx.target, componentSet.id).filter(
+      (node) => node.variantProperties,
+    );
+    if (variants.length === 0) {
+      continue;
+    }
+    if (!componentSet.isInteractive && !variants.some((variant) => variant.isInteractive)) {
+      continue;
+    }
+
+    const stateKey = findStateProperty(variants);
+    const focusVariants = stateKey
+      ? variants.filter((variant) =>
+          FOCUS_VALUE_PATTERN.test(variant.variantProperties?.[stateKey] ?? ""),
+        )
+      : [];
+
+    if (focusVariants.length === 0) {
+      const states = stateKey
+        ? Array.from(
+            new Set(variants.map((variant) => variant.variantProperties?.[stateKey] ?? "")),
+          ).filter(Boolean)
+        : [];
+      findings.push({
+        id: stableId([RULE_ID, ctx.target.nodeId, componentSet.id, "missing-focus"]),
+        ruleId: RULE_ID,
+        wcagCriterion: CRITERION,
+        severity: "major",
+        status: "failed",
+        message: `Interactive component set "${componentSet.name}" has no focus variant.`,
+        recommendation:
+          "Add a State=Focus variant with a visible focus indicator (for example a 2px outline with 3:1 contrast).",
+        evidence: [
+          `Node ${componentSet.id} (${componentSet.name})`,
+          `variants=${variants.length}`,
+          stateKey ? `${stateKey}=${states.join("/")}` : "stateProperty=none",
+        ].join(" | "),
+        targetRef: {
+          figmaUrl: ctx.target.figmaUrl,
+          nodeId: componentSet.id,
+          frameName: ctx.target.frameName,
+          layerPath: layerPathForNode(ctx.target, componentSet),
+        },
+      });
+      continue;
+    }
+
+    const background = resolveEffectiveBackground(ctx.target, componentSet).color;
+
+    for (const focusVariant of focusVariants) {
+      const finding = evaluateFocusVariant(
+        ctx,
+        focusVariant,
+        findDefaultVariant(variants, focusVariant, stateKey!),
+        background,
+      );
+      if (finding) {
+        findings.push(finding);
+      }
+    }
+  }
+
+  return findings;
+}
+
+function evaluateFocusVariant(
+  ctx: RuleEvaluationContext,
+  focusVariant: NormalizedNode,
+  defaultVariant: NormalizedNode | undefined,
+  background: NormalizedColor | undefined,
+): Finding | undefined {
+  const layerPath = layerPathForNode(ctx.target, focusVariant);
+  const targetRef = {
+    figmaUrl: ctx.target.figmaUrl,
+    nodeId: focusVariant.id,
+    frameName: ctx.target.frameName,
+    layerPath,
+  };
+  const comparedWith = defaultVariant
+    ? `default=${defaultVariant.id} (${defaultVariant.name})`
+    : "default=none";
+  const candidates = collectIndicatorCandidates(ctx, focusVariant, defaultVariant);
+
+  if (candidates.length === 0) {
+    return {
+      id: stableId([RULE_ID, ctx.target.nodeId, focusVariant.id, "no-indicator"]),
+      ruleId: RULE_ID,
+      wcagCriterion: CRITERION,
+      severity: "major",
+      status: "failed",
+      message: `Focus variant "${focusVariant.name}" adds no stroke, outline layer, or effect compared with the default variant.`,
+      recommendation:
+        "Add a focus ring (stroke or spread shadow) of at least 2px with 3:1 contrast against adjacent colors.",
+      evidence: [`Node ${focusVariant.id} (${focusVariant.name})`, comparedWith].join(" | "),
+      targetRef,
+    };
+  }
+
+  const adjacent: Array<{ label: string; color: NormalizedColor }> = [];
+  if (background) {
+    adjacent.push({ label: "background", color: background });
+  }
+  const componentFill = firstFill(focusVariant);
+  if (componentFill && componentFill.a > 0.001) {
+    adjacent.push({ label: "componentFill", color: componentFill });
+  }
+
+  if (adjacent.length === 0) {
+    return {
+      id: stableId([RULE_ID, ctx.target.nodeId, focusVariant.id, "manual"]),
+      ruleId: RULE_ID,
+      wcagCriterion: CRITERION,
+      severity: "major",
+      status: "needs-manual-review",
+      message:
+        "Could not determine colors adjacent to the focus indicator for contrast calculation.",
+      evidence: [
+        `Node ${focusVariant.id} (${focusVariant.name})`,
+        comparedWith,
+        ...candidates.map((candidate) => describeCandidate(candidate)),
+      ].join(" | "),
+      targetRef,
+    };
+  }
+
+  const measurements: IndicatorMeasurement[] = candidates.map((candidate) => {
+    const contrasts = adjacent.map((entry) => ({
+      label: entry.label,
+      ratio: contrastRatio(candidate.color, entry.color),
+    }));
+    return {
+      candidate,
+      contrasts,
+      minContrast: Math.min(...contrasts.map((entry) => entry.ratio)),
+    };
+  });
+
+  if (
+    measurements.some(
+      (measurement) =>
+        measurement.candidate.thickness >= MIN_INDICATOR_THICKNESS &&
+        measurement.minContrast >= MIN_INDICATOR_CONTRAST,
+    )
+  ) {
+    return undefined;
+  }
+
+  const best = [...measurements].sort(
+    (a, b) =>
+      b.minContrast - a.minContrast || b.candidate.thickness - a.candidate.thickness,
+  )[0];
+  const problems = [
+    best.candidate.thickness < MIN_INDICATOR_THICKNESS
+      ? `${formatPx(best.candidate.thickness)} thick (needs ${MIN_INDICATOR_THICKNESS}px)`
+      : undefined,
+    best.minContrast < MIN_INDICATOR_CONTRAST
+      ? `${best.minContrast.toFixed(2)}:1 against adjacent colors (needs ${MIN_INDICATOR_CONTRAST.toFixed(1)}:1)`
+      : undefined,
+  ].filter(Boolean);
+
+  return {
+    id: stableId([
+      RULE_ID,
+      ctx.target.nodeId,
+      focusVariant.id,
+      best.minContrast.toFixed(3),
+      best.candidate.thickness.toFixed(1),
+    ]),
+    ruleId: RULE_ID,
+    wcagCriterion: CRITERION,
+    severity: "major",
+    status: "failed",
+    message: `Focus indicator on "${focusVariant.name}" is ${problems.join(" and ")}.`,
+    recommendation:
+      "Use a focus ring of at least 2px whose color reaches 3:1 against both the surrounding background and the component fill.",
+    evidence: [
+      `Node ${focusVariant.id} (${focusVariant.name})`,
+      comparedWith,
+      ...measurements.map((measurement) =>
+        [
+          describeCandidate(measurement.candidate),
+          ...measurement.contrasts.map(
+            (entry) => `${entry.label}=${entry.ratio.toFixed(2)}:1`,
+          ),
+        ].join(", "),
+      ),
+    ].join(" | "),
+    targetRef,
+  };
+}
+
+function collectIndicatorCandidates(
+  ctx: RuleEvaluationContext,
+  focusVariant: NormalizedNode,
+  defaultVariant: NormalizedNode | undefined,
+): IndicatorCandidate[] {
+  const candidates: IndicatorCandidate[] = [];
+
+  const focusStroke = firstStroke(focusVariant);
+  const defaultStroke = defaultVariant ? firstStroke(defaultVariant) : undefined;
+  if (
+    focusStroke &&
+    (!defaultStroke ||
+      !sameColor(focusStroke, defaultStroke) ||
+      (focusVariant.strokeWeight ?? 1) !== (defaultVariant?.strokeWeight ?? 1))
+  ) {
+    candidates.push({
+      source: "stroke",
+      color: focusStroke,
+      thickness: focusVariant.strokeWeight ?? 1,
+    });
+  }
+
+  for (const effect of focusVariant.effects ?? []) {
+    if (!effect.color || !/SHADOW/i.test(effect.type)) {
+      continue;
+    }
+    const inDefault = (defaultVariant?.effects ?? []).some(
+      (other) =>
+        other.type === effect.type &&
+        other.spread === effect.spread &&
+        other.color !== undefined &&
+        sameColor(other.color, effect.color!),
+    );
+    if (inDefault) {
+      continue;
+    }
+    // A blurred shadow only contributes its solid spread to the indicator thickness.
+    candidates.push({
+      source: `effect ${effect.type}`,
+      color: effect.color,
+      thickness: effect.spread,
+    });
+  }
+
+  const defaultLayerNames = new Set(
+    defaultVariant
+      ? descendantNodes(ctx.target, defaultVariant.id).map((node) => node.name)
+      : [],
+  );
+  for (const layer of descendantNodes(ctx.target, focusVariant.id)) {
+    const stroke = firstStroke(layer);
+    if (!stroke) {
+      continue;
+    }
+    if (!INDICATOR_LAYER_PATTERN.test(layer.name) && defaultLayerNames.has(layer.name)) {
+      continue;
+    }
+    candidates.push({
+      source: `layer ${layer.id} (${layer.name})`,
+      color: stroke,
+      thickness: layer.strokeWeight ?? 1,
+    });
+  }
+
+  return candidates;
+}
+
+function findStateProperty(variants: NormalizedNode[]): string | undefined {
+  for (const variant of variants) {
+    const key = Object.keys(variant.variantProperties ?? {}).find((candidate) =>
+      STATE_PROPERTY_PATTERN.test(candidate),
+    );
+    if (key) {
+      return key;
+    }
+  }
+  return undefined;
+}
+
+function findDefaultVariant(
+  variants: NormalizedNode[],
+  focusVariant: NormalizedNode,
+  stateKey: string,
+): NormalizedNode | undefined {
+  const defaults = variants.filter((variant) =>
+    DEFAULT_VALUE_PATTERN.test(variant.variantProperties?.[stateKey] ?? ""),
+  );
+  const groupKey = variantGroupKey(focusVariant, stateKey);
+
+  return (
+    defaults.find((variant) => variantGroupKey(variant, stateKey) === groupKey) ??
+    defaults[0]
+  );
+}
+
+// Variants that differ only by state share the same values for every other property.
+function variantGroupKey(variant: NormalizedNode, stateKey: string): string {
+  return Object.entries(variant.variantProperties ?? {})
+    .filter(([key]) => key !== stateKey)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("|");
+}
+
+function sameColor(a: NormalizedColor, b: NormalizedColor): boolean {
+  return a.r === b.r && a.g === b.g && a.b === b.b && Math.abs(a.a - b.a) < 0.01;
+}
+
+function describeCandidate(candidate: IndicatorCandidate): string {
+  return `${candidate.source}: color=${colorToString(candidate.color)}, thickness=${formatPx(
+    candidate.thickness,
+  )}`;
+}
+
+function formatPx(value: number): string {
+  return `${Number(value.toFixed(2))}px`;
+}
@@ -0,0 +1,97 @@
+import { colorToHex } from "../core/color.js";
+import { stableId } from "../core/id.js";
+import type {
+  Finding,
+  NormalizedColor,
+  NormalizedNode,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import {
+  hasTokenBindings,
+  layerPathForNode,
+  likelyInteractiveNodes,
+  likelyTextNodes,
+} from "../normalize/query.js";
+import { recommendNearestColorToken } from "./recommend-color.js";
+import { rootCauseFor } from "./root-cause.js";
+
+const RULE_ID = "BP-hardcoded-color";
+const CRITERION = "best-practice";
+
+interface RawFill {
+  color: NormalizedColor;
+  index: number;
+}
+
+export const hardcodedColorRule: RuleDefinition = {
+  id: RULE_ID,
+  wcagCriterion: CRITERION,
+  category: "best-practice",
+  level: "AA",
+  title: "Token-bound colors",
+  description:
+    "Text and interactive layers should take their fill colors from design-system tokens instead of raw hex values.",
+  defaultSeverity: "minor",
+  defaultEnabled: false,
+  evaluate: (ctx) => evaluateHardcodedColors(ctx),
+};
+
+// Skipped for targets without any token bindings, like `tokenEvidence`: payloads that carry no
+// binding data cannot tell tokens from raw colors.
+function evaluateHardcodedColors(ctx: RuleEvaluationContext): Finding[] {
+  if (!hasTokenBindings(ctx.target)) {
+    return [];
+  }
+
+  const findings: Finding[] = [];
+  const seen = new Set<string>();
+  const nodes = [...likelyTextNodes(ctx.target), ...likelyInteractiveNodes(ctx.target)];
+
+  for (const node of nodes) {
+    if (seen.has(node.id)) {
+      continue;
+    }
+    seen.add(node.id);
+
+    const rawFills = hardcodedFills(node);
+    if (rawFills.length === 0) {
+      continue;
+    }
+
+    const hexes = rawFills.map((fill) => colorToHex(fill.color));
+    findings.push({
+      id: stableId([RULE_ID, ctx.target.nodeId, node.id, ...hexes]),
+      ruleId: RULE_ID,
+      wcagCriterion: CRITERION,
+      severity: "minor",
+      status: "failed",
+      message:
+        hexes.length === 1
+          ? `Fill ${hexes[0]} is a raw hex color, not a design-system token.`
+          : `Fills ${hexes.join(", ")} are raw hex colors, not design-system tokens.`,
+      recommendation:
+        recommendNearestColorToken(ctx.designSystemColors, rawFills[0].color) ??
+        "Bind the fill to a color variable from the design system.",
+      evidence: [
+        `Node ${node.id} (${node.name})`,
+        ...rawFills.map((fill) => `fill[${fill.index}]=${colorToHex(fill.color)}`),
+      ].join(" | "),
+      ...rootCauseFor(ctx, node, [RULE_ID, ...hexes]),
+      targetRef: {
+        figmaUrl: ctx.target.figmaUrl,
+        nodeId: node.id,
+        frameName: ctx.target.frameName,
+        layerPath: layerPathForNode(ctx.target, node),
+      },
+    });
+  }
+
+  return findings;
+}
+
+function hardcodedFills(node: NormalizedNode): RawFill[] {
+  return node.fills
+    .map((color, index) => ({ color, index }))
+    .filter((fill) => fill.color.a > 0.001 && !node.fillBindings?.[fill.index]);
+}
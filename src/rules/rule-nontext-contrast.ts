@@ -1,41 +1,170 @@
+import { withOpacity } from "../core/blend.js";
 import { colorToString, contrastRatio } from "../core/color.js";
 import { stableId } from "../core/id.js";
-import type { Finding, RuleDefinition, RuleEvaluationContext } from "../core/types.js";
+import type {
+  Finding,
+  NormalizedColor,
+  NormalizedNode,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import type { BackgroundCandidate, BackgroundResolution } from "../normalize/query.js";
 import {
+  descendantNodes,
   firstFill,
+  firstFillToken,
   firstStroke,
+  firstStrokeToken,
+  inheritedOpacity,
   layerPathForNode,
+  likelyIconNodes,
   likelyNonTextContrastNodes,
   resolveEffectiveBackground,
+  worstCaseBackground,
 } from "../normalize/query.js";
+import { evaluateIconContrast } from "./icon-contrast.js";
+import { exemptInactiveFindings } from "./inactive-exemption.js";
 import {
   recommendDesignSystemColorsForContrast,
   recommendTokensForManualColorReview,
 } from "./recommend-color.js";
+import { rootCauseFor } from "./root-cause.js";
+import { tokenEvidence } from "./token-evidence.js";
 
 const RULE_ID = "WCAG-1.4.11-nontext-contrast";
 
 export const nonTextContrastRule: RuleDefinition = {
   id: RULE_ID,
   wcagCriterion: "1.4.11",
+  category: "wcag",
+  level: "AA",
   title: "Non-text contrast",
   description:
     "UI components and visual state indicators should meet 3:1 contrast ratio.",
   defaultSeverity: "major",
-  evaluate: (ctx) => evaluateNonTextContrast(ctx),
+  modeAware: true,
+  evaluate: (ctx) => exemptInactiveFindings(ctx, evaluateNonTextContrast(ctx)),
 };
 
+interface VisualEdge {
+  name: "stroke" | "fill";
+  color: NormalizedColor;
+  token?: string;
+}
+
+interface MeasuredEdge extends VisualEdge {
+  resolution: BackgroundResolution;
+  background: BackgroundCandidate;
+  effectiveColor: NormalizedColor;
+  ratio: number;
+  // Set when the colors were read from the screenshot instead of the design data.
+  sampledBackground?: boolean;
+  sampledForeground?: boolean;
+}
+
+// A component's boundary is visible when its outer stroke or its fill stands out from what
+// surrounds it, so each is measured against the outside background.
+function visualEdges(node: NormalizedNode): VisualEdge[] {
+  const edges: VisualEdge[] = [];
+  const stroke = firstStroke(node);
+  const fill = firstFill(node);
+  if (stroke && stroke.a > 0.001) {
+    edges.push({ name: "stroke", color: stroke, token: firstStrokeToken(node) });
+  }
+  if (fill && fill.a > 0.001) {
+    edges.push({ name: "fill", color: fill, token: firstFillToken(node) });
+  }
+  return edges;
+}
+
+function measureEdge(
+  ctx: RuleEvaluationContext,
+  node: NormalizedNode,
+  edge: VisualEdge,
+): MeasuredEdge | BackgroundResolution {
+  const resolution = resolveEffectiveBackground(ctx.target, node, edge.color);
+  const background = worstCaseBackground(resolution, edge.color);
+  if (!background) {
+    return resolution;
+  }
+  const effectiveColor = background.foreground ?? edge.color;
+  return {
+    ...edge,
+    resolution,
+    background,
+    effectiveColor,
+    ratio: contrastRatio(effectiveColor, background.color),
+  };
+}
+
+// When the design data cannot say what surrounds the component, pixels decide: a ring just
+// outside the bounds gives the background and a band along the inner edge the rendered border.
+function sampleEdges(
+  ctx: RuleEvaluationContext,
+  node: NormalizedNode,
+  edges: VisualEdge[],
+  resolution: BackgroundResolution,
+): MeasuredEdge[] {
+  const background = ctx.sampleBackgroundColor?.(node, undefined, "ring");
+  if (!background) {
+    return [];
+  }
+  const opacity = inheritedOpacity(ctx.target, node);
+
+  return edges.map((edge) => {
+    const band =
+      edge.name === "stroke"
+        ? ctx.sampleForegroundColor?.(node, background, "stroke-band")
+        : undefined;
+    const effectiveColor = band ?? withOpacity(edge.color, opacity);
+    return {
+      ...edge,
+      color: band ?? edge.color,
+      resolution,
+      background: { color: background },
+      effectiveColor,
+      ratio: contrastRatio(effectiveColor, background),
+      sampledBackground: true,
+      sampledForeground: Boolean(band),
+    };
+  });
+}
+
 function evaluateNonTextContrast(ctx: RuleEvaluationContext): Finding[] {
   const findings: Finding[] = [];
+  // Icons and the vector layers inside them are judged as whole glyphs, not by their edges.
+  const icons = likelyIconNodes(ctx.target);
+  const iconLayerIds = new Set(
+    icons
+      .flatMap((icon) => [icon, ...descendantNodes(ctx.target, icon.id)])
+      .map((node) => node.id),
+  );
 
   for (const node of likelyNonTextContrastNodes(ctx.target)) {
-    const fg = firstStroke(node) ?? firstFill(node);
-    const bgResolution = resolveEffectiveBackground(ctx.target, node);
-    const bg = bgResolution.color;
+    if (iconLayerIds.has(node.id)) {
+      continue;
+    }
+    const edges = visualEdges(node);
+    const results = edges.map((edge) => measureEdge(ctx, node, edge));
+    let measured = results.filter((result): result is MeasuredEdge => "ratio" in result);
     const layerPath = layerPathForNode(ctx.target, node);
+    const first = results[0];
+    const bgResolution = first && "ratio" in first ? first.resolution : first;
+
+    // Same trigger as text contrast: no design background, or only the document-level guess.
+    if (
+      bgResolution &&
+      (measured.length === 0 ||
+        bgResolution.sourceLayerPath?.startsWith("[design-context-fallback]"))
+    ) {
+      const sampled = sampleEdges(ctx, node, edges, bgResolution);
+      if (sampled.length > 0) {
+        measured = sampled;
+      }
+    }
 
-    if (!fg || !bg) {
-      const missingPart = !fg
+    if (measured.length === 0) {
+      const missingPart = !bgResolution
         ? "foreground color"
         : bgResolution.reason ?? "effective background color";
       findings.push({
@@ -50,10 +179,10 @@ function evaluateNonTextContrast(ctx: RuleEvaluationContext): Finding[] {
         ),
         evidence: [
           `Node ${node.id} (${node.name})`,
-          bgResolution.sourceLayerPath
+          bgResolution?.sourceLayerPath
             ? `backgroundSource=${bgResolution.sourceLayerPath}`
             : undefined,
-          bgResolution.reason ? `backgroundReason=${bgResolution.reason}` : undefined,
+          bgResolution?.reason ? `backgroundReason=${bgResolution.reason}` : undefined,
         ]
           .filter(Boolean)
           .join(" | "),
@@ -67,19 +196,28 @@ function evaluateNonTextContrast(ctx: RuleEvaluationContext): Finding[] {
       continue;
     }
 
-    const ratio = contrastRatio(fg, bg);
-
-    if (ratio >= 3) {
+    // One edge at 3:1 is enough to see the component; the strongest edge decides.
+    const decisive = measured.reduce((best, edge) => (edge.ratio > best.ratio ? edge : best));
+    if (decisive.ratio >= 3) {
       continue;
     }
 
+    const { background: worstBg, ratio } = decisive;
+    const fg = decisive.color;
+    const sampledBg = decisive.sampledBackground;
+    const designResolution = sampledBg ? undefined : decisive.resolution;
+    const effectiveFg = decisive.effectiveColor;
+    const bg = worstBg.color;
+
     findings.push({
       id: stableId([RULE_ID, ctx.target.nodeId, node.id, ratio.toFixed(3)]),
       ruleId: RULE_ID,
       wcagCriterion: "1.4.11",
       severity: "major",
       status: "failed",
-      message: `Non-text contrast ratio ${ratio.toFixed(2)}:1 is below required 3.0:1.`,
+      message: `Non-text contrast ratio ${ratio.toFixed(2)}:1 is below required 3.0:1${
+        measured.length > 1 ? ` on every edge (best: ${decisive.name})` : ""
+      }.`,
       recommendation: recommendDesignSystemColorsForContrast(
         ctx.designSystemColors,
         fg,
@@ -88,14 +226,34 @@ function evaluateNonTextContrast(ctx: RuleEvaluationContext): Finding[] {
       ),
       evidence: [
         `Node ${node.id} (${node.name})`,
+        `decisiveEdge=${decisive.name}`,
+        measured.length > 1
+          ? `edges=${measured.map((edge) => `${edge.name} ${edge.ratio.toFixed(2)}:1`).join(", ")}`
+          : undefined,
         `foreground=${colorToString(fg)}`,
+        designResolution?.compositing || effectiveFg.a !== fg.a
+          ? `compositedForeground=${colorToString(effectiveFg)}`
+          : undefined,
         `background=${colorToString(bg)}`,
-        bgResolution.sourceLayerPath
-          ? `backgroundSource=${bgResolution.sourceLayerPath}`
+        ...tokenEvidence(
+          ctx.target,
+          { key: "foregroundToken", token: decisive.token },
+          designResolution?.sourceTokens,
+        ),
+        designResolution?.compositing
+          ? `compositing=${designResolution.compositing.join(", ")}`
+          : undefined,
+        worstBg.gradientStop ? `worstGradientStop=${worstBg.gradientStop}` : undefined,
+        decisive.sampledForeground ? "foregroundSource=[screenshot-stroke-band]" : undefined,
+        sampledBg
+          ? "backgroundSource=[screenshot-ring]"
+          : designResolution?.sourceLayerPath
+          ? `backgroundSource=${designResolution.sourceLayerPath}`
           : undefined,
       ]
         .filter(Boolean)
         .join(" | "),
+      ...rootCauseFor(ctx, node, [RULE_ID, colorToString(effectiveFg), colorToString(bg)]),
       targetRef: {
         figmaUrl: ctx.target.figmaUrl,
         nodeId: node.id,
@@ -105,5 +263,5 @@ function evaluateNonTextContrast(ctx: RuleEvaluationContext): Finding[] {
     });
   }
 
-  return findings;
+  return [...findings, ...evaluateIconContrast(ctx, RULE_ID, icons)];
 }
@@ -0,0 +1,123 @@
+import { stableId } from "../core/id.js";
+import type {
+  Finding,
+  NormalizedNode,
+  ReadabilityConfig,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import { layerPathForNode, likelyTextNodes } from "../normalize/query.js";
+
+const RULE_ID = "BP-readability";
+const CRITERION = "best-practice";
+
+export const DEFAULT_READABILITY_CONFIG: ReadabilityConfig = {
+  minFontSize: 12,
+  smallTextSize: 16,
+  minSmallTextWeight: 400,
+  maxAllCapsLength: 30,
+};
+
+export const readabilityRule: RuleDefinition = {
+  id: RULE_ID,
+  wcagCriterion: CRITERION,
+  category: "best-practice",
+  level: "AA",
+  title: "Readable text",
+  description:
+    "Text should meet the configured minimum font size, avoid thin weights at small sizes, and keep all-caps runs short.",
+  defaultSeverity: "minor",
+  evaluate: (ctx) => evaluateReadability(ctx),
+};
+
+function evaluateReadability(ctx: RuleEvaluationContext): Finding[] {
+  const thresholds = ctx.readability ?? DEFAULT_READABILITY_CONFIG;
+  const findings: Finding[] = [];
+
+  for (const node of likelyTextNodes(ctx.target)) {
+    const text = node.text?.trim();
+    if (!text) {
+      continue;
+    }
+
+    const addFinding = (
+      check: string,
+      message: string,
+      recommendation: string,
+      evidence: string[],
+    ): void => {
+      findings.push({
+        id: stableId([RULE_ID, ctx.target.nodeId, node.id, check]),
+        ruleId: RULE_ID,
+        wcagCriterion: CRITERION,
+        severity: "minor",
+        status: "failed",
+        message,
+        recommendation,
+        evidence: [`Node ${node.id} (${node.name})`, ...evidence].join(" | "),
+        targetRef: {
+          figmaUrl: ctx.target.figmaUrl,
+          nodeId: node.id,
+          frameName: ctx.target.frameName,
+          layerPath: layerPathForNode(ctx.target, node),
+        },
+      });
+    };
+
+    if (node.fontSize !== undefined && node.fontSize < thresholds.minFontSize) {
+      addFinding(
+        "font-size",
+        `Text is ${formatPx(node.fontSize)}, below the ${formatPx(thresholds.minFontSize)} minimum font size.`,
+        `Use a text style of at least ${formatPx(thresholds.minFontSize)}.`,
+        [`fontSize=${formatPx(node.fontSize)}`, `minFontSize=${formatPx(thresholds.minFontSize)}`],
+      );
+    }
+
+    if (
+      node.fontSize !== undefined &&
+      node.fontWeight !== undefined &&
+      node.fontSize < thresholds.smallTextSize &&
+      node.fontWeight < thresholds.minSmallTextWeight
+    ) {
+      addFinding(
+        "thin-weight",
+        `Font weight ${node.fontWeight} is too thin for ${formatPx(node.fontSize)} text.`,
+        `Use weight ${thresholds.minSmallTextWeight} or heavier below ${formatPx(
+          thresholds.smallTextSize,
+        )}, or increase the font size.`,
+        [
+          `fontSize=${formatPx(node.fontSize)}`,
+          `fontWeight=${node.fontWeight}`,
+          `minSmallTextWeight=${thresholds.minSmallTextWeight}`,
+        ],
+      );
+    }
+
+    const letters = text.replace(/[^\p{L}]/gu, "").length;
+    if (isAllCaps(node, text) && letters > thresholds.maxAllCapsLength) {
+      addFinding(
+        "all-caps",
+        `All-caps text runs for ${letters} letters (limit ${thresholds.maxAllCapsLength}).`,
+        "Reserve uppercase for short labels; set longer text in sentence case.",
+        [
+          `letters=${letters}`,
+          `textCase=${node.textCase ?? "as-typed"}`,
+          `maxAllCapsLength=${thresholds.maxAllCapsLength}`,
+        ],
+      );
+    }
+  }
+
+  return findings;
+}
+
+function isAllCaps(node: NormalizedNode, text: string): boolean {
+  if (node.textCase?.toUpperCase() === "UPPER") {
+    return true;
+  }
+  return /\p{Lu}/u.test(text) && !/\p{Ll}/u.test(text);
+}
+
+function formatPx(value: number): string {
+  return `${Number(value.toFixed(2))}px`;
+}
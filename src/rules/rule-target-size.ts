@@ -1,22 +1,46 @@
 import { stableId } from "../core/id.js";
-import type { Finding, RuleDefinition, RuleEvaluationContext } from "../core/types.js";
-import { layerPathForNode, likelyInteractiveNodes } from "../normalize/query.js";
+import type {
+  Finding,
+  NormalizedBounds,
+  NormalizedNode,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import {
+  layerPathForNode,
+  likelyInteractiveNodes,
+  nodeMap,
+  resolveLayoutBounds,
+} from "../normalize/query.js";
+import { exemptInactiveFindings } from "./inactive-exemption.js";
+import { rootCauseFor } from "./root-cause.js";
 
 const RULE_ID = "WCAG-2.5.8-target-size-minimum";
+const MIN_TARGET_SIZE = 24;
+const SPACING_CIRCLE_RADIUS = MIN_TARGET_SIZE / 2;
+
+interface SpacingCheck {
+  passes: boolean;
+  evidence: string;
+}
 
 export const targetSizeRule: RuleDefinition = {
   id: RULE_ID,
   wcagCriterion: "2.5.8",
+  category: "wcag",
+  level: "AA",
   title: "Target size minimum",
   description: "Interactive target size should be at least 24x24 px.",
   defaultSeverity: "blocker",
-  evaluate: (ctx) => evaluateTargetSize(ctx),
+  evaluate: (ctx) => exemptInactiveFindings(ctx, evaluateTargetSize(ctx)),
 };
 
 function evaluateTargetSize(ctx: RuleEvaluationContext): Finding[] {
   const findings: Finding[] = [];
+  const interactiveNodes = likelyInteractiveNodes(ctx.target);
+  const layoutBounds = resolveLayoutBounds(ctx.target);
 
-  for (const node of likelyInteractiveNodes(ctx.target)) {
+  for (const node of interactiveNodes) {
     const layerPath = layerPathForNode(ctx.target, node);
 
     if (!node.bounds) {
@@ -38,7 +62,36 @@ function evaluateTargetSize(ctx: RuleEvaluationContext): Finding[] {
       continue;
     }
 
-    if (node.bounds.width >= 24 && node.bounds.height >= 24) {
+    if (isLargeEnough(node.bounds)) {
+      continue;
+    }
+
+    const size = `${node.bounds.width.toFixed(1)}x${node.bounds.height.toFixed(1)}px`;
+    const spacing = checkSpacingException(ctx, node, interactiveNodes, layoutBounds);
+    if (spacing.passes) {
+      findings.push({
+        id: stableId([
+          RULE_ID,
+          ctx.target.nodeId,
+          node.id,
+          node.bounds.width.toFixed(2),
+          node.bounds.height.toFixed(2),
+          "spacing-exception",
+        ]),
+        ruleId: RULE_ID,
+        wcagCriterion: "2.5.8",
+        severity: "minor",
+        status: "exempt",
+        exemptReason: "target-spacing",
+        message: `Interactive target is ${size} but meets the 2.5.8 spacing exception.`,
+        evidence: [`Node ${node.id} (${node.name})`, spacing.evidence].join(" | "),
+        targetRef: {
+          figmaUrl: ctx.target.figmaUrl,
+          nodeId: node.id,
+          frameName: ctx.target.frameName,
+          layerPath,
+        },
+      });
       continue;
     }
 
@@ -54,10 +107,9 @@ function evaluateTargetSize(ctx: RuleEvaluationContext): Finding[] {
       wcagCriterion: "2.5.8",
       severity: "blocker",
       status: "failed",
-      message: `Interactive target is ${node.bounds.width.toFixed(
-        1,
-      )}x${node.bounds.height.toFixed(1)}px; minimum is 24x24px.`,
-      evidence: `Node ${node.id} (${node.name})`,
+      message: `Interactive target is ${size}; minimum is 24x24px.`,
+      evidence: [`Node ${node.id} (${node.name})`, spacing.evidence].join(" | "),
+      ...rootCauseFor(ctx, node, [RULE_ID, size]),
       targetRef: {
         figmaUrl: ctx.target.figmaUrl,
         nodeId: node.id,
@@ -69,3 +121,108 @@ function evaluateTargetSize(ctx: RuleEvaluationContext): Finding[] {
 
   return findings;
 }
+
+function isLargeEnough(bounds: NormalizedBounds): boolean {
+  return bounds.width >= MIN_TARGET_SIZE && bounds.height >= MIN_TARGET_SIZE;
+}
+
+// 2.5.8 spacing exception: a 24px-diameter circle centred on the undersized target must not
+// intersect any other target, nor the 24px circle of another undersized target.
+function checkSpacingException(
+  ctx: RuleEvaluationContext,
+  node: NormalizedNode,
+  interactiveNodes: NormalizedNode[],
+  layoutBounds: Map<string, NormalizedBounds>,
+): SpacingCheck {
+  const bounds = layoutBounds.get(node.id);
+  if (!bounds) {
+    return { passes: false, evidence: "spacingException=unavailable (no layout bounds)" };
+  }
+
+  const map = nodeMap(ctx.target);
+  const center = centerOf(bounds);
+  let nearest: { node: NormalizedNode; distance: number } | undefined;
+  let conflict: { node: NormalizedNode; reason: string } | undefined;
+
+  for (const other of interactiveNodes) {
+    if (other.id === node.id || isAncestor(map, other, node) || isAncestor(map, node, other)) {
+      continue;
+    }
+    const otherBounds = layoutBounds.get(other.id);
+    if (!otherBounds) {
+      continue;
+    }
+
+    const distanceToTarget = distanceToRect(center, otherBounds);
+    if (!nearest || distanceToTarget < nearest.distance) {
+      nearest = { node: other, distance: distanceToTarget };
+    }
+
+    if (conflict) {
+      continue;
+    }
+    if (distanceToTarget < SPACING_CIRCLE_RADIUS) {
+      conflict = {
+        node: other,
+        reason: `24px circle overlaps target ${other.id} (${other.name}) at ${distanceToTarget.toFixed(
+          1,
+        )}px from centre`,
+      };
+      continue;
+    }
+    if (!isLargeEnough(otherBounds)) {
+      const otherCenter = centerOf(otherBounds);
+      const centerDistance = Math.hypot(center.x - otherCenter.x, center.y - otherCenter.y);
+      if (centerDistance < SPACING_CIRCLE_RADIUS * 2) {
+        conflict = {
+          node: other,
+          reason: `24px circle overlaps the circle of undersized target ${other.id} (${
+            other.name
+          }); centres are ${centerDistance.toFixed(1)}px apart`,
+        };
+      }
+    }
+  }
+
+  if (conflict) {
+    return { passes: false, evidence: `spacingException=failed: ${conflict.reason}` };
+  }
+
+  return {
+    passes: true,
+    evidence: nearest
+      ? `spacingException=24px circle centred at (${center.x.toFixed(1)}, ${center.y.toFixed(
+          1,
+        )}) clears all other targets; nearest ${nearest.node.id} (${
+          nearest.node.name
+        }) is ${nearest.distance.toFixed(1)}px from centre`
+      : "spacingException=no other interactive targets in this frame",
+  };
+}
+
+function centerOf(bounds: NormalizedBounds): { x: number; y: number } {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+function distanceToRect(point: { x: number; y: number }, rect: NormalizedBounds): number {
+  const dx = Math.max(rect.x - point.x, 0, point.x - (rect.x + rect.width));
+  const dy = Math.max(rect.y - point.y, 0, point.y - (rect.y + rect.height));
+  return Math.hypot(dx, dy);
+}
+
+function isAncestor(
+  map: Map<string, NormalizedNode>,
+  candidate: NormalizedNode,
+  node: NormalizedNode,
+): boolean {
+  const seen = new Set<string>();
+  let current = node.parentId ? map.get(node.parentId) : undefined;
+  while (current && !seen.has(current.id)) {
+    if (current.id === candidate.id) {
+      return true;
+    }
+    seen.add(current.id);
+    current = current.parentId ? map.get(current.parentId) : undefined;
+  }
+  return false;
+}
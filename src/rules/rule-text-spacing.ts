@@ -0,0 +1,256 @@
+import { isLargeText } from "../core/color.js";
+import { stableId } from "../core/id.js";
+import type {
+  Finding,
+  NormalizedBounds,
+  NormalizedNode,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import {
+  layerPathForNode,
+  likelyTextNodes,
+  nodeMap,
+  resolveLayoutBounds,
+} from "../normalize/query.js";
+
+const RULE_ID = "WCAG-1.4.12-text-spacing";
+
+// WCAG 1.4.12 user overrides, as multiples of the font size.
+const OVERRIDE_LINE_HEIGHT = 1.5;
+const OVERRIDE_PARAGRAPH_SPACING = 2;
+const OVERRIDE_LETTER_SPACING = 0.12;
+const OVERRIDE_WORD_SPACING = 0.16;
+
+// Average glyph advance for proportional UI fonts; only used to estimate wrapping.
+const AVERAGE_GLYPH_WIDTH_EM = 0.5;
+const DEFAULT_LINE_HEIGHT_EM = 1.2;
+const BODY_TEXT_MIN_CHARACTERS = 40;
+const CLIP_TOLERANCE_PX = 1;
+
+// Fixed-size text with resize mode NONE overflows its box; only TRUNCATE cuts text off.
+const CLIPPING_TEXT_RESIZE_MODES = new Set(["TRUNCATE"]);
+
+interface SpacingEstimate {
+  available: number;
+  availableSource: string;
+  required: number;
+  lines: number;
+  paragraphs: number;
+}
+
+export const textSpacingRule: RuleDefinition = {
+  id: RULE_ID,
+  wcagCriterion: "1.4.12",
+  category: "wcag",
+  level: "AA",
+  title: "Text spacing",
+  description:
+    "Body text should use a line height of at least 1.5x its font size, and fixed-height text containers should leave room for WCAG 1.4.12 spacing overrides.",
+  defaultSeverity: "major",
+  evaluate: (ctx) => evaluateTextSpacing(ctx),
+};
+
+function evaluateTextSpacing(ctx: RuleEvaluationContext): Finding[] {
+  const findings: Finding[] = [];
+  const byId = nodeMap(ctx.target);
+  const layoutBounds = resolveLayoutBounds(ctx.target);
+
+  for (const node of likelyTextNodes(ctx.target)) {
+    const text = node.text?.trim();
+    if (!text || !node.fontSize || node.fontSize <= 0) {
+      continue;
+    }
+
+    const targetRef = {
+      figmaUrl: ctx.target.figmaUrl,
+      nodeId: node.id,
+      frameName: ctx.target.frameName,
+      layerPath: layerPathForNode(ctx.target, node),
+    };
+    const bounds = layoutBounds.get(node.id);
+
+    const minimumLineHeight = node.fontSize * OVERRIDE_LINE_HEIGHT;
+    if (
+      node.lineHeightPx !== undefined &&
+      isBodyText(node, text, bounds) &&
+      node.lineHeightPx + 0.01 < minimumLineHeight
+    ) {
+      const ratio = node.lineHeightPx / node.fontSize;
+      findings.push({
+        id: stableId([RULE_ID, ctx.target.nodeId, node.id, "line-height", ratio.toFixed(3)]),
+        ruleId: RULE_ID,
+        wcagCriterion: "1.4.12",
+        severity: "major",
+        status: "failed",
+        message: `Body text line height is ${formatPx(node.lineHeightPx)} (${ratio.toFixed(
+          2,
+        )}x font size); text spacing overrides assume at least ${OVERRIDE_LINE_HEIGHT}x.`,
+        recommendation: `Set line height to at least ${formatPx(minimumLineHeight)} (${OVERRIDE_LINE_HEIGHT}x the ${formatPx(
+          node.fontSize,
+        )} font size).`,
+        evidence: [
+          `Node ${node.id} (${node.name})`,
+          `fontSize=${formatPx(node.fontSize)}`,
+          `lineHeight=${formatPx(node.lineHeightPx)}`,
+          `characters=${text.length}`,
+        ].join(" | "),
+        targetRef,
+      });
+    }
+
+    if (!bounds) {
+      continue;
+    }
+
+    const estimate = estimateOverriddenHeight(node, text, bounds, byId, layoutBounds);
+    if (!estimate || estimate.required <= estimate.available + CLIP_TOLERANCE_PX) {
+      continue;
+    }
+
+    findings.push({
+      id: stableId([
+        RULE_ID,
+        ctx.target.nodeId,
+        node.id,
+        "clipping",
+        estimate.required.toFixed(1),
+        estimate.available.toFixed(1),
+      ]),
+      ruleId: RULE_ID,
+      wcagCriterion: "1.4.12",
+      severity: "major",
+      status: "failed",
+      message: `Text would need about ${formatPx(estimate.required)} of height with text spacing overrides, but its fixed-height container allows ${formatPx(
+        estimate.available,
+      )}.`,
+      recommendation:
+        "Let the text container hug its content (auto height) or reserve enough height for 1.5x line height, 2x paragraph spacing, 0.12em letter spacing, and 0.16em word spacing.",
+      evidence: [
+        `Node ${node.id} (${node.name})`,
+        `constraint=${estimate.availableSource}`,
+        `fontSize=${formatPx(node.fontSize)}`,
+        `width=${formatPx(bounds.width)}`,
+        `estimatedLines=${estimate.lines}`,
+        `paragraphs=${estimate.paragraphs}`,
+        `requiredHeight=${formatPx(estimate.required)}`,
+        `availableHeight=${formatPx(estimate.available)}`,
+      ].join(" | "),
+      targetRef,
+    });
+  }
+
+  return findings;
+}
+
+function isBodyText(
+  node: NormalizedNode,
+  text: string,
+  bounds: NormalizedBounds | undefined,
+): boolean {
+  if (isLargeText(node.fontSize, node.fontWeight)) {
+    return false;
+  }
+  if (text.length >= BODY_TEXT_MIN_CHARACTERS || text.includes("\n")) {
+    return true;
+  }
+  // Short strings still count as body text once they wrap onto several lines.
+  return Boolean(
+    bounds && node.lineHeightPx && bounds.height >= node.lineHeightPx * 1.5,
+  );
+}
+
+function estimateOverriddenHeight(
+  node: NormalizedNode,
+  text: string,
+  bounds: NormalizedBounds,
+  byId: Map<string, NormalizedNode>,
+  layoutBounds: Map<string, NormalizedBounds>,
+): SpacingEstimate | undefined {
+  const constraint = resolveHeightConstraint(node, bounds, byId, layoutBounds);
+  if (!constraint) {
+    return undefined;
+  }
+
+  const fontSize = node.fontSize!;
+  const paragraphs = text.split(/\n+/).filter((paragraph) => paragraph.trim() !== "");
+  const letterSpacing = Math.max(node.letterSpacingPx ?? 0, fontSize * OVERRIDE_LETTER_SPACING);
+  const glyphAdvance = fontSize * AVERAGE_GLYPH_WIDTH_EM + letterSpacing;
+  const wraps = node.textAutoResize?.toUpperCase() !== "WIDTH_AND_HEIGHT" && bounds.width > 0;
+
+  const lines = paragraphs.reduce((total, paragraph) => {
+    if (!wraps) {
+      return total + 1;
+    }
+    const spaces = (paragraph.match(/\s/g) ?? []).length;
+    const width =
+      paragraph.length * glyphAdvance + spaces * fontSize * OVERRIDE_WORD_SPACING;
+    return total + Math.max(1, Math.ceil(width / bounds.width));
+  }, 0);
+
+  const lineHeight = Math.max(
+    node.lineHeightPx ?? fontSize * DEFAULT_LINE_HEIGHT_EM,
+    fontSize * OVERRIDE_LINE_HEIGHT,
+  );
+  const paragraphSpacing = Math.max(
+    node.paragraphSpacingPx ?? 0,
+    fontSize * OVERRIDE_PARAGRAPH_SPACING,
+  );
+
+  return {
+    available: constraint.available,
+    availableSource: constraint.source,
+    required: lines * lineHeight + Math.max(0, paragraphs.length - 1) * paragraphSpacing,
+    lines,
+    paragraphs: paragraphs.length,
+  };
+}
+
+function resolveHeightConstraint(
+  node: NormalizedNode,
+  bounds: NormalizedBounds,
+  byId: Map<string, NormalizedNode>,
+  layoutBounds: Map<string, NormalizedBounds>,
+): { available: number; source: string } | undefined {
+  const candidates: Array<{ available: number; source: string }> = [];
+
+  if (node.textAutoResize && CLIPPING_TEXT_RESIZE_MODES.has(node.textAutoResize.toUpperCase())) {
+    candidates.push({
+      available: bounds.height,
+      source: `text ${node.textAutoResize.toUpperCase()}`,
+    });
+  }
+
+  // Only a clipping ancestor with a fixed height actually cuts off growing text. Figma only
+  // sends layoutSizingVertical for auto layout; frames without it always have a fixed height.
+  const seen = new Set<string>([node.id]);
+  let current = node.parentId ? byId.get(node.parentId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    const ancestorBounds = layoutBounds.get(current.id);
+    if (
+      current.clipsContent === true &&
+      (current.layoutSizingVertical === undefined ||
+        current.layoutSizingVertical.toUpperCase() === "FIXED") &&
+      ancestorBounds
+    ) {
+      candidates.push({
+        available: ancestorBounds.y + ancestorBounds.height - bounds.y,
+        source: `clipping container ${current.id} (${current.name})`,
+      });
+      break;
+    }
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  return candidates.reduce((tightest, candidate) =>
+    candidate.available < tightest.available ? candidate : tightest,
+  );
+}
+
+function formatPx(value: number): string {
+  return `${Number(value.toFixed(2))}px`;
+}
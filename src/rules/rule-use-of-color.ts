@@ -0,0 +1,230 @@
+import { colorToString, contrastRatio } from "../core/color.js";
+import { stableId } from "../core/id.js";
+import type {
+  Finding,
+  NormalizedColor,
+  NormalizedNode,
+  NormalizedTextSegment,
+  RuleDefinition,
+  RuleEvaluationContext,
+} from "../core/types.js";
+import {
+  childNodes,
+  descendantNodes,
+  layerPathForNode,
+  likelyTextNodes,
+  nodeMap,
+} from "../normalize/query.js";
+
+const RULE_ID = "WCAG-1.4.1-use-of-color";
+const MIN_LINK_CONTRAST = 3;
+// Weight steps smaller than this (for example 400 -> 500) are not a reliable visual cue.
+const MIN_WEIGHT_CUE = 200;
+const CHIP_NAME_SEGMENTS = new Set(["status", "chip", "badge", "pill", "tag", "indicator", "dot", "lozenge"]);
+// "Status Bar" is the OS chrome at the top of a mobile frame, not a status indicator.
+const NON_CHIP_NAME_SEGMENTS = new Set(["bar"]);
+
+export const useOfColorRule: RuleDefinition = {
+  id: RULE_ID,
+  wcagCriterion: "1.4.1",
+  category: "wcag",
+  level: "AA",
+  title: "Use of color",
+  description:
+    "Inline links and status indicators should not rely on color alone to convey meaning.",
+  defaultSeverity: "major",
+  evaluate: (ctx) => [...evaluateInlineLinks(ctx), ...evaluateStatusChips(ctx)],
+};
+
+function evaluateInlineLinks(ctx: RuleEvaluationContext): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const node of likelyTextNodes(ctx.target)) {
+    const segments = node.textSegments ?? [];
+    if (segments.length < 2) {
+      continue;
+    }
+
+    const base = [...segments].sort(
+      (a, b) => visibleLength(b.text) - visibleLength(a.text) || a.start - b.start,
+    )[0];
+    const baseColor = base.fills[0];
+    if (!baseColor) {
+      continue;
+    }
+
+    for (const segment of segments) {
+      const segmentColor = segment.fills[0];
+      if (
+        segment === base ||
+        visibleLength(segment.text) === 0 ||
+        !segmentColor ||
+        sameColor(segmentColor, baseColor) ||
+        hasNonColorCue(segment, base)
+      ) {
+        continue;
+      }
+
+      const ratio = contrastRatio(segmentColor, baseColor);
+      const passesContrast = ratio >= MIN_LINK_CONTRAST;
+      const excerpt = quoteExcerpt(segment.text);
+      findings.push({
+        id: stableId([RULE_ID, ctx.target.nodeId, node.id, "inline", String(segment.start)]),
+        ruleId: RULE_ID,
+        wcagCriterion: "1.4.1",
+        severity: "major",
+        status: passesContrast ? "needs-manual-review" : "failed",
+        message: passesContrast
+          ? `Text run ${excerpt} differs from surrounding text only by color (${ratio.toFixed(
+              2,
+            )}:1); confirm it gains a non-color cue such as an underline on hover and focus.`
+          : `Text run ${excerpt} differs from surrounding text only by color, with ${ratio.toFixed(
+              2,
+            )}:1 contrast against it (needs ${MIN_LINK_CONTRAST.toFixed(1)}:1 plus a non-color cue).`,
+        recommendation: passesContrast
+          ? undefined
+          : "Underline the link (or make it bold), or raise its contrast against the surrounding text to at least 3:1 and add an underline on hover and focus.",
+        evidence: [
+          `Node ${node.id} (${node.name})`,
+          `run=${segment.start}-${segment.end}`,
+          `runColor=${colorToString(segmentColor)}`,
+          `surroundingColor=${colorToString(baseColor)}`,
+          `fontWeight=${segment.fontWeight ?? "n/a"}/${base.fontWeight ?? "n/a"}`,
+          `textDecoration=${segment.textDecoration ?? "NONE"}/${base.textDecoration ?? "NONE"}`,
+          ...(segment.hyperlink ? ["hyperlink=true"] : []),
+        ].join(" | "),
+        targetRef: {
+          figmaUrl: ctx.target.figmaUrl,
+          nodeId: node.id,
+          frameName: ctx.target.frameName,
+          layerPath: layerPathForNode(ctx.target, node),
+        },
+      });
+    }
+  }
+
+  return findings;
+}
+
+function evaluateStatusChips(ctx: RuleEvaluationContext): Finding[] {
+  const findings: Finding[] = [];
+  const byId = nodeMap(ctx.target);
+  const parentIds = new Set(
+    ctx.target.nodes
+      .filter((node) => node.parentId && isChipName(node.name))
+      .map((node) => node.parentId!),
+  );
+
+  for (const parentId of parentIds) {
+    const parent = byId.get(parentId);
+    // Variants inside a component set are state definitions, not side-by-side indicators.
+    if (!parent || parent.type.toUpperCase() === "COMPONENT_SET") {
+      continue;
+    }
+
+    const chips = childNodes(ctx.target, parentId).filter(
+      (node) => isChipName(node.name) && node.bounds,
+    );
+    const groups = new Map<string, NormalizedNode[]>();
+    for (const chip of chips) {
+      const signature = chipSignature(ctx, chip);
+      groups.set(signature, [...(groups.get(signature) ?? []), chip]);
+    }
+
+    for (const group of groups.values()) {
+      if (group.length < 2) {
+        continue;
+      }
+      const colorKeys = new Set(group.map((chip) => chipColorKey(ctx, chip)));
+      if (colorKeys.size < 2) {
+        continue;
+      }
+
+      findings.push({
+        id: stableId([
+          RULE_ID,
+          ctx.target.nodeId,
+          parentId,
+          "chips",
+          ...group.map((chip) => chip.id),
+        ]),
+        ruleId: RULE_ID,
+        wcagCriterion: "1.4.1",
+        severity: "major",
+        status: "needs-manual-review",
+        message: `${group.length} sibling indicators in "${parent.name}" differ only by fill color.`,
+        recommendation:
+          "Confirm these layers convey status. If they do, give each status a distinct text label, icon, or shape so it can be identified without color.",
+        evidence: [
+          `Parent ${parent.id} (${parent.name})`,
+          ...group.map((chip) => `${chip.id} (${chip.name}) fills=${chipColorKey(ctx, chip)}`),
+        ].join(" | "),
+        targetRef: {
+          figmaUrl: ctx.target.figmaUrl,
+          nodeId: parent.id,
+          frameName: ctx.target.frameName,
+          layerPath: layerPathForNode(ctx.target, parent),
+        },
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Layer names are matched by whole segments so "Stage", "Tagline" or "Dotted divider" do not count.
+function isChipName(name: string): boolean {
+  const segments = name.toLowerCase().split(/[\/\s_-]+/);
+  return (
+    segments.some((segment) => CHIP_NAME_SEGMENTS.has(segment)) &&
+    !segments.some((segment) => NON_CHIP_NAME_SEGMENTS.has(segment))
+  );
+}
+
+// Everything that can tell two indicators apart except color: size, outline, text, and child layers.
+function chipSignature(ctx: RuleEvaluationContext, chip: NormalizedNode): string {
+  const descendants = descendantNodes(ctx.target, chip.id).map((node) =>
+    [node.type, typeof node.text === "string" ? `"${node.text.trim()}"` : node.name].join(":"),
+  );
+  return [
+    chip.type,
+    Math.round(chip.bounds?.width ?? 0),
+    Math.round(chip.bounds?.height ?? 0),
+    chip.strokes.length > 0 ? `stroke@${chip.strokeWeight ?? 1}` : "no-stroke",
+    ...descendants,
+  ].join("|");
+}
+
+function chipColorKey(ctx: RuleEvaluationContext, chip: NormalizedNode): string {
+  return [chip, ...descendantNodes(ctx.target, chip.id)]
+    .flatMap((node) => [...node.fills, ...node.strokes])
+    .map((color) => colorToString(color))
+    .join(",");
+}
+
+function hasNonColorCue(segment: NormalizedTextSegment, base: NormalizedTextSegment): boolean {
+  if (decorationOf(segment) !== decorationOf(base)) {
+    return true;
+  }
+  if (Boolean(segment.italic) !== Boolean(base.italic)) {
+    return true;
+  }
+  return Math.abs((segment.fontWeight ?? 400) - (base.fontWeight ?? 400)) >= MIN_WEIGHT_CUE;
+}
+
+function decorationOf(segment: NormalizedTextSegment): string {
+  return (segment.textDecoration ?? "NONE").toUpperCase();
+}
+
+function sameColor(a: NormalizedColor, b: NormalizedColor): boolean {
+  return colorToString(a) === colorToString(b);
+}
+
+function visibleLength(text: string): number {
+  return text.replace(/\s/g, "").length;
+}
+
+function quoteExcerpt(text: string): string {
+  const trimmed = text.trim();
+  return `"${trimmed.length > 40 ? `${trimmed.slice(0, 37)}...` : trimmed}"`;
+}
@@ -0,0 +1,27 @@
+import type { NormalizedTarget } from "../core/types.js";
+import { hasTokenBindings } from "../normalize/query.js";
+
+const HARD_CODED = "hard-coded";
+
+// Names the design tokens behind a contrast pair. Skipped for targets without any token
+// bindings, where an unbound color says nothing about how the file was built.
+export function tokenEvidence(
+  target: NormalizedTarget,
+  foreground: { key: string; token?: string } | undefined,
+  backgroundTokens: Array<string | undefined> | undefined,
+): string[] {
+  if (!hasTokenBindings(target)) {
+    return [];
+  }
+
+  const parts: string[] = [];
+  if (foreground) {
+    parts.push(`${foreground.key}=${foreground.token ?? HARD_CODED}`);
+  }
+  if (backgroundTokens && backgroundTokens.length > 0) {
+    parts.push(
+      `backgroundToken=${backgroundTokens.map((token) => token ?? HARD_CODED).join(" <= ")}`,
+    );
+  }
+  return parts;
+}
@@ -1,13 +1,30 @@
 import type { Finding, Severity } from "../core/types.js";
 
-export function shouldFailBuild(findings: Finding[], failOn: Severity[]): boolean {
-  const gate = new Set(failOn);
+export interface GateOptions {
+  newFindingsOnly?: boolean;
+}
+
+export function shouldFailBuild(
+  findings: Finding[],
+  failOn: Severity[],
+  options: GateOptions = {},
+): boolean {
+  return findings.some((finding) => isGatingFinding(finding, failOn, options));
+}
+
+export function isGatingFinding(
+  finding: Finding,
+  failOn: Severity[],
+  options: GateOptions = {},
+): boolean {
+  if (options.newFindingsOnly && finding.baselineStatus === "existing") {
+    return false;
+  }
 
-  return findings.some(
-    (finding) =>
-      finding.status === "failed" &&
-      !finding.suppressed &&
-      gate.has(finding.severity),
+  return (
+    finding.status === "failed" &&
+    !finding.suppressed &&
+    failOn.includes(finding.severity)
   );
 }
 
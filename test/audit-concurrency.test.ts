@@ -0,0 +1,268 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runAudit } from "../src/core/auditRunner.js";
+import type {
+  AuditProgressEvent,
+  FigmaClient,
+  FigmaTargetPayload,
+} from "../src/core/types.js";
+import { DEFAULT_CONFIG } from "../src/config/schema.js";
+import { RemoteFigmaMcpClient } from "../src/figma/mcpClient.js";
+import {
+  DEFAULT_RATE_LIMIT_RETRIES,
+  parseRateLimitRetries,
+  RateLimitBackoff,
+} from "../src/figma/rate-limit.js";
+
+const violatingFixture = JSON.parse(
+  readFileSync(join(process.cwd(), "test/fixtures/design-context-violations.json"), "utf8"),
+) as unknown;
+
+const cleanFixture = JSON.parse(
+  readFileSync(join(process.cwd(), "test/fixtures/design-context-clean.json"), "utf8"),
+) as unknown;
+
+const TARGET_URLS = ["1-2", "3-4", "5-6", "7-8", "9-10"].map(
+  (nodeId) => `https://www.figma.com/file/demo/checkout?node-id=${nodeId}`,
+);
+
+// Earlier targets resolve last, so a parallel run completes in reverse order.
+class DelayedFigmaClient implements FigmaClient {
+  inFlight = 0;
+
+  maxInFlight = 0;
+
+  async fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload> {
+    const index = TARGET_URLS.indexOf(figmaUrl);
+    const nodeId = decodeURIComponent(new URL(figmaUrl).searchParams.get("node-id") ?? "")
+      .replace(/-/g, ":");
+
+    this.inFlight += 1;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise((resolve) => setTimeout(resolve, (TARGET_URLS.length - index) * 5));
+    this.inFlight -= 1;
+
+    if (index === 3) {
+      throw new Error("Synthetic fetch failure");
+    }
+
+    return {
+      figmaUrl,
+      nodeId,
+      frameName: `Frame ${nodeId}`,
+      designContext: index % 2 === 0 ? violatingFixture : cleanFixture,
+      warnings: [`fetched ${nodeId}`],
+    };
+  }
+}
+
+async function runWithConcurrency(concurrency: number, events: AuditProgressEvent[] = []) {
+  const outDir = await mkdtemp(join(tmpdir(), `aa-auditor-concurrency-${concurrency}-`));
+  const client = new DelayedFigmaClient();
+  const result = await runAudit(
+    {
+      targets: TARGET_URLS.map((figmaUrl) => ({ figmaUrl })),
+      outDir,
+      config: DEFAULT_CONFIG,
+      reportFormat: ["json", "html", "sarif", "junit"],
+      failOn: ["blocker", "critical"],
+      concurrency,
+    },
+    {
+      figmaClient: client,
+      now: () => new Date("2026-02-09T12:00:00.000Z"),
+      runIdFactory: () => "run-fixed",
+      onProgress: (event) => events.push(event),
+    },
+  );
+  return { outDir, client, result };
+}
+
+test("concurrent audits write byte-identical reports to a sequential run", async () => {
+  const sequential = await runWithConcurrency(1);
+  const parallel = await runWithConcurrency(3);
+
+  try {
+    assert.equal(sequential.client.maxInFlight, 1);
+    assert.equal(parallel.client.maxInFlight, 3);
+
+    for (const name of [
+      "audit-report.json",
+      "audit-report.html",
+      "audit-report.sarif",
+      "audit-report.junit.xml",
+    ]) {
+      const [a, b] = await Promise.all([
+        readFile(join(sequential.outDir, name), "utf8"),
+        readFile(join(parallel.outDir, name), "utf8"),
+      ]);
+      assert.equal(b, a, `${name} differs between sequential and parallel runs`);
+    }
+    assert.equal(parallel.result.shouldFail, sequential.result.shouldFail);
+  } finally {
+    await rm(sequential.outDir, { recursive: true, force: true });
+    await rm(parallel.outDir, { recursive: true, force: true });
+  }
+});
+
+test("concurrent progress events stay balanced per target", async () => {
+  const events: AuditProgressEvent[] = [];
+  const { outDir } = await runWithConcurrency(4, events);
+
+  try {
+    for (let targetIndex = 1; targetIndex <= TARGET_URLS.length; targetIndex += 1) {
+      const own = events.filter(
+        (event) =>
+          "targetIndex" in event &&
+          event.targetIndex === targetIndex &&
+          !("stage" in event && event.stage === "report"),
+      );
+      assert.equal(own[0].type, "target-start");
+      assert.equal(own[own.length - 1].type, "target-end");
+
+      let open = 0;
+      for (const event of own.slice(1, -1)) {
+        open += event.type === "stage-start" ? 1 : -1;
+        assert.ok(open === 0 || open === 1, `target ${targetIndex} interleaved its own stages`);
+      }
+      assert.equal(open, 0);
+    }
+
+    const firstEnd = events.findIndex((event) => event.type === "target-end");
+    const starts = events.slice(0, firstEnd).filter((event) => event.type === "target-start");
+    assert.equal(starts.length, 4);
+    assert.equal(events[0].type, "run-start");
+    assert.equal(events[events.length - 1].type, "run-end");
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+test("RateLimitBackoff retries rate-limit errors with exponential delays", async () => {
+  const sleeps: number[] = [];
+  let now = 0;
+  const backoff = new RateLimitBackoff({
+    maxRetries: 3,
+    baseDelayMs: 100,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  });
+
+  let attempts = 0;
+  const value = await backoff.run(async () => {
+    attempts += 1;
+    if (attempts < 3) {
+      throw new Error("HTTP 429 from MCP endpoint: Too Many Requests");
+    }
+    return "ok";
+  });
+  assert.equal(value, "ok");
+  assert.deepEqual(sleeps, [100, 200]);
+
+  await assert.rejects(
+    backoff.run(async () => {
+      throw new Error("Rate limit exceeded, please try again tomorrow");
+    }),
+    /gave up after 3 rate-limit retries/,
+  );
+
+  let plainAttempts = 0;
+  await assert.rejects(
+    backoff.run(async () => {
+      plainAttempts += 1;
+      throw new Error("MCP error -32602: Invalid params");
+    }),
+    /Invalid params/,
+  );
+  assert.equal(plainAttempts, 1);
+});
+
+test("rate-limit retries reject non-numeric settings instead of retrying forever", async () => {
+  assert.equal(parseRateLimitRetries(undefined), DEFAULT_RATE_LIMIT_RETRIES);
+  assert.equal(parseRateLimitRetries("0"), 0);
+  for (const raw of ["four", "", "-1", "2.5"]) {
+    assert.throws(
+      () => parseRateLimitRetries(raw),
+      /FIGMA_MCP_RATE_LIMIT_RETRIES must be a non-negative integer/,
+    );
+  }
+
+  let attempts = 0;
+  const backoff = new RateLimitBackoff({
+    maxRetries: Number("four"),
+    baseDelayMs: 1,
+    sleep: async () => {},
+  });
+  await assert.rejects(
+    backoff.run(async () => {
+      attempts += 1;
+      throw new Error("HTTP 429 from MCP endpoint: Too Many Requests");
+    }),
+    new RegExp(`gave up after ${DEFAULT_RATE_LIMIT_RETRIES} rate-limit retries`),
+  );
+  assert.equal(attempts, DEFAULT_RATE_LIMIT_RETRIES + 1);
+});
+
+test("RemoteFigmaMcpClient backs off on HTTP 429 and shares one initialize handshake", async () => {
+  const originalFetch = globalThis.fetch;
+  const sleeps: number[] = [];
+  let initializeCalls = 0;
+  let metadataCalls = 0;
+
+  globalThis.fetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body)) as { id?: number; method: string };
+    if (body.method === "notifications/initialized") {
+      return new Response("");
+    }
+    if (body.method === "initialize") {
+      initializeCalls += 1;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return Response.json({ jsonrpc: "2.0", id: body.id, result: {} });
+    }
+
+    metadataCalls += 1;
+    if (metadataCalls === 1) {
+      return new Response("Too Many Requests", { status: 429 });
+    }
+    return Response.json({
+      jsonrpc: "2.0",
+      id: body.id,
+      result: { content: [{ type: "text", text: '<canvas id="0:1" name="Page" />' }] },
+    });
+  }) as typeof fetch;
+
+  try {
+    const client = new RemoteFigmaMcpClient({
+      endpoint: "https://mcp.figma.test/mcp",
+      token: "token",
+      region: "us-east-1",
+      timeoutMs: 5000,
+      sublayerExpansionLimit: 0,
+      rateLimitBaseDelayMs: 250,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+    });
+
+    const [first, second] = await Promise.all([
+      client.fetchMetadata("https://www.figma.com/design/FILE123/Shop"),
+      client.fetchMetadata("https://www.figma.com/design/FILE123/Shop?node-id=0-1"),
+    ]);
+
+    assert.equal(initializeCalls, 1);
+    assert.equal(first, '<canvas id="0:1" name="Page" />');
+    assert.equal(second, '<canvas id="0:1" name="Page" />');
+    assert.equal(metadataCalls, 3);
+    assert.ok(sleeps.length >= 1);
+    assert.ok(sleeps.every((ms) => ms > 0 && ms <= 250));
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
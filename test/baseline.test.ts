@@ -0,0 +1,212 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { applyBaseline, loadBaselineReport } from "../src/baseline/compare.js";
+import { runAudit } from "../src/core/auditRunner.js";
+import { DEFAULT_CONFIG } from "../src/config/schema.js";
+import { shouldFailBuild } from "../src/severity/policy.js";
+import type {
+  AuditReport,
+  Finding,
+  FigmaClient,
+  FigmaTargetPayload,
+} from "../src/core/types.js";
+
+const FIGMA_URL = "https://www.figma.com/file/demo/checkout?node-id=1-2";
+
+const violatingFixture = JSON.parse(
+  readFileSync(join(process.cwd(), "test/fixtures/design-context-violations.json"), "utf8"),
+) as unknown;
+
+const baseFinding: Finding = {
+  id: "aaaaaaaaaaaa",
+  ruleId: "WCAG-1.4.3-text-contrast-minimum",
+  wcagCriterion: "1.4.3",
+  severity: "critical",
+  status: "failed",
+  message: "Low contrast",
+  targetRef: {
+    figmaUrl: FIGMA_URL,
+    nodeId: "2:1",
+    frameName: "Checkout Form",
+  },
+};
+
+function reportWithFindings(findings: Finding[]): AuditReport {
+  return {
+    runId: "run-baseline",
+    startedAt: "2026-02-01T12:00:00.000Z",
+    finishedAt: "2026-02-01T12:00:01.000Z",
+    wcagVersion: "2.2",
+    level: "AA",
+    summary: {
+      totalTargets: 1,
+      totalFindings: findings.length,
+      suppressedFindings: 0,
+      manualReviewFindings: 0,
+      exemptFindings: 0,
+      inactiveExemptFindings: 0,
+      bySeverity: { blocker: 0, critical: findings.length, major: 0, minor: 0 },
+      failedTargets: 1,
+      warnings: [],
+    },
+    targets: [],
+    findings,
+    manualChecks: [],
+  };
+}
+
+class FixtureFigmaClient implements FigmaClient {
+  async fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload> {
+    return {
+      figmaUrl,
+      nodeId: "1:2",
+      frameName: "Checkout Form",
+      designContext: violatingFixture,
+      warnings: [],
+    };
+  }
+}
+
+test("applyBaseline tags new, existing, and fixed findings by stable id", () => {
+  const existing = baseFinding;
+  const added = {
+    ...baseFinding,
+    id: "bbbbbbbbbbbb",
+    targetRef: { ...baseFinding.targetRef, nodeId: "2:2" },
+  };
+  const fixed = { ...baseFinding, id: "cccccccccccc" };
+  const otherTarget = {
+    ...baseFinding,
+    id: "dddddddddddd",
+    targetRef: {
+      ...baseFinding.targetRef,
+      figmaUrl: "https://www.figma.com/file/demo?node-id=9-9",
+    },
+  };
+
+  const result = applyBaseline(
+    [existing, added],
+    reportWithFindings([existing, fixed, otherTarget]),
+    [FIGMA_URL],
+  );
+
+  assert.deepEqual(
+    result.findings.map((finding) => [finding.id, finding.baselineStatus]),
+    [
+      ["aaaaaaaaaaaa", "existing"],
+      ["bbbbbbbbbbbb", "new"],
+    ],
+  );
+  assert.deepEqual(
+    result.fixedFindings.map((finding) => [finding.id, finding.baselineStatus]),
+    [["cccccccccccc", "fixed"]],
+  );
+});
+
+test("applyBaseline matches audited targets by file key and node, not the raw URL", () => {
+  const fixed = { ...baseFinding, id: "cccccccccccc" };
+  const baseline = reportWithFindings([fixed]);
+
+  for (const url of [
+    "https://www.figma.com/design/demo/checkout?node-id=1-2&t=abc123-0",
+    "https://www.figma.com/file/demo/Checkout-v2?node-id=1%3A2",
+  ]) {
+    assert.deepEqual(
+      applyBaseline([], baseline, [url]).fixedFindings.map((finding) => finding.id),
+      ["cccccccccccc"],
+    );
+  }
+  assert.deepEqual(
+    applyBaseline([], baseline, ["https://www.figma.com/design/other/checkout?node-id=1-2"])
+      .fixedFindings,
+    [],
+  );
+});
+
+test("new-findings-only gate ignores findings already in the baseline", () => {
+  const existing: Finding = { ...baseFinding, baselineStatus: "existing" };
+  const added: Finding = { ...baseFinding, id: "bbbbbbbbbbbb", baselineStatus: "new" };
+
+  assert.equal(shouldFailBuild([existing], ["critical"]), true);
+  assert.equal(shouldFailBuild([existing], ["critical"], { newFindingsOnly: true }), false);
+  assert.equal(
+    shouldFailBuild([existing, added], ["critical"], { newFindingsOnly: true }),
+    true,
+  );
+});
+
+test("loadBaselineReport rejects files that are not audit reports", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "aa-auditor-baseline-"));
+
+  try {
+    const invalidPath = join(dir, "invalid.json");
+    await writeFile(invalidPath, JSON.stringify({ runs: [] }), "utf8");
+    await assert.rejects(loadBaselineReport(invalidPath), /is not an aa-auditor JSON report/);
+
+    await assert.rejects(
+      loadBaselineReport(join(dir, "missing.json")),
+      /Unable to read baseline report/,
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("integration: audit against a prior report reports delta counts", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-baseline-run-"));
+  const deps = {
+    figmaClient: new FixtureFigmaClient(),
+    now: () => new Date("2026-02-09T12:00:00.000Z"),
+    runIdFactory: () => "run-baseline-2",
+  };
+  const options = {
+    targets: [{ figmaUrl: FIGMA_URL }],
+    outDir,
+    config: DEFAULT_CONFIG,
+    reportFormat: "json" as const,
+    failOn: ["blocker" as const, "critical" as const],
+  };
+
+  try {
+    const first = await runAudit(options, deps);
+    assert.equal(first.shouldFail, true);
+
+    const baselinePath = join(outDir, "baseline.json");
+    const [dropped, ...kept] = first.report.findings;
+    await writeFile(
+      baselinePath,
+      JSON.stringify({
+        ...first.report,
+        findings: [...kept, { ...baseFinding, id: "ffffffffffff" }],
+      }),
+      "utf8",
+    );
+    const baseline = await loadBaselineReport(baselinePath);
+
+    const second = await runAudit({ ...options, baseline, newFindingsOnly: true }, deps);
+    assert.deepEqual(second.report.summary.baseline, {
+      new: 1,
+      existing: kept.length,
+      fixed: 1,
+    });
+    assert.equal(
+      second.report.findings.find((finding) => finding.id === dropped.id)?.baselineStatus,
+      "new",
+    );
+    assert.equal(second.report.baseline?.fixedFindings[0].id, "ffffffffffff");
+    assert.equal(second.report.baseline?.source, baselinePath);
+    assert.equal(
+      second.shouldFail,
+      dropped.status === "failed" && ["blocker", "critical"].includes(dropped.severity),
+    );
+
+    const written = JSON.parse(await readFile(second.jsonPath!, "utf8")) as AuditReport;
+    assert.equal(written.summary.baseline?.fixed, 1);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
@@ -14,6 +14,15 @@ test("config applies defaults and validates shape", () => {
   assert.deepEqual(config.designSystemColors, {});
 });
 
+test("config accepts AAA level and rejects unknown levels", () => {
+  assert.equal(validateAndNormalizeConfig({ level: "AAA" }).level, "AAA");
+  assert.equal(
+    validateAndNormalizeConfig({}).rules["WCAG-1.4.6-contrast-enhanced"].enabled,
+    true,
+  );
+  assert.throws(() => validateAndNormalizeConfig({ level: "A" }), /level must be one of: AA, AAA/);
+});
+
 test("config rejects invalid severity", () => {
   assert.throws(
     () =>
@@ -45,3 +54,42 @@ test("config validates design system hex colors", () => {
     /valid hex color/,
   );
 });
+
+test("config accepts sarif report format", () => {
+  const config = validateAndNormalizeConfig({
+    report: {
+      formats: ["json", "sarif"],
+    },
+  });
+
+  assert.deepEqual(config.report.formats, ["json", "sarif"]);
+
+  assert.throws(
+    () =>
+      validateAndNormalizeConfig({
+        report: {
+          formats: ["pdf"],
+        },
+      }),
+    /must be one of/,
+  );
+});
+
+test("config merges readability thresholds and rejects non-positive values", () => {
+  const config = validateAndNormalizeConfig({ readability: { minFontSize: 14 } });
+  assert.deepEqual(config.readability, {
+    minFontSize: 14,
+    smallTextSize: 16,
+    minSmallTextWeight: 400,
+    maxAllCapsLength: 30,
+  });
+
+  assert.throws(
+    () => validateAndNormalizeConfig({ readability: { maxAllCapsLength: 0 } }),
+    /readability.maxAllCapsLength must be a positive number/,
+  );
+  assert.throws(
+    () => validateAndNormalizeConfig({ readability: "strict" }),
+    /readability must be an object/,
+  );
+});
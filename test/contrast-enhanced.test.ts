@@ -0,0 +1,195 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runAudit } from "../src/core/auditRunner.js";
+import { DEFAULT_CONFIG } from "../src/config/schema.js";
+import type { FigmaTargetPayload, NormalizedTarget } from "../src/core/types.js";
+import { enhancedContrastRule } from "../src/rules/rule-contrast-enhanced.js";
+import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+
+// #767676 on white is 4.54:1: passes 1.4.3 (4.5:1) but fails 1.4.6 (7:1).
+const target: NormalizedTarget = {
+  figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+  nodeId: "1:1",
+  frameName: "Demo",
+  warnings: [],
+  nodes: [
+    {
+      id: "1:1",
+      name: "Root",
+      type: "FRAME",
+      bounds: { x: 0, y: 0, width: 200, height: 80 },
+      fills: [{ r: 255, g: 255, b: 255, a: 1 }],
+      strokes: [],
+      isInteractive: false,
+    },
+    {
+      id: "1:2",
+      parentId: "1:1",
+      name: "Helper text",
+      type: "TEXT",
+      bounds: { x: 10, y: 10, width: 100, height: 18 },
+      fills: [{ r: 118, g: 118, b: 118, a: 1 }],
+      strokes: [],
+      text: "Helper text",
+      fontSize: 14,
+      fontWeight: 400,
+      isInteractive: false,
+    },
+  ],
+};
+
+test("enhanced contrast rule fails text between 4.5:1 and 7:1", () => {
+  const ctx = {
+    target,
+    reportStartIso: "2026-02-11T00:00:00.000Z",
+    level: "AAA" as const,
+  };
+
+  assert.equal(textContrastRule.evaluate(ctx).length, 0);
+
+  const findings = enhancedContrastRule.evaluate(ctx);
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].ruleId, "WCAG-1.4.6-contrast-enhanced");
+  assert.equal(findings[0].wcagCriterion, "1.4.6");
+  assert.equal(findings[0].status, "failed");
+  assert.match(findings[0].message, /below required 7\.0:1/);
+});
+
+test("text contrast recommendations target AAA thresholds at level AAA", () => {
+  const darkerTarget: NormalizedTarget = {
+    ...target,
+    nodes: target.nodes.map((node) =>
+      node.id === "1:2" ? { ...node, fills: [{ r: 150, g: 150, b: 150, a: 1 }] } : node,
+    ),
+  };
+  const designSystemColors = {
+    "text.subtle": "#6B6B6B",
+    "text.primary": "#333333",
+  };
+
+  const [aaFinding] = textContrastRule.evaluate({
+    target: darkerTarget,
+    reportStartIso: "2026-02-11T00:00:00.000Z",
+    level: "AA",
+    designSystemColors,
+  });
+  const [aaaFinding] = textContrastRule.evaluate({
+    target: darkerTarget,
+    reportStartIso: "2026-02-11T00:00:00.000Z",
+    level: "AAA",
+    designSystemColors,
+  });
+
+  assert.match(aaFinding.message, /below required 4\.5:1/);
+  assert.match(aaaFinding.message, /below required 4\.5:1/);
+  assert.match(aaFinding.recommendation!, /text\.subtle/);
+  assert.doesNotMatch(aaaFinding.recommendation!, /text\.subtle/);
+  assert.match(aaaFinding.recommendation!, /text\.primary/);
+});
+
+// One line of 14px helper text on white, in the given gray level.
+function helperTextClient(gray: number) {
+  return {
+    async fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload> {
+      return {
+        figmaUrl,
+        nodeId: "1:1",
+        frameName: "Demo",
+        designContext: {
+          document: {
+            id: "1:1",
+            name: "Demo",
+            type: "FRAME",
+            absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 80 },
+            fills: [{ type: "SOLID", color: { r: 1, g: 1, b: 1, a: 1 } }],
+            children: [
+              {
+                id: "1:2",
+                name: "Helper text",
+                type: "TEXT",
+                characters: "Helper text",
+                absoluteBoundingBox: { x: 10, y: 10, width: 100, height: 18 },
+                style: { fontSize: 14, fontWeight: 400 },
+                fills: [
+                  {
+                    type: "SOLID",
+                    color: { r: gray / 255, g: gray / 255, b: gray / 255, a: 1 },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        warnings: [],
+      };
+    },
+  };
+}
+
+test("integration: 1.4.6 only runs when config level is AAA", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-aaa-"));
+  const figmaClient = helperTextClient(118);
+  const deps = {
+    figmaClient,
+    now: () => new Date("2026-02-11T00:00:00.000Z"),
+    runIdFactory: () => "run-aaa",
+  };
+  const options = {
+    targets: [{ figmaUrl: "https://www.figma.com/file/demo?node-id=1-1" }],
+    outDir,
+    reportFormat: "html" as const,
+    failOn: ["blocker" as const, "critical" as const],
+  };
+
+  try {
+    const aa = await runAudit({ ...options, config: DEFAULT_CONFIG }, deps);
+    assert.equal(aa.report.level, "AA");
+    assert.equal(aa.report.findings.length, 0);
+
+    const aaa = await runAudit(
+      { ...options, config: { ...DEFAULT_CONFIG, level: "AAA" } },
+      deps,
+    );
+    assert.equal(aaa.report.level, "AAA");
+    assert.deepEqual(
+      aaa.report.findings.map((finding) => finding.ruleId),
+      ["WCAG-1.4.6-contrast-enhanced"],
+    );
+    assert.equal(aaa.shouldFail, true);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+test("integration: at AAA a label failing both criteria is reported once, under 1.4.6", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-aaa-"));
+
+  try {
+    const result = await runAudit(
+      {
+        targets: [{ figmaUrl: "https://www.figma.com/file/demo?node-id=1-1" }],
+        outDir,
+        reportFormat: "html",
+        failOn: ["blocker", "critical"],
+        config: { ...DEFAULT_CONFIG, level: "AAA" },
+      },
+      {
+        figmaClient: helperTextClient(153),
+        now: () => new Date("2026-02-11T00:00:00.000Z"),
+        runIdFactory: () => "run-aaa",
+      },
+    );
+
+    assert.deepEqual(
+      result.report.findings.map((finding) => [finding.ruleId, finding.status]),
+      [["WCAG-1.4.6-contrast-enhanced", "failed"]],
+    );
+    assert.equal(result.report.summary.totalFindings, 1);
+    assert.equal(result.report.summary.bySeverity.critical, 1);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { validateAndNormalizeConfig } from "../src/config/schema.js";
+import { normalizeTarget, type NormalizeOptions } from "../src/normalize/model.js";
+import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+import { targetSizeRule } from "../src/rules/rule-target-size.js";
+
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const PALE = { r: 0.75, g: 0.75, b: 0.75, a: 1 };
+
+function solid(color: { r: number; g: number; b: number; a: number }) {
+  return [{ type: "SOLID", color }];
+}
+
+function button(extra: Record<string, unknown> = {}) {
+  return {
+    id: "2:1",
+    name: "Button",
+    type: "INSTANCE",
+    fills: solid(WHITE),
+    absoluteBoundingBox: { x: 20, y: 20, width: 16, height: 16 },
+    children: [
+      {
+        id: "3:1",
+        name: "Label",
+        type: "TEXT",
+        characters: "Submit",
+        style: { fontSize: 14 },
+        fills: solid(PALE),
+        absoluteBoundingBox: { x: 22, y: 22, width: 12, height: 12 },
+      },
+    ],
+    ...extra,
+  };
+}
+
+function frame(child: Record<string, unknown>, options?: NormalizeOptions, siblings: unknown[] = []) {
+  return normalizeTarget(
+    {
+      figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+      nodeId: "1:1",
+      frameName: "Form",
+      designContext: {
+        document: {
+          id: "1:1",
+          name: "Form",
+          type: "FRAME",
+          fills: solid(WHITE),
+          absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+          children: [child, ...siblings],
+        },
+      },
+      warnings: [],
+    },
+    options,
+  );
+}
+
+const ctx = (target: ReturnType<typeof frame>) => ({
+  target,
+  reportStartIso: "2026-02-09T12:00:00.000Z",
+});
+
+test("State=Disabled variants turn contrast failures into inactive-component exemptions", () => {
+  const enabled = textContrastRule.evaluate(ctx(frame(button())));
+  assert.equal(enabled.length, 1);
+  assert.equal(enabled[0].status, "failed");
+
+  const target = frame(button({ variantProperties: { State: "Disabled", Size: "Md" } }));
+  assert.equal(target.nodes.find((node) => node.id === "2:1")?.disabledReason, "State=Disabled");
+
+  const findings = textContrastRule.evaluate(ctx(target));
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].status, "exempt");
+  assert.equal(findings[0].exemptReason, "inactive-component");
+  assert.equal(findings[0].severity, "minor");
+  assert.equal(findings[0].recommendation, undefined);
+  assert.notEqual(findings[0].id, enabled[0].id);
+  assert.match(findings[0].message, /^Exempt: inactive component\. /);
+  assert.match(findings[0].evidence ?? "", /inactiveComponent=2:1 \(Button\) via State=Disabled/);
+});
+
+test("boolean Disabled component properties mark the instance inactive", () => {
+  const target = frame(
+    button({
+      componentProperties: {
+        "Disabled#12:3": { type: "BOOLEAN", value: true },
+        "Label#12:4": { type: "TEXT", value: "Submit" },
+      },
+    }),
+  );
+
+  assert.equal(target.nodes.find((node) => node.id === "2:1")?.disabledReason, "Disabled=true");
+
+  const off = frame(
+    button({ componentProperties: { "Disabled#12:3": { type: "BOOLEAN", value: false } } }),
+  );
+  assert.equal(off.nodes.find((node) => node.id === "2:1")?.disabledReason, undefined);
+});
+
+test("target size failures on disabled components are exempt", () => {
+  // A neighbouring link 4px away rules out the spacing exception.
+  const link = {
+    id: "2:2",
+    name: "Help link",
+    type: "FRAME",
+    absoluteBoundingBox: { x: 40, y: 20, width: 16, height: 16 },
+  };
+  const findings = targetSizeRule
+    .evaluate(ctx(frame(button({ name: "Button / Disabled" }), undefined, [link])))
+    .filter((finding) => finding.targetRef.nodeId === "2:1");
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].status, "exempt");
+  assert.equal(findings[0].exemptReason, "inactive-component");
+  assert.match(findings[0].evidence ?? "", /via name matches \/disabled\/i/);
+});
+
+test("name patterns are configurable and ignore text layer names", () => {
+  const greyed = button({ name: "Button (greyed)" });
+  assert.equal(textContrastRule.evaluate(ctx(frame(greyed)))[0].status, "failed");
+
+  const custom = frame(greyed, { disabledNamePatterns: ["greyed"] });
+  assert.equal(textContrastRule.evaluate(ctx(custom))[0].status, "exempt");
+
+  const none = frame(button({ name: "Button / Disabled" }), { disabledNamePatterns: [] });
+  assert.equal(textContrastRule.evaluate(ctx(none))[0].status, "failed");
+
+  // Text layers are named after their copy; "Disabled" here is content, not state.
+  const copy = button();
+  (copy.children[0] as Record<string, unknown>).name = "Disabled accounts";
+  assert.equal(textContrastRule.evaluate(ctx(frame(copy)))[0].status, "failed");
+});
+
+test("frames and the audited root named like disabled do not exempt their children", () => {
+  const row = {
+    id: "2:5",
+    name: "Disabled users row",
+    type: "FRAME",
+    absoluteBoundingBox: { x: 10, y: 10, width: 180, height: 40 },
+    children: [button()],
+  };
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Disabled users list",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Disabled users list",
+        type: "FRAME",
+        fills: solid(WHITE),
+        absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+        children: [row],
+      },
+    },
+    warnings: [],
+  });
+
+  assert.deepEqual(
+    target.nodes.filter((node) => node.disabledReason).map((node) => node.id),
+    [],
+  );
+  const findings = textContrastRule.evaluate(ctx(target));
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].status, "failed");
+
+  // A disabled instance above the audited root does not reach into it either.
+  const outer = frame(button({ name: "Button / Disabled" }));
+  const nested = { ...outer, nodeId: "3:1" };
+  const label = textContrastRule.evaluate(ctx(nested));
+  assert.equal(label[0].status, "failed");
+});
+
+test("config validates disabledStates name patterns", () => {
+  assert.deepEqual(validateAndNormalizeConfig({}).disabledStates, { namePatterns: ["disabled"] });
+  assert.deepEqual(
+    validateAndNormalizeConfig({ disabledStates: { namePatterns: ["greyed", "^off/"] } })
+      .disabledStates,
+    { namePatterns: ["greyed", "^off/"] },
+  );
+  assert.throws(
+    () => validateAndNormalizeConfig({ disabledStates: ["disabled"] }),
+    /disabledStates must be an object/,
+  );
+  assert.throws(
+    () => validateAndNormalizeConfig({ disabledStates: { namePatterns: "disabled" } }),
+    /disabledStates.namePatterns must be an array/,
+  );
+  assert.throws(
+    () => validateAndNormalizeConfig({ disabledStates: { namePatterns: ["(unclosed"] } }),
+    /disabledStates.namePatterns\[0\] is not a valid regular expression/,
+  );
+});
@@ -0,0 +1,114 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runAudit } from "../src/core/auditRunner.js";
+import { DEFAULT_CONFIG } from "../src/config/schema.js";
+import {
+  listSnapshotTargets,
+  RecordingFigmaClient,
+  SnapshotFigmaClient,
+} from "../src/figma/snapshot.js";
+import type { FigmaClient, FigmaTargetPayload } from "../src/core/types.js";
+
+const violatingFixture = JSON.parse(
+  readFileSync(join(process.cwd(), "test/fixtures/design-context-violations.json"), "utf8"),
+) as unknown;
+
+const FIGMA_URL = "https://www.figma.com/design/demo/checkout?node-id=1-2";
+
+class StaticFigmaClient implements FigmaClient {
+  calls = 0;
+
+  async fetchTarget(figmaUrl: string): Promise<FigmaTargetPayload> {
+    this.calls += 1;
+    return {
+      figmaUrl,
+      nodeId: "1:2",
+      frameName: "Checkout Form",
+      designContext: violatingFixture,
+      metadata: '<frame id="1:2" name="Checkout Form" x="0" y="0" width="320" height="640" />',
+      designSystemColors: { "text.primary": "#111827" },
+      screenshot: {
+        bytes: Uint8Array.from([137, 80, 78, 71]),
+        ext: "png",
+      },
+      warnings: ["Design context may be truncated; using metadata for fallback inspection."],
+    };
+  }
+}
+
+test("recorded snapshots replay the same payload offline", async () => {
+  const snapshotDir = await mkdtemp(join(tmpdir(), "aa-auditor-snapshot-"));
+
+  try {
+    const live = new StaticFigmaClient();
+    const recorded = await new RecordingFigmaClient(live, snapshotDir).fetchTarget(FIGMA_URL);
+    const replayed = await new SnapshotFigmaClient(snapshotDir).fetchTarget(FIGMA_URL);
+
+    assert.equal(live.calls, 1);
+    assert.deepEqual(replayed.designContext, recorded.designContext);
+    assert.equal(replayed.metadata, recorded.metadata);
+    assert.deepEqual(replayed.designSystemColors, recorded.designSystemColors);
+    assert.deepEqual(replayed.warnings, recorded.warnings);
+    assert.equal(replayed.screenshot?.ext, "png");
+    assert.deepEqual([...(replayed.screenshot?.bytes ?? [])], [137, 80, 78, 71]);
+
+    assert.deepEqual(await listSnapshotTargets(snapshotDir), [{ figmaUrl: FIGMA_URL }]);
+  } finally {
+    await rm(snapshotDir, { recursive: true, force: true });
+  }
+});
+
+test("snapshot client reports missing recordings per target", async () => {
+  const snapshotDir = await mkdtemp(join(tmpdir(), "aa-auditor-snapshot-empty-"));
+
+  try {
+    await assert.rejects(
+      new SnapshotFigmaClient(snapshotDir).fetchTarget(FIGMA_URL),
+      /No recorded snapshot for node 1:2/,
+    );
+  } finally {
+    await rm(snapshotDir, { recursive: true, force: true });
+  }
+});
+
+test("audit from snapshot matches the live audit report", async () => {
+  const snapshotDir = await mkdtemp(join(tmpdir(), "aa-auditor-snapshot-audit-"));
+  const liveOut = await mkdtemp(join(tmpdir(), "aa-auditor-live-"));
+  const replayOut = await mkdtemp(join(tmpdir(), "aa-auditor-replay-"));
+
+  const deps = {
+    now: () => new Date("2026-02-09T12:00:00.000Z"),
+    runIdFactory: () => "run-snapshot",
+  };
+  const options = {
+    targets: [{ figmaUrl: FIGMA_URL }],
+    config: { ...DEFAULT_CONFIG, report: { ...DEFAULT_CONFIG.report, includeScreenshots: false } },
+    reportFormat: "json" as const,
+    failOn: DEFAULT_CONFIG.failOn,
+  };
+
+  try {
+    const live = await runAudit(
+      { ...options, outDir: liveOut },
+      { ...deps, figmaClient: new RecordingFigmaClient(new StaticFigmaClient(), snapshotDir) },
+    );
+    const replay = await runAudit(
+      { ...options, outDir: replayOut },
+      { ...deps, figmaClient: new SnapshotFigmaClient(snapshotDir) },
+    );
+
+    assert.equal(
+      await readFile(replay.jsonPath!, "utf8"),
+      await readFile(live.jsonPath!, "utf8"),
+    );
+    assert.equal(replay.shouldFail, true);
+  } finally {
+    await rm(snapshotDir, { recursive: true, force: true });
+    await rm(liveOut, { recursive: true, force: true });
+    await rm(replayOut, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,168 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { focusIndicatorRule } from "../src/rules/rule-focus-indicator.js";
+
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const BLUE = { r: 0.114, g: 0.306, b: 0.847, a: 1 };
+const PALE_BLUE = { r: 0.75, g: 0.83, b: 0.98, a: 1 };
+
+function solid(color: { r: number; g: number; b: number; a: number }) {
+  return [{ type: "SOLID", color }];
+}
+
+function variant(id: string, name: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    name,
+    type: "COMPONENT",
+    absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 40 },
+    fills: solid(BLUE),
+    children: [
+      {
+        id: `${id}-label`,
+        name: "Label",
+        type: "TEXT",
+        characters: "Continue",
+        fills: solid(WHITE),
+        absoluteBoundingBox: { x: 10, y: 10, width: 80, height: 20 },
+      },
+    ],
+    ...extra,
+  };
+}
+
+function auditComponentSet(variants: unknown[]) {
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Components",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Components",
+        type: "FRAME",
+        fills: solid(WHITE),
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 400 },
+        children: [
+          {
+            id: "2:1",
+            name: "Button",
+            type: "COMPONENT_SET",
+            absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+            children: variants,
+          },
+        ],
+      },
+    },
+    warnings: [],
+  });
+
+  return focusIndicatorRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T00:00:00.000Z",
+  });
+}
+
+test("variant names and focus styling are normalized", () => {
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=3-1",
+    nodeId: "3:1",
+    frameName: "Button",
+    designContext: {
+      document: variant("3:1", "State=Focus, Size=Md", {
+        strokes: solid(BLUE),
+        strokeWeight: 2,
+        effects: [
+          { type: "DROP_SHADOW", color: PALE_BLUE, radius: 0, spread: 3, visible: true },
+          { type: "DROP_SHADOW", color: PALE_BLUE, radius: 4, spread: 0, visible: false },
+        ],
+      }),
+    },
+    warnings: [],
+  });
+
+  const root = target.nodes.find((node) => node.id === "3:1");
+  assert.deepEqual(root?.variantProperties, { State: "Focus", Size: "Md" });
+  assert.equal(root?.strokeWeight, 2);
+  assert.equal(root?.effects?.length, 1);
+  assert.equal(root?.effects?.[0].spread, 3);
+});
+
+test("focus indicator reports interactive component sets without a focus variant", () => {
+  const findings = auditComponentSet([
+    variant("2:2", "State=Default, Size=Md"),
+    variant("2:3", "State=Hover, Size=Md"),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].status, "failed");
+  assert.equal(findings[0].ruleId, "WCAG-2.4.13-focus-appearance");
+  assert.equal(findings[0].wcagCriterion, "2.4.13");
+  assert.equal(findings[0].targetRef.nodeId, "2:1");
+  assert.match(findings[0].message, /has no focus variant/);
+  assert.match(findings[0].evidence!, /State=Default\/Hover/);
+});
+
+test("focus indicator does not read Unfocused or Focusable as focus states", () => {
+  const findings = auditComponentSet([
+    variant("2:2", "State=Default, Size=Md"),
+    variant("2:3", "State=Unfocused, Size=Md"),
+    variant("2:4", "State=Focusable, Size=Md"),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].message, /has no focus variant/);
+
+  const focused = auditComponentSet([
+    variant("2:2", "State=Default, Size=Md"),
+    variant("2:4", "State=Focus-visible, Size=Md"),
+  ]);
+  assert.equal(focused.length, 1);
+  assert.equal(focused[0].targetRef.nodeId, "2:4");
+});
+
+test("focus indicator passes a 2px ring with 3:1 against background and fill", () => {
+  const findings = auditComponentSet([
+    variant("2:2", "State=Default, Size=Md", { fills: solid(WHITE) }),
+    variant("2:4", "State=Focus, Size=Md", {
+      fills: solid(WHITE),
+      effects: [
+        {
+          type: "DROP_SHADOW",
+          color: { r: 0.067, g: 0.094, b: 0.153, a: 1 },
+          radius: 0,
+          spread: 2,
+        },
+      ],
+    }),
+  ]);
+
+  assert.deepEqual(findings, []);
+});
+
+test("focus indicator fails thin or low-contrast indicators", () => {
+  const findings = auditComponentSet([
+    variant("2:2", "State=Default, Size=Md"),
+    variant("2:4", "State=Focus, Size=Md", {
+      strokes: solid(PALE_BLUE),
+      strokeWeight: 1,
+    }),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].targetRef.nodeId, "2:4");
+  assert.match(findings[0].message, /1px thick \(needs 2px\)/);
+  assert.match(findings[0].message, /against adjacent colors \(needs 3\.0:1\)/);
+  assert.match(findings[0].evidence!, /default=2:2/);
+});
+
+test("focus indicator fails focus variants identical to the default", () => {
+  const findings = auditComponentSet([
+    variant("2:2", "State=Default, Size=Md"),
+    variant("2:4", "State=Focus, Size=Md"),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].message, /adds no stroke, outline layer, or effect/);
+});
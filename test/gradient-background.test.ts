@@ -0,0 +1,168 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { resolveEffectiveBackground } from "../src/normalize/query.js";
+import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const NAVY = { r: 0.05, g: 0.1, b: 0.3, a: 1 };
+
+function linearGradient(extra: Record<string, unknown> = {}) {
+  return {
+    type: "GRADIENT_LINEAR",
+    gradientHandlePositions: [
+      { x: 0, y: 0.5 },
+      { x: 1, y: 0.5 },
+      { x: 0, y: 1 },
+    ],
+    gradientStops: [
+      { position: 0, color: WHITE },
+      { position: 1, color: NAVY },
+    ],
+    ...extra,
+  };
+}
+
+function targetWithCard(cardFills: unknown[], textX: number) {
+  return normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Hero",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Hero",
+        type: "FRAME",
+        fills: [{ type: "SOLID", color: WHITE }],
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+        children: [
+          {
+            id: "2:1",
+            name: "Card",
+            type: "FRAME",
+            fills: cardFills,
+            absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+            children: [
+              {
+                id: "3:1",
+                name: "Headline",
+                type: "TEXT",
+                characters: "Welcome back",
+                style: { fontSize: 16 },
+                fills: [{ type: "SOLID", color: { r: 0.2, g: 0.2, b: 0.2, a: 1 } }],
+                absoluteBoundingBox: { x: textX, y: 80, width: 100, height: 20 },
+              },
+            ],
+          },
+        ],
+      },
+    },
+    warnings: [],
+  });
+}
+
+function evaluate(target: ReturnType<typeof normalizeTarget>) {
+  return textContrastRule.evaluate({ target, reportStartIso: "2026-02-09T12:00:00.000Z" });
+}
+
+test("normalization keeps gradient stops with paint opacity applied", () => {
+  const target = targetWithCard([linearGradient({ opacity: 0.5 })], 0);
+  const card = target.nodes.find((node) => node.id === "2:1");
+
+  assert.equal(card?.fills.length, 0);
+  const paint = card?.fillPaints?.[0];
+  assert.equal(paint?.type, "gradient");
+  if (paint?.type !== "gradient") {
+    return;
+  }
+  assert.equal(paint.gradient.kind, "linear");
+  assert.deepEqual(
+    paint.gradient.stops.map((stop) => [stop.position, stop.color.a]),
+    [
+      [0, 0.5],
+      [1, 0.5],
+    ],
+  );
+});
+
+test("gradient backgrounds are evaluated only across the stops under the text", () => {
+  const lightEnd = targetWithCard([linearGradient()], 0);
+  const resolution = resolveEffectiveBackground(
+    lightEnd,
+    lightEnd.nodes.find((node) => node.id === "3:1")!,
+  );
+  assert.equal(resolution.color, undefined);
+  assert.deepEqual(
+    resolution.candidates?.map((candidate) => candidate.gradientStop),
+    ["stop 1/2 at 0%", "25% between stops 1 and 2"],
+  );
+  assert.equal(evaluate(lightEnd).length, 0);
+
+  const darkEnd = evaluate(targetWithCard([linearGradient()], 300));
+  assert.equal(darkEnd.length, 1);
+  assert.equal(darkEnd[0].status, "failed");
+  assert.match(darkEnd[0].evidence ?? "", /worstGradientStop=stop 2\/2 at 100%/);
+  assert.match(darkEnd[0].evidence ?? "", /backgroundSource=Hero > Card/);
+});
+
+test("plugin gradient transforms resolve to the same handle geometry", () => {
+  const findings = evaluate(
+    targetWithCard(
+      [
+        {
+          type: "GRADIENT_LINEAR",
+          gradientTransform: [
+            [1, 0, 0],
+            [0, 1, 0],
+          ],
+          gradientStops: linearGradient().gradientStops,
+        },
+      ],
+      300,
+    ),
+  );
+
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].evidence ?? "", /worstGradientStop=stop 2\/2 at 100%/);
+});
+
+test("image fills are reported as needing sampling instead of using outer colors", () => {
+  const target = targetWithCard([{ type: "IMAGE", scaleMode: "FILL", imageRef: "abc" }], 0);
+  const text = target.nodes.find((node) => node.id === "3:1")!;
+  const resolution = resolveEffectiveBackground(target, text);
+
+  assert.equal(resolution.needsSampling, true);
+  assert.equal(resolution.color, undefined);
+  assert.equal(resolution.sourceLayerPath, "Hero > Card");
+
+  const manual = evaluate(target);
+  assert.equal(manual.length, 1);
+  assert.equal(manual[0].status, "needs-manual-review");
+  assert.match(manual[0].evidence ?? "", /backgroundReason=Image fill behind this layer/);
+
+  const sampled = textContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T12:00:00.000Z",
+    sampleBackgroundColor: () => ({ r: 90, g: 90, b: 90, a: 1 }),
+  });
+  assert.equal(sampled.length, 1);
+  assert.equal(sampled[0].status, "failed");
+  assert.match(sampled[0].evidence ?? "", /backgroundSource=\[screenshot-von-neumann\]/);
+});
+
+test("an opaque solid paint above an image hides it", () => {
+  const target = targetWithCard(
+    [
+      { type: "IMAGE", scaleMode: "FILL", imageRef: "abc" },
+      { type: "SOLID", color: WHITE },
+    ],
+    0,
+  );
+  const resolution = resolveEffectiveBackground(
+    target,
+    target.nodes.find((node) => node.id === "3:1")!,
+  );
+
+  assert.deepEqual(resolution.color, { r: 255, g: 255, b: 255, a: 1 });
+  assert.equal(resolution.needsSampling, undefined);
+});
@@ -0,0 +1,178 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_CONFIG, validateAndNormalizeConfig } from "../src/config/schema.js";
+import type { FigmaTargetPayload } from "../src/core/types.js";
+import { extractNodeStyleHintsFromCode } from "../src/figma/code-style-hints.js";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+import { hardcodedColorRule } from "../src/rules/rule-hardcoded-color.js";
+
+const RULE_ID = "BP-hardcoded-color";
+
+const gray = (value: number) => ({ r: value, g: value, b: value, a: 1 });
+
+function bound(variableId: string, color: { r: number; g: number; b: number; a: number }) {
+  return {
+    type: "SOLID",
+    color,
+    boundVariables: { color: { type: "VARIABLE_ALIAS", id: variableId } },
+  };
+}
+
+function settingsPayload(): FigmaTargetPayload {
+  return {
+    figmaUrl: "https://www.figma.com/design/TOKENS/Settings?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Settings",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Settings",
+        type: "FRAME",
+        fills: [bound("VariableID:1", gray(1))],
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+        children: [
+          {
+            id: "2:1",
+            name: "Title",
+            type: "TEXT",
+            characters: "Notifications",
+            style: { fontSize: 14 },
+            fills: [bound("VariableID:2", gray(0.1))],
+            absoluteBoundingBox: { x: 16, y: 16, width: 200, height: 20 },
+          },
+          {
+            id: "2:2",
+            name: "Caption",
+            type: "TEXT",
+            characters: "Updated hourly",
+            style: { fontSize: 12 },
+            fills: [{ type: "SOLID", color: gray(0.6) }],
+            absoluteBoundingBox: { x: 16, y: 48, width: 200, height: 16 },
+          },
+          {
+            id: "2:3",
+            name: "Save button",
+            type: "FRAME",
+            fills: [{ type: "SOLID", color: { r: 0, g: 0.4, b: 1, a: 1 } }],
+            absoluteBoundingBox: { x: 16, y: 80, width: 120, height: 40 },
+          },
+          {
+            id: "2:4",
+            name: "Divider",
+            type: "RECTANGLE",
+            fills: [{ type: "SOLID", color: gray(0.9) }],
+            absoluteBoundingBox: { x: 0, y: 140, width: 400, height: 1 },
+          },
+        ],
+      },
+    },
+    variableModes: {
+      modes: ["Light", "Dark"],
+      defaultMode: "Light",
+      variables: {
+        "VariableID:1": { name: "color/surface", values: { Light: gray(255), Dark: gray(26) } },
+        "VariableID:2": { name: "color/text", values: { Light: gray(26), Dark: gray(230) } },
+      },
+    },
+    warnings: [],
+  };
+}
+
+test("code style hints keep CSS variable names next to their colors", () => {
+  const hints = extractNodeStyleHintsFromCode(`
+    <div className="bg-[color:var(--surface\\/raised,#FFFFFF)] border-[#D9D9D9]" data-node-id="5:1"></div>
+    <p className="text-[#FF0000]" data-node-id="5:2">Hot</p>
+  `);
+
+  assert.deepEqual(hints["5:1"].fillTokens, ["surface/raised"]);
+  assert.equal(hints["5:1"].strokeTokens, undefined);
+  assert.equal(hints["5:2"].textFillTokens, undefined);
+
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/design/TOKENS/Settings?node-id=5-0",
+    nodeId: "5:0",
+    frameName: "Card",
+    designContext: "<frame id=\"5:0\" name=\"Card\"><frame id=\"5:1\" name=\"Panel\" /></frame>",
+    nodeStyleHints: hints,
+    warnings: [],
+  });
+  assert.deepEqual(target.nodes.find((node) => node.id === "5:1")?.fillBindings, [
+    { name: "surface/raised" },
+  ]);
+});
+
+test("normalization names bound variables from the variable definitions", () => {
+  const target = normalizeTarget(settingsPayload());
+  const byId = new Map(target.nodes.map((node) => [node.id, node]));
+
+  assert.deepEqual(byId.get("2:1")?.fillBindings, [
+    { variableId: "VariableID:2", name: "color/text", opacity: undefined },
+  ]);
+  assert.equal(byId.get("2:2")?.fillBindings, undefined);
+});
+
+test("hard-coded color rule flags raw fills on text and interactive layers only", () => {
+  const target = normalizeTarget(settingsPayload());
+  const findings = hardcodedColorRule.evaluate({
+    target,
+    reportStartIso: "2026-03-09T12:00:00.000Z",
+    designSystemColors: { "color/primary": "#0A5CFF", "color/muted": "#6B6B6B" },
+  });
+
+  assert.deepEqual(
+    findings.map((finding) => [finding.targetRef.nodeId, finding.message]),
+    [
+      ["2:2", "Fill #999999 is a raw hex color, not a design-system token."],
+      ["2:3", "Fill #0066FF is a raw hex color, not a design-system token."],
+    ],
+  );
+  assert.equal(findings[0].ruleId, RULE_ID);
+  assert.equal(findings[0].severity, "minor");
+  assert.match(findings[0].recommendation ?? "", /closest design-system token: color\/muted/);
+  assert.match(findings[1].recommendation ?? "", /color\/primary \(#0A5CFF\)/);
+  assert.match(findings[1].evidence ?? "", /fill\[0\]=#0066FF/);
+});
+
+test("hard-coded color rule skips targets without any binding data", () => {
+  const untokened = settingsPayload();
+  untokened.designContext = JSON.parse(
+    JSON.stringify(untokened.designContext).replaceAll(/,"boundVariables":\{[^}]*\}\}/g, ""),
+  );
+  const findings = hardcodedColorRule.evaluate({
+    target: normalizeTarget(untokened),
+    reportStartIso: "2026-03-09T12:00:00.000Z",
+  });
+
+  assert.deepEqual(findings, []);
+});
+
+test("hard-coded color rule is off by default and can be enabled in config", () => {
+  assert.equal(DEFAULT_CONFIG.rules[RULE_ID].enabled, false);
+  assert.equal(
+    validateAndNormalizeConfig({ rules: { [RULE_ID]: { enabled: true } } }).rules[RULE_ID].enabled,
+    true,
+  );
+});
+
+test("contrast evidence names foreground and background tokens", () => {
+  const target = normalizeTarget(settingsPayload());
+  const [caption] = textContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-03-09T12:00:00.000Z",
+  });
+
+  assert.equal(caption.targetRef.nodeId, "2:2");
+  assert.match(caption.evidence ?? "", /textToken=hard-coded/);
+  assert.match(caption.evidence ?? "", /backgroundToken=color\/surface/);
+
+  const untokened = settingsPayload();
+  untokened.designContext = JSON.parse(
+    JSON.stringify(untokened.designContext).replaceAll(/,"boundVariables":\{[^}]*\}\}/g, ""),
+  );
+  const [plain] = textContrastRule.evaluate({
+    target: normalizeTarget(untokened),
+    reportStartIso: "2026-03-09T12:00:00.000Z",
+  });
+  assert.doesNotMatch(plain.evidence ?? "", /Token=/);
+});
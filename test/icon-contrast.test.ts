@@ -0,0 +1,223 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { deflateSync } from "node:zlib";
+import { createScreenshotGlyphSampler } from "../src/core/screenshot-sampler.js";
+import type { NormalizedNode, NormalizedTarget } from "../src/core/types.js";
+import { likelyIconNodes } from "../src/normalize/query.js";
+import { nonTextContrastRule } from "../src/rules/rule-nontext-contrast.js";
+
+const WHITE = { r: 255, g: 255, b: 255, a: 1 };
+const LIGHT_GRAY = { r: 200, g: 200, b: 200, a: 1 };
+const DARK_GRAY = { r: 60, g: 60, b: 60, a: 1 };
+
+function node(partial: Partial<NormalizedNode> & Pick<NormalizedNode, "id" | "name" | "type">) {
+  return { fills: [], strokes: [], isInteractive: false, ...partial } as NormalizedNode;
+}
+
+// Two 16px icons on a white toolbar, plus a labelled icon that only repeats its text.
+function toolbarTarget(closeGlyph = LIGHT_GRAY): NormalizedTarget {
+  return {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Toolbar",
+    warnings: [],
+    nodes: [
+      node({
+        id: "1:1",
+        name: "Toolbar",
+        type: "FRAME",
+        bounds: { x: 0, y: 0, width: 72, height: 24 },
+        fills: [WHITE],
+      }),
+      node({
+        id: "2:1",
+        parentId: "1:1",
+        name: "Icon / Close",
+        type: "INSTANCE",
+        bounds: { x: 4, y: 4, width: 16, height: 16 },
+      }),
+      node({
+        id: "2:2",
+        parentId: "2:1",
+        name: "Vector",
+        type: "VECTOR",
+        bounds: { x: 0, y: 0, width: 16, height: 16 },
+        fills: [closeGlyph],
+      }),
+      node({
+        id: "3:1",
+        parentId: "1:1",
+        name: "Icon / Search",
+        type: "INSTANCE",
+        bounds: { x: 28, y: 4, width: 16, height: 16 },
+      }),
+      node({
+        id: "3:2",
+        parentId: "3:1",
+        name: "Union",
+        type: "BOOLEAN_OPERATION",
+        bounds: { x: 0, y: 0, width: 16, height: 16 },
+        fills: [DARK_GRAY],
+      }),
+      node({
+        id: "4:1",
+        parentId: "1:1",
+        name: "Next link",
+        type: "FRAME",
+        bounds: { x: 48, y: 0, width: 24, height: 24 },
+        isInteractive: true,
+      }),
+      node({
+        id: "4:2",
+        parentId: "4:1",
+        name: "Next",
+        type: "TEXT",
+        text: "Next",
+        bounds: { x: 0, y: 4, width: 12, height: 16 },
+        fills: [DARK_GRAY],
+      }),
+      node({
+        id: "4:3",
+        parentId: "4:1",
+        name: "icon-chevron",
+        type: "VECTOR",
+        bounds: { x: 14, y: 8, width: 8, height: 8 },
+        fills: [LIGHT_GRAY],
+      }),
+    ],
+  };
+}
+
+// Plus-shaped glyphs: 4px arms through the middle of each 16px icon.
+function toolbarPng(): Uint8Array {
+  return buildPng(72, 24, (x, y) => {
+    const inPlus = (left: number) =>
+      x >= left &&
+      x < left + 16 &&
+      y >= 4 &&
+      y < 20 &&
+      ((x >= left + 6 && x < left + 10) || (y >= 10 && y < 14));
+    if (inPlus(4)) {
+      return { r: 200, g: 200, b: 200, a: 255 };
+    }
+    if (inPlus(28)) {
+      return { r: 60, g: 60, b: 60, a: 255 };
+    }
+    return { r: 255, g: 255, b: 255, a: 255 };
+  });
+}
+
+test("likelyIconNodes finds outermost icon containers that draw vectors", () => {
+  const target = toolbarTarget();
+  target.nodes.push(
+    node({ id: "5:1", parentId: "1:1", name: "Icon button", type: "FRAME" }),
+    node({ id: "5:2", parentId: "5:1", name: "Vector", type: "VECTOR", fills: [DARK_GRAY] }),
+    node({ id: "6:1", parentId: "1:1", name: "Icons / Empty", type: "FRAME" }),
+  );
+
+  assert.deepEqual(
+    likelyIconNodes(target).map((icon) => icon.id),
+    ["2:1", "3:1", "4:3"],
+  );
+});
+
+test("glyph sampler reads the dominant glyph color against the surroundings", () => {
+  const target = toolbarTarget();
+  const sampler = createScreenshotGlyphSampler(target, { bytes: toolbarPng(), ext: "png" });
+  assert.ok(sampler);
+
+  const sample = sampler!(target.nodes.find((entry) => entry.id === "2:1")!);
+  assert.deepEqual(sample?.foreground, LIGHT_GRAY);
+  assert.deepEqual(sample?.background, WHITE);
+  assert.equal(sample?.glyphPixels, 112);
+  assert.equal(sample?.totalPixels, 256);
+});
+
+test("icon contrast fails low-contrast glyphs with evidence from pixels", () => {
+  const target = toolbarTarget();
+  const findings = nonTextContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-03-16T00:00:00.000Z",
+    sampleGlyphColors: createScreenshotGlyphSampler(target, { bytes: toolbarPng(), ext: "png" }),
+  });
+
+  assert.deepEqual(
+    findings.map((finding) => [finding.targetRef.nodeId, finding.status]),
+    [["2:1", "failed"]],
+  );
+  assert.match(findings[0].message, /^Icon contrast ratio 1\.67:1 is below required 3\.0:1\.$/);
+  assert.match(findings[0].evidence ?? "", /glyphColor=rgba\(200, 200, 200, 1\)/);
+  assert.match(findings[0].evidence ?? "", /foregroundSource=\[screenshot-glyph\]/);
+  assert.match(findings[0].evidence ?? "", /glyphPixels=112\/256/);
+});
+
+test("icon contrast falls back to vector fills without a screenshot", () => {
+  const [finding] = nonTextContrastRule.evaluate({
+    target: toolbarTarget(),
+    reportStartIso: "2026-03-16T00:00:00.000Z",
+  });
+
+  assert.equal(finding.targetRef.nodeId, "2:1");
+  assert.equal(finding.status, "failed");
+  assert.match(finding.evidence ?? "", /foregroundSource=Toolbar > Icon \/ Close > Vector/);
+
+  const passing = nonTextContrastRule.evaluate({
+    target: toolbarTarget(DARK_GRAY),
+    reportStartIso: "2026-03-16T00:00:00.000Z",
+  });
+  assert.deepEqual(passing, []);
+});
+
+test("icons beside helper text outside a control are still checked", () => {
+  const target = toolbarTarget(DARK_GRAY);
+  const row = target.nodes.find((entry) => entry.id === "4:1")!;
+  row.name = "Helper row";
+  row.isInteractive = false;
+
+  const findings = nonTextContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-03-16T00:00:00.000Z",
+  });
+  assert.deepEqual(
+    findings.map((finding) => [finding.targetRef.nodeId, finding.status]),
+    [["4:3", "failed"]],
+  );
+});
+
+function buildPng(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => { r: number; g: number; b: number; a: number },
+): Uint8Array {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  const raw = Buffer.alloc(height * (1 + width * 4));
+  for (let y = 0; y < height; y += 1) {
+    const rowStart = y * (1 + width * 4);
+    for (let x = 0; x < width; x += 1) {
+      const p = pixel(x, y);
+      const px = rowStart + 1 + x * 4;
+      raw[px] = p.r;
+      raw[px + 1] = p.g;
+      raw[px + 2] = p.b;
+      raw[px + 3] = p.a;
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from("89504e470d0a1a0a", "hex"),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return Buffer.concat([length, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+}
@@ -0,0 +1,200 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  createScreenshotBackgroundSampler,
+  screenshotSamplingWarning,
+} from "../src/core/screenshot-sampler.js";
+import type { NormalizedTarget } from "../src/core/types.js";
+import { decodeImage, sniffImageFormat } from "../src/image/decode.js";
+import type { DecodedImage } from "../src/image/decode.js";
+
+const NAVY = [16, 43, 124];
+const PAPER = [248, 249, 250];
+
+function fixture(lines: string[]): Uint8Array {
+  return new Uint8Array(Buffer.from(lines.join(""), "base64"));
+}
+
+// 16x16, navy left half and near-white right half, 4:2:0 chroma.
+const JPEG_420 = fixture([
+  "/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAIBAQEBAQIBAQECAgICAgQDAgICAgUEBAMEBgUGBgYFBgYGBwkIBgcJBwYG",
+  "CAsICQoKCgoKBggLDAsKDAkKCgr/2wBDAQICAgICAgUDAwUKBwYHCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoK",
+  "CgoKCgoKCgoKCgoKCgoKCgoKCgr/wAARCAAQABADASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAACgn/xAAUEAEA",
+  "AAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAABgf/xAAcEQABAwUAAAAAAAAAAAAAAAAABgdDRIKDwcL/",
+  "2gAMAwEAAhEDEQA/AJXmaBlmaK46FJk4Cqdlt2f/2Q==",
+]);
+
+// The same image without chroma subsampling.
+const JPEG_444 = fixture([
+  "/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAIBAQEBAQIBAQECAgICAgQDAgICAgUEBAMEBgUGBgYFBgYGBwkIBgcJBwYG",
+  "CAsICQoKCgoKBggLDAsKDAkKCgr/2wBDAQICAgICAgUDAwUKBwYHCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoK",
+  "CgoKCgoKCgoKCgoKCgoKCgoKCgr/wAARCAAQABADAREAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAACgn/xAAUEAEA",
+  "AAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAABwj/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIR",
+  "AxEAPwCV6tBeZok8mBlqwGZmiTyY/9k=",
+]);
+
+// The same image as lossless WebP, with the bottom half at 50% alpha.
+const WEBP_LOSSLESS = fixture([
+  "UklGRkIAAABXRUJQVlA4TDYAAAAvD8ADEB8gEEhi2l9sE7FgMoz8KTuFBAnbnW0SkBCey3LxjyogCLONJjnJSd77DCL6",
+  "Hxt8pR8=",
+]);
+
+// 32x16 lossy WebP: navy left macroblock, near-white right macroblock.
+const WEBP_LOSSY = fixture([
+  "UklGRkIAAABXRUJQVlA4IDYAAACwAQCdASogABAAAMASJaAC7LcAAhVoAP79pe//3jP/3Gf/uM/+X3/8pX6/ev3YR/9d",
+  "nK6+AAA=",
+]);
+
+// The 16x16 half-transparent image as lossy WebP with an ALPH chunk.
+const WEBP_LOSSY_ALPHA = fixture([
+  "UklGRmYAAABXRUJQVlA4WAoAAAAQAAAADwAADwAAQUxQSBMAAAABD/DA/4iIIBZM8pfunEJE/zNOAFZQOCAsAAAAcAEA",
+  "nQEqEAAQAADAEiWgAnQBQAAA/uz9///YmT//vFhP/7h/P/KUH/q6AAA=",
+]);
+
+// A progressive frame header right after the start-of-image marker.
+const PROGRESSIVE_JPEG = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc2, 0x00, 0x0b, 0x08, 0x00, 0x10, 0x00, 0x10, 0x01, 0x01, 0x11, 0x00,
+]);
+
+function pixel(image: DecodedImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return [...image.rgba.subarray(offset, offset + 4)];
+}
+
+function assertNear(actual: number[], expected: number[], tolerance: number): void {
+  expected.forEach((channel, index) => {
+    assert.ok(
+      Math.abs(actual[index] - channel) <= tolerance,
+      `expected ${actual.join(",")} to be within ${tolerance} of ${expected.join(",")}`,
+    );
+  });
+}
+
+test("sniffImageFormat reads signatures rather than extensions", () => {
+  assert.equal(sniffImageFormat(JPEG_444), "jpeg");
+  assert.equal(sniffImageFormat(WEBP_LOSSLESS), "webp");
+  assert.equal(sniffImageFormat(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 13, 10, 26, 10])), "png");
+  assert.equal(sniffImageFormat(new Uint8Array([0x47, 0x49, 0x46, 0x38])), undefined);
+  assert.throws(() => decodeImage(new Uint8Array(16)), /Unrecognized image format/);
+});
+
+test("decodeImage decodes baseline JPEG with and without chroma subsampling", () => {
+  for (const bytes of [JPEG_444, JPEG_420]) {
+    const image = decodeImage(bytes);
+    assert.equal(image.width, 16);
+    assert.equal(image.height, 16);
+    for (const y of [2, 13]) {
+      assertNear(pixel(image, 2, y), [...NAVY, 255], 3);
+      assertNear(pixel(image, 13, y), [...PAPER, 255], 3);
+    }
+  }
+});
+
+test("decodeImage rejects progressive JPEG with a reason", () => {
+  assert.throws(() => decodeImage(PROGRESSIVE_JPEG), /Progressive JPEG is not supported/);
+});
+
+test("decodeImage decodes lossless WebP exactly, including alpha", () => {
+  const image = decodeImage(WEBP_LOSSLESS);
+  assert.equal(image.width, 16);
+  assert.equal(image.height, 16);
+  assert.deepEqual(pixel(image, 2, 2), [...NAVY, 255]);
+  assert.deepEqual(pixel(image, 13, 2), [...PAPER, 255]);
+  assert.deepEqual(pixel(image, 2, 13), [...NAVY, 128]);
+  assert.deepEqual(pixel(image, 13, 13), [...PAPER, 128]);
+});
+
+test("decodeImage decodes lossy WebP and its alpha plane", () => {
+  const opaque = decodeImage(WEBP_LOSSY);
+  assert.equal(opaque.width, 32);
+  assert.equal(opaque.height, 16);
+  assertNear(pixel(opaque, 4, 8), [...NAVY, 255], 3);
+  assertNear(pixel(opaque, 28, 8), [...PAPER, 255], 3);
+
+  const translucent = decodeImage(WEBP_LOSSY_ALPHA);
+  assertNear(pixel(translucent, 2, 2), [...NAVY, 255], 3);
+  assertNear(pixel(translucent, 13, 13), [...PAPER, 128], 3);
+  assert.equal(pixel(translucent, 2, 13)[3], 128);
+});
+
+test("decodeImage rejects animated WebP", () => {
+  const header = Buffer.concat([
+    Buffer.from("RIFF"),
+    Buffer.from([22, 0, 0, 0]),
+    Buffer.from("WEBPVP8X"),
+    Buffer.from([10, 0, 0, 0, 0x02, 0, 0, 0, 15, 0, 0, 15, 0, 0]),
+  ]);
+  assert.throws(() => decodeImage(new Uint8Array(header)), /Animated WebP is not supported/);
+});
+
+test("decodeImage rejects headers that claim more than 64 megapixels", () => {
+  // SOI, then a baseline frame header for a 20000x20000 YCbCr image and nothing else.
+  const jpeg = new Uint8Array([
+    0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x4e, 0x20, 0x4e, 0x20, 0x03,
+    0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+  ]);
+  assert.throws(() => decodeImage(jpeg), /JPEG is 20000x20000 pixels, above the 64 MP/);
+
+  const webpWith = (fourCc: string, data: number[]) =>
+    new Uint8Array(
+      Buffer.concat([
+        Buffer.from("RIFF"),
+        Buffer.from([12 + data.length, 0, 0, 0]),
+        Buffer.from(`WEBP${fourCc}`),
+        Buffer.from([data.length, 0, 0, 0]),
+        Buffer.from(data),
+      ]),
+    );
+  // 16384x16384: both 14-bit dimension fields at their maximum.
+  const lossless = webpWith("VP8L", [0x2f, 0xff, 0xff, 0xff, 0x0f]);
+  assert.throws(() => decodeImage(lossless), /WebP lossless image is 16384x16384 pixels/);
+  const lossy = webpWith("VP8 ", [0x00, 0x00, 0x00, 0x9d, 0x01, 0x2a, 0xff, 0x3f, 0xff, 0x3f]);
+  assert.throws(() => decodeImage(lossy), /WebP lossy image is 16383x16383 pixels/);
+});
+
+test("screenshot samplers read JPEG and warn when the screenshot cannot be decoded", () => {
+  const target: NormalizedTarget = {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Demo",
+    warnings: [],
+    nodes: [
+      {
+        id: "1:1",
+        name: "Root",
+        type: "FRAME",
+        bounds: { x: 0, y: 0, width: 16, height: 16 },
+        fills: [],
+        strokes: [],
+        isInteractive: false,
+      },
+      {
+        id: "1:2",
+        parentId: "1:1",
+        name: "Label",
+        type: "TEXT",
+        bounds: { x: 11, y: 5, width: 3, height: 6 },
+        fills: [{ r: 16, g: 43, b: 124, a: 1 }],
+        strokes: [],
+        text: "Label",
+        isInteractive: false,
+      },
+    ],
+  };
+  const jpeg = { bytes: JPEG_444, ext: "jpg" as const };
+
+  const sampler = createScreenshotBackgroundSampler(target, jpeg);
+  assert.ok(sampler);
+  const sampled = sampler(target.nodes[1], target.nodes[1].fills[0]);
+  assert.ok(sampled);
+  assertNear([sampled.r, sampled.g, sampled.b], PAPER, 3);
+  assert.equal(screenshotSamplingWarning(jpeg), undefined);
+
+  const progressive = { bytes: PROGRESSIVE_JPEG, ext: "jpg" as const };
+  assert.equal(createScreenshotBackgroundSampler(target, progressive), undefined);
+  assert.match(
+    screenshotSamplingWarning(progressive) ?? "",
+    /^Screenshot sampling disabled: Progressive JPEG is not supported\./,
+  );
+  assert.equal(screenshotSamplingWarning(undefined), undefined);
+});
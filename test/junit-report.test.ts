@@ -0,0 +1,155 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { renderJunitXml, writeJunitReport } from "../src/report/junit.js";
+import type { AuditReport, Finding, TargetResult } from "../src/core/types.js";
+
+const targetRef = {
+  figmaUrl: "https://www.figma.com/file/demo?node-id=1-2",
+  nodeId: "2:1",
+  frameName: "Checkout Form",
+  layerPath: "Checkout Form > Muted label",
+};
+
+const criticalFinding: Finding = {
+  id: "abc123def456",
+  ruleId: "WCAG-1.4.3-text-contrast-minimum",
+  wcagCriterion: "1.4.3",
+  severity: "critical",
+  status: "failed",
+  message: "Text contrast ratio 3.95:1 is below required 4.5:1.",
+  evidence: "Node 2:1 (Muted label)",
+  targetRef,
+};
+
+const minorFinding: Finding = {
+  ...criticalFinding,
+  id: "111222333444",
+  ruleId: "WCAG-2.5.8-target-size-minimum",
+  wcagCriterion: "2.5.8",
+  severity: "minor",
+  message: "Interactive target is 20x20px.",
+};
+
+const manualFinding: Finding = {
+  ...criticalFinding,
+  id: "fff000fff000",
+  ruleId: "WCAG-1.4.11-nontext-contrast",
+  wcagCriterion: "1.4.11",
+  severity: "major",
+  status: "needs-manual-review",
+  message: "Could not reliably determine non-text foreground/background colors.",
+  evidence: "Node 2:1 has no solid fill & no stroke",
+};
+
+function buildReport(targets: TargetResult[]): AuditReport {
+  const findings = targets.flatMap((target) => target.findings);
+  return {
+    runId: "run-junit",
+    startedAt: "2026-02-09T12:00:00.000Z",
+    finishedAt: "2026-02-09T12:00:01.000Z",
+    wcagVersion: "2.2",
+    level: "AA",
+    summary: {
+      totalTargets: targets.length,
+      totalFindings: findings.length,
+      suppressedFindings: 0,
+      manualReviewFindings: 1,
+      exemptFindings: 0,
+      inactiveExemptFindings: 0,
+      bySeverity: { blocker: 0, critical: 1, major: 0, minor: 1 },
+      failedTargets: 1,
+      warnings: [],
+    },
+    targets,
+    findings,
+    manualChecks: [],
+  };
+}
+
+const failingTarget: TargetResult = {
+  figmaUrl: targetRef.figmaUrl,
+  nodeId: "1:2",
+  frameName: "Checkout Form",
+  findings: [criticalFinding, minorFinding, manualFinding],
+  manualChecks: [],
+  warnings: [],
+};
+
+const cleanTarget: TargetResult = {
+  figmaUrl: "https://www.figma.com/file/demo?node-id=3-4",
+  nodeId: "3:4",
+  frameName: "Empty State",
+  findings: [],
+  manualChecks: [],
+  warnings: ["Screenshot unavailable"],
+};
+
+test("junit maps targets to suites and follows the failOn gate", () => {
+  const xml = renderJunitXml(buildReport([failingTarget, cleanTarget]), [
+    "blocker",
+    "critical",
+  ]);
+
+  assert.match(xml, /<testsuites [^>]*tests="4" failures="1" skipped="1"/);
+  assert.match(
+    xml,
+    /<testsuite name="Checkout Form \(1:2\)" tests="3" failures="1" skipped="1"/,
+  );
+  assert.match(xml, /<testsuite name="Empty State \(3:4\)" tests="1" failures="0"/);
+  assert.match(
+    xml,
+    /<testcase classname="WCAG-1\.4\.3-text-contrast-minimum" name="2:1 Checkout Form &gt; Muted label">\n\s*<failure message="Text contrast ratio 3\.95:1 is below required 4\.5:1\." type="critical">/,
+  );
+  assert.doesNotMatch(xml, /<failure[^>]*type="minor"/);
+  assert.match(xml, /<skipped message="Node 2:1 has no solid fill &amp; no stroke" \/>/);
+  assert.match(xml, /<system-err>Screenshot unavailable<\/system-err>/);
+});
+
+test("junit counts minor failures when they are part of the gate", () => {
+  const xml = renderJunitXml(buildReport([failingTarget]), ["critical", "minor"]);
+
+  assert.match(xml, /<testsuite [^>]*failures="2"/);
+  assert.match(xml, /<failure[^>]*type="minor"/);
+});
+
+test("junit reports suppressed findings as skipped", () => {
+  const suppressedTarget: TargetResult = {
+    ...failingTarget,
+    findings: [
+      {
+        ...criticalFinding,
+        suppressed: {
+          ruleId: criticalFinding.ruleId,
+          targetId: "2:1",
+          reason: "Accepted for launch",
+          expiresOn: "2026-12-31",
+          owner: "design-systems",
+          matchedAt: "2026-02-09T12:00:00.000Z",
+        },
+      },
+    ],
+  };
+  const xml = renderJunitXml(buildReport([suppressedTarget]), ["critical"]);
+
+  assert.match(xml, /<testsuite [^>]*failures="0" skipped="1"/);
+  assert.match(xml, /<skipped message="Suppressed until 2026-12-31: Accepted for launch" \/>/);
+});
+
+test("writeJunitReport writes audit-report.junit.xml", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-junit-"));
+
+  try {
+    const outputPath = await writeJunitReport(outDir, buildReport([cleanTarget]), [
+      "critical",
+    ]);
+    assert.equal(outputPath, join(outDir, "audit-report.junit.xml"));
+
+    const written = await readFile(outputPath, "utf8");
+    assert.match(written, /^<\?xml version="1\.0" encoding="UTF-8"\?>/);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,161 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { compositeOver } from "../src/core/blend.js";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { resolveEffectiveBackground } from "../src/normalize/query.js";
+import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const INK = { r: 0.2, g: 0.2, b: 0.2, a: 1 };
+
+function solid(color: { r: number; g: number; b: number; a: number }) {
+  return [{ type: "SOLID", color }];
+}
+
+function frame(children: unknown[]) {
+  return normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Settings",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Settings",
+        type: "FRAME",
+        fills: solid(WHITE),
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+        children,
+      },
+    },
+    warnings: [],
+  });
+}
+
+function label(extra: Record<string, unknown> = {}) {
+  return {
+    id: "4:1",
+    name: "Label",
+    type: "TEXT",
+    characters: "Save changes",
+    style: { fontSize: 16 },
+    fills: solid(INK),
+    absoluteBoundingBox: { x: 20, y: 20, width: 120, height: 20 },
+    ...extra,
+  };
+}
+
+function evaluate(target: ReturnType<typeof normalizeTarget>) {
+  return textContrastRule.evaluate({ target, reportStartIso: "2026-02-09T12:00:00.000Z" });
+}
+
+test("compositeOver applies separable and non-separable blend modes", () => {
+  const backdrop = { r: 128, g: 128, b: 128, a: 1 };
+  const source = { r: 255, g: 128, b: 0, a: 1 };
+
+  assert.deepEqual(compositeOver(source, backdrop, "MULTIPLY"), { r: 128, g: 64, b: 0, a: 1 });
+  assert.deepEqual(compositeOver(source, backdrop, "SCREEN"), { r: 255, g: 192, b: 128, a: 1 });
+  assert.deepEqual(compositeOver(source, backdrop, "PASS_THROUGH"), source);
+  assert.deepEqual(compositeOver({ ...source, a: 0.5 }, backdrop, "MULTIPLY"), {
+    r: 128,
+    g: 96,
+    b: 64,
+    a: 1,
+  });
+  // Luminosity keeps the backdrop's (grey) hue and takes the source luminance.
+  const luminosity = compositeOver(source, backdrop, "LUMINOSITY");
+  assert.equal(luminosity.r, luminosity.g);
+  assert.equal(luminosity.g, luminosity.b);
+});
+
+test("group opacity fades text and its card together against what is behind the group", () => {
+  const target = frame([
+    {
+      id: "2:1",
+      name: "Disabled",
+      type: "GROUP",
+      opacity: 0.6,
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+      children: [
+        {
+          id: "3:1",
+          name: "Card",
+          type: "FRAME",
+          fills: solid(WHITE),
+          absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+          children: [label()],
+        },
+      ],
+    },
+  ]);
+  const text = target.nodes.find((node) => node.id === "4:1")!;
+  const resolution = resolveEffectiveBackground(target, text, text.fills[0]);
+
+  assert.deepEqual(resolution.color, { r: 255, g: 255, b: 255, a: 1 });
+  assert.deepEqual(resolution.foreground, { r: 133, g: 133, b: 133, a: 1 });
+  assert.deepEqual(resolution.compositing, ["Disabled opacity 0.6"]);
+
+  const findings = evaluate(target);
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].message, /3\.\d\d:1 is below required 4\.5:1/);
+  assert.match(findings[0].evidence ?? "", /compositedTextColor=rgba\(133, 133, 133, 1\)/);
+  assert.match(findings[0].evidence ?? "", /compositing=Disabled opacity 0\.6/);
+});
+
+test("text layer opacity is applied to the text color", () => {
+  const findings = evaluate(frame([label({ opacity: 0.4 })]));
+
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].evidence ?? "", /compositing=Label opacity 0\.4/);
+});
+
+test("multiply underlays darken the resolved background", () => {
+  const target = frame([
+    {
+      id: "2:1",
+      name: "Tint",
+      type: "RECTANGLE",
+      blendMode: "MULTIPLY",
+      fills: solid({ r: 0.5, g: 0.5, b: 1, a: 1 }),
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+    },
+    label({ fills: solid({ r: 0.3, g: 0.3, b: 0.3, a: 1 }) }),
+  ]);
+  const text = target.nodes.find((node) => node.id === "4:1")!;
+  const resolution = resolveEffectiveBackground(target, text, text.fills[0]);
+
+  assert.deepEqual(resolution.color, { r: 128, g: 128, b: 255, a: 1 });
+  assert.deepEqual(resolution.compositing, ["Tint MULTIPLY"]);
+  assert.match(resolution.sourceLayerPath ?? "", /Settings > Tint <= Settings/);
+
+  const findings = evaluate(target);
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].evidence ?? "", /backgroundColor=rgba\(128, 128, 255, 1\)/);
+});
+
+test("an opaque card inside a translucent group does not hide an image behind the group", () => {
+  const target = frame([
+    {
+      id: "2:1",
+      name: "Hero",
+      type: "FRAME",
+      fills: [{ type: "IMAGE", imageRef: "abc" }],
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+      children: [
+        {
+          id: "3:1",
+          name: "Scrim",
+          type: "FRAME",
+          opacity: 0.8,
+          fills: solid(WHITE),
+          absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+          children: [label()],
+        },
+      ],
+    },
+  ]);
+  const text = target.nodes.find((node) => node.id === "4:1")!;
+  const resolution = resolveEffectiveBackground(target, text, text.fills[0]);
+
+  assert.equal(resolution.needsSampling, true);
+  assert.equal(resolution.sourceLayerPath, "Settings > Hero");
+});
@@ -0,0 +1,212 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runAudit } from "../src/core/auditRunner.js";
+import type { FigmaClient, FigmaTargetPayload } from "../src/core/types.js";
+import { DEFAULT_CONFIG } from "../src/config/schema.js";
+import {
+  resolveLibraryComponentTargets,
+  selectLibraryVariants,
+} from "../src/figma/library-components.js";
+import { parseFigmaFileUrl } from "../src/figma/url.js";
+
+const LIBRARY_URL = "https://www.figma.com/design/LIB123/Design-System";
+
+const libraryXml = `<document id="0:0" name="Design System">
+  <canvas id="0:1" name="Buttons">
+    <section id="1:1" name="Actions" x="0" y="0" width="2000" height="800">
+      <component-set id="1:2" name="Button" x="0" y="0" width="400" height="200">
+        <symbol id="1:3" name="State=Default" x="0" y="0" width="120" height="40" />
+        <symbol id="1:4" name="State=Hover" x="0" y="60" width="120" height="40" />
+        <symbol id="1:5" name="State=Legacy" x="0" y="120" width="120" height="40" hidden="true" />
+      </component-set>
+    </section>
+    <frame id="2:1" name="Docs" x="0" y="1000" width="800" height="400">
+      <symbol id="2:2" name="Icon / Close" x="0" y="0" width="24" height="24" />
+      <instance id="2:3" name="Button" x="40" y="0" width="120" height="40" />
+    </frame>
+  </canvas>
+  <canvas id="0:2" name="Forms">
+    <component-set id="3:1" name="Checkbox" x="0" y="0" width="200" height="100">
+      <symbol id="3:2" name="Checked=True" x="0" y="0" width="24" height="24" />
+    </component-set>
+  </canvas>
+</document>`;
+
+test("selectLibraryVariants lists visible variants and standalone components across pages", () => {
+  const variants = selectLibraryVariants(libraryXml);
+
+  assert.deepEqual(
+    variants.map((variant) => [variant.id, variant.componentName, variant.variantName]),
+    [
+      ["1:3", "Button", "State=Default"],
+      ["1:4", "Button", "State=Hover"],
+      ["2:2", "Icon / Close", "Default"],
+      ["3:2", "Checkbox", "Checked=True"],
+    ],
+  );
+  assert.equal(variants[0].componentId, "1:2");
+  assert.equal(variants[2].componentId, "2:2");
+
+  assert.deepEqual(
+    selectLibraryVariants(libraryXml, { include: ["button", "check*"], exclude: ["Checkbox"] }).map(
+      (variant) => variant.id,
+    ),
+    ["1:3", "1:4"],
+  );
+});
+
+test("resolveLibraryComponentTargets reads document metadata and tags each variant target", async () => {
+  const requested: string[] = [];
+  const client: FigmaClient = {
+    fetchTarget: async () => {
+      throw new Error("not used");
+    },
+    fetchMetadata: async (figmaUrl) => {
+      requested.push(figmaUrl);
+      return libraryXml;
+    },
+  };
+
+  const targets = await resolveLibraryComponentTargets(client, LIBRARY_URL);
+
+  assert.equal(parseFigmaFileUrl(requested[0]).nodeId, "0:0");
+  assert.equal(targets.length, 4);
+  assert.equal(parseFigmaFileUrl(targets[1].figmaUrl).nodeId, "1:4");
+  assert.deepEqual(targets[1].component, {
+    componentId: "1:2",
+    componentName: "Button",
+    variantName: "State=Hover",
+  });
+
+  await assert.rejects(
+    () => resolveLibraryComponentTargets(client, LIBRARY_URL, { include: ["Tooltip"] }),
+    /No components matched in library/,
+  );
+});
+
+function variantPayload(figmaUrl: string, textColor: number): FigmaTargetPayload {
+  const nodeId = parseFigmaFileUrl(figmaUrl).nodeId!;
+  return {
+    figmaUrl,
+    nodeId,
+    frameName: `Button ${nodeId}`,
+    designContext: {
+      document: {
+        id: nodeId,
+        name: "State",
+        type: "COMPONENT",
+        fills: [{ type: "SOLID", color: { r: 1, g: 1, b: 1, a: 1 } }],
+        absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 40 },
+        children: [
+          {
+            id: `${nodeId}0`,
+            name: "Label",
+            type: "TEXT",
+            characters: "Continue",
+            style: { fontSize: 14 },
+            fills: [{ type: "SOLID", color: { r: textColor, g: textColor, b: textColor, a: 1 } }],
+            absoluteBoundingBox: { x: 10, y: 10, width: 80, height: 20 },
+          },
+        ],
+      },
+    },
+    warnings: [],
+  };
+}
+
+test("component audits produce a per-variant scorecard in JSON and HTML", async () => {
+  const client: FigmaClient = {
+    fetchTarget: async (figmaUrl) => {
+      const nodeId = parseFigmaFileUrl(figmaUrl).nodeId;
+      if (nodeId === "3:2") {
+        throw new Error("Synthetic fetch failure");
+      }
+      return variantPayload(figmaUrl, nodeId === "1:4" ? 0.75 : 0.1);
+    },
+    fetchMetadata: async () => libraryXml,
+  };
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-components-"));
+
+  try {
+    const result = await runAudit(
+      {
+        targets: await resolveLibraryComponentTargets(client, LIBRARY_URL),
+        outDir,
+        config: DEFAULT_CONFIG,
+        reportFormat: ["json", "html"],
+        failOn: ["blocker", "critical"],
+      },
+      {
+        figmaClient: client,
+        now: () => new Date("2026-02-09T12:00:00.000Z"),
+        runIdFactory: () => "run-components",
+      },
+    );
+
+    const scorecard = result.report.componentScorecard!;
+    assert.ok(scorecard.ruleIds.includes("WCAG-1.4.3-text-contrast-minimum"));
+    assert.ok(!scorecard.ruleIds.includes("WCAG-1.4.6-contrast-enhanced"));
+    assert.deepEqual(
+      scorecard.components.map((component) => [component.componentName, component.variants.length]),
+      [
+        ["Button", 2],
+        ["Icon / Close", 1],
+        ["Checkbox", 1],
+      ],
+    );
+
+    const [defaultVariant, hoverVariant] = scorecard.components[0].variants;
+    assert.equal(defaultVariant.results["WCAG-1.4.3-text-contrast-minimum"], "pass");
+    assert.equal(hoverVariant.variantName, "State=Hover");
+    assert.equal(hoverVariant.results["WCAG-1.4.3-text-contrast-minimum"], "fail");
+    assert.equal(
+      scorecard.components[2].variants[0].results["WCAG-1.4.3-text-contrast-minimum"],
+      "error",
+    );
+    assert.equal(
+      result.report.targets.find((target) => target.nodeId === "1:4")?.component?.componentName,
+      "Button",
+    );
+
+    const json = JSON.parse(await readFile(join(outDir, "audit-report.json"), "utf8"));
+    assert.equal(json.componentScorecard.components.length, 3);
+
+    const html = await readFile(join(outDir, "audit-report.html"), "utf8");
+    assert.match(html, /<h2>Component Scorecard<\/h2>/);
+    assert.match(html, /1\/2 variants pass every rule\./);
+    assert.match(html, /<span class="badge score-fail">fail<\/span>/);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+test("audits without component targets have no scorecard", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-components-"));
+  const figmaUrl = `${LIBRARY_URL}?node-id=1-3`;
+
+  try {
+    const result = await runAudit(
+      {
+        targets: [{ figmaUrl }],
+        outDir,
+        config: DEFAULT_CONFIG,
+        reportFormat: ["html"],
+        failOn: ["blocker", "critical"],
+      },
+      {
+        figmaClient: { fetchTarget: async () => variantPayload(figmaUrl, 0.1) },
+        now: () => new Date("2026-02-09T12:00:00.000Z"),
+        runIdFactory: () => "run-plain",
+      },
+    );
+
+    assert.equal(result.report.componentScorecard, undefined);
+    const html = await readFile(join(outDir, "audit-report.html"), "utf8");
+    assert.doesNotMatch(html, /Component Scorecard/);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
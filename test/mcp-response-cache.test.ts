@@ -0,0 +1,171 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RemoteFigmaMcpClient } from "../src/figma/mcpClient.js";
+import { McpResponseCache } from "../src/figma/response-cache.js";
+
+const FIGMA_URL = "https://www.figma.com/design/FILE123/Checkout?node-id=1-2";
+const PNG_BYTES = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function stubFigma(fileVersion: () => string) {
+  const calls: string[] = [];
+
+  const fetchStub = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+
+    if (url.startsWith("https://api.figma.test/v1/files/FILE123/meta")) {
+      calls.push("rest:meta");
+      return Response.json({ file: { version: fileVersion() } });
+    }
+
+    if (url === "https://cdn.figma.test/shot.png") {
+      calls.push("cdn:screenshot");
+      return new Response(PNG_BYTES, { headers: { "content-type": "image/png" } });
+    }
+
+    const body = JSON.parse(String(init?.body)) as {
+      id?: number;
+      method: string;
+      params: { name?: string };
+    };
+    if (body.method === "notifications/initialized") {
+      return new Response("");
+    }
+    if (body.method === "initialize") {
+      return Response.json({ jsonrpc: "2.0", id: body.id, result: {} });
+    }
+
+    const toolName = body.params.name!;
+    calls.push(`tool:${toolName}`);
+    const results: Record<string, unknown> = {
+      get_design_context: {
+        structuredContent: {
+          document: { id: "1:2", name: "Checkout", type: "FRAME", children: [] },
+        },
+      },
+      get_screenshot: { content: [{ type: "image", url: "https://cdn.figma.test/shot.png" }] },
+      get_variable_defs: { structuredContent: { "color/text/primary": "#111827" } },
+    };
+    return Response.json({ jsonrpc: "2.0", id: body.id, result: results[toolName] });
+  };
+
+  return { calls, fetchStub };
+}
+
+function createClient(cache: McpResponseCache | undefined) {
+  return new RemoteFigmaMcpClient({
+    endpoint: "https://mcp.figma.test/mcp",
+    token: "token",
+    region: "us-east-1",
+    timeoutMs: 5000,
+    sublayerExpansionLimit: 0,
+    cache,
+    restApiUrl: "https://api.figma.test",
+  });
+}
+
+test("McpResponseCache honours TTL, file version, and clear", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "aa-auditor-cache-"));
+  let now = 1_000;
+  const cache = new McpResponseCache(dir, 500, () => now);
+  const key = {
+    toolName: "get_metadata",
+    args: { fileKey: "FILE123", nodeId: "1:2" },
+    fileVersion: "v1",
+  };
+
+  try {
+    assert.equal(await cache.get(key), undefined);
+    await cache.set(key, { xml: "<frame />" });
+    assert.deepEqual(await cache.get(key), { xml: "<frame />" });
+    assert.equal(await cache.get({ ...key, fileVersion: "v2" }), undefined);
+    assert.deepEqual(
+      await cache.get({ ...key, args: { nodeId: "1:2", fileKey: "FILE123" } }),
+      { xml: "<frame />" },
+    );
+
+    now = 1_600;
+    assert.equal(await cache.get(key), undefined);
+
+    assert.equal(await cache.clear(), 1);
+    assert.equal(await cache.clear(), 0);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("RemoteFigmaMcpClient serves repeat tool calls and screenshot bytes from cache", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "aa-auditor-cache-client-"));
+  const originalFetch = globalThis.fetch;
+  let version = "100";
+  const { calls, fetchStub } = stubFigma(() => version);
+  globalThis.fetch = fetchStub as typeof fetch;
+
+  try {
+    const cache = new McpResponseCache(dir, 60_000);
+    const first = await createClient(cache).fetchTarget(FIGMA_URL);
+    assert.deepEqual(calls, [
+      "rest:meta",
+      "tool:get_design_context",
+      "tool:get_screenshot",
+      "cdn:screenshot",
+      "tool:get_variable_defs",
+    ]);
+
+    calls.length = 0;
+    const second = await createClient(cache).fetchTarget(FIGMA_URL);
+    assert.deepEqual(calls, ["rest:meta"]);
+    assert.deepEqual(second.designContext, first.designContext);
+    assert.deepEqual(second.designSystemColors, first.designSystemColors);
+    assert.deepEqual(second.screenshot?.bytes, PNG_BYTES);
+    assert.equal(second.screenshot?.ext, "png");
+    assert.equal(second.screenshot?.sourceUrl, "https://cdn.figma.test/shot.png");
+
+    calls.length = 0;
+    version = "101";
+    await createClient(cache).fetchTarget(FIGMA_URL);
+    assert.ok(calls.includes("tool:get_design_context"));
+
+    calls.length = 0;
+    await createClient(undefined).fetchTarget(FIGMA_URL);
+    assert.equal(calls.includes("rest:meta"), false);
+    assert.ok(calls.includes("tool:get_design_context"));
+  } finally {
+    globalThis.fetch = originalFetch;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("RemoteFigmaMcpClient skips the cache and warns when the file version is unknown", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "aa-auditor-cache-unversioned-"));
+  const originalFetch = globalThis.fetch;
+  const { calls, fetchStub } = stubFigma(() => "");
+  globalThis.fetch = fetchStub as typeof fetch;
+
+  try {
+    const cache = new McpResponseCache(dir, 60_000);
+    const client = createClient(cache);
+    const [first, second] = await Promise.all([
+      client.fetchTarget(FIGMA_URL),
+      client.fetchTarget(FIGMA_URL),
+    ]);
+    assert.equal(calls.filter((call) => call === "rest:meta").length, 1);
+    for (const payload of [first, second]) {
+      assert.ok(
+        payload.warnings.some((warning) =>
+          /Could not resolve file version for FILE123 .*not cached/.test(warning),
+        ),
+      );
+    }
+
+    calls.length = 0;
+    await createClient(cache).fetchTarget(FIGMA_URL);
+    assert.ok(calls.includes("tool:get_design_context"));
+    assert.ok(calls.includes("tool:get_screenshot"));
+  } finally {
+    globalThis.fetch = originalFetch;
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -26,3 +26,84 @@ test("non-text contrast rule flags low contrast interactive element", () => {
   assert.ok(findings.some((finding) => finding.ruleId === nonTextContrastRule.id));
   assert.ok(findings.some((finding) => finding.status === "failed"));
 });
+
+function panelTarget(panelColor: number, component: Record<string, unknown>) {
+  return normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=5-1",
+    nodeId: "5:1",
+    frameName: "Form",
+    designContext: {
+      document: {
+        id: "5:1",
+        name: "Form",
+        type: "FRAME",
+        fills: [{ type: "SOLID", color: { r: panelColor, g: panelColor, b: panelColor, a: 1 } }],
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+        children: [
+          {
+            id: "5:2",
+            type: "FRAME",
+            absoluteBoundingBox: { x: 20, y: 20, width: 200, height: 40 },
+            ...component,
+          },
+        ],
+      },
+    },
+    warnings: [],
+  });
+}
+
+const solid = (value: number) => [
+  { type: "SOLID", color: { r: value, g: value, b: value, a: 1 } },
+];
+
+test("non-text contrast passes when any visual edge reaches 3:1", () => {
+  // Dark filled button with a border that disappears into the white card.
+  const button = panelTarget(1, {
+    name: "Primary button",
+    fills: [{ type: "SOLID", color: { r: 0, g: 0.33, b: 1, a: 1 } }],
+    strokes: solid(0.98),
+  });
+  // White input whose darker border carries the boundary on a gray panel.
+  const input = panelTarget(0.93, {
+    name: "Email input",
+    fills: solid(1),
+    strokes: solid(0.46),
+  });
+
+  for (const target of [button, input]) {
+    const findings = nonTextContrastRule.evaluate({
+      target,
+      reportStartIso: "2026-02-09T00:00:00.000Z",
+    });
+    assert.deepEqual(findings, []);
+  }
+});
+
+test("non-text contrast fails when no edge reaches 3:1 and names the decisive edge", () => {
+  const target = panelTarget(0.93, {
+    name: "Email input",
+    fills: solid(1),
+    strokes: solid(0.8),
+  });
+
+  const [finding] = nonTextContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T00:00:00.000Z",
+  });
+
+  assert.equal(finding.status, "failed");
+  assert.match(finding.message, /on every edge \(best: stroke\)\.$/);
+  assert.match(finding.evidence ?? "", /decisiveEdge=stroke/);
+  assert.match(finding.evidence ?? "", /edges=stroke 1\.\d\d:1, fill 1\.\d\d:1/);
+  assert.match(finding.evidence ?? "", /foreground=rgba\(204, 204, 204, 1\)/);
+
+  const fillOnly = panelTarget(0.93, { name: "Toggle track", fills: solid(0.85) });
+  const [single] = nonTextContrastRule.evaluate({
+    target: fillOnly,
+    reportStartIso: "2026-02-09T00:00:00.000Z",
+  });
+  assert.match(single.evidence ?? "", /decisiveEdge=fill/);
+  assert.doesNotMatch(single.evidence ?? "", /edges=/);
+  assert.doesNotMatch(single.message, /every edge/);
+});
@@ -0,0 +1,100 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { FigmaClient } from "../src/core/types.js";
+import { resolvePageFrameTargets, selectPageFrames } from "../src/figma/page-frames.js";
+import { buildFigmaNodeUrl, parseFigmaFileUrl } from "../src/figma/url.js";
+
+const pageXml = `<canvas id="0:1" name="Page 1">
+  <frame id="1:1" name="Home / Desktop" x="0" y="0" width="1440" height="900">
+    <frame id="1:2" name="Header" x="0" y="0" width="1440" height="80" />
+  </frame>
+  <section id="2:1" name="Checkout" x="0" y="1000" width="3000" height="1000">
+    <frame id="2:2" name="Checkout / Cart" x="0" y="0" width="1440" height="900" />
+    <frame id="2:3" name="Checkout / Payment" x="1500" y="0" width="1440" height="900" />
+  </section>
+  <component-set id="3:1" name="Button" x="0" y="2000" width="400" height="200">
+    <symbol id="3:2" name="State=Default" x="0" y="0" width="120" height="40" />
+  </component-set>
+  <frame id="4:1" name="Archive / Old Home" x="0" y="3000" width="1440" height="900" hidden="true" />
+  <text id="5:1" name="Page note" x="0" y="4000" width="200" height="20" />
+</canvas>`;
+
+test("selectPageFrames returns top-level frames, descending into sections only", () => {
+  const frames = selectPageFrames(pageXml);
+
+  assert.deepEqual(
+    frames.map((frame) => frame.id),
+    ["1:1", "2:2", "2:3", "3:1"],
+  );
+});
+
+test("selectPageFrames applies include and exclude name globs case-insensitively", () => {
+  const included = selectPageFrames(pageXml, { include: ["checkout /*"] });
+  assert.deepEqual(
+    included.map((frame) => frame.id),
+    ["2:2", "2:3"],
+  );
+
+  const excluded = selectPageFrames(pageXml, {
+    include: ["Checkout*", "Home*"],
+    exclude: ["*Payment"],
+  });
+  assert.deepEqual(
+    excluded.map((frame) => frame.id),
+    ["1:1", "2:2"],
+  );
+});
+
+test("resolvePageFrameTargets builds one frame URL per selected frame", async () => {
+  const requested: string[] = [];
+  const client: FigmaClient = {
+    fetchTarget: async () => {
+      throw new Error("not used");
+    },
+    fetchMetadata: async (figmaUrl) => {
+      requested.push(figmaUrl);
+      return pageXml;
+    },
+  };
+
+  const targets = await resolvePageFrameTargets(
+    client,
+    "https://www.figma.com/design/FILE123/Shop",
+    { exclude: ["Button"] },
+  );
+
+  assert.deepEqual(requested, ["https://www.figma.com/design/FILE123/Shop"]);
+  assert.deepEqual(
+    targets.map((target) => parseFigmaFileUrl(target.figmaUrl).nodeId),
+    ["1:1", "2:2", "2:3"],
+  );
+  assert.equal(
+    targets[0].figmaUrl,
+    buildFigmaNodeUrl("https://www.figma.com/design/FILE123/Shop", "1:1"),
+  );
+  assert.match(targets[0].figmaUrl, /node-id=1-1/);
+});
+
+test("resolvePageFrameTargets fails when no frames match or metadata is unavailable", async () => {
+  const client: FigmaClient = {
+    fetchTarget: async () => {
+      throw new Error("not used");
+    },
+    fetchMetadata: async () => pageXml,
+  };
+
+  await assert.rejects(
+    resolvePageFrameTargets(client, "https://www.figma.com/design/FILE123/Shop", {
+      include: ["Nothing*"],
+    }),
+    /No top-level frames matched/,
+  );
+
+  await assert.rejects(
+    resolvePageFrameTargets(
+      { fetchTarget: client.fetchTarget },
+      "https://www.figma.com/design/FILE123/Shop",
+    ),
+    /cannot enumerate page frames/,
+  );
+});
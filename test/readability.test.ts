@@ -0,0 +1,117 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { RULE_CATALOG } from "../src/core/ruleCatalog.js";
+import type { ReadabilityConfig } from "../src/core/types.js";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { readabilityRule } from "../src/rules/rule-readability.js";
+import { buildSarifLog } from "../src/report/sarif.js";
+
+function auditText(children: unknown[], readability?: ReadabilityConfig) {
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Promo",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Promo",
+        type: "FRAME",
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 400 },
+        children,
+      },
+    },
+    warnings: [],
+  });
+
+  return readabilityRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T12:00:00.000Z",
+    readability,
+  });
+}
+
+function text(id: string, characters: string, style: Record<string, unknown>) {
+  return { id, name: `Text ${id}`, type: "TEXT", characters, style };
+}
+
+test("readability flags small, thin, and long all-caps text with default thresholds", () => {
+  const findings = auditText([
+    text("2:1", "Terms apply", { fontSize: 10, fontWeight: 400 }),
+    text("2:2", "Limited offer", { fontSize: 14, fontWeight: 300 }),
+    text("2:3", "FREE SHIPPING ON EVERY ORDER OVER FIFTY DOLLARS", {
+      fontSize: 16,
+      fontWeight: 700,
+    }),
+    text("2:4", "Free shipping on every order over fifty dollars", {
+      fontSize: 16,
+      fontWeight: 700,
+      textCase: "UPPER",
+    }),
+    text("2:5", "SALE", { fontSize: 16, fontWeight: 700 }),
+    text("2:6", "Readable body copy", { fontSize: 16, fontWeight: 400 }),
+  ]);
+
+  assert.deepEqual(
+    findings.map((finding) => [finding.targetRef.nodeId, finding.message.split(" ")[0]]),
+    [
+      ["2:1", "Text"],
+      ["2:2", "Font"],
+      ["2:3", "All-caps"],
+      ["2:4", "All-caps"],
+    ],
+  );
+  assert.ok(findings.every((finding) => finding.severity === "minor"));
+  assert.ok(findings.every((finding) => finding.wcagCriterion === "best-practice"));
+  assert.match(findings[3].evidence ?? "", /textCase=UPPER/);
+});
+
+test("readability honours configured thresholds", () => {
+  const findings = auditText(
+    [
+      text("2:1", "Terms apply", { fontSize: 12, fontWeight: 400 }),
+      text("2:2", "FREE SHIPPING", { fontSize: 16, fontWeight: 700 }),
+    ],
+    { minFontSize: 13, smallTextSize: 14, minSmallTextWeight: 500, maxAllCapsLength: 8 },
+  );
+
+  assert.deepEqual(
+    findings.map((finding) => finding.targetRef.nodeId),
+    ["2:1", "2:1", "2:2"],
+  );
+});
+
+test("readability is catalogued as a best-practice rule and tagged that way in SARIF", () => {
+  const entry = RULE_CATALOG.find((rule) => rule.id === "BP-readability");
+  assert.equal(entry?.category, "best-practice");
+  assert.ok(
+    RULE_CATALOG.filter((rule) => rule.id.startsWith("WCAG-")).every(
+      (rule) => rule.category === "wcag",
+    ),
+  );
+
+  const sarif = buildSarifLog({
+    runId: "run-1",
+    startedAt: "2026-02-09T12:00:00.000Z",
+    finishedAt: "2026-02-09T12:00:01.000Z",
+    wcagVersion: "2.2",
+    level: "AA",
+    summary: {
+      totalTargets: 1,
+      totalFindings: 0,
+      suppressedFindings: 0,
+      manualReviewFindings: 0,
+      exemptFindings: 0,
+      inactiveExemptFindings: 0,
+      bySeverity: { blocker: 0, critical: 0, major: 0, minor: 0 },
+      failedTargets: 0,
+      warnings: [],
+    },
+    targets: [],
+    findings: [],
+    manualChecks: [],
+  });
+  const rule = sarif.runs[0].tool.driver.rules.find(
+    (candidate) => candidate.id === "BP-readability",
+  );
+  assert.deepEqual(rule?.properties.tags, ["accessibility", "best-practice"]);
+});
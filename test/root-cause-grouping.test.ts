@@ -0,0 +1,199 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { applyBaseline } from "../src/baseline/compare.js";
+import type { AuditReport, Finding } from "../src/core/types.js";
+import { groupFindingsByRootCause } from "../src/grouping/rootCause.js";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+
+const FIGMA_URL = "https://www.figma.com/file/demo/checkout?node-id=1-1";
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const PALE = { r: 0.75, g: 0.75, b: 0.75, a: 1 };
+const DARK = { r: 0.2, g: 0.2, b: 0.2, a: 1 };
+
+function solid(color: { r: number; g: number; b: number; a: number }) {
+  return [{ type: "SOLID", color }];
+}
+
+function instance(index: number, textColor = PALE) {
+  return {
+    id: `2:${index}`,
+    name: "Button",
+    type: "INSTANCE",
+    componentId: "10:1",
+    fills: solid(WHITE),
+    absoluteBoundingBox: { x: 20, y: 40 * index, width: 120, height: 32 },
+    children: [
+      {
+        id: `I2:${index};10:2`,
+        name: "Label",
+        type: "TEXT",
+        characters: "Continue",
+        style: { fontSize: 14 },
+        fills: solid(textColor),
+        absoluteBoundingBox: { x: 28, y: 40 * index + 8, width: 80, height: 16 },
+      },
+    ],
+  };
+}
+
+function frame(children: unknown[]) {
+  return normalizeTarget({
+    figmaUrl: FIGMA_URL,
+    nodeId: "1:1",
+    frameName: "Checkout",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Checkout",
+        type: "FRAME",
+        fills: solid(WHITE),
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 400 },
+        children,
+      },
+    },
+    warnings: [],
+  });
+}
+
+function evaluate(target: ReturnType<typeof frame>): Finding[] {
+  return textContrastRule.evaluate({ target, reportStartIso: "2026-02-09T12:00:00.000Z" });
+}
+
+test("instances record their main component from REST and plugin payloads", () => {
+  const target = frame([
+    instance(1),
+    {
+      id: "3:1",
+      name: "Chip",
+      type: "INSTANCE",
+      mainComponent: { id: "11:1", name: "Chip / Neutral" },
+      absoluteBoundingBox: { x: 200, y: 20, width: 60, height: 24 },
+    },
+  ]);
+
+  const button = target.nodes.find((node) => node.id === "2:1")!;
+  assert.equal(button.componentId, "10:1");
+  assert.equal(button.componentName, undefined);
+  const chip = target.nodes.find((node) => node.id === "3:1")!;
+  assert.equal(chip.componentId, "11:1");
+  assert.equal(chip.componentName, "Chip / Neutral");
+});
+
+test("repeated instance failures fold into one finding with an occurrence list", () => {
+  const target = frame([
+    instance(1),
+    instance(2),
+    instance(3),
+    instance(4, DARK),
+    instance(5, { r: 0.6, g: 0.6, b: 0.6, a: 1 }),
+  ]);
+  const raw = evaluate(target);
+  assert.equal(raw.length, 4);
+  assert.ok(raw.every((finding) => finding.componentId === "10:1"));
+
+  const grouped = groupFindingsByRootCause(raw, target);
+  assert.equal(grouped.length, 2);
+
+  const repeated = grouped.find((finding) => finding.occurrences)!;
+  assert.deepEqual(
+    repeated.occurrences!.map((occurrence) => occurrence.nodeId),
+    ["I2:1;10:2", "I2:2;10:2", "I2:3;10:2"],
+  );
+  assert.equal(repeated.targetRef.nodeId, "I2:1;10:2");
+  assert.equal(repeated.id, raw.find((finding) => finding.targetRef.nodeId === "I2:1;10:2")!.id);
+  assert.match(repeated.message, /Repeated in 3 instances of Button\.$/);
+  assert.match(
+    repeated.recommendation ?? "",
+    /^Fix at source component Button: https:\/\/www\.figma\.com\/file\/demo\/checkout\?node-id=10-1/,
+  );
+
+  const single = grouped.find((finding) => !finding.occurrences)!;
+  assert.equal(single.targetRef.nodeId, "I2:5;10:2");
+  assert.notEqual(single.rootCauseKey, repeated.rootCauseKey);
+});
+
+test("suppressed and unsuppressed occurrences are not folded together", () => {
+  const target = frame([instance(1), instance(2), instance(3)]);
+  const raw = evaluate(target).map((finding) =>
+    finding.targetRef.nodeId === "I2:3;10:2"
+      ? {
+          ...finding,
+          suppressed: {
+            ruleId: finding.ruleId,
+            targetId: finding.targetRef.nodeId,
+            reason: "Approved",
+            expiresOn: "2099-01-01",
+            matchedAt: "2026-02-09T12:00:00.000Z",
+          },
+        }
+      : finding,
+  );
+
+  const grouped = groupFindingsByRootCause(raw, target);
+  assert.equal(grouped.length, 2);
+  assert.equal(grouped.find((finding) => finding.suppressed)?.occurrences, undefined);
+  assert.equal(grouped.find((finding) => !finding.suppressed)?.occurrences?.length, 2);
+});
+
+test("baseline matching sees through grouped occurrences", () => {
+  const target = frame([instance(1), instance(2), instance(3)]);
+  const raw = evaluate(target);
+  const grouped = groupFindingsByRootCause(raw, target);
+  const baseline = { findings: raw } as AuditReport;
+
+  const result = applyBaseline(grouped, baseline, [FIGMA_URL]);
+  assert.equal(result.findings.length, 1);
+  assert.equal(result.findings[0].baselineStatus, "existing");
+  assert.deepEqual(result.fixedFindings, []);
+
+  const reverse = applyBaseline(raw, { findings: grouped } as AuditReport, [FIGMA_URL]);
+  assert.ok(reverse.findings.every((finding) => finding.baselineStatus === "existing"));
+  assert.deepEqual(reverse.fixedFindings, []);
+});
+
+test("different layers of one component do not fold into one root cause", () => {
+  const withIcon = (index: number) => {
+    const button = instance(index);
+    button.children.push({
+      ...button.children[0],
+      id: `I2:${index};10:3`,
+      name: "Hint",
+    });
+    return button;
+  };
+  const target = frame([withIcon(1), withIcon(2)]);
+
+  const grouped = groupFindingsByRootCause(evaluate(target), target);
+  assert.equal(grouped.length, 2);
+  assert.deepEqual(
+    grouped.map((finding) => finding.occurrences?.map((occurrence) => occurrence.nodeId)),
+    [
+      ["I2:1;10:2", "I2:2;10:2"],
+      ["I2:1;10:3", "I2:2;10:3"],
+    ],
+  );
+});
+
+test("library component groups link into their own file or not at all", () => {
+  const remote = (index: number, mainComponent: Record<string, unknown>) => ({
+    ...instance(index),
+    componentId: undefined,
+    mainComponent: { id: "10:1", name: "Button", remote: true, ...mainComponent },
+  });
+
+  const keyed = frame([remote(1, { fileKey: "LIB42" }), remote(2, { fileKey: "LIB42" })]);
+  const [linked] = groupFindingsByRootCause(evaluate(keyed), keyed);
+  assert.match(
+    linked.recommendation ?? "",
+    /^Fix at source component Button: https:\/\/www\.figma\.com\/file\/LIB42\?node-id=10-1$/,
+  );
+
+  const unkeyed = frame([remote(1, {}), remote(2, {})]);
+  const [unlinked] = groupFindingsByRootCause(evaluate(unkeyed), unkeyed);
+  assert.match(
+    unlinked.recommendation ?? "",
+    /^Fix at source component Button: node 10:1 in its library file$/,
+  );
+  assert.doesNotMatch(unlinked.recommendation ?? "", /figma\.com\/file\/demo/);
+});
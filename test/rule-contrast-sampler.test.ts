@@ -2,6 +2,7 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import type { NormalizedTarget } from "../src/core/types.js";
 import { textContrastRule } from "../src/rules/rule-contrast-text.js";
+import { nonTextContrastRule } from "../src/rules/rule-nontext-contrast.js";
 
 test("text contrast uses sampled background color when traversal has no solid fill", () => {
   const target: NormalizedTarget = {
@@ -147,3 +148,61 @@ test("text contrast prefers screenshot background over document fallback backgro
   const nodeFinding = findings.find((entry) => entry.targetRef.nodeId === "1:2");
   assert.equal(nodeFinding, undefined);
 });
+
+test("non-text contrast samples a ring and stroke band when the background is unresolved", () => {
+  const target: NormalizedTarget = {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Demo",
+    warnings: [],
+    contextSource: "metadata-fallback",
+    nodes: [
+      {
+        id: "1:1",
+        name: "Root",
+        type: "FRAME",
+        bounds: { x: 0, y: 0, width: 200, height: 80 },
+        fills: [],
+        strokes: [],
+        isInteractive: false,
+      },
+      {
+        id: "1:2",
+        parentId: "1:1",
+        name: "Email input",
+        type: "FRAME",
+        bounds: { x: 12, y: 12, width: 160, height: 40 },
+        fills: [],
+        strokes: [{ r: 200, g: 200, b: 200, a: 1 }],
+        isInteractive: true,
+      },
+    ],
+  };
+
+  const [unsampled] = nonTextContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-02-11T00:00:00.000Z",
+  });
+  assert.equal(unsampled.status, "needs-manual-review");
+
+  const regions: string[] = [];
+  const [finding] = nonTextContrastRule.evaluate({
+    target,
+    reportStartIso: "2026-02-11T00:00:00.000Z",
+    sampleBackgroundColor: (_node, _foreground, region) => {
+      regions.push(`background:${region}`);
+      return { r: 255, g: 255, b: 255, a: 1 };
+    },
+    sampleForegroundColor: (_node, _background, region) => {
+      regions.push(`foreground:${region}`);
+      return { r: 204, g: 204, b: 204, a: 1 };
+    },
+  });
+
+  assert.deepEqual(regions, ["background:ring", "foreground:stroke-band"]);
+  assert.equal(finding.status, "failed");
+  assert.match(finding.message, /^Non-text contrast ratio 1\.61:1/);
+  assert.match(finding.evidence ?? "", /foreground=rgba\(204, 204, 204, 1\)/);
+  assert.match(finding.evidence ?? "", /foregroundSource=\[screenshot-stroke-band\]/);
+  assert.match(finding.evidence ?? "", /backgroundSource=\[screenshot-ring\]/);
+});
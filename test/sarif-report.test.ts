@@ -0,0 +1,112 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RULE_CATALOG } from "../src/core/ruleCatalog.js";
+import { buildSarifLog, writeSarifReport } from "../src/report/sarif.js";
+import type { AuditReport, Finding } from "../src/core/types.js";
+
+const failedFinding: Finding = {
+  id: "abc123def456",
+  ruleId: "WCAG-1.4.3-text-contrast-minimum",
+  wcagCriterion: "1.4.3",
+  severity: "critical",
+  status: "failed",
+  message: "Text contrast ratio 3.95:1 is below required 4.5:1.",
+  evidence: "Node 2:1 (Muted label)",
+  targetRef: {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-2",
+    nodeId: "2:1",
+    frameName: "Checkout Form",
+    layerPath: "Checkout Form > Muted label",
+  },
+};
+
+const manualFinding: Finding = {
+  ...failedFinding,
+  id: "fff000fff000",
+  ruleId: "WCAG-1.4.11-nontext-contrast",
+  wcagCriterion: "1.4.11",
+  severity: "major",
+  status: "needs-manual-review",
+  message: "Could not reliably determine non-text foreground/background colors.",
+  suppressed: {
+    ruleId: "WCAG-1.4.11-nontext-contrast",
+    targetId: "2:1",
+    reason: "Approved by design review",
+    expiresOn: "2026-12-31",
+    owner: "design-systems",
+    matchedAt: "2026-02-09T12:00:00.000Z",
+  },
+};
+
+function buildReport(findings: Finding[]): AuditReport {
+  return {
+    runId: "run-sarif",
+    startedAt: "2026-02-09T12:00:00.000Z",
+    finishedAt: "2026-02-09T12:00:01.000Z",
+    wcagVersion: "2.2",
+    level: "AA",
+    summary: {
+      totalTargets: 1,
+      totalFindings: findings.length,
+      suppressedFindings: 1,
+      manualReviewFindings: 1,
+      exemptFindings: 0,
+      inactiveExemptFindings: 0,
+      bySeverity: { blocker: 0, critical: 1, major: 0, minor: 0 },
+      failedTargets: 1,
+      warnings: [],
+    },
+    targets: [],
+    findings,
+    manualChecks: [],
+  };
+}
+
+test("sarif log maps findings to results with rule metadata from the catalog", () => {
+  const log = buildSarifLog(buildReport([failedFinding, manualFinding]));
+  const run = log.runs[0];
+
+  assert.equal(log.version, "2.1.0");
+  assert.deepEqual(
+    run.tool.driver.rules.map((rule) => rule.id),
+    RULE_CATALOG.map((rule) => rule.id),
+  );
+
+  const [failed, manual] = run.results;
+  assert.equal(failed.ruleId, failedFinding.ruleId);
+  assert.equal(run.tool.driver.rules[failed.ruleIndex!].id, failedFinding.ruleId);
+  assert.equal(failed.kind, "fail");
+  assert.equal(failed.level, "error");
+  assert.deepEqual(failed.properties.tags, ["WCAG-1.4.3"]);
+  assert.equal(
+    failed.locations[0].logicalLocations[0].fullyQualifiedName,
+    "Checkout Form > Muted label",
+  );
+  assert.equal(failed.locations[0].logicalLocations[0].name, "Muted label");
+  assert.equal(failed.partialFingerprints["aaAuditorFindingId/v1"], failedFinding.id);
+  assert.equal(failed.suppressions, undefined);
+
+  assert.equal(manual.kind, "review");
+  assert.equal(manual.level, "none");
+  assert.equal(manual.suppressions?.[0].kind, "external");
+  assert.equal(manual.suppressions?.[0].justification, "Approved by design review");
+  assert.equal(manual.suppressions?.[0].properties.expiresOn, "2026-12-31");
+});
+
+test("writeSarifReport writes audit-report.sarif", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-sarif-"));
+
+  try {
+    const outputPath = await writeSarifReport(outDir, buildReport([failedFinding]));
+    assert.equal(outputPath, join(outDir, "audit-report.sarif"));
+
+    const written = JSON.parse(await readFile(outputPath, "utf8"));
+    assert.equal(written.runs[0].results.length, 1);
+    assert.equal(written.runs[0].automationDetails.id, "run-sarif");
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,190 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deflateSync } from "node:zlib";
+import { DEFAULT_CONFIG } from "../src/config/schema.js";
+import { runAudit } from "../src/core/auditRunner.js";
+import { annotateScreenshot } from "../src/core/screenshot-annotator.js";
+import { createScreenshotLocator } from "../src/core/screenshot-sampler.js";
+import type { FigmaTargetPayload, Finding, NormalizedTarget } from "../src/core/types.js";
+
+const TARGET: NormalizedTarget = {
+  figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+  nodeId: "1:1",
+  frameName: "Demo",
+  warnings: [],
+  nodes: [
+    {
+      id: "1:1",
+      name: "Root",
+      type: "FRAME",
+      bounds: { x: 0, y: 0, width: 60, height: 40 },
+      fills: [],
+      strokes: [],
+      isInteractive: false,
+    },
+    {
+      id: "1:2",
+      parentId: "1:1",
+      name: "Caption",
+      type: "TEXT",
+      bounds: { x: 10, y: 20, width: 30, height: 10 },
+      fills: [],
+      strokes: [],
+      isInteractive: false,
+    },
+    {
+      id: "1:3",
+      parentId: "1:1",
+      name: "Badge",
+      type: "FRAME",
+      bounds: { x: 44, y: 2, width: 12, height: 8 },
+      fills: [],
+      strokes: [],
+      isInteractive: false,
+    },
+  ],
+};
+
+function finding(id: string, nodeId: string, partial: Partial<Finding> = {}): Finding {
+  return {
+    id,
+    ruleId: "WCAG-1.4.3-text-contrast",
+    wcagCriterion: "1.4.3",
+    severity: "blocker",
+    status: "failed",
+    message: "Text contrast ratio 1.20:1 is below required 4.5:1.",
+    targetRef: { figmaUrl: TARGET.figmaUrl, nodeId, frameName: "Demo" },
+    ...partial,
+  };
+}
+
+function pixel(target: NormalizedTarget, bytes: Uint8Array, x: number, y: number): number[] {
+  const image = createScreenshotLocator(target, { bytes, ext: "png" })!.image;
+  const idx = (y * image.width + x) * 4;
+  return [...image.rgba.slice(idx, idx + 4)];
+}
+
+test("annotated screenshot numbers a severity-colored box per open finding", () => {
+  const bytes = buildSolidPng(60, 40, { r: 255, g: 255, b: 255, a: 255 });
+  const annotated = annotateScreenshot(TARGET, { bytes, ext: "png" }, [
+    finding("blocker-1", "1:2"),
+    finding("manual-1", "1:3", { status: "needs-manual-review", severity: "major" }),
+    finding("exempt-1", "1:3", { status: "exempt" }),
+    finding("offscreen-1", "9:9"),
+  ]);
+  assert.ok(annotated);
+
+  assert.deepEqual([...annotated!.markers], [
+    ["blocker-1", 1],
+    ["manual-1", 2],
+  ]);
+  // Box outline on the caption's left edge, untouched pixels inside it.
+  assert.deepEqual(pixel(TARGET, annotated!.bytes, 10, 25), [153, 27, 27, 255]);
+  assert.deepEqual(pixel(TARGET, annotated!.bytes, 25, 25), [255, 255, 255, 255]);
+  assert.deepEqual(pixel(TARGET, annotated!.bytes, 45, 6), [91, 33, 182, 255]);
+  // Label above the caption: a colored tag with white digit pixels.
+  assert.deepEqual(pixel(TARGET, annotated!.bytes, 10, 9), [153, 27, 27, 255]);
+  assert.deepEqual(pixel(TARGET, annotated!.bytes, 14, 11), [255, 255, 255, 255]);
+});
+
+test("audit writes the annotated screenshot and links finding rows to its boxes", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-annotated-"));
+  const payload: FigmaTargetPayload = {
+    figmaUrl: "https://www.figma.com/file/demo/checkout?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Checkout",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Checkout",
+        type: "FRAME",
+        fills: [{ type: "SOLID", color: { r: 1, g: 1, b: 1, a: 1 } }],
+        absoluteBoundingBox: { x: 0, y: 0, width: 60, height: 40 },
+        children: [
+          {
+            id: "1:2",
+            name: "Caption",
+            type: "TEXT",
+            characters: "Faint",
+            style: { fontSize: 12 },
+            fills: [{ type: "SOLID", color: { r: 0.9, g: 0.9, b: 0.9, a: 1 } }],
+            absoluteBoundingBox: { x: 10, y: 20, width: 30, height: 10 },
+          },
+        ],
+      },
+    },
+    screenshot: { bytes: buildSolidPng(60, 40, { r: 255, g: 255, b: 255, a: 255 }), ext: "png" },
+    warnings: [],
+  };
+
+  try {
+    const result = await runAudit(
+      {
+        targets: [{ figmaUrl: payload.figmaUrl }],
+        outDir,
+        config: DEFAULT_CONFIG,
+        reportFormat: "both",
+        failOn: ["blocker", "critical"],
+      },
+      {
+        figmaClient: { fetchTarget: async () => payload },
+        now: () => new Date("2026-03-20T12:00:00.000Z"),
+        runIdFactory: () => "run-annotated",
+      },
+    );
+
+    const [target] = result.report.targets;
+    assert.equal(target.annotatedScreenshotPath, join(outDir, "assets", "1_1-annotated.png"));
+    const caption = target.findings.find((entry) => entry.targetRef.nodeId === "1:2");
+    assert.equal(caption?.screenshotMarker, 1);
+
+    const png = await readFile(target.annotatedScreenshotPath!);
+    assert.equal(png.subarray(1, 4).toString("ascii"), "PNG");
+
+    const html = await readFile(result.htmlPath!, "utf8");
+    assert.match(html, /<p id="screenshot-1_1"><img src="assets\/1_1-annotated\.png"/);
+    assert.match(html, /<a class="badge marker [a-z]+" href="#screenshot-1_1"[^>]*>1<\/a>/);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+function buildSolidPng(
+  width: number,
+  height: number,
+  color: { r: number; g: number; b: number; a: number },
+): Uint8Array {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  const raw = Buffer.alloc(height * (1 + width * 4));
+  for (let y = 0; y < height; y += 1) {
+    const rowStart = y * (1 + width * 4);
+    for (let x = 0; x < width; x += 1) {
+      const px = rowStart + 1 + x * 4;
+      raw[px] = color.r;
+      raw[px + 1] = color.g;
+      raw[px + 2] = color.b;
+      raw[px + 3] = color.a;
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from("89504e470d0a1a0a", "hex"),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return Buffer.concat([length, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+}
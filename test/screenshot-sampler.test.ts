@@ -271,6 +271,115 @@ test("foreground sampler prefers higher-contrast glyph color over low-contrast a
   assert.equal(sampled?.b, 119);
 });
 
+test("ring and stroke-band regions read a component's surroundings and border", () => {
+  // A 2px gray border around a white input with a dark label, on a light gray panel.
+  const pngBytes = buildPng(40, 32, (x, y) => {
+    const inNode = x >= 8 && x < 32 && y >= 8 && y < 24;
+    const inBorder = inNode && (x < 10 || x >= 30 || y < 10 || y >= 22);
+    const inLabel = x >= 14 && x < 26 && y >= 14 && y < 18;
+    if (inBorder) {
+      return { r: 100, g: 100, b: 100, a: 255 };
+    }
+    if (inLabel) {
+      return { r: 20, g: 20, b: 20, a: 255 };
+    }
+    if (inNode) {
+      return { r: 255, g: 255, b: 255, a: 255 };
+    }
+    return { r: 240, g: 240, b: 240, a: 255 };
+  });
+
+  const target: NormalizedTarget = {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Demo",
+    warnings: [],
+    nodes: [
+      {
+        id: "1:1",
+        name: "Root",
+        type: "FRAME",
+        bounds: { x: 0, y: 0, width: 40, height: 32 },
+        fills: [],
+        strokes: [],
+        isInteractive: false,
+      },
+      {
+        id: "1:2",
+        parentId: "1:1",
+        name: "Email input",
+        type: "FRAME",
+        bounds: { x: 8, y: 8, width: 24, height: 16 },
+        fills: [],
+        strokes: [],
+        strokeWeight: 2,
+        isInteractive: true,
+      },
+    ],
+  };
+  const screenshot = { bytes: pngBytes, ext: "png" as const };
+  const node = target.nodes.find((entry) => entry.id === "1:2")!;
+
+  const bgSampler = createScreenshotBackgroundSampler(target, screenshot);
+  assert.deepEqual(bgSampler!(node, undefined, "ring"), { r: 240, g: 240, b: 240, a: 1 });
+
+  const fgSampler = createScreenshotForegroundSampler(target, screenshot);
+  const background = { r: 240, g: 240, b: 240, a: 1 };
+  assert.deepEqual(fgSampler!(node, background, "stroke-band"), { r: 100, g: 100, b: 100, a: 1 });
+  // The whole-region text sampler is drawn to the darker label inside.
+  assert.deepEqual(fgSampler!(node, background), { r: 20, g: 20, b: 20, a: 1 });
+});
+
+test("a border that blends into the panel keeps the panel color and reports no border", () => {
+  // A 1px border only 4 levels off the panel, inside a 2px stroke band, around a white input.
+  const pngBytes = buildPng(40, 32, (x, y) => {
+    const inNode = x >= 8 && x < 32 && y >= 8 && y < 24;
+    const inBorder = inNode && (x < 9 || x >= 31 || y < 9 || y >= 23);
+    if (inBorder) {
+      return { r: 236, g: 236, b: 236, a: 255 };
+    }
+    return inNode ? { r: 255, g: 255, b: 255, a: 255 } : { r: 240, g: 240, b: 240, a: 255 };
+  });
+  const target: NormalizedTarget = {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Demo",
+    warnings: [],
+    nodes: [
+      {
+        id: "1:1",
+        name: "Root",
+        type: "FRAME",
+        bounds: { x: 0, y: 0, width: 40, height: 32 },
+        fills: [],
+        strokes: [],
+        isInteractive: false,
+      },
+      {
+        id: "1:2",
+        parentId: "1:1",
+        name: "Email input",
+        type: "FRAME",
+        bounds: { x: 8, y: 8, width: 24, height: 16 },
+        fills: [],
+        strokes: [],
+        strokeWeight: 2,
+        isInteractive: true,
+      },
+    ],
+  };
+  const screenshot = { bytes: pngBytes, ext: "png" as const };
+  const node = target.nodes.find((entry) => entry.id === "1:2")!;
+  const border = { r: 236, g: 236, b: 236, a: 1 };
+  const panel = { r: 240, g: 240, b: 240, a: 1 };
+
+  const bgSampler = createScreenshotBackgroundSampler(target, screenshot);
+  assert.deepEqual(bgSampler!(node, border, "ring"), panel);
+
+  const fgSampler = createScreenshotForegroundSampler(target, screenshot);
+  assert.equal(fgSampler!(node, panel, "stroke-band"), undefined);
+});
+
 function buildSolidPng(
   width: number,
   height: number,
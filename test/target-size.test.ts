@@ -2,6 +2,7 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
+import type { NormalizedTarget } from "../src/core/types.js";
 import { normalizeTarget } from "../src/normalize/model.js";
 import { targetSizeRule } from "../src/rules/rule-target-size.js";
 
@@ -9,12 +10,29 @@ const fixture = JSON.parse(
   readFileSync(join(process.cwd(), "test/fixtures/design-context-violations.json"), "utf8"),
 ) as unknown;
 
+function crowdedNeighbour(x: number) {
+  return {
+    nodeId: "1:2",
+    context: {
+      document: {
+        id: "2:3",
+        type: "RECTANGLE",
+        name: "Secondary button",
+        absoluteBoundingBox: { x, y: 80, width: 20, height: 20 },
+        fills: [{ type: "SOLID", color: { r: 0.2, g: 0.2, b: 0.2, a: 1 } }],
+        reactions: [{ action: "NAVIGATE" }],
+      },
+    },
+  };
+}
+
 test("target size rule fails tiny interactive targets", () => {
   const target = normalizeTarget({
     figmaUrl: "https://www.figma.com/file/demo?node-id=1-2",
     nodeId: "1:2",
     frameName: "Checkout Form",
     designContext: fixture,
+    expandedDesignContexts: [crowdedNeighbour(38)],
     warnings: [],
   });
 
@@ -25,4 +43,93 @@ test("target size rule fails tiny interactive targets", () => {
 
   assert.ok(findings.some((finding) => finding.status === "failed"));
   assert.ok(findings.some((finding) => finding.message.includes("minimum is 24x24px")));
+  assert.match(
+    findings.find((finding) => finding.targetRef.nodeId === "2:2")!.evidence!,
+    /spacingException=failed: 24px circle overlaps the circle of undersized target 2:3/,
+  );
+});
+
+test("target size spacing exception exempts well-spaced undersized targets", () => {
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-2",
+    nodeId: "1:2",
+    frameName: "Checkout Form",
+    designContext: fixture,
+    expandedDesignContexts: [crowdedNeighbour(44)],
+    warnings: [],
+  });
+
+  const findings = targetSizeRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T00:00:00.000Z",
+  });
+
+  assert.equal(findings.length, 2);
+  for (const finding of findings) {
+    assert.equal(finding.status, "exempt");
+    assert.equal(finding.severity, "minor");
+    assert.match(finding.message, /meets the 2\.5\.8 spacing exception/);
+  }
+  assert.match(
+    findings.find((finding) => finding.targetRef.nodeId === "2:2")!.evidence!,
+    /clears all other targets; nearest 2:3 \(Secondary button\) is 18\.0px from centre/,
+  );
+});
+
+test("target size spacing exception uses accumulated bounds for metadata fallback", () => {
+  const toolbar = (x: number) => ({
+    id: `1:${x}`,
+    parentId: "1:1",
+    name: "Icon button",
+    type: "INSTANCE",
+    bounds: { x, y: 4, width: 16, height: 16 },
+    fills: [],
+    strokes: [],
+    isInteractive: true,
+  });
+  const target: NormalizedTarget = {
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Toolbar",
+    warnings: [],
+    contextSource: "metadata-fallback",
+    nodes: [
+      {
+        id: "1:1",
+        parentId: "0:1",
+        name: "Toolbar",
+        type: "FRAME",
+        bounds: { x: 500, y: 300, width: 200, height: 24 },
+        fills: [],
+        strokes: [],
+        isInteractive: false,
+      },
+      {
+        id: "0:1",
+        name: "Page",
+        type: "CANVAS",
+        bounds: { x: 0, y: 0, width: 1000, height: 1000 },
+        fills: [],
+        strokes: [],
+        isInteractive: false,
+      },
+      toolbar(0),
+      toolbar(24),
+      toolbar(40),
+    ],
+  };
+
+  const findings = targetSizeRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T00:00:00.000Z",
+  });
+  const statusById = Object.fromEntries(
+    findings.map((finding) => [finding.targetRef.nodeId, finding.status]),
+  );
+
+  assert.deepEqual(statusById, {
+    "1:0": "exempt",
+    "1:24": "failed",
+    "1:40": "failed",
+  });
 });
@@ -0,0 +1,158 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { textSpacingRule } from "../src/rules/rule-text-spacing.js";
+
+const BODY_COPY =
+  "Your order ships within two business days and arrives in under a week.";
+
+function auditFrame(children: unknown[], frameExtra: Record<string, unknown> = {}) {
+  const target = normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Order",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Order",
+        type: "FRAME",
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 400 },
+        children: [
+          {
+            id: "2:1",
+            name: "Card",
+            type: "FRAME",
+            absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 120 },
+            children,
+            ...frameExtra,
+          },
+        ],
+      },
+    },
+    warnings: [],
+  });
+
+  return textSpacingRule.evaluate({
+    target,
+    reportStartIso: "2026-02-09T12:00:00.000Z",
+  });
+}
+
+function text(id: string, extra: Record<string, unknown>) {
+  return {
+    id,
+    name: "Body",
+    type: "TEXT",
+    characters: BODY_COPY,
+    absoluteBoundingBox: { x: 0, y: 0, width: 360, height: 40 },
+    ...extra,
+  };
+}
+
+test("text spacing flags body text with line height under 1.5x font size", () => {
+  const findings = auditFrame([
+    text("3:1", { style: { fontSize: 16, lineHeightPx: 20 }, textAutoResize: "HEIGHT" }),
+    text("3:2", { style: { fontSize: 16, lineHeightPx: 24 }, textAutoResize: "HEIGHT" }),
+    text("3:3", {
+      characters: "Order summary",
+      style: { fontSize: 32, lineHeightPx: 36 },
+      textAutoResize: "HEIGHT",
+    }),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].targetRef.nodeId, "3:1");
+  assert.equal(findings[0].severity, "major");
+  assert.match(findings[0].message, /1\.25x font size/);
+  assert.match(findings[0].recommendation ?? "", /at least 24px/);
+});
+
+test("text spacing reads plugin-style line height and letter spacing units", () => {
+  const findings = auditFrame([
+    text("3:1", {
+      fontSize: 16,
+      lineHeight: { unit: "PERCENT", value: 130 },
+      letterSpacing: { unit: "PIXELS", value: 0.5 },
+    }),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.match(findings[0].evidence ?? "", /lineHeight=20\.8px/);
+});
+
+test("text spacing flags truncating text that would clip under spacing overrides", () => {
+  const findings = auditFrame([
+    text("3:1", {
+      style: { fontSize: 16, lineHeightPx: 24 },
+      textAutoResize: "TRUNCATE",
+      absoluteBoundingBox: { x: 0, y: 0, width: 360, height: 48 },
+    }),
+    text("3:2", {
+      style: { fontSize: 16, lineHeightPx: 24 },
+      textAutoResize: "HEIGHT",
+      absoluteBoundingBox: { x: 0, y: 60, width: 360, height: 48 },
+    }),
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].targetRef.nodeId, "3:1");
+  assert.equal(findings[0].severity, "major");
+  assert.match(findings[0].evidence ?? "", /constraint=text TRUNCATE/);
+  assert.match(findings[0].evidence ?? "", /estimatedLines=3/);
+  assert.match(findings[0].evidence ?? "", /requiredHeight=72px/);
+});
+
+test("text spacing does not treat fixed-size NONE text as clipped because it overflows", () => {
+  const findings = auditFrame([
+    text("3:1", {
+      characters: "Email",
+      style: { fontSize: 16, lineHeightPx: 19 },
+      textAutoResize: "NONE",
+      absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 19 },
+    }),
+  ]);
+
+  assert.deepEqual(findings, []);
+});
+
+test("text spacing uses fixed-height clipping containers as the height constraint", () => {
+  const clipped = auditFrame(
+    [
+      text("3:1", {
+        style: { fontSize: 16, lineHeightPx: 24 },
+        textAutoResize: "HEIGHT",
+        absoluteBoundingBox: { x: 0, y: 60, width: 360, height: 48 },
+      }),
+    ],
+    { clipsContent: true, layoutSizingVertical: "FIXED" },
+  );
+  assert.equal(clipped.length, 1);
+  assert.match(clipped[0].evidence ?? "", /clipping container 2:1 \(Card\)/);
+  assert.match(clipped[0].evidence ?? "", /availableHeight=60px/);
+
+  // Cards built without auto layout carry no layoutSizingVertical but still clip.
+  const plainFrame = auditFrame(
+    [
+      text("3:1", {
+        style: { fontSize: 16, lineHeightPx: 24 },
+        textAutoResize: "HEIGHT",
+        absoluteBoundingBox: { x: 0, y: 60, width: 360, height: 48 },
+      }),
+    ],
+    { clipsContent: true },
+  );
+  assert.equal(plainFrame.length, 1);
+  assert.match(plainFrame[0].evidence ?? "", /clipping container 2:1 \(Card\)/);
+
+  const hugging = auditFrame(
+    [
+      text("3:1", {
+        style: { fontSize: 16, lineHeightPx: 24 },
+        textAutoResize: "HEIGHT",
+        absoluteBoundingBox: { x: 0, y: 60, width: 360, height: 48 },
+      }),
+    ],
+    { clipsContent: true, layoutSizingVertical: "HUG" },
+  );
+  assert.equal(hugging.length, 0);
+});
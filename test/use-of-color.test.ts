@@ -0,0 +1,198 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { useOfColorRule } from "../src/rules/rule-use-of-color.js";
+
+const BODY = { r: 0.2, g: 0.2, b: 0.2, a: 1 };
+const DARK_BLUE = { r: 0.1, g: 0.2, b: 0.45, a: 1 };
+const BRIGHT_BLUE = { r: 0.3, g: 0.6, b: 1, a: 1 };
+const GREEN = { r: 0.13, g: 0.55, b: 0.13, a: 1 };
+const RED = { r: 0.8, g: 0.1, b: 0.1, a: 1 };
+
+const PARAGRAPH = "Read our privacy policy before you continue.";
+
+function solid(color: { r: number; g: number; b: number; a: number }) {
+  return [{ type: "SOLID", color }];
+}
+
+function normalize(children: unknown[]) {
+  return normalizeTarget({
+    figmaUrl: "https://www.figma.com/file/demo?node-id=1-1",
+    nodeId: "1:1",
+    frameName: "Settings",
+    designContext: {
+      document: {
+        id: "1:1",
+        name: "Settings",
+        type: "FRAME",
+        fills: solid({ r: 1, g: 1, b: 1, a: 1 }),
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 400 },
+        children,
+      },
+    },
+    warnings: [],
+  });
+}
+
+function audit(children: unknown[]) {
+  return useOfColorRule.evaluate({
+    target: normalize(children),
+    reportStartIso: "2026-02-09T12:00:00.000Z",
+  });
+}
+
+// "privacy policy" occupies characters 9-23 of PARAGRAPH.
+function restParagraph(id: string, override: Record<string, unknown>) {
+  return {
+    id,
+    name: "Body",
+    type: "TEXT",
+    characters: PARAGRAPH,
+    fills: solid(BODY),
+    style: { fontSize: 16, fontWeight: 400 },
+    characterStyleOverrides: [...Array(9).fill(0), ...Array(14).fill(1)],
+    styleOverrideTable: { "1": override },
+    absoluteBoundingBox: { x: 0, y: 0, width: 360, height: 24 },
+  };
+}
+
+test("normalization captures REST style overrides as text segments", () => {
+  const target = normalize([
+    restParagraph("2:1", { fills: solid(DARK_BLUE), textDecoration: "UNDERLINE" }),
+  ]);
+  const node = target.nodes.find((candidate) => candidate.id === "2:1");
+
+  assert.deepEqual(
+    node?.textSegments?.map((segment) => [segment.text, segment.textDecoration]),
+    [
+      ["Read our ", undefined],
+      ["privacy policy", "UNDERLINE"],
+      [" before you continue.", undefined],
+    ],
+  );
+  assert.equal(node?.textSegments?.[1].fontWeight, 400);
+});
+
+test("use of color fails color-only links below 3:1 against surrounding text", () => {
+  const findings = audit([restParagraph("2:1", { fills: solid(DARK_BLUE) })]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].status, "failed");
+  assert.equal(findings[0].severity, "major");
+  assert.match(findings[0].message, /"privacy policy" differs from surrounding text only by color/);
+  assert.match(findings[0].evidence ?? "", /run=9-23/);
+});
+
+test("use of color asks for manual review when a color-only link reaches 3:1", () => {
+  const findings = audit([restParagraph("2:1", { fills: solid(BRIGHT_BLUE) })]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].status, "needs-manual-review");
+  assert.match(findings[0].message, /hover and focus/);
+});
+
+test("use of color accepts links with an underline or a clear weight change", () => {
+  const findings = audit([
+    restParagraph("2:1", { fills: solid(DARK_BLUE), textDecoration: "UNDERLINE" }),
+    {
+      id: "2:2",
+      name: "Body",
+      type: "TEXT",
+      characters: PARAGRAPH,
+      style: { fontSize: 16 },
+      styledTextSegments: [
+        { characters: "Read our ", start: 0, end: 9, fills: solid(BODY), fontWeight: 400 },
+        { characters: "privacy policy", start: 9, end: 23, fills: solid(DARK_BLUE), fontWeight: 700 },
+        { characters: " before you continue.", start: 23, end: 44, fills: solid(BODY), fontWeight: 400 },
+      ],
+    },
+  ]);
+
+  assert.equal(findings.length, 0);
+});
+
+function chip(id: string, name: string, fill: typeof GREEN, label: string) {
+  return {
+    id,
+    name,
+    type: "INSTANCE",
+    fills: solid(fill),
+    absoluteBoundingBox: { x: 0, y: 0, width: 72, height: 24 },
+    children: [
+      {
+        id: `${id}-label`,
+        name: "Label",
+        type: "TEXT",
+        characters: label,
+        fills: solid({ r: 1, g: 1, b: 1, a: 1 }),
+      },
+    ],
+  };
+}
+
+test("use of color flags sibling status chips that differ only by fill for review", () => {
+  const findings = audit([
+    {
+      id: "3:1",
+      name: "Deployments",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 100, width: 300, height: 40 },
+      children: [
+        chip("3:2", "Status/Success", GREEN, "Build"),
+        chip("3:3", "Status/Error", RED, "Build"),
+      ],
+    },
+    {
+      id: "4:1",
+      name: "Labelled statuses",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 200, width: 300, height: 40 },
+      children: [
+        chip("4:2", "Status/Success", GREEN, "Passed"),
+        chip("4:3", "Status/Error", RED, "Failed"),
+      ],
+    },
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].targetRef.nodeId, "3:1");
+  assert.equal(findings[0].status, "needs-manual-review");
+  assert.match(findings[0].message, /2 sibling indicators in "Deployments" differ only by fill color/);
+  assert.match(findings[0].evidence ?? "", /3:2 \(Status\/Success\)/);
+});
+
+test("use of color matches chip names by whole segment only", () => {
+  const findings = audit([
+    {
+      id: "5:1",
+      name: "Pipeline",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 100, width: 300, height: 40 },
+      children: [chip("5:2", "Stage", GREEN, "Build"), chip("5:3", "Stage", RED, "Build")],
+    },
+    {
+      id: "6:1",
+      name: "Hero",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 200, width: 300, height: 40 },
+      children: [chip("6:2", "Tagline", GREEN, "Hi"), chip("6:3", "Dotted divider", RED, "Hi")],
+    },
+    {
+      id: "7:1",
+      name: "Screens",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 300, width: 300, height: 40 },
+      children: [chip("7:2", "iOS Status Bar", GREEN, "9:41"), chip("7:3", "iOS Status Bar", RED, "9:41")],
+    },
+    {
+      id: "8:1",
+      name: "Board",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 400, width: 300, height: 40 },
+      children: [chip("8:2", "card_badge", GREEN, "New"), chip("8:3", "card_badge", RED, "New")],
+    },
+  ]);
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].targetRef.nodeId, "8:1");
+});
@@ -0,0 +1,317 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deflateSync } from "node:zlib";
+import { runAudit } from "../src/core/auditRunner.js";
+import type { AppConfig, FigmaTargetPayload } from "../src/core/types.js";
+import { DEFAULT_CONFIG, validateAndNormalizeConfig } from "../src/config/schema.js";
+import { extractVariableModes } from "../src/figma/variable-modes.js";
+import { normalizeTarget } from "../src/normalize/model.js";
+import { applyVariableMode, hasModeBindings } from "../src/normalize/modes.js";
+
+const FIGMA_URL = "https://www.figma.com/design/THEME1/Themes?node-id=10-1";
+const TEXT_RULE = "WCAG-1.4.3-text-contrast-minimum";
+
+const gray = (value: number) => ({ r: value, g: value, b: value, a: 1 });
+
+const variablesLocal = {
+  status: 200,
+  meta: {
+    variableCollections: {
+      "VariableCollectionId:1": {
+        id: "VariableCollectionId:1",
+        name: "Theme",
+        defaultModeId: "1:0",
+        modes: [
+          { modeId: "1:1", name: "Dark" },
+          { modeId: "1:0", name: "Light" },
+          { modeId: "1:2", name: "High Contrast" },
+        ],
+      },
+      "VariableCollectionId:2": {
+        id: "VariableCollectionId:2",
+        name: "Brand",
+        defaultModeId: "2:0",
+        modes: [{ modeId: "2:0", name: "Value" }],
+      },
+    },
+    variables: {
+      "VariableID:1": {
+        id: "VariableID:1",
+        name: "color/surface",
+        resolvedType: "COLOR",
+        variableCollectionId: "VariableCollectionId:1",
+        valuesByMode: { "1:0": gray(1), "1:1": gray(0.1), "1:2": gray(0) },
+      },
+      "VariableID:2": {
+        id: "VariableID:2",
+        name: "color/text",
+        resolvedType: "COLOR",
+        variableCollectionId: "VariableCollectionId:1",
+        valuesByMode: { "1:0": gray(0.2), "1:1": gray(0.35), "1:2": gray(1) },
+      },
+      "VariableID:3": {
+        id: "VariableID:3",
+        name: "brand/blue",
+        resolvedType: "COLOR",
+        variableCollectionId: "VariableCollectionId:2",
+        valuesByMode: { "2:0": { r: 0, g: 0, b: 1, a: 1 } },
+      },
+      "VariableID:4": {
+        id: "VariableID:4",
+        name: "color/accent",
+        resolvedType: "COLOR",
+        variableCollectionId: "VariableCollectionId:1",
+        valuesByMode: {
+          "1:0": { type: "VARIABLE_ALIAS", id: "VariableID:3" },
+          "1:1": { type: "VARIABLE_ALIAS", id: "VariableID:3" },
+          "1:2": gray(1),
+        },
+      },
+      "VariableID:5": {
+        id: "VariableID:5",
+        name: "spacing/sm",
+        resolvedType: "FLOAT",
+        variableCollectionId: "VariableCollectionId:1",
+        valuesByMode: { "1:0": 4, "1:1": 4, "1:2": 4 },
+      },
+    },
+  },
+};
+
+function bound(variableId: string, value: number) {
+  return {
+    type: "SOLID",
+    color: gray(value),
+    boundVariables: { color: { type: "VARIABLE_ALIAS", id: variableId } },
+  };
+}
+
+function themedPayload(): FigmaTargetPayload {
+  return {
+    figmaUrl: FIGMA_URL,
+    nodeId: "10:1",
+    frameName: "Settings",
+    designContext: {
+      document: {
+        id: "10:1",
+        name: "Settings",
+        type: "FRAME",
+        fills: [bound("VariableID:1", 1)],
+        absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+        children: [
+          {
+            id: "10:2",
+            name: "Title",
+            type: "TEXT",
+            characters: "Notifications",
+            style: { fontSize: 14 },
+            fills: [bound("VariableID:2", 0.2)],
+            absoluteBoundingBox: { x: 16, y: 16, width: 200, height: 20 },
+          },
+        ],
+      },
+    },
+    warnings: [],
+  };
+}
+
+function configWith(variableModes: unknown): AppConfig {
+  return validateAndNormalizeConfig({ variableModes });
+}
+
+test("extractVariableModes resolves per-mode colors, aliases, and default-mode fallback", () => {
+  const modeSet = extractVariableModes(variablesLocal)!;
+
+  assert.deepEqual(modeSet.modes, ["Light", "Dark", "High Contrast"]);
+  assert.equal(modeSet.defaultMode, "Light");
+  assert.deepEqual(modeSet.variables["VariableID:1"].values.Dark, { r: 26, g: 26, b: 26, a: 1 });
+  assert.equal(modeSet.variables["VariableID:2"].name, "color/text");
+  assert.deepEqual(modeSet.variables["VariableID:4"].values.Dark, { r: 0, g: 0, b: 255, a: 1 });
+  assert.deepEqual(modeSet.variables["VariableID:4"].values["High Contrast"], gray(255));
+  assert.deepEqual(modeSet.variables["VariableID:3"].values.Light, { r: 0, g: 0, b: 255, a: 1 });
+  assert.equal(modeSet.variables["VariableID:5"], undefined);
+
+  assert.equal(extractVariableModes({ "color/text": "#333333" }), undefined);
+  assert.equal(extractVariableModes(undefined), undefined);
+});
+
+test("applyVariableMode swaps bound fills for the mode's values", () => {
+  const modeSet = extractVariableModes(variablesLocal)!;
+  const target = normalizeTarget(themedPayload());
+
+  assert.ok(hasModeBindings(target, modeSet));
+  const title = target.nodes.find((node) => node.id === "10:2")!;
+  assert.deepEqual(title.fillBindings, [{ variableId: "VariableID:2", opacity: undefined }]);
+
+  const dark = applyVariableMode(target, modeSet, "Dark");
+  assert.deepEqual(dark.nodes.find((node) => node.id === "10:1")?.fills, [
+    { r: 26, g: 26, b: 26, a: 1 },
+  ]);
+  assert.deepEqual(dark.nodes.find((node) => node.id === "10:2")?.fills, [
+    { r: 89, g: 89, b: 89, a: 1 },
+  ]);
+  assert.deepEqual(title.fills, [{ r: 51, g: 51, b: 51, a: 1 }]);
+
+  const unbound = normalizeTarget({ ...themedPayload(), designContext: { document: { id: "1" } } });
+  assert.equal(hasModeBindings(unbound, modeSet), false);
+});
+
+test("mode matrix audit catches a dark-mode-only contrast failure", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-modes-"));
+
+  try {
+    const result = await runAudit(
+      {
+        targets: [{ figmaUrl: FIGMA_URL }],
+        outDir,
+        config: DEFAULT_CONFIG,
+        reportFormat: ["json", "html"],
+        failOn: ["blocker", "critical"],
+      },
+      {
+        figmaClient: {
+          fetchTarget: async () => ({
+            ...themedPayload(),
+            variableModes: extractVariableModes(variablesLocal),
+          }),
+        },
+        now: () => new Date("2026-03-02T12:00:00.000Z"),
+        runIdFactory: () => "run-modes",
+      },
+    );
+
+    const failures = result.report.findings.filter(
+      (finding) => finding.ruleId === TEXT_RULE && finding.status === "failed",
+    );
+    assert.equal(failures.length, 1);
+    assert.deepEqual(failures[0].modes, ["Dark"]);
+    assert.equal(failures[0].targetRef.nodeId, "10:2");
+    assert.deepEqual(result.report.targets[0].modes, ["Light", "Dark", "High Contrast"]);
+    assert.deepEqual(result.report.summary.failuresByMode, {
+      Light: 0,
+      Dark: 1,
+      "High Contrast": 0,
+    });
+    assert.equal(result.shouldFail, true);
+
+    const html = await readFile(join(outDir, "audit-report.html"), "utf8");
+    assert.match(html, /<h3>Variable Modes<\/h3>/);
+    assert.match(html, /<th>Light<\/th><th>Dark<\/th><th>High Contrast<\/th>/);
+    assert.match(html, /Failures in mode: Dark<\/th><td>1<\/td>/);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+test("variableModes config limits or disables the mode matrix", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-modes-"));
+  const run = (config: AppConfig) =>
+    runAudit(
+      {
+        targets: [{ figmaUrl: FIGMA_URL }],
+        outDir,
+        config,
+        reportFormat: ["json"],
+        failOn: ["blocker", "critical"],
+        variableModes: extractVariableModes(variablesLocal),
+      },
+      {
+        figmaClient: { fetchTarget: async () => themedPayload() },
+        now: () => new Date("2026-03-02T12:00:00.000Z"),
+        runIdFactory: () => "run-modes",
+      },
+    );
+
+  try {
+    const limited = await run(configWith({ modes: ["light", "High Contrast"] }));
+    assert.deepEqual(limited.report.targets[0].modes, ["Light", "High Contrast"]);
+    assert.equal(limited.shouldFail, false);
+
+    const disabled = await run(configWith({ enabled: false }));
+    assert.equal(disabled.report.targets[0].modes, undefined);
+    assert.equal(disabled.report.summary.failuresByMode, undefined);
+    assert.ok(disabled.report.findings.every((finding) => finding.modes === undefined));
+
+    assert.throws(
+      () => configWith({ modes: "Dark" }),
+      /variableModes.modes must be an array of mode names/,
+    );
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+test("screenshot pixels are only sampled for the default mode", async () => {
+  const outDir = await mkdtemp(join(tmpdir(), "aa-auditor-modes-"));
+  // No background fill, so the text contrast rule falls back to the (Light) screenshot.
+  const payload = (): FigmaTargetPayload => {
+    const base = themedPayload();
+    const document = (base.designContext as { document: Record<string, unknown> }).document;
+    delete document.fills;
+    return {
+      ...base,
+      screenshot: { bytes: solidWhitePng(400, 300), ext: "png" },
+      variableModes: extractVariableModes(variablesLocal),
+    };
+  };
+  const run = (config: AppConfig) =>
+    runAudit(
+      {
+        targets: [{ figmaUrl: FIGMA_URL }],
+        outDir,
+        config,
+        reportFormat: ["json"],
+        failOn: ["blocker", "critical"],
+      },
+      {
+        figmaClient: { fetchTarget: async () => payload() },
+        now: () => new Date("2026-03-02T12:00:00.000Z"),
+        runIdFactory: () => "run-modes",
+      },
+    );
+  const titleFindings = (result: Awaited<ReturnType<typeof run>>) =>
+    result.report.findings.filter(
+      (finding) => finding.ruleId === TEXT_RULE && finding.targetRef.nodeId === "10:2",
+    );
+
+  try {
+    const darkOnly = titleFindings(await run(configWith({ modes: ["Dark"] })));
+    assert.equal(darkOnly.length, 1);
+    assert.equal(darkOnly[0].status, "needs-manual-review");
+    assert.deepEqual(darkOnly[0].modes, ["Dark"]);
+
+    // Listing Dark first does not hand it the Light screenshot either.
+    const both = titleFindings(await run(configWith({ modes: ["Dark", "Light"] })));
+    assert.deepEqual(
+      both.map((finding) => [finding.status, finding.modes]),
+      [["needs-manual-review", ["Dark"]]],
+    );
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+function solidWhitePng(width: number, height: number): Uint8Array {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  const row = Buffer.alloc(1 + width * 4, 0xff);
+  row[0] = 0; // filter type: None
+  const raw = Buffer.concat(Array.from({ length: height }, () => row));
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length, 0);
+    return Buffer.concat([length, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+  };
+  return Buffer.concat([
+    Buffer.from("89504e470d0a1a0a", "hex"),
+    chunk("IHDR", ihdr),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}